@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { authenticateUser } from "@/lib/data"
+import { setSessionCookie } from "@/lib/auth"
+
+export async function POST(request: Request) {
+  try {
+    const { email, password } = await request.json()
+
+    if (!email || !password) {
+      return NextResponse.json({ error: "Email and password are required" }, { status: 400 })
+    }
+
+    const user = await authenticateUser(email, password)
+
+    if (!user) {
+      return NextResponse.json({ error: "Invalid email or password" }, { status: 401 })
+    }
+
+    return setSessionCookie(NextResponse.json(user), user.id)
+  } catch (error) {
+    console.error("Error signing in:", error)
+    return NextResponse.json({ error: "Failed to sign in" }, { status: 500 })
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { registerUser, ValidationError } from "@/lib/data"
+import { setSessionCookie } from "@/lib/auth"
+
+export async function POST(request: Request) {
+  try {
+    const { name, email, password } = await request.json()
+
+    const user = await registerUser({ name, email, password })
+
+    return setSessionCookie(NextResponse.json(user, { status: 201 }), user.id)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error registering user:", error)
+    return NextResponse.json({ error: "Failed to register" }, { status: 500 })
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server"
-import { createServerSupabaseClient } from "@/lib/supabase-server"
+import { getProjectCustomFields, addCustomField } from "@/lib/data"
+import { requireProjectRole, AuthorizationError } from "@/lib/auth"
 
 // 在 GET 处理程序中，确保返回 isMulti 字段
 export async function GET(request: Request) {
@@ -11,26 +12,16 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: "Project ID is required" }, { status: 400 })
     }
 
-    const supabase = createServerSupabaseClient()
+    await requireProjectRole(projectId, "viewer")
 
-    const { data, error } = await supabase.from("custom_fields").select("*").eq("project_id", projectId)
-
-    if (error) {
-      throw new Error(`Failed to fetch custom fields: ${error.message}`)
-    }
-
-    const customFields = data.map((field) => ({
-      id: field.id,
-      projectId: field.project_id,
-      name: field.name,
-      type: field.type,
-      options: field.options,
-      isRequired: field.is_required,
-      isMulti: field.is_multi, // 确保返回 isMulti 字段
-    }))
+    const customFields = await getProjectCustomFields(projectId)
 
     return NextResponse.json(customFields)
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error("Error fetching custom fields:", error)
     return NextResponse.json({ error: "Failed to fetch custom fields" }, { status: 500 })
   }
@@ -46,37 +37,24 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Project ID, name, and type are required" }, { status: 400 })
     }
 
-    const supabase = createServerSupabaseClient()
+    // 只有项目所有者可以配置自定义字段
+    await requireProjectRole(projectId, "owner")
 
-    const { data, error } = await supabase
-      .from("custom_fields")
-      .insert({
-        project_id: projectId,
-        name,
-        type,
-        options,
-        is_required: isRequired,
-        is_multi: isMulti,
-      })
-      .select()
-      .single()
-
-    if (error) {
-      throw new Error(`Failed to create custom field: ${error.message}`)
-    }
-
-    const customField = {
-      id: data.id,
-      projectId: data.project_id,
-      name: data.name,
-      type: data.type,
-      options: data.options,
-      isRequired: data.is_required,
-      isMulti: data.is_multi, // 确保返回 isMulti 字段
-    }
+    const customField = await addCustomField({
+      projectId,
+      name,
+      type,
+      options,
+      isRequired,
+      isMulti,
+    })
 
     return NextResponse.json(customField)
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error("Error creating custom field:", error)
     return NextResponse.json({ error: "Failed to create custom field" }, { status: 500 })
   }
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { getInvitation, acceptInvitation, ValidationError } from "@/lib/data"
+import { requireUser, AuthorizationError } from "@/lib/auth"
+
+export async function GET(request: Request, { params }: { params: { token: string } }) {
+  try {
+    const invitation = await getInvitation(params.token)
+
+    if (!invitation) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 })
+    }
+
+    // 只返回接受邀请页面需要的字段
+    const { email, role, projectId, projectTitle } = invitation
+    return NextResponse.json({ email, role, projectId, projectTitle })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching invitation:", error)
+    return NextResponse.json({ error: "Failed to fetch invitation" }, { status: 500 })
+  }
+}
+
+// 当前登录用户接受邀请
+export async function POST(request: Request, { params }: { params: { token: string } }) {
+  try {
+    const user = await requireUser()
+
+    const member = await acceptInvitation(params.token, user)
+    return NextResponse.json(member)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error accepting invitation:", error)
+    return NextResponse.json({ error: "Failed to accept invitation" }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { exportProjectArchive } from "@/lib/data"
+import { requireProjectRole, AuthorizationError } from "@/lib/auth"
+
+// 下载项目归档（JSON），可通过 POST /api/projects/archive 导入为新项目
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireProjectRole(params.id, "viewer")
+
+    const archive = await exportProjectArchive(params.id)
+    const filename = `${archive.project.title || "project"}-${archive.exportedAt.slice(0, 10)}.json`
+
+    return new NextResponse(JSON.stringify(archive, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="project.json"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error exporting project archive:", error)
+    return NextResponse.json({ error: "Failed to export project" }, { status: 500 })
+  }
+}
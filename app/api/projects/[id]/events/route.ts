@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server"
+import { subscribeProjectTasks } from "@/lib/data"
+import { requireProjectRole, AuthorizationError } from "@/lib/auth"
+
+export const dynamic = "force-dynamic"
+
+// 定期发送注释行，避免代理因连接空闲而断开
+const HEARTBEAT_INTERVAL = 25000
+
+// 以 Server-Sent Events 推送项目内任务的新增、修改、删除和排序
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireProjectRole(params.id, "viewer")
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error opening project event stream:", error)
+    return NextResponse.json({ error: "Failed to open event stream" }, { status: 500 })
+  }
+
+  const encoder = new TextEncoder()
+  let closed = false
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      const unsubscribe = subscribeProjectTasks(params.id, (event) => send(`data: ${JSON.stringify(event)}\n\n`))
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_INTERVAL)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        unsubscribe()
+      }
+
+      request.signal.addEventListener("abort", () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // 连接已经关闭
+        }
+      })
+
+      // 断线后浏览器 3 秒后自动重连
+      send("retry: 3000\n\n")
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server"
+import { getProjectTaskExport } from "@/lib/data"
+import { requireProjectRole, AuthorizationError } from "@/lib/auth"
+import { toCsv } from "@/lib/task-csv"
+import { buildXlsx } from "@/lib/xlsx"
+
+// 下载项目任务：?format=csv（默认，带 BOM 以便 Excel 识别 UTF-8）或 ?format=xlsx
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireProjectRole(params.id, "viewer")
+
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get("format") || "csv"
+
+    if (format !== "csv" && format !== "xlsx") {
+      return NextResponse.json({ error: "Format must be csv or xlsx" }, { status: 400 })
+    }
+
+    const { project, rows } = await getProjectTaskExport(params.id)
+    const filename = `${project.title || "tasks"}-${new Date().toISOString().slice(0, 10)}.${format}`
+    const disposition = `attachment; filename="tasks.${format}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+
+    if (format === "xlsx") {
+      return new NextResponse(buildXlsx(rows, project.title), {
+        headers: {
+          "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          "Content-Disposition": disposition,
+        },
+      })
+    }
+
+    return new NextResponse(`\uFEFF${toCsv(rows)}`, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": disposition,
+      },
+    })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error exporting tasks:", error)
+    return NextResponse.json({ error: "Failed to export tasks" }, { status: 500 })
+  }
+}
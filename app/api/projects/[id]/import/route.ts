@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { importProjectTasks, ValidationError } from "@/lib/data"
+import { requireProjectRole, AuthorizationError } from "@/lib/auth"
+
+// 按列映射导入 CSV 任务，dryRun 为 true 时只返回校验结果和预览
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { user } = await requireProjectRole(params.id, "editor")
+
+    const { csv, mapping, dryRun } = await request.json()
+
+    if (typeof csv !== "string" || !Array.isArray(mapping)) {
+      return NextResponse.json({ error: "CSV content and column mapping are required" }, { status: 400 })
+    }
+
+    const result = await importProjectTasks(params.id, { csv, mapping, dryRun: !!dryRun }, user)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error importing tasks:", error)
+    return NextResponse.json({ error: "Failed to import tasks" }, { status: 500 })
+  }
+}
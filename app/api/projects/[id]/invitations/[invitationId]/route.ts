@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { revokeInvitation, ValidationError } from "@/lib/data"
+import { requireProjectRole, AuthorizationError } from "@/lib/auth"
+
+export async function DELETE(request: Request, { params }: { params: { id: string; invitationId: string } }) {
+  try {
+    await requireProjectRole(params.id, "owner")
+    await revokeInvitation(params.id, params.invitationId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error revoking invitation:", error)
+    return NextResponse.json({ error: "Failed to revoke invitation" }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { getProjectInvitations, inviteProjectMember, ValidationError } from "@/lib/data"
+import { requireProjectRole, AuthorizationError } from "@/lib/auth"
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireProjectRole(params.id, "owner")
+
+    const invitations = await getProjectInvitations(params.id)
+    return NextResponse.json(invitations)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching invitations:", error)
+    return NextResponse.json({ error: "Failed to fetch invitations" }, { status: 500 })
+  }
+}
+
+// 按邮箱邀请成员，返回的 token 用于生成邀请链接
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { user } = await requireProjectRole(params.id, "owner")
+    const { email, role } = await request.json()
+
+    const invitation = await inviteProjectMember(params.id, email, role || "editor", user.id)
+    return NextResponse.json(invitation, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error creating invitation:", error)
+    return NextResponse.json({ error: "Failed to create invitation" }, { status: 500 })
+  }
+}
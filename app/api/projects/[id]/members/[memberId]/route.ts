@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { updateProjectMemberRole, removeProjectMember, ValidationError } from "@/lib/data"
+import { requireProjectRole, AuthorizationError } from "@/lib/auth"
+import { hasRole } from "@/lib/members"
+
+export async function PATCH(request: Request, { params }: { params: { id: string; memberId: string } }) {
+  try {
+    await requireProjectRole(params.id, "owner")
+
+    const { role } = await request.json()
+
+    const member = await updateProjectMemberRole(params.id, params.memberId, role)
+    return NextResponse.json(member)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error updating member:", error)
+    return NextResponse.json({ error: "Failed to update member" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string; memberId: string } }) {
+  try {
+    // 成员可以自己退出项目，移除其他成员需要所有者权限
+    const { member } = await requireProjectRole(params.id, "viewer")
+    if (member.id !== params.memberId && !hasRole(member.role, "owner")) {
+      throw new AuthorizationError("This action requires the owner role", 403)
+    }
+
+    await removeProjectMember(params.id, params.memberId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error removing member:", error)
+    return NextResponse.json({ error: "Failed to remove member" }, { status: 500 })
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { getProjectMembers } from "@/lib/data"
+import { requireProjectRole, AuthorizationError } from "@/lib/auth"
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireProjectRole(params.id, "viewer")
+
+    const members = await getProjectMembers(params.id)
+    return NextResponse.json(members)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching members:", error)
+    return NextResponse.json({ error: "Failed to fetch members" }, { status: 500 })
+  }
+}
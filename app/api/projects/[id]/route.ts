@@ -1,32 +1,36 @@
 import { NextResponse } from "next/server"
-import { createServerSupabaseClient } from "@/lib/supabase"
+import { getRepository } from "@/lib/repository"
+import { updateProject, ConflictError } from "@/lib/data"
+import { requireProjectRole, AuthorizationError } from "@/lib/auth"
+import { readIfMatch, versionHeaders } from "@/lib/preconditions"
 
 export async function GET(request: Request, { params }: { params: { id: string } }) {
   try {
     const id = params.id
-    const supabase = createServerSupabaseClient()
+    await requireProjectRole(id, "viewer")
 
-    const { data, error } = await supabase.from("projects").select("*").eq("id", id).single()
+    const { data, error } = await getRepository().getProject(id)
 
     if (error) {
       throw new Error(`Project not found: ${error.message}`)
     }
 
-    // Get task count
-    const { count } = await supabase.from("tasks").select("*", { count: "exact", head: true }).eq("project_id", id)
-
     const project = {
       id: data.id,
       title: data.title,
       description: data.description,
       status: data.status,
-      taskCount: count || 0,
+      taskCount: data.task_count || 0,
       created_at: data.created_at,
       updated_at: data.updated_at,
     }
 
-    return NextResponse.json(project)
+    return NextResponse.json(project, { headers: versionHeaders(project.updated_at) })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error("Error fetching project:", error)
     return NextResponse.json({ error: "Failed to fetch project" }, { status: 500 })
   }
@@ -35,6 +39,8 @@ export async function GET(request: Request, { params }: { params: { id: string }
 export async function PUT(request: Request, { params }: { params: { id: string } }) {
   try {
     const id = params.id
+    await requireProjectRole(id, "owner")
+
     const body = await request.json()
     const { title, description, status } = body
 
@@ -43,40 +49,27 @@ export async function PUT(request: Request, { params }: { params: { id: string }
       return NextResponse.json({ error: "项目名称和描述不能为空" }, { status: 400 })
     }
 
-    const supabase = createServerSupabaseClient()
-
-    // Update the project
-    const { data, error } = await supabase
-      .from("projects")
-      .update({
+    // Update the project, only if it is still the version the client edited (If-Match)
+    const updatedProject = await updateProject(
+      id,
+      {
         title,
         description,
         status: status || "planning", // Default to planning if not provided
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", id)
-      .select()
-      .single()
+      },
+      { expectedUpdatedAt: readIfMatch(request) },
+    )
 
-    if (error) {
-      throw new Error(`更新项目失败: ${error.message}`)
+    return NextResponse.json(updatedProject, { headers: versionHeaders(updatedProject.updated_at) })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
     }
 
-    // Get task count
-    const { count } = await supabase.from("tasks").select("*", { count: "exact", head: true }).eq("project_id", id)
-
-    const updatedProject = {
-      id: data.id,
-      title: data.title,
-      description: data.description,
-      status: data.status,
-      taskCount: count || 0,
-      created_at: data.created_at,
-      updated_at: data.updated_at,
+    if (error instanceof ConflictError) {
+      return NextResponse.json({ error: "项目已被其他人修改", current: error.current }, { status: 409 })
     }
 
-    return NextResponse.json(updatedProject)
-  } catch (error) {
     console.error("Error updating project:", error)
     return NextResponse.json(
       {
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { getProjectStatuses, updateProjectStatuses, ValidationError } from "@/lib/data"
+import { requireProjectRole, AuthorizationError } from "@/lib/auth"
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireProjectRole(params.id, "viewer")
+
+    const statuses = await getProjectStatuses(params.id)
+    return NextResponse.json(statuses)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching statuses:", error)
+    return NextResponse.json({ error: "Failed to fetch statuses" }, { status: 500 })
+  }
+}
+
+// 以传入的有序列表替换项目的全部工作流状态
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireProjectRole(params.id, "owner")
+
+    const { statuses } = await request.json()
+
+    if (!Array.isArray(statuses)) {
+      return NextResponse.json({ error: "Statuses must be an array" }, { status: 400 })
+    }
+
+    const updatedStatuses = await updateProjectStatuses(params.id, statuses)
+    return NextResponse.json(updatedStatuses)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error updating statuses:", error)
+    return NextResponse.json(
+      { error: "Failed to update statuses: " + (error instanceof Error ? error.message : String(error)) },
+      { status: 500 },
+    )
+  }
+}
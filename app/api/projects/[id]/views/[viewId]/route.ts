@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server"
+import { getSavedView, updateSavedView, deleteSavedView, ValidationError } from "@/lib/data"
+import { requireProjectRole, AuthorizationError } from "@/lib/auth"
+import { hasRole } from "@/lib/members"
+
+// 视图只对创建者可见，共享后对项目成员可见；其他人的私有视图按不存在处理
+async function requireSavedView(projectId: string, viewId: string) {
+  const { user, member } = await requireProjectRole(projectId, "viewer")
+
+  const view = await getSavedView(viewId)
+  if (!view || view.projectId !== projectId || (!view.shared && view.createdBy !== user.id)) {
+    throw new AuthorizationError("Saved view not found", 404)
+  }
+
+  // 创建者可以修改自己的视图，所有者还可以管理共享的视图
+  const canManage = view.createdBy === user.id || hasRole(member.role, "owner")
+
+  return { view, member, canManage }
+}
+
+export async function GET(request: Request, { params }: { params: { id: string; viewId: string } }) {
+  try {
+    const { view } = await requireSavedView(params.id, params.viewId)
+    return NextResponse.json(view)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching saved view:", error)
+    return NextResponse.json({ error: "Failed to fetch saved view" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: Request, { params }: { params: { id: string; viewId: string } }) {
+  try {
+    const { view, member, canManage } = await requireSavedView(params.id, params.viewId)
+    if (!canManage) {
+      throw new AuthorizationError("Only the creator of this view can change it", 403)
+    }
+
+    const { name, config, shared } = await request.json()
+
+    if (shared && !view.shared && !hasRole(member.role, "editor")) {
+      throw new AuthorizationError("Sharing views requires the editor role", 403)
+    }
+
+    const updatedView = await updateSavedView(params.viewId, { name, config, shared })
+    return NextResponse.json(updatedView)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error updating saved view:", error)
+    return NextResponse.json({ error: "Failed to update saved view" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string; viewId: string } }) {
+  try {
+    const { canManage } = await requireSavedView(params.id, params.viewId)
+    if (!canManage) {
+      throw new AuthorizationError("Only the creator of this view can delete it", 403)
+    }
+
+    await deleteSavedView(params.viewId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error deleting saved view:", error)
+    return NextResponse.json({ error: "Failed to delete saved view" }, { status: 500 })
+  }
+}
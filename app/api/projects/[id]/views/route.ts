@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { getProjectSavedViews, addSavedView, ValidationError } from "@/lib/data"
+import { requireProjectRole, AuthorizationError } from "@/lib/auth"
+import { hasRole } from "@/lib/members"
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { user } = await requireProjectRole(params.id, "viewer")
+
+    const views = await getProjectSavedViews(params.id, user.id)
+    return NextResponse.json(views)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching saved views:", error)
+    return NextResponse.json({ error: "Failed to fetch saved views" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    // 所有成员都可以保存自己的视图，共享给项目需要编辑者权限
+    const { user, member } = await requireProjectRole(params.id, "viewer")
+
+    const { name, config, shared } = await request.json()
+
+    if (shared && !hasRole(member.role, "editor")) {
+      throw new AuthorizationError("Sharing views requires the editor role", 403)
+    }
+
+    const view = await addSavedView(params.id, { name, config, shared: !!shared }, user.id)
+    return NextResponse.json(view, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error creating saved view:", error)
+    return NextResponse.json({ error: "Failed to create saved view" }, { status: 500 })
+  }
+}
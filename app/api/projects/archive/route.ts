@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { importProjectArchive, ValidationError } from "@/lib/data"
+import { requireUser, AuthorizationError } from "@/lib/auth"
+
+// 从项目归档创建新项目，支持旧版本的归档格式
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser()
+
+    const archive = await request.json().catch(() => undefined)
+
+    if (archive === undefined) {
+      return NextResponse.json({ error: "The archive must be valid JSON" }, { status: 400 })
+    }
+
+    const project = await importProjectArchive(archive, user)
+    return NextResponse.json(project, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error importing project archive:", error)
+    return NextResponse.json({ error: "Failed to import project" }, { status: 500 })
+  }
+}
@@ -1,11 +1,25 @@
 import { NextResponse } from "next/server"
-import { getProjects, addProject } from "@/lib/data"
+import {
+  getUserProjects,
+  addProject,
+  createProjectFromTemplate,
+  duplicateProject,
+  getProjectTemplate,
+  ValidationError,
+} from "@/lib/data"
+import { requireProjectRole, requireUser, AuthorizationError } from "@/lib/auth"
 
 export async function GET() {
   try {
-    const projects = await getProjects()
+    // 只返回当前用户参与的项目
+    const user = await requireUser()
+    const projects = await getUserProjects(user.id)
     return NextResponse.json(projects)
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error("Error fetching projects:", error)
     return NextResponse.json({ error: "Failed to fetch projects" }, { status: 500 })
   }
@@ -13,21 +27,57 @@ export async function GET() {
 
 export async function POST(request: Request) {
   try {
+    const user = await requireUser()
+
     const body = await request.json()
-    const { title, description } = body
+    const { title, description, templateId, sourceProjectId, startDate } = body
 
     if (!title || !description) {
       return NextResponse.json({ error: "Title and description are required" }, { status: 400 })
     }
 
-    const newProject = await addProject({
-      title,
-      description,
-      status: "planning",
-    })
+    // 用模板创建项目，模板只对创建者可见
+    if (templateId) {
+      const template = await getProjectTemplate(templateId)
+      if (!template || template.createdBy !== user.id) {
+        return NextResponse.json({ error: "Template not found" }, { status: 404 })
+      }
+
+      if (startDate && !/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+        return NextResponse.json({ error: "Start date must be in YYYY-MM-DD format" }, { status: 400 })
+      }
+
+      const project = await createProjectFromTemplate(templateId, { title, description }, user, startDate)
+      return NextResponse.json(project, { status: 201 })
+    }
+
+    // 复制项目需要能查看原项目
+    if (sourceProjectId) {
+      await requireProjectRole(sourceProjectId, "viewer")
+      const project = await duplicateProject(sourceProjectId, { title, description }, user)
+      return NextResponse.json(project, { status: 201 })
+    }
+
+    // 创建者成为项目所有者
+    const newProject = await addProject(
+      {
+        title,
+        description,
+        status: "planning",
+      },
+      user.id,
+    )
 
     return NextResponse.json(newProject, { status: 201 })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error("Error creating project:", error)
     return NextResponse.json({ error: "Failed to create project" }, { status: 500 })
   }
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { deleteProjectTemplate, getProjectTemplate } from "@/lib/data"
+import { requireUser, AuthorizationError } from "@/lib/auth"
+
+export async function DELETE(request: Request, { params }: { params: { templateId: string } }) {
+  try {
+    const user = await requireUser()
+    const template = await getProjectTemplate(params.templateId)
+
+    // 模板只对创建者可见
+    if (!template || template.createdBy !== user.id) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    await deleteProjectTemplate(params.templateId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error deleting project template:", error)
+    return NextResponse.json({ error: "Failed to delete project template" }, { status: 500 })
+  }
+}
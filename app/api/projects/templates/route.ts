@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server"
+import { getUserProjectTemplates, saveProjectAsTemplate, ValidationError } from "@/lib/data"
+import { requireProjectRole, requireUser, AuthorizationError } from "@/lib/auth"
+
+// 当前用户创建的项目模板
+export async function GET() {
+  try {
+    const user = await requireUser()
+    const templates = await getUserProjectTemplates(user.id)
+    return NextResponse.json(templates)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching project templates:", error)
+    return NextResponse.json({ error: "Failed to fetch project templates" }, { status: 500 })
+  }
+}
+
+// 把项目保存为模板，能查看项目的成员都可以保存
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser()
+    const body = await request.json().catch(() => ({}))
+    const { projectId, name, description } = body
+
+    if (!projectId || typeof projectId !== "string") {
+      return NextResponse.json({ error: "projectId is required" }, { status: 400 })
+    }
+
+    await requireProjectRole(projectId, "viewer")
+
+    const template = await saveProjectAsTemplate(projectId, { name, description }, user.id)
+    return NextResponse.json(template, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error saving project template:", error)
+    return NextResponse.json({ error: "Failed to save project template" }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { searchWorkspace } from "@/lib/data"
+import { requireUser, AuthorizationError } from "@/lib/auth"
+
+const MAX_SEARCH_RESULTS = 50
+
+export async function GET(request: Request) {
+  try {
+    // 只搜索当前用户参与的项目
+    const user = await requireUser()
+
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get("q")?.trim() || ""
+    const limit = Number(searchParams.get("limit") || 20)
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_RESULTS) {
+      return NextResponse.json(
+        { error: `limit must be an integer between 1 and ${MAX_SEARCH_RESULTS}` },
+        { status: 400 },
+      )
+    }
+
+    const results = await searchWorkspace(user.id, query, limit)
+    return NextResponse.json(results)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error searching:", error)
+    return NextResponse.json({ error: "Failed to search" }, { status: 500 })
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { getTaskActivity } from "@/lib/data"
+import { requireTaskRole, AuthorizationError } from "@/lib/auth"
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireTaskRole(params.id, "viewer")
+
+    const activity = await getTaskActivity(params.id)
+    return NextResponse.json(activity)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching task activity:", error)
+    return NextResponse.json({ error: "Failed to fetch task activity" }, { status: 500 })
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server"
+import { updateTaskComment, deleteTaskComment, ValidationError } from "@/lib/data"
+import { getRepository } from "@/lib/repository"
+import { isEmptyRichText } from "@/lib/utils"
+import { requireTaskRole, AuthorizationError } from "@/lib/auth"
+import { hasRole } from "@/lib/members"
+
+// 评论必须属于路径中的任务；只有作者和项目所有者可以修改或删除评论
+// （账户功能之前的评论没有作者，只有所有者可以管理）
+async function requireManageableComment(taskId: string, commentId: string) {
+  const { user, member } = await requireTaskRole(taskId, "editor")
+
+  const { data: comment } = await getRepository().getComment(commentId)
+  if (!comment || comment.task_id !== taskId) {
+    throw new AuthorizationError("Comment not found", 404)
+  }
+
+  if (comment.author_id !== user.id && !hasRole(member.role, "owner")) {
+    throw new AuthorizationError("Only the author of this comment can change it", 403)
+  }
+
+  return comment
+}
+
+export async function PUT(request: Request, { params }: { params: { id: string; commentId: string } }) {
+  try {
+    await requireManageableComment(params.id, params.commentId)
+
+    const { body } = await request.json()
+
+    if (isEmptyRichText(body)) {
+      return NextResponse.json({ error: "Comment body is required" }, { status: 400 })
+    }
+
+    const comment = await updateTaskComment(params.commentId, body)
+    return NextResponse.json(comment)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error updating comment:", error)
+    return NextResponse.json(
+      { error: "Failed to update comment: " + (error instanceof Error ? error.message : String(error)) },
+      { status: 500 },
+    )
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string; commentId: string } }) {
+  try {
+    await requireManageableComment(params.id, params.commentId)
+
+    await deleteTaskComment(params.commentId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error deleting comment:", error)
+    return NextResponse.json({ error: "Failed to delete comment" }, { status: 500 })
+  }
+}
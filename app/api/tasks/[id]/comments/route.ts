@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { getTaskComments, addTaskComment, ValidationError } from "@/lib/data"
+import { isEmptyRichText } from "@/lib/utils"
+import { requireTaskRole, AuthorizationError } from "@/lib/auth"
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireTaskRole(params.id, "viewer")
+
+    const comments = await getTaskComments(params.id)
+    return NextResponse.json(comments)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching comments:", error)
+    return NextResponse.json({ error: "Failed to fetch comments" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    // 评论作者为当前登录用户
+    const { user } = await requireTaskRole(params.id, "editor")
+    const { body, parentId } = await request.json()
+
+    if (isEmptyRichText(body)) {
+      return NextResponse.json({ error: "Comment body is required" }, { status: 400 })
+    }
+
+    const comment = await addTaskComment(params.id, {
+      author: {
+        id: user.id,
+        name: user.name,
+        initials: user.initials,
+      },
+      body,
+      parentId,
+    })
+
+    return NextResponse.json(comment, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error creating comment:", error)
+    return NextResponse.json(
+      { error: "Failed to create comment: " + (error instanceof Error ? error.message : String(error)) },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { removeTaskDependency, ValidationError } from "@/lib/data"
+import { requireTaskRole, AuthorizationError } from "@/lib/auth"
+
+export async function DELETE(request: Request, { params }: { params: { id: string; dependencyId: string } }) {
+  try {
+    const { user } = await requireTaskRole(params.id, "editor")
+
+    await removeTaskDependency(params.id, params.dependencyId, user)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    console.error("Error deleting task dependency:", error)
+    return NextResponse.json({ error: "Failed to delete task dependency" }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server"
+import { getTaskDependencies, addTaskDependency, ValidationError } from "@/lib/data"
+import { requireTaskRole, AuthorizationError } from "@/lib/auth"
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireTaskRole(params.id, "viewer")
+
+    const dependencies = await getTaskDependencies(params.id)
+    return NextResponse.json(dependencies)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching task dependencies:", error)
+    return NextResponse.json({ error: "Failed to fetch task dependencies" }, { status: 500 })
+  }
+}
+
+// Body: { blockerId } to add a task that blocks this one, or { blockedId } to add a task this one blocks
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { user } = await requireTaskRole(params.id, "editor")
+    const { blockerId, blockedId } = await request.json()
+
+    if (!blockerId === !blockedId) {
+      return NextResponse.json({ error: "Exactly one of blockerId or blockedId is required" }, { status: 400 })
+    }
+
+    const dependency = blockerId
+      ? await addTaskDependency(blockerId, params.id, user)
+      : await addTaskDependency(params.id, blockedId, user)
+
+    return NextResponse.json(dependency, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error creating task dependency:", error)
+    return NextResponse.json({ error: "Failed to create task dependency" }, { status: 500 })
+  }
+}
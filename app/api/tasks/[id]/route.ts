@@ -1,26 +1,23 @@
 import { NextResponse } from "next/server"
-import { getTask, updateTask, deleteTask } from "@/lib/data"
-import { createServerSupabaseClient } from "@/lib/supabase"
-
-// Add caching for task data
-const taskCache = new Map<string, any>()
+import { getTask, updateTask, deleteTask, ValidationError, ConflictError } from "@/lib/data"
+import { requireTaskRole, AuthorizationError } from "@/lib/auth"
+import { readIfMatch, versionHeaders } from "@/lib/preconditions"
 
 export async function GET(request: Request, { params }: { params: { id: string } }) {
   try {
     const id = params.id
+    await requireTaskRole(id, "viewer")
 
-    // Check cache first
-    if (taskCache.has(id)) {
-      return NextResponse.json(taskCache.get(id))
-    }
-
+    // Always read the current row: the ETag must match the version updateTask checks against
     const task = await getTask(id)
 
-    // Store in cache
-    taskCache.set(id, task)
-
-    return NextResponse.json(task)
+    // The ETag is the task version; send it back in If-Match when updating
+    return NextResponse.json(task, { headers: versionHeaders(task.updated_at) })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error("Error fetching task:", error)
     return NextResponse.json({ error: "Failed to fetch task" }, { status: 500 })
   }
@@ -30,6 +27,8 @@ export async function GET(request: Request, { params }: { params: { id: string }
 export async function PUT(request: Request, { params }: { params: { id: string } }) {
   try {
     const id = params.id
+    const { user } = await requireTaskRole(id, "editor")
+
     const body = await request.json()
 
     console.log(`API: Updating task ${id}`)
@@ -39,112 +38,45 @@ export async function PUT(request: Request, { params }: { params: { id: string }
       return NextResponse.json({ error: "Title is required" }, { status: 400 })
     }
 
-    const supabase = createServerSupabaseClient()
-
-    // Optimize by only updating essential fields first
-    const essentialFields = {
-      title: body.title,
-      description: body.description,
-      status: body.status,
-      priority: body.priority,
-      due_date: body.dueDate,
-      assignee_name: body.assignee?.name,
-      assignee_initials: body.assignee?.initials,
-      updated_at: new Date().toISOString(),
-    }
-
-    // Update the task with essential fields
-    const { data, error } = await supabase.from("tasks").update(essentialFields).eq("id", id).select().single()
-
-    if (error) {
-      throw new Error(`Failed to update task: ${error.message}`)
-    }
+    // Only the editable fields are taken from the body; the form sends the whole task
+    const {
+      title,
+      description,
+      status,
+      priority,
+      assignee,
+      parentId,
+      startDate,
+      dueDate,
+      tags,
+      customFields,
+      recurrence,
+    } = body
+
+    // updateTask writes the task row, tags and custom field values as one unit and only returns once all of them
+    // are saved; the update only applies to the version the client edited (If-Match)
+    const updatedTask = await updateTask(
+      id,
+      { title, description, status, priority, assignee, parentId, startDate, dueDate, tags, customFields, recurrence },
+      user,
+      { expectedUpdatedAt: readIfMatch(request) },
+    )
 
-    // Process tags and custom fields in the background
-    // We don't need to await these operations for the initial response
-    const backgroundOperations = []
-
-    // Handle tags if provided
-    if (body.tags !== undefined) {
-      backgroundOperations.push(
-        (async () => {
-          // Delete existing tag associations
-          await supabase.from("task_tags").delete().eq("task_id", id)
-
-          // Add new ones if there are any
-          if (body.tags && body.tags.length > 0) {
-            // Ensure all tags exist
-            await Promise.all(
-              body.tags.map((tagName) => supabase.from("tags").upsert({ name: tagName }, { onConflict: "name" })),
-            )
-
-            // Get the tag IDs
-            const { data: tagData } = await supabase.from("tags").select("id, name").in("name", body.tags)
-
-            if (tagData && tagData.length > 0) {
-              // Create task-tag associations
-              const taskTagInserts = tagData.map((tag) => ({
-                task_id: id,
-                tag_id: tag.id,
-              }))
-
-              await supabase.from("task_tags").insert(taskTagInserts)
-            }
-          }
-        })(),
-      )
+    return NextResponse.json(updatedTask, { headers: versionHeaders(updatedTask.updated_at) })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
     }
 
-    // Handle custom fields if provided
-    if (body.customFields !== undefined) {
-      backgroundOperations.push(
-        (async () => {
-          // Delete existing custom field values
-          await supabase.from("task_custom_field_values").delete().eq("task_id", id)
-
-          // Add new ones if there are any
-          if (body.customFields && Object.keys(body.customFields).length > 0) {
-            const customFieldInserts = Object.entries(body.customFields).map(([fieldId, value]) => ({
-              task_id: id,
-              field_id: fieldId,
-              value,
-            }))
-
-            await supabase.from("task_custom_field_values").insert(customFieldInserts)
-          }
-        })(),
-      )
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
     }
 
-    // Start background operations but don't wait for them
-    Promise.all(backgroundOperations).catch((err) => {
-      console.error("Error in background operations:", err)
-    })
-
-    // Format the task for the frontend response
-    const updatedTask = {
-      id: data.id,
-      projectId: data.project_id,
-      title: data.title,
-      description: data.description,
-      status: data.status,
-      priority: data.priority,
-      assignee: data.assignee_name
-        ? {
-            name: data.assignee_name,
-            initials: data.assignee_initials,
-          }
-        : undefined,
-      dueDate: data.due_date,
-      comments: data.comments || 0,
-      tags: body.tags || [],
-      customFields: body.customFields || {},
-      created_at: data.created_at,
-      updated_at: data.updated_at,
+    // The client edited an outdated version; return the latest one so it can merge
+    if (error instanceof ConflictError) {
+      return NextResponse.json({ error: error.message, current: error.current }, { status: 409 })
     }
 
-    return NextResponse.json(updatedTask)
-  } catch (error) {
     console.error("API: Error updating task:", error)
     return NextResponse.json(
       {
@@ -158,18 +90,29 @@ export async function PUT(request: Request, { params }: { params: { id: string }
 export async function PATCH(request: Request, { params }: { params: { id: string } }) {
   try {
     const id = params.id
+    const { user } = await requireTaskRole(id, "editor")
+
     const body = await request.json()
 
     console.log(`API: Patching task ${id} with data:`, body)
 
-    const updatedTask = await updateTask(id, body)
+    const updatedTask = await updateTask(id, body, user, { expectedUpdatedAt: readIfMatch(request) })
     console.log("API: Task patched successfully:", updatedTask)
 
-    // Update cache
-    taskCache.set(id, updatedTask)
-
-    return NextResponse.json(updatedTask)
+    return NextResponse.json(updatedTask, { headers: versionHeaders(updatedTask.updated_at) })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof ConflictError) {
+      return NextResponse.json({ error: error.message, current: error.current }, { status: 409 })
+    }
+
     console.error("Error updating task:", error)
     return NextResponse.json({ error: "Failed to update task" }, { status: 500 })
   }
@@ -178,13 +121,18 @@ export async function PATCH(request: Request, { params }: { params: { id: string
 export async function DELETE(request: Request, { params }: { params: { id: string } }) {
   try {
     const id = params.id
-    await deleteTask(id)
+    await requireTaskRole(id, "editor")
 
-    // Remove from cache
-    taskCache.delete(id)
+    // Subtasks are deleted with their parent unless ?subtasks=keep moves them up a level
+    const { searchParams } = new URL(request.url)
+    await deleteTask(id, { keepSubtasks: searchParams.get("subtasks") === "keep" })
 
     return NextResponse.json({ success: true })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error("Error deleting task:", error)
     return NextResponse.json({ error: "Failed to delete task" }, { status: 500 })
   }
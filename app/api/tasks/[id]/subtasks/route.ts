@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { getSubtasks } from "@/lib/data"
+import { requireTaskRole, AuthorizationError } from "@/lib/auth"
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireTaskRole(params.id, "viewer")
+
+    const subtasks = await getSubtasks(params.id)
+    return NextResponse.json(subtasks)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching subtasks:", error)
+    return NextResponse.json({ error: "Failed to fetch subtasks" }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server"
+import { copyTasks, deleteTasks, getTaskProjectId, moveTasks, updateTasks, ValidationError } from "@/lib/data"
+import { requireProjectRole, requireUser, AuthorizationError } from "@/lib/auth"
+import { parseTaskBatchRequest } from "@/lib/task-batch"
+import type { TaskBatchResult } from "@/lib/types"
+
+// 批量修改、删除、移动或复制任务：全部成功或全部不生效
+export async function POST(request: Request) {
+  try {
+    const { request: batch, error } = parseTaskBatchRequest(await request.json().catch(() => null))
+
+    if (!batch) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    // 所有任务必须属于同一个项目，并且当前用户在该项目中拥有编辑权限（复制只需要能查看）
+    const user = await requireUser()
+    const projectIds = new Set(await Promise.all(batch.taskIds.map((taskId) => getTaskProjectId(taskId))))
+
+    if (projectIds.has(null)) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 })
+    }
+
+    if (projectIds.size > 1) {
+      return NextResponse.json({ error: "Tasks must belong to the same project" }, { status: 400 })
+    }
+
+    for (const projectId of projectIds) {
+      await requireProjectRole(projectId as string, batch.action === "copy" ? "viewer" : "editor")
+    }
+
+    let result: TaskBatchResult
+    switch (batch.action) {
+      case "update":
+        result = { tasks: await updateTasks(batch.taskIds, batch.changes, user), removedIds: [] }
+        break
+      case "delete":
+        result = { tasks: [], removedIds: await deleteTasks(batch.taskIds) }
+        break
+      case "move":
+        // 移动到的项目同样需要编辑权限
+        await requireProjectRole(batch.projectId, "editor")
+        result = await moveTasks(batch.taskIds, batch.projectId, user)
+        break
+      case "copy":
+        await requireProjectRole(batch.projectId, "editor")
+        result = await copyTasks(batch.taskIds, batch.projectId, user)
+        break
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error applying task batch:", error)
+    return NextResponse.json(
+      { error: "Failed to apply batch: " + (error instanceof Error ? error.message : String(error)) },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { timingSafeEqual } from "crypto"
+import { NextResponse } from "next/server"
+import { generateDueOccurrences } from "@/lib/data"
+
+// 定时任务调用，为到达截止日期的重复任务生成下一次任务。部署到 Vercel 时由 vercel.json 中的 cron 每小时调用（GET），
+// 其他环境需要自行定时请求。请求头需要带上 Authorization: Bearer <CRON_SECRET>（Vercel Cron 会自动带上）；
+// 没有配置 CRON_SECRET 时拒绝所有请求
+function isAuthorized(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const actual = Buffer.from(request.headers.get("authorization") || "")
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const createdIds = await generateDueOccurrences()
+    return NextResponse.json({ createdIds })
+  } catch (error) {
+    console.error("Error generating recurring tasks:", error)
+    return NextResponse.json(
+      { error: "Failed to generate recurring tasks: " + (error instanceof Error ? error.message : String(error)) },
+      { status: 500 },
+    )
+  }
+}
+
+// Vercel Cron 使用 GET 请求
+export const GET = POST
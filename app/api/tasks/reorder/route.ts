@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server"
-import { reorderTasks } from "@/lib/data"
+import { reorderTasks, getTaskProjectId } from "@/lib/data"
+import { requireProjectRole, requireUser, AuthorizationError } from "@/lib/auth"
 
 export async function POST(request: Request) {
   try {
@@ -10,11 +11,31 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Invalid request data" }, { status: 400 })
     }
 
+    // 所有任务必须属于同一个项目，并且当前用户在该项目中拥有编辑权限
+    const user = await requireUser()
+    const projectIds = new Set(await Promise.all(taskIds.map((taskId: string) => getTaskProjectId(taskId))))
+
+    if (projectIds.has(null)) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 })
+    }
+
+    if (projectIds.size > 1) {
+      return NextResponse.json({ error: "Tasks must belong to the same project" }, { status: 400 })
+    }
+
+    for (const projectId of projectIds) {
+      await requireProjectRole(projectId as string, "editor")
+    }
+
     // Use the improved reorderTasks function from data.ts
-    const result = await reorderTasks(taskIds, newOrders)
+    const result = await reorderTasks(taskIds, newOrders, user)
 
     return NextResponse.json({ success: true, result })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error("Error reordering tasks:", error)
     return NextResponse.json(
       { error: "Failed to reorder tasks: " + (error instanceof Error ? error.message : String(error)) },
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server"
-import { addTask, getProjectTasks } from "@/lib/data"
+import { addTask, getProjectTasks, queryProjectTasks, ValidationError } from "@/lib/data"
+import { requireProjectRole, AuthorizationError } from "@/lib/auth"
+import { hasTaskQueryParams, parseTaskQuery } from "@/lib/task-query"
 
 export async function GET(request: Request) {
   try {
@@ -10,9 +12,31 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: "Project ID is required" }, { status: 400 })
     }
 
-    const tasks = await getProjectTasks(projectId)
-    return NextResponse.json(tasks)
+    await requireProjectRole(projectId, "viewer")
+
+    // Without filters, sorting or paging the whole project is returned as before
+    if (!hasTaskQueryParams(searchParams)) {
+      const tasks = await getProjectTasks(projectId)
+      return NextResponse.json(tasks)
+    }
+
+    const { query, error } = parseTaskQuery(searchParams)
+    if (!query) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    // With limit or cursor the response is a page ({ tasks, nextCursor }), otherwise all matching tasks
+    const page = await queryProjectTasks(projectId, query)
+    return NextResponse.json(query.limit || query.cursor ? page : page.tasks)
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error("Error fetching tasks:", error)
     return NextResponse.json({ error: "Failed to fetch tasks" }, { status: 500 })
   }
@@ -23,31 +47,60 @@ export async function POST(request: Request) {
     const body = await request.json()
     console.log("Received task creation request:", body)
 
-    const { projectId, title, description, status, priority, assignee, dueDate, tags, customFields } = body
+    const {
+      projectId,
+      title,
+      description,
+      status,
+      priority,
+      parentId,
+      assignee,
+      startDate,
+      dueDate,
+      tags,
+      customFields,
+      recurrence,
+    } = body
 
     if (!projectId) {
       return NextResponse.json({ error: "Project ID is required" }, { status: 400 })
     }
 
+    const { user } = await requireProjectRole(projectId, "editor")
+
     if (!title) {
       return NextResponse.json({ error: "Title is required" }, { status: 400 })
     }
 
-    const newTask = await addTask({
-      projectId,
-      title,
-      description: description || "",
-      status: status || "todo",
-      priority: priority || "medium",
-      assignee,
-      dueDate,
-      tags,
-      customFields,
-    })
+    const newTask = await addTask(
+      {
+        projectId,
+        title,
+        description: description || "",
+        status,
+        priority: priority || "medium",
+        parentId,
+        assignee,
+        startDate,
+        dueDate,
+        tags,
+        customFields,
+        recurrence,
+      },
+      user,
+    )
 
     console.log("Task created successfully:", newTask)
     return NextResponse.json(newTask, { status: 201 })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error("Error creating task:", error)
     return NextResponse.json(
       { error: "Failed to create task: " + (error instanceof Error ? error.message : String(error)) },
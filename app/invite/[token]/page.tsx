@@ -0,0 +1,119 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import type { ProjectRole, User } from "@/lib/types"
+import { getRoleLabel } from "@/lib/members"
+
+type InvitationDetails = {
+  email: string
+  role: ProjectRole
+  projectId: string
+  projectTitle: string
+}
+
+export default function InvitePage({
+  params,
+}: {
+  params: { token: string }
+}) {
+  const router = useRouter()
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null)
+  const [currentUser, setCurrentUser] = useState<User | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isAccepting, setIsAccepting] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [invitationResponse, userResponse] = await Promise.all([
+          fetch(`/api/invitations/${params.token}`),
+          fetch("/api/auth/me"),
+        ])
+
+        if (!invitationResponse.ok) {
+          throw new Error("This invitation is invalid or has already been used")
+        }
+
+        setInvitation(await invitationResponse.json())
+        setCurrentUser(userResponse.ok ? await userResponse.json() : null)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load invitation")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    load()
+  }, [params.token])
+
+  const handleAccept = async () => {
+    setIsAccepting(true)
+    setError("")
+
+    try {
+      const response = await fetch(`/api/invitations/${params.token}`, { method: "POST" })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Failed to accept invitation")
+      }
+
+      router.push(`/projects/${invitation!.projectId}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+      setIsAccepting(false)
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <main className="flex-1 py-16">
+        <Card className="mx-auto max-w-md">
+          <CardHeader>
+            <CardTitle>项目邀请</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div className="flex items-center justify-center h-24">
+                <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : (
+              <>
+                {invitation && (
+                  <p>
+                    您被邀请以<span className="font-medium">{getRoleLabel(invitation.role)}</span>身份加入项目{" "}
+                    <span className="font-medium">{invitation.projectTitle}</span>。
+                  </p>
+                )}
+
+                {error && <div className="rounded-md bg-red-50 p-4 text-sm text-red-500">{error}</div>}
+
+                {invitation &&
+                  (currentUser ? (
+                    <div className="space-y-2">
+                      <p className="text-sm text-muted-foreground">
+                        当前登录：{currentUser.email}
+                        {currentUser.email !== invitation.email && `（邀请发送至 ${invitation.email}）`}
+                      </p>
+                      <Button className="w-full" onClick={handleAccept} disabled={isAccepting}>
+                        {isAccepting ? "加入中..." : "接受邀请"}
+                      </Button>
+                    </div>
+                  ) : (
+                    <Link href={`/login?next=${encodeURIComponent(`/invite/${params.token}`)}`}>
+                      <Button className="w-full">登录后接受邀请</Button>
+                    </Link>
+                  ))}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+"use client"
+
+import type React from "react"
+
+import { useState, Suspense } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+
+function LoginForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  // 只允许站内跳转
+  const next = searchParams.get("next")?.startsWith("/") ? searchParams.get("next")! : "/"
+
+  const [mode, setMode] = useState<"login" | "register">("login")
+  const [name, setName] = useState("")
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState("")
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError("")
+
+    try {
+      const response = await fetch(mode === "login" ? "/api/auth/login" : "/api/auth/register", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(mode === "login" ? { email, password } : { name, email, password }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Failed to sign in")
+      }
+
+      router.push(next)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <header className="border-b">
+        <div className="container flex h-16 items-center px-4 max-w-7xl mx-auto">
+          <Link href="/" className="flex items-center gap-2 font-semibold">
+            <div className="h-8 w-8 rounded-full bg-primary flex items-center justify-center text-primary-foreground">
+              PM
+            </div>
+            <span>Project Manager</span>
+          </Link>
+        </div>
+      </header>
+      <main className="flex-1 py-16">
+        <Card className="mx-auto max-w-md">
+          <CardHeader>
+            <CardTitle>{mode === "login" ? "Sign in" : "Create an account"}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {error && <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-500">{error}</div>}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {mode === "register" && (
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name</Label>
+                  <Input id="name" value={name} onChange={(e) => setName(e.target.value)} required />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input id="email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  minLength={mode === "register" ? 8 : undefined}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting ? "Please wait..." : mode === "login" ? "Sign in" : "Create account"}
+              </Button>
+            </form>
+
+            <p className="mt-4 text-center text-sm text-muted-foreground">
+              {mode === "login" ? "Don't have an account?" : "Already have an account?"}{" "}
+              <button
+                type="button"
+                className="font-medium text-foreground hover:underline"
+                onClick={() => {
+                  setMode(mode === "login" ? "register" : "login")
+                  setError("")
+                }}
+              >
+                {mode === "login" ? "Create one" : "Sign in"}
+              </button>
+            </p>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
+
+// useSearchParams 需要包裹在 Suspense 中
+export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  )
+}
@@ -1,7 +1,10 @@
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
+import { UserNav } from "@/components/user-nav"
 import { PlusIcon } from "lucide-react"
-import { getProjects } from "@/lib/data"
+import { getUserProjects } from "@/lib/data"
+import { getCurrentUser } from "@/lib/auth"
+import { redirect } from "next/navigation"
 import { ProjectList } from "@/components/project-list"
 
 // Force dynamic rendering and disable cache
@@ -10,7 +13,12 @@ export const revalidate = 0
 export const fetchCache = "force-no-store"
 
 export default async function Home() {
-  const projects = await getProjects()
+  const user = await getCurrentUser()
+  if (!user) {
+    redirect("/login")
+  }
+
+  const projects = await getUserProjects(user.id)
 
   return (
     <div className="flex min-h-screen flex-col">
@@ -32,6 +40,7 @@ export default async function Home() {
             <Link href="/settings" className="text-sm font-medium">
               Settings
             </Link>
+            <UserNav />
           </nav>
         </div>
       </header>
@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
@@ -11,6 +11,8 @@ import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ArrowLeftIcon } from "lucide-react"
+import type { ProjectMember } from "@/lib/types"
+import { toAssignee } from "@/lib/members"
 
 export default function NewTaskPage({
   params,
@@ -23,9 +25,17 @@ export default function NewTaskPage({
   const [priority, setPriority] = useState("medium")
   const [dueDate, setDueDate] = useState("")
   const [assignee, setAssignee] = useState("")
+  const [members, setMembers] = useState<ProjectMember[]>([])
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState("")
 
+  useEffect(() => {
+    fetch(`/api/projects/${params.id}/members`)
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setMembers)
+      .catch((err) => console.error("Error fetching members:", err))
+  }, [params.id])
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsSubmitting(true)
@@ -43,18 +53,7 @@ export default function NewTaskPage({
           description,
           priority,
           dueDate: dueDate || undefined,
-          assignee:
-            assignee && assignee !== "unassigned"
-              ? {
-                  name: assignee,
-                  initials: assignee
-                    .split(" ")
-                    .map((n) => n[0])
-                    .join("")
-                    .toUpperCase(),
-                }
-              : undefined,
-          status: "todo",
+          assignee: toAssignee(members.find((member) => member.user.id === assignee)) || undefined,
         }),
       })
 
@@ -160,8 +159,11 @@ export default function NewTaskPage({
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="unassigned">Unassigned</SelectItem>
-                    <SelectItem value="John Doe">John Doe</SelectItem>
-                    <SelectItem value="Jane Smith">Jane Smith</SelectItem>
+                    {members.map((member) => (
+                      <SelectItem key={member.user.id} value={member.user.id}>
+                        {member.user.name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -1,10 +1,20 @@
 import Link from "next/link"
 import { ArrowLeftIcon } from "lucide-react"
-import { getProject, getProjectTasks, getProjectCustomFields } from "@/lib/data"
-import { notFound } from "next/navigation"
+import {
+  getProject,
+  queryProjectTasks,
+  getProjectCustomFields,
+  getProjectStatuses,
+  getProjectMembers,
+  getProjectMember,
+} from "@/lib/data"
+import { getCurrentUser } from "@/lib/auth"
+import { notFound, redirect } from "next/navigation"
 import { Suspense } from "react"
 import { ProjectTaskManager } from "@/components/project-task-manager"
+import { TASK_PAGE_SIZE } from "@/lib/task-query"
 import { Button } from "@/components/ui/button"
+import { UserNav } from "@/components/user-nav"
 
 // Add cache control to ensure fresh data
 export const fetchCache = "force-no-store"
@@ -64,12 +74,24 @@ export default async function ProjectPage({
 }: {
   params: { id: string }
 }) {
-  try {
-    // Use Promise.all to fetch project data and tasks in parallel
-    const [project, tasks] = await Promise.all([getProject(params.id), getProjectTasks(params.id)])
+  // 未登录时跳转到登录页，非项目成员看不到项目
+  const user = await getCurrentUser()
+  if (!user) {
+    redirect(`/login?next=/projects/${params.id}`)
+  }
+
+  if (!(await getProjectMember(params.id, user.id))) {
+    notFound()
+  }
 
-    // Update the project's task count to match the actual number of tasks
-    project.taskCount = tasks.length
+  try {
+    // Use Promise.all to fetch project data, the first page of tasks, workflow statuses and members in parallel
+    const [project, { tasks, nextCursor, statusCounts }, statuses, members] = await Promise.all([
+      getProject(params.id),
+      queryProjectTasks(params.id, { limit: TASK_PAGE_SIZE }),
+      getProjectStatuses(params.id),
+      getProjectMembers(params.id),
+    ])
 
     // Process tasks with tags (keep this logic)
     const tasksWithTags = tasks.map((task, index) => {
@@ -141,6 +163,7 @@ export default async function ProjectPage({
               <Link href="/settings" className="text-sm font-medium">
                 Settings
               </Link>
+              <UserNav />
             </nav>
           </div>
         </header>
@@ -175,8 +198,13 @@ export default async function ProjectPage({
               >
                 <ProjectTaskManager
                   initialTasks={tasksWithTags}
+                  initialNextCursor={nextCursor}
+                  initialStatusCounts={statusCounts}
                   projectId={params.id}
                   initialCustomFields={customFields}
+                  initialStatuses={statuses}
+                  members={members}
+                  currentUserId={user.id}
                 />
               </Suspense>
             </div>
@@ -16,6 +16,11 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Badge } from "@/components/ui/badge"
+import { WorkflowSettings } from "@/components/workflow-settings"
+import { ProjectMembers } from "@/components/project-members"
+import { TaskImportExport } from "@/components/task-import-export"
+import { ProjectArchiveSettings } from "@/components/project-archive"
+import { ProjectTemplateSettings } from "@/components/project-template-settings"
 import type { Project, CustomField } from "@/lib/types"
 
 // Define system fields type
@@ -192,6 +197,8 @@ export default function ProjectSettingsPage({
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
+          // 只在项目仍是打开页面时的版本时更新，避免覆盖其他人的修改
+          ...(project?.updated_at ? { "If-Match": `"${project.updated_at}"` } : {}),
         },
         body: JSON.stringify({
           title,
@@ -200,6 +207,14 @@ export default function ProjectSettingsPage({
         }),
       })
 
+      if (response.status === 409) {
+        // 记录最新版本，保留输入的内容，用户确认后再次保存即可覆盖
+        const { current } = await response.json()
+        setProject(current)
+        setEditError(`项目已被其他人修改（当前名称：${current.title}），再次保存将覆盖他们的修改`)
+        return
+      }
+
       if (!response.ok) {
         const errorData = await response.json()
         throw new Error(errorData.error || "Failed to update project")
@@ -554,7 +569,7 @@ export default function ProjectSettingsPage({
 
           <div className="mb-6">
             <h1 className="text-3xl font-bold">项目设置</h1>
-            <p className="mt-1 text-muted-foreground">管理项目的基本信息、字段和成员权限</p>
+            <p className="mt-1 text-muted-foreground">管理项目的基本信息、字段、工作流和成员权限</p>
           </div>
 
           {error ? <div className="rounded-md bg-red-50 p-4 text-sm text-red-500 mb-6">{error}</div> : null}
@@ -563,7 +578,9 @@ export default function ProjectSettingsPage({
             <TabsList className="mb-6">
               <TabsTrigger value="basic-info">基础信息</TabsTrigger>
               <TabsTrigger value="field-settings">字段设置</TabsTrigger>
+              <TabsTrigger value="workflow">工作流</TabsTrigger>
               <TabsTrigger value="member-permissions">成员权限</TabsTrigger>
+              <TabsTrigger value="import-export">导入导出</TabsTrigger>
             </TabsList>
 
             <TabsContent value="basic-info">
@@ -689,21 +706,18 @@ export default function ProjectSettingsPage({
               </Card>
             </TabsContent>
 
+            <TabsContent value="workflow">
+              <WorkflowSettings projectId={params.id} />
+            </TabsContent>
+
             <TabsContent value="member-permissions">
-              <Card>
-                <CardHeader>
-                  <CardTitle>成员权限</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-muted-foreground">在这里您可以管理项目成员和他们的权限。</p>
+              <ProjectMembers projectId={params.id} />
+            </TabsContent>
 
-                  <div className="mt-6 border rounded-md p-8 text-center">
-                    <h3 className="text-lg font-medium mb-2">成员管理</h3>
-                    <p className="text-muted-foreground mb-4">您可以邀请新成员加入项目并设置他们的权限</p>
-                    <Button>邀请成员</Button>
-                  </div>
-                </CardContent>
-              </Card>
+            <TabsContent value="import-export" className="space-y-6">
+              <TaskImportExport projectId={params.id} />
+              <ProjectArchiveSettings projectId={params.id} />
+              <ProjectTemplateSettings projectId={params.id} />
             </TabsContent>
           </Tabs>
         </div>
@@ -13,7 +13,13 @@ import { MultiSelect } from "@/components/multi-select"
 import { TaskCustomFields } from "@/components/task-custom-fields"
 import { toast } from "@/hooks/use-toast"
 import type { Task } from "@/lib/types"
-import type { CustomField, CustomFieldValue } from "@/lib/types"
+import type { CustomField, CustomFieldValue, ProjectMember, WorkflowStatus } from "@/lib/types"
+import { getDefaultStatuses } from "@/lib/workflow"
+import { toAssignee } from "@/lib/members"
+import { mergeTaskVersions, resolveTaskConflicts } from "@/lib/task-merge"
+import type { TaskConflict, TaskConflictChoice, TaskMergeField } from "@/lib/task-merge"
+import { TaskConflictDialog } from "@/components/task-conflict-dialog"
+import { TaskRecurrenceEditor } from "@/components/task-recurrence-editor"
 
 // Import the simple editor directly to avoid dynamic loading delay
 import SimpleRichTextEditor from "@/components/simple-rich-text-editor"
@@ -30,7 +36,11 @@ export default function EditTaskPage({
   const [isSaving, setIsSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [availableTags, setAvailableTags] = useState<string[]>([])
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>(getDefaultStatuses(params.id))
+  const [members, setMembers] = useState<ProjectMember[]>([])
+  const [projectTasks, setProjectTasks] = useState<Task[]>([])
   const [localChanges, setLocalChanges] = useState<Partial<Task>>({})
+  const [conflict, setConflict] = useState<{ merged: Task; conflicts: TaskConflict[] } | null>(null)
   const initialTaskRef = useRef<Task | null>(null)
   const hasUnsavedChanges = useRef(false)
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
@@ -43,6 +53,22 @@ export default function EditTaskPage({
     return { ...task, ...localChanges }
   }, [task, localChanges])
 
+  // A task cannot be moved under itself or one of its own subtasks
+  const parentCandidates = useMemo(() => {
+    const excluded = new Set([params.taskId])
+    let added = true
+    while (added) {
+      added = false
+      projectTasks.forEach((candidate) => {
+        if (candidate.parentId && excluded.has(candidate.parentId) && !excluded.has(candidate.id)) {
+          excluded.add(candidate.id)
+          added = true
+        }
+      })
+    }
+    return projectTasks.filter((candidate) => !excluded.has(candidate.id))
+  }, [projectTasks, params.taskId])
+
   // Optimized fetch function with caching
   const fetchTask = useCallback(async () => {
     try {
@@ -105,6 +131,24 @@ export default function EditTaskPage({
       } catch (err) {
         console.error("Error loading data from localStorage:", err)
       }
+
+      // Load the project's workflow statuses
+      const statusesResponse = await fetch(`/api/projects/${params.id}/statuses`)
+      if (statusesResponse.ok) {
+        setStatuses(await statusesResponse.json())
+      }
+
+      // Load the project's members for the assignee picker
+      const membersResponse = await fetch(`/api/projects/${params.id}/members`)
+      if (membersResponse.ok) {
+        setMembers(await membersResponse.json())
+      }
+
+      // Load the project's tasks for the parent task picker
+      const tasksResponse = await fetch(`/api/tasks?projectId=${params.id}`)
+      if (tasksResponse.ok) {
+        setProjectTasks(await tasksResponse.json())
+      }
     } catch (err) {
       console.error("Error fetching task:", err)
       setError(`Failed to load task details: ${err instanceof Error ? err.message : String(err)}`)
@@ -162,6 +206,105 @@ export default function EditTaskPage({
     [handleFieldChange],
   )
 
+  // Send the task together with the version it is based on (If-Match). When someone else saved the task in the
+  // meantime the server answers 409 with the latest version: changes to different fields are merged and saved
+  // again automatically, fields changed on both sides are left for the user to resolve. Returns the saved task,
+  // or null while a conflict is waiting to be resolved.
+  const saveTask = useCallback(async (taskToSave: Task): Promise<Task | null> => {
+    const base = initialTaskRef.current
+    const response = await fetch(`/api/tasks/${taskToSave.id}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        ...(base?.updated_at ? { "If-Match": `"${base.updated_at}"` } : {}),
+      },
+      body: JSON.stringify(taskToSave),
+    })
+
+    if (response.status === 409) {
+      const { current } = (await response.json()) as { current: Task }
+      const { merged, conflicts } = mergeTaskVersions(base || current, taskToSave, current)
+
+      // The form now edits the latest version, keeping this user's changes
+      initialTaskRef.current = JSON.parse(JSON.stringify(current))
+      const keepMine = Object.fromEntries(conflicts.map(({ field }) => [field, "mine" as const]))
+      setTask(resolveTaskConflicts(merged, conflicts, keepMine))
+      setLocalChanges({})
+
+      if (conflicts.length === 0) {
+        return saveTask(merged)
+      }
+
+      setConflict({ merged, conflicts })
+      return null
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || "Failed to update task")
+    }
+
+    return response.json()
+  }, [])
+
+  const finishSave = useCallback(
+    (savedTask: Task) => {
+      hasUnsavedChanges.current = false
+
+      // Keep the cached project tasks in sync with the saved task
+      try {
+        const storedTasks = localStorage.getItem(`project-${params.id}-tasks`)
+        if (storedTasks) {
+          const tasks = JSON.parse(storedTasks)
+          const updatedTasks = tasks.map((t: Task) => (t.id === savedTask.id ? { ...t, ...savedTask } : t))
+          localStorage.setItem(`project-${params.id}-tasks`, JSON.stringify(updatedTasks))
+        }
+      } catch (err) {
+        console.error("Error updating localStorage:", err)
+      }
+
+      try {
+        toast({
+          title: "任务已更新",
+          description: "任务已成功更新",
+        })
+      } catch (toastError) {
+        console.error("Error showing toast:", toastError)
+      }
+
+      // Navigate back to task detail page
+      router.push(`/projects/${params.id}/tasks/${params.taskId}`)
+    },
+    [params.id, params.taskId, router],
+  )
+
+  const handleResolveConflict = useCallback(
+    async (choices: Partial<Record<TaskMergeField, TaskConflictChoice>>) => {
+      if (!conflict) return
+
+      setIsSaving(true)
+      try {
+        const savedTask = await saveTask(resolveTaskConflicts(conflict.merged, conflict.conflicts, choices))
+
+        if (savedTask) {
+          setConflict(null)
+          finishSave(savedTask)
+        } else {
+          setIsSaving(false)
+        }
+      } catch (err) {
+        console.error("Error updating task:", err)
+        toast({
+          title: "更新失败",
+          description: err instanceof Error ? err.message : "更新任务失败，请重试",
+          variant: "destructive",
+        })
+        setIsSaving(false)
+      }
+    },
+    [conflict, saveTask, finishSave],
+  )
+
   // Update the handleSave function to include validation
   const handleSave = useCallback(async () => {
     if (!task || !hasUnsavedChanges.current) return
@@ -194,60 +337,19 @@ export default function EditTaskPage({
 
     try {
       // Create the updated task by merging the original task with local changes
-      const updatedTask = { ...task, ...localChanges }
+      const savedTask = await saveTask({ ...task, ...localChanges })
 
-      // Optimistically update localStorage first for instant feedback
-      try {
-        const storedTasks = localStorage.getItem(`project-${params.id}-tasks`)
-        if (storedTasks) {
-          const tasks = JSON.parse(storedTasks)
-          const updatedTasks = tasks.map((t: Task) => (t.id === task.id ? updatedTask : t))
-          localStorage.setItem(`project-${params.id}-tasks`, JSON.stringify(updatedTasks))
-        }
-      } catch (err) {
-        console.error("Error updating localStorage:", err)
-      }
-
-      // Show success toast immediately
-      try {
-        toast({
-          title: "任务已更新",
-          description: "任务已成功更新",
-        })
-      } catch (toastError) {
-        console.error("Error showing toast:", toastError)
+      if (savedTask) {
+        finishSave(savedTask)
+      } else {
+        setIsSaving(false)
       }
-
-      // Navigate back to task detail page immediately
-      router.push(`/projects/${params.id}/tasks/${params.taskId}`)
-
-      // Send the update to the server in the background
-      fetch(`/api/tasks/${task.id}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(updatedTask),
-      }).catch((error) => {
-        console.error("Error updating task:", error)
-
-        // Show error toast if the background update fails
-        try {
-          toast({
-            title: "更新可能失败",
-            description: "在服务器上更新任务时出现问题。更改可能不会永久保存。",
-            variant: "destructive",
-          })
-        } catch (toastError) {
-          console.error("Error showing toast:", toastError)
-        }
-      })
     } catch (err) {
       console.error("Error updating task:", err)
       try {
         toast({
           title: "更新失败",
-          description: "更新任务失败，请重试",
+          description: err instanceof Error ? err.message : "更新任务失败，请重试",
           variant: "destructive",
         })
       } catch (toastError) {
@@ -255,7 +357,7 @@ export default function EditTaskPage({
       }
       setIsSaving(false)
     }
-  }, [task, localChanges, params.id, params.taskId, router, toast, customFields, mergedTask])
+  }, [task, localChanges, toast, customFields, mergedTask, saveTask, finishSave])
 
   // Auto-save when user stops typing
   useEffect(() => {
@@ -341,7 +443,11 @@ export default function EditTaskPage({
 
             <div className="space-y-2">
               <Label htmlFor="description">Description</Label>
-              <SimpleRichTextEditor initialValue={mergedTask?.description || ""} onChange={handleDescriptionChange} />
+              <SimpleRichTextEditor
+                key={task.updated_at}
+                initialValue={mergedTask?.description || ""}
+                onChange={handleDescriptionChange}
+              />
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -352,10 +458,11 @@ export default function EditTaskPage({
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="todo">To Do</SelectItem>
-                    <SelectItem value="in-progress">In Progress</SelectItem>
-                    <SelectItem value="review">Review</SelectItem>
-                    <SelectItem value="done">Done</SelectItem>
+                    {statuses.map((status) => (
+                      <SelectItem key={status.key} value={status.key}>
+                        {status.name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -380,33 +487,55 @@ export default function EditTaskPage({
               <div className="space-y-2">
                 <Label htmlFor="assignee">Assignee</Label>
                 <Select
-                  value={mergedTask?.assignee?.name || "unassigned"}
-                  onValueChange={(value) => {
-                    if (value === "unassigned") {
-                      handleFieldChange("assignee", undefined)
-                    } else {
-                      handleFieldChange("assignee", {
-                        name: value,
-                        initials: value
-                          .split(" ")
-                          .map((n) => n[0])
-                          .join("")
-                          .toUpperCase(),
-                      })
-                    }
-                  }}
+                  value={mergedTask?.assignee?.id || "unassigned"}
+                  onValueChange={(value) =>
+                    handleFieldChange("assignee", toAssignee(members.find((member) => member.user.id === value)))
+                  }
                 >
                   <SelectTrigger id="assignee">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="unassigned">Unassigned</SelectItem>
-                    <SelectItem value="John Doe">John Doe</SelectItem>
-                    <SelectItem value="Jane Smith">Jane Smith</SelectItem>
+                    {members.map((member) => (
+                      <SelectItem key={member.user.id} value={member.user.id}>
+                        {member.user.name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="parentTask">Parent Task</Label>
+                <Select
+                  value={mergedTask?.parentId || "none"}
+                  onValueChange={(value) => handleFieldChange("parentId", value === "none" ? null : value)}
+                >
+                  <SelectTrigger id="parentTask">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {parentCandidates.map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {candidate.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="startDate">Start Date</Label>
+                <Input
+                  id="startDate"
+                  type="date"
+                  value={mergedTask?.startDate || ""}
+                  onChange={(e) => handleFieldChange("startDate", e.target.value)}
+                />
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="dueDate">Due Date</Label>
                 <Input
@@ -418,6 +547,15 @@ export default function EditTaskPage({
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="recurrence">Repeat</Label>
+              <TaskRecurrenceEditor
+                id="recurrence"
+                value={mergedTask?.recurrence || null}
+                onChange={(recurrence) => handleFieldChange("recurrence", recurrence)}
+              />
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="tags">Tags</Label>
               <MultiSelect
@@ -461,6 +599,17 @@ export default function EditTaskPage({
           </Button>
         </div>
       </Card>
+
+      <TaskConflictDialog
+        open={!!conflict}
+        conflicts={conflict?.conflicts || []}
+        statuses={statuses}
+        customFields={customFields}
+        tasks={projectTasks}
+        isSaving={isSaving}
+        onResolve={handleResolveConflict}
+        onCancel={() => setConflict(null)}
+      />
     </div>
   )
 }
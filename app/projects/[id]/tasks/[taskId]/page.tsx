@@ -1,17 +1,24 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
-import { ArrowLeftIcon, CalendarIcon, MessageSquareIcon } from "lucide-react"
+import { ArrowLeftIcon, CalendarIcon, FolderInputIcon, MessageSquareIcon, RepeatIcon } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Separator } from "@/components/ui/separator"
 import { TaskCustomFields } from "@/components/task-custom-fields"
+import { TaskComments } from "@/components/task-comments"
+import { TaskActivityTimeline } from "@/components/task-activity"
+import { TaskSubtasks } from "@/components/task-subtasks"
+import { TaskDependencies } from "@/components/task-dependencies"
+import { TaskTransferDialog } from "@/components/task-transfer-dialog"
 import type { Task } from "@/lib/types"
-import type { CustomField } from "@/lib/types"
+import type { CustomField, WorkflowStatus } from "@/lib/types"
+import { getDefaultStatuses, getStatusColor, getStatusName } from "@/lib/workflow"
+import { describeRecurrence } from "@/lib/task-recurrence"
 import { cn } from "@/lib/utils"
 
 export default function TaskDetailPage({
@@ -21,9 +28,12 @@ export default function TaskDetailPage({
 }) {
   const router = useRouter()
   const [task, setTask] = useState<Task | null>(null)
+  const [parentTask, setParentTask] = useState<Task | null>(null)
   const [customFields, setCustomFields] = useState<CustomField[]>([])
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>(getDefaultStatuses(params.id))
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [isTransferOpen, setIsTransferOpen] = useState(false)
 
   useEffect(() => {
     const fetchTask = async () => {
@@ -71,6 +81,12 @@ export default function TaskDetailPage({
         } catch (err) {
           console.error("Error loading custom fields:", err)
         }
+
+        // Load the project's workflow statuses
+        const statusesResponse = await fetch(`/api/projects/${params.id}/statuses`)
+        if (statusesResponse.ok) {
+          setStatuses(await statusesResponse.json())
+        }
       } catch (err) {
         console.error("Error fetching task:", err)
         setError(`Failed to load task details: ${err instanceof Error ? err.message : String(err)}`)
@@ -82,6 +98,24 @@ export default function TaskDetailPage({
     fetchTask()
   }, [params.taskId, params.id])
 
+  // Load the parent task for the breadcrumb
+  useEffect(() => {
+    if (!task?.parentId) {
+      setParentTask(null)
+      return
+    }
+
+    fetch(`/api/tasks/${task.parentId}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setParentTask)
+      .catch((err) => console.error("Error fetching parent task:", err))
+  }, [task?.parentId])
+
+  // Keep the comment count in sync with the comments section
+  const handleCommentCountChange = useCallback((count: number) => {
+    setTask((prev) => (prev ? { ...prev, comments: count } : prev))
+  }, [])
+
   const getPriorityColor = (priority: Task["priority"]) => {
     switch (priority) {
       case "high":
@@ -95,30 +129,6 @@ export default function TaskDetailPage({
     }
   }
 
-  const getStatusColor = (status: Task["status"]) => {
-    switch (status) {
-      case "todo":
-        return "text-gray-500"
-      case "in-progress":
-        return "text-red-500"
-      case "review":
-        return "text-purple-500"
-      case "done":
-        return "text-black"
-      default:
-        return "text-gray-500"
-    }
-  }
-
-  const getStatusText = (status: Task["status"]) => {
-    switch (status) {
-      case "in-progress":
-        return "In Progress"
-      default:
-        return status.charAt(0).toUpperCase() + status.slice(1)
-    }
-  }
-
   const formatDate = (dateString?: string) => {
     if (!dateString) return "No due date"
     try {
@@ -166,16 +176,35 @@ export default function TaskDetailPage({
       <div className="grid gap-6">
         <Card>
           <CardHeader className="pb-3">
+            {parentTask && (
+              <Link
+                href={`/projects/${params.id}/tasks/${parentTask.id}`}
+                className="text-sm text-muted-foreground hover:text-foreground mb-1"
+              >
+                Subtask of {parentTask.title}
+              </Link>
+            )}
             <div className="flex items-center justify-between">
               <CardTitle className="text-2xl font-bold">{task.title}</CardTitle>
-              <Button
-                variant="outline"
-                size="sm"
-                className="h-7 text-xs px-2"
-                onClick={() => router.push(`/projects/${params.id}/tasks/${params.taskId}/edit`)}
-              >
-                Edit
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs px-2 gap-1"
+                  onClick={() => setIsTransferOpen(true)}
+                >
+                  <FolderInputIcon className="h-3 w-3" />
+                  Move or copy
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs px-2"
+                  onClick={() => router.push(`/projects/${params.id}/tasks/${params.taskId}/edit`)}
+                >
+                  Edit
+                </Button>
+              </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -198,7 +227,9 @@ export default function TaskDetailPage({
                 <dl className="space-y-3">
                   <div className="flex justify-between">
                     <dt className="text-muted-foreground">Status</dt>
-                    <dd className={cn("font-medium", getStatusColor(task.status))}>{getStatusText(task.status)}</dd>
+                    <dd className="font-medium" style={{ color: getStatusColor(statuses, task.status) }}>
+                      {getStatusName(statuses, task.status)}
+                    </dd>
                   </div>
                   <div className="flex justify-between">
                     <dt className="text-muted-foreground">Priority</dt>
@@ -234,6 +265,25 @@ export default function TaskDetailPage({
                       )}
                     </dd>
                   </div>
+                  {task.recurrence && (
+                    <div className="flex justify-between gap-4">
+                      <dt className="text-muted-foreground">Repeats</dt>
+                      <dd className="font-medium text-right">
+                        <div className="flex items-center justify-end">
+                          <RepeatIcon className="h-4 w-4 mr-1" />
+                          {describeRecurrence(task.recurrence)}
+                        </div>
+                        {task.nextOccurrenceId && (
+                          <Link
+                            href={`/projects/${params.id}/tasks/${task.nextOccurrenceId}`}
+                            className="text-xs font-normal text-muted-foreground hover:underline"
+                          >
+                            Next occurrence
+                          </Link>
+                        )}
+                      </dd>
+                    </div>
+                  )}
                   {task.comments > 0 && (
                     <div className="flex justify-between">
                       <dt className="text-muted-foreground">Comments</dt>
@@ -278,7 +328,43 @@ export default function TaskDetailPage({
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <TaskSubtasks projectId={params.id} taskId={params.taskId} statuses={statuses} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <TaskDependencies projectId={params.id} taskId={params.taskId} statuses={statuses} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <TaskComments taskId={params.taskId} onCountChange={handleCommentCountChange} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <TaskActivityTimeline taskId={params.taskId} statuses={statuses} customFields={customFields} />
+          </CardContent>
+        </Card>
       </div>
+
+      <TaskTransferDialog
+        open={isTransferOpen}
+        onOpenChange={setIsTransferOpen}
+        projectId={params.id}
+        taskIds={[params.taskId]}
+        onTransferred={(result, mode, targetProjectId) => {
+          // 移动后打开任务在目标项目中的页面，复制后打开副本（父任务排在最前）
+          const taskId = mode === "move" ? params.taskId : result.tasks[0]?.id
+          if (taskId) router.push(`/projects/${targetProjectId}/tasks/${taskId}`)
+        }}
+      />
     </div>
   )
 }
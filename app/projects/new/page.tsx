@@ -2,22 +2,74 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState, Suspense } from "react"
 import Link from "next/link"
-import { useRouter } from "next/navigation"
+import { useRouter, useSearchParams } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
-import { ArrowLeftIcon } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowLeftIcon, Trash2Icon } from "lucide-react"
+import type { Project, ProjectTemplate } from "@/lib/types"
 
-export default function NewProjectPage() {
+// 新项目的来源：空项目、模板或复制已有项目
+type ProjectSource = "blank" | "template" | "duplicate"
+
+function NewProjectForm() {
   const router = useRouter()
+  const searchParams = useSearchParams()
+  // 从项目设置中的“复制项目”进入时带有 ?duplicate=<项目 ID>
+  const duplicateParam = searchParams.get("duplicate")
+
   const [title, setTitle] = useState("")
   const [description, setDescription] = useState("")
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState("")
 
+  const [source, setSource] = useState<ProjectSource>(duplicateParam ? "duplicate" : "blank")
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [templateId, setTemplateId] = useState("")
+  const [sourceProjectId, setSourceProjectId] = useState(duplicateParam || "")
+  const [startDate, setStartDate] = useState(() => new Date().toISOString().slice(0, 10))
+
+  const selectedTemplate = templates.find((template) => template.id === templateId)
+
+  useEffect(() => {
+    fetch("/api/projects/templates")
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setTemplates)
+      .catch((err) => console.error("Error loading project templates:", err))
+
+    fetch("/api/projects")
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setProjects)
+      .catch((err) => console.error("Error loading projects:", err))
+  }, [])
+
+  // 复制项目时默认使用原项目的名称和描述
+  useEffect(() => {
+    const project = projects.find((item) => item.id === sourceProjectId)
+    if (source !== "duplicate" || !project) return
+    setTitle((current) => current || `${project.title} (copy)`)
+    setDescription((current) => current || project.description)
+  }, [source, sourceProjectId, projects])
+
+  const handleDeleteTemplate = async (template: ProjectTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return
+
+    const response = await fetch(`/api/projects/templates/${template.id}`, { method: "DELETE" })
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null)
+      setError(errorData?.error || "Failed to delete template")
+      return
+    }
+
+    setTemplates((prev) => prev.filter((item) => item.id !== template.id))
+    setTemplateId("")
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsSubmitting(true)
@@ -29,7 +81,12 @@ export default function NewProjectPage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ title, description }),
+        body: JSON.stringify({
+          title,
+          description,
+          ...(source === "template" && { templateId, startDate: startDate || undefined }),
+          ...(source === "duplicate" && { sourceProjectId }),
+        }),
       })
 
       if (!response.ok) {
@@ -39,6 +96,12 @@ export default function NewProjectPage() {
 
       const newProject = await response.json()
 
+      // 用模板或复制创建的项目已经有任务，直接打开
+      if (source !== "blank") {
+        router.push(`/projects/${newProject.id}`)
+        return
+      }
+
       // Force a refresh before navigation to ensure the projects list is updated
       router.refresh()
 
@@ -89,6 +152,94 @@ export default function NewProjectPage() {
             {error && <div className="mt-4 rounded-md bg-red-50 p-4 text-sm text-red-500">{error}</div>}
 
             <form onSubmit={handleSubmit} className="mt-6 space-y-6">
+              <div className="space-y-2">
+                <Label>Start from</Label>
+                <Select value={source} onValueChange={(value) => setSource(value as ProjectSource)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="blank">Blank project</SelectItem>
+                    <SelectItem value="template">Template</SelectItem>
+                    <SelectItem value="duplicate">Copy of an existing project</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {source === "template" && (
+                <div className="space-y-4 rounded-md border p-4">
+                  <div className="space-y-2">
+                    <Label>Template</Label>
+                    <div className="flex gap-2">
+                      <Select value={templateId} onValueChange={setTemplateId}>
+                        <SelectTrigger>
+                          <SelectValue
+                            placeholder={templates.length > 0 ? "Select a template" : "No templates saved yet"}
+                          />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {templates.map((template) => (
+                            <SelectItem key={template.id} value={template.id}>
+                              {template.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {selectedTemplate && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          title="Delete template"
+                          onClick={() => handleDeleteTemplate(selectedTemplate)}
+                        >
+                          <Trash2Icon className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    {selectedTemplate ? (
+                      <p className="text-sm text-muted-foreground">
+                        {selectedTemplate.description && `${selectedTemplate.description} · `}
+                        {selectedTemplate.statusCount} statuses, {selectedTemplate.customFieldCount} custom fields,{" "}
+                        {selectedTemplate.taskCount} starter tasks
+                      </p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        Save a project as a template from its settings page.
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="start-date">Start date</Label>
+                    <Input
+                      id="start-date"
+                      type="date"
+                      value={startDate}
+                      onChange={(e) => setStartDate(e.target.value)}
+                    />
+                    <p className="text-sm text-muted-foreground">Starter task dates are set relative to this date.</p>
+                  </div>
+                </div>
+              )}
+              {source === "duplicate" && (
+                <div className="space-y-2 rounded-md border p-4">
+                  <Label>Project to copy</Label>
+                  <Select value={sourceProjectId} onValueChange={setSourceProjectId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {projects.map((project) => (
+                        <SelectItem key={project.id} value={project.id}>
+                          {project.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    Copies the workflow, custom fields, members and all tasks. Comments and history are not copied.
+                  </p>
+                </div>
+              )}
               <div className="space-y-2">
                 <Label htmlFor="title">Project Title</Label>
                 <Input
@@ -114,7 +265,14 @@ export default function NewProjectPage() {
                 <Button type="button" variant="outline" onClick={() => router.back()}>
                   Cancel
                 </Button>
-                <Button type="submit" disabled={isSubmitting}>
+                <Button
+                  type="submit"
+                  disabled={
+                    isSubmitting ||
+                    (source === "template" && !templateId) ||
+                    (source === "duplicate" && !sourceProjectId)
+                  }
+                >
                   {isSubmitting ? "Creating..." : "Create Project"}
                 </Button>
               </div>
@@ -125,3 +283,12 @@ export default function NewProjectPage() {
     </div>
   )
 }
+
+// useSearchParams 需要包裹在 Suspense 中
+export default function NewProjectPage() {
+  return (
+    <Suspense>
+      <NewProjectForm />
+    </Suspense>
+  )
+}
@@ -7,30 +7,50 @@ import { Button } from "@/components/ui/button"
 import { PlusIcon } from "lucide-react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { MultiSelect } from "./multi-select"
+import { TaskCustomFields } from "./task-custom-fields"
+import { TaskRecurrenceEditor } from "./task-recurrence-editor"
 import { toast } from "@/hooks/use-toast"
 import type { Task } from "@/lib/data"
-import type { CustomField, CustomFieldValue } from "@/lib/types"
+import type { CustomField, CustomFieldValue, ProjectMember, TaskRecurrence, WorkflowStatus } from "@/lib/types"
+import { getDefaultStatuses, getInitialStatus } from "@/lib/workflow"
+import { toAssignee } from "@/lib/members"
 
 // Update the interface
 interface AddTaskButtonProps {
   projectId: string
   onTaskAdded: (newTask: Task) => void
   customFields?: CustomField[]
+  statuses?: WorkflowStatus[]
+  members?: ProjectMember[]
 }
 
 // Update the component to handle custom fields
-export function AddTaskButton({ projectId, onTaskAdded, customFields = [] }: AddTaskButtonProps) {
+export function AddTaskButton({
+  projectId,
+  onTaskAdded,
+  customFields = [],
+  statuses,
+  members = [],
+}: AddTaskButtonProps) {
+  const projectStatuses = useMemo(() => statuses || getDefaultStatuses(projectId), [statuses, projectId])
+
   const [isOpen, setIsOpen] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   // Form state
   const [title, setTitle] = useState("")
   const [description, setDescription] = useState("")
-  const [status, setStatus] = useState<"todo" | "in-progress" | "review" | "done">("todo")
+  const [status, setStatus] = useState(getInitialStatus(projectStatuses))
   const [priority, setPriority] = useState<"low" | "medium" | "high">("medium")
+  const [startDate, setStartDate] = useState("")
   const [dueDate, setDueDate] = useState("")
-  const [assignee, setAssignee] = useState("")
+  const [assignee, setAssignee] = useState("") // 成员的用户 ID
   const [tags, setTags] = useState<string[]>([])
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | null>(null)
   // Add state for custom field values
   const [customFieldValues, setCustomFieldValues] = useState<Record<string, CustomFieldValue>>({})
   // Add state for validation errors
@@ -43,14 +63,16 @@ export function AddTaskButton({ projectId, onTaskAdded, customFields = [] }: Add
   const resetForm = useCallback(() => {
     setTitle("")
     setDescription("")
-    setStatus("todo")
+    setStatus(getInitialStatus(projectStatuses))
     setPriority("medium")
+    setStartDate("")
     setDueDate("")
     setAssignee("")
     setTags([])
+    setRecurrence(null)
     setCustomFieldValues({})
     setValidationErrors({})
-  }, []);
+  }, [projectStatuses]);
 
   // Add this function
   const handleCustomFieldChange = useCallback((fieldId: string, value: CustomFieldValue) => {
@@ -122,20 +144,12 @@ export function AddTaskButton({ projectId, onTaskAdded, customFields = [] }: Add
         description,
         status,
         priority,
+        startDate: startDate || undefined,
         dueDate: dueDate || undefined,
-        assignee:
-          assignee && assignee !== "unassigned"
-            ? {
-                name: assignee,
-                initials: assignee
-                  .split(" ")
-                  .map((n) => n[0])
-                  .join("")
-                  .toUpperCase(),
-              }
-            : undefined,
+        assignee: toAssignee(members.find((member) => member.user.id === assignee)) || undefined,
         tags: tags.length > 0 ? tags : undefined,
         customFields: Object.keys(customFieldValues).length > 0 ? customFieldValues : undefined,
+        recurrence: recurrence || undefined,
       }
 
       console.log("Submitting new task:", payload)
@@ -184,9 +198,12 @@ export function AddTaskButton({ projectId, onTaskAdded, customFields = [] }: Add
     description, 
     status, 
     priority, 
+    startDate, 
     dueDate, 
     assignee, 
+    members,
     tags, 
+    recurrence,
     customFieldValues, 
     toast, 
     resetForm, 
@@ -200,8 +217,9 @@ export function AddTaskButton({ projectId, onTaskAdded, customFields = [] }: Add
       const initialValues: Record<string, CustomFieldValue> = {}
 
       customFields.forEach((field) => {
-        if (field.defaultValue !== undefined) {
-          initialValues[field.id] = field.defaultValue
+        const defaultValue = (field as CustomField & { defaultValue?: CustomFieldValue }).defaultValue
+        if (defaultValue !== undefined) {
+          initialValues[field.id] = defaultValue
         }
       })
 
@@ -231,4 +249,124 @@ export function AddTaskButton({ projectId, onTaskAdded, customFields = [] }: Add
             <div className="flex-1 overflow-y-auto pr-1">
               <div className="space-y-4 mt-4">
                 <div className="space-y-2">
-                  <Label htmlFor="title" className="flex items\
+                  <Label htmlFor="title" className="flex items-center">
+                    <span className="text-red-500 mr-0.5">*</span>
+                    任务标题
+                  </Label>
+                  <Input
+                    id="title"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder="输入任务标题"
+                    className={validationErrors.title ? "border-red-500" : ""}
+                  />
+                  {validationErrors.title && <p className="text-xs text-red-500">{validationErrors.title}</p>}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="description">任务描述</Label>
+                  <Textarea
+                    id="description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="输入任务描述"
+                    rows={3}
+                  />
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="status">状态</Label>
+                    <Select value={status} onValueChange={setStatus}>
+                      <SelectTrigger id="status">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {projectStatuses.map((item) => (
+                          <SelectItem key={item.key} value={item.key}>
+                            {item.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="priority">优先级</Label>
+                    <Select value={priority} onValueChange={(value) => setPriority(value as Task["priority"])}>
+                      <SelectTrigger id="priority">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="low">Low</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="high">High</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="startDate">开始日期</Label>
+                    <Input id="startDate" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="dueDate">截止日期</Label>
+                    <Input id="dueDate" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="assignee">负责人</Label>
+                    <Select value={assignee || "unassigned"} onValueChange={setAssignee}>
+                      <SelectTrigger id="assignee">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="unassigned">Unassigned</SelectItem>
+                        {members.map((member) => (
+                          <SelectItem key={member.user.id} value={member.user.id}>
+                            {member.user.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="recurrence">重复</Label>
+                  <TaskRecurrenceEditor id="recurrence" value={recurrence} onChange={setRecurrence} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>标签</Label>
+                  <MultiSelect selected={tags} onChange={setTags} />
+                </div>
+
+                {memoizedCustomFields.length > 0 && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium">自定义字段</h3>
+                    <TaskCustomFields
+                      customFields={memoizedCustomFields}
+                      values={customFieldValues}
+                      onChange={handleCustomFieldChange}
+                      errors={validationErrors}
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4 mt-4 border-t">
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+                取消
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "创建中..." : "创建任务"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,359 @@
+"use client"
+
+import { useMemo } from "react"
+import { FolderPlusIcon, PlusIcon, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import { MultiSelect } from "./multi-select"
+import {
+  BUILT_IN_FILTER_FIELDS,
+  FILTER_OPERATORS,
+  MAX_FILTER_DEPTH,
+  getCustomFieldKind,
+  getDefaultFilterValue,
+  isFilterGroup,
+  type FilterFieldKind,
+} from "@/lib/filter-builder"
+import type {
+  CustomField,
+  FilterCondition,
+  FilterField,
+  FilterGroup,
+  FilterOperator,
+  ProjectMember,
+  WorkflowStatus,
+} from "@/lib/types"
+
+const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  is: "is",
+  is_not: "is not",
+  contains: "contains",
+  not_contains: "does not contain",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  between: "between",
+  is_empty: "is empty",
+  is_not_empty: "is not empty",
+  any_of: "is any of",
+  all_of: "has all of",
+  none_of: "is none of",
+}
+
+// 日期字段的比较运算符使用更容易理解的说法
+const DATE_OPERATOR_LABELS: Partial<Record<FilterOperator, string>> = {
+  is: "is on",
+  gt: "is after",
+  gte: "is on or after",
+  lt: "is before",
+  lte: "is on or before",
+}
+
+type FilterFieldOption = {
+  key: FilterField
+  label: string
+  kind: FilterFieldKind
+  options: string[]
+  optionLabels?: Record<string, string>
+}
+
+// 运算符需要的值的形式，切换到形式相同的运算符（例如 gt 与 lt）时保留已填写的值
+function getValueShape(operator: FilterOperator) {
+  if (operator === "is_empty" || operator === "is_not_empty") return "none"
+  if (operator === "any_of" || operator === "all_of" || operator === "none_of") return "list"
+  return operator === "between" ? "range" : "single"
+}
+
+const NEW_CONDITION: FilterCondition = { field: "title", operator: "contains", value: "" }
+
+type FilterBuilderProps = {
+  value: FilterGroup
+  onChange: (value: FilterGroup) => void
+  customFields?: CustomField[]
+  statuses?: WorkflowStatus[]
+  members?: ProjectMember[]
+  availableTags?: string[]
+}
+
+function ConditionValueInput({
+  condition,
+  field,
+  onChange,
+}: {
+  condition: FilterCondition
+  field: FilterFieldOption
+  onChange: (condition: FilterCondition) => void
+}) {
+  const { operator, value } = condition
+
+  if (operator === "is_empty" || operator === "is_not_empty") {
+    return <div />
+  }
+
+  if (operator === "any_of" || operator === "all_of" || operator === "none_of") {
+    return (
+      <MultiSelect
+        options={field.options}
+        labels={field.optionLabels}
+        selected={Array.isArray(value) ? value : []}
+        onChange={(selected) => onChange({ ...condition, value: selected })}
+        placeholder="Select options..."
+      />
+    )
+  }
+
+  if (field.kind === "checkbox") {
+    return (
+      <Select
+        value={String(value === true)}
+        onValueChange={(checked) => onChange({ ...condition, value: checked === "true" })}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="true">Checked</SelectItem>
+          <SelectItem value="false">Unchecked</SelectItem>
+        </SelectContent>
+      </Select>
+    )
+  }
+
+  const inputType = field.kind === "number" ? "number" : field.kind === "date" ? "date" : "text"
+
+  if (operator === "between") {
+    const [from, to] = Array.isArray(value) ? value : ["", ""]
+    return (
+      <div className="flex items-center gap-2">
+        <Input
+          type={inputType}
+          value={from}
+          onChange={(e) => onChange({ ...condition, value: [e.target.value, to] })}
+        />
+        <span className="text-sm text-muted-foreground">and</span>
+        <Input
+          type={inputType}
+          value={to}
+          onChange={(e) => onChange({ ...condition, value: [from, e.target.value] })}
+        />
+      </div>
+    )
+  }
+
+  return (
+    <Input
+      type={inputType}
+      value={value === null || Array.isArray(value) ? "" : String(value)}
+      onChange={(e) => onChange({ ...condition, value: e.target.value })}
+      placeholder="Value"
+    />
+  )
+}
+
+function ConditionRow({
+  condition,
+  fields,
+  onChange,
+  onRemove,
+}: {
+  condition: FilterCondition
+  fields: FilterFieldOption[]
+  onChange: (condition: FilterCondition) => void
+  onRemove: () => void
+}) {
+  const field = fields.find((item) => item.key === condition.field)
+  const operators = field ? FILTER_OPERATORS[field.kind] : [condition.operator]
+
+  return (
+    <div className="grid grid-cols-[160px_150px_1fr_auto] gap-2 items-center">
+      <Select
+        value={field ? condition.field : undefined}
+        onValueChange={(key) => {
+          // 换字段后运算符和值不一定适用，重置为新字段的默认值
+          const nextField = fields.find((item) => item.key === key)!
+          const operator = FILTER_OPERATORS[nextField.kind][0]
+          onChange({ field: nextField.key, operator, value: getDefaultFilterValue(nextField.kind, operator) })
+        }}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Deleted field" />
+        </SelectTrigger>
+        <SelectContent>
+          {fields.map((item) => (
+            <SelectItem key={item.key} value={item.key}>
+              {item.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={condition.operator}
+        onValueChange={(next) => {
+          const operator = next as FilterOperator
+          const keepValue = !field || getValueShape(operator) === getValueShape(condition.operator)
+          onChange({
+            ...condition,
+            operator,
+            value: keepValue ? condition.value : getDefaultFilterValue(field.kind, operator),
+          })
+        }}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map((operator) => (
+            <SelectItem key={operator} value={operator}>
+              {(field?.kind === "date" && DATE_OPERATOR_LABELS[operator]) || OPERATOR_LABELS[operator]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {field ? <ConditionValueInput condition={condition} field={field} onChange={onChange} /> : <div />}
+      <Button variant="ghost" size="icon" className="h-9 w-9" onClick={onRemove}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+function GroupEditor({
+  group,
+  depth,
+  fields,
+  onChange,
+  onRemove,
+}: {
+  group: FilterGroup
+  depth: number
+  fields: FilterFieldOption[]
+  onChange: (group: FilterGroup) => void
+  onRemove?: () => void
+}) {
+  const updateItem = (index: number, item: FilterCondition | FilterGroup) =>
+    onChange({ ...group, conditions: group.conditions.map((current, i) => (i === index ? item : current)) })
+  const removeItem = (index: number) =>
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) })
+  const addItem = (item: FilterCondition | FilterGroup) =>
+    onChange({ ...group, conditions: [...group.conditions, item] })
+
+  return (
+    <div className={cn("space-y-2", depth > 1 && "rounded-md border bg-muted/30 p-3")}>
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Match</span>
+        <Select
+          value={group.combinator}
+          onValueChange={(combinator) => onChange({ ...group, combinator: combinator as FilterGroup["combinator"] })}
+        >
+          <SelectTrigger className="h-8 w-[90px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">all</SelectItem>
+            <SelectItem value="or">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-muted-foreground">of the following</span>
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="ml-auto h-8 w-8" onClick={onRemove}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((item, index) =>
+        isFilterGroup(item) ? (
+          <GroupEditor
+            key={index}
+            group={item}
+            depth={depth + 1}
+            fields={fields}
+            onChange={(updated) => updateItem(index, updated)}
+            onRemove={() => removeItem(index)}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={item}
+            fields={fields}
+            onChange={(updated) => updateItem(index, updated)}
+            onRemove={() => removeItem(index)}
+          />
+        ),
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="gap-1" onClick={() => addItem(NEW_CONDITION)}>
+          <PlusIcon className="h-4 w-4" />
+          Add condition
+        </Button>
+        {depth < MAX_FILTER_DEPTH && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            onClick={() =>
+              addItem({ combinator: group.combinator === "and" ? "or" : "and", conditions: [NEW_CONDITION] })
+            }
+          >
+            <FolderPlusIcon className="h-4 w-4" />
+            Add group
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// 条件构建器：条件可以按"全部满足 / 满足任意一个"分组并嵌套，可用的运算符取决于字段类型
+export function FilterBuilder({
+  value,
+  onChange,
+  customFields = [],
+  statuses = [],
+  members = [],
+  availableTags = [],
+}: FilterBuilderProps) {
+  const fields = useMemo<FilterFieldOption[]>(() => {
+    const builtIn = BUILT_IN_FILTER_FIELDS.map((field): FilterFieldOption => {
+      switch (field.key) {
+        case "status":
+          return {
+            ...field,
+            options: statuses.map((status) => status.key),
+            optionLabels: Object.fromEntries(statuses.map((status) => [status.key, status.name])),
+          }
+        case "priority":
+          return {
+            ...field,
+            options: ["low", "medium", "high"],
+            optionLabels: { low: "Low", medium: "Medium", high: "High" },
+          }
+        case "assignee":
+          return {
+            ...field,
+            options: members.map((member) => member.user.id),
+            optionLabels: Object.fromEntries(members.map((member) => [member.user.id, member.user.name])),
+          }
+        case "tags":
+          return { ...field, options: availableTags }
+        default:
+          return { ...field, options: [] }
+      }
+    })
+
+    const custom = customFields.map((field): FilterFieldOption => ({
+      key: `custom:${field.id}`,
+      label: field.name,
+      kind: getCustomFieldKind(field),
+      options: field.options || [],
+    }))
+
+    return [...builtIn, ...custom]
+  }, [customFields, statuses, members, availableTags])
+
+  return <GroupEditor group={value} depth={1} fields={fields} onChange={onChange} />
+}
@@ -0,0 +1,158 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { CheckSquareIcon, FolderIcon, MessageSquareIcon, SearchIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import type { HighlightedText, SearchResult } from "@/lib/types"
+
+const RESULT_ICONS = {
+  project: FolderIcon,
+  task: CheckSquareIcon,
+  comment: MessageSquareIcon,
+}
+
+function Highlighted({ value }: { value: HighlightedText }) {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+
+  value.highlights.forEach(([start, end]) => {
+    if (start > cursor) parts.push(value.text.slice(cursor, start))
+    parts.push(
+      <mark key={start} className="rounded-sm bg-yellow-200 text-foreground">
+        {value.text.slice(start, end)}
+      </mark>,
+    )
+    cursor = end
+  })
+  parts.push(value.text.slice(cursor))
+
+  return <>{parts}</>
+}
+
+function getResultUrl(result: SearchResult) {
+  if (result.type === "project") return `/projects/${result.projectId}`
+  const taskUrl = `/projects/${result.projectId}/tasks/${result.taskId}`
+  return result.type === "comment" ? `${taskUrl}#comment-${result.id}` : taskUrl
+}
+
+// 全局搜索：在参与的所有项目中搜索项目、任务和评论，⌘K / Ctrl+K 打开
+export function GlobalSearch() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState("")
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault()
+        setOpen((prev) => !prev)
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  // 停止输入 200ms 后搜索，新的输入会取消上一次请求
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (!trimmed) {
+      setResults([])
+      setIsSearching(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsSearching(true)
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(trimmed)}`, { signal: controller.signal })
+        if (!response.ok) {
+          throw new Error("Failed to search")
+        }
+        setResults(await response.json())
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error("Error searching:", err)
+          setResults([])
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false)
+      }
+    }, 200)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [query])
+
+  const handleSelect = (result: SearchResult) => {
+    setOpen(false)
+    setQuery("")
+    router.push(getResultUrl(result))
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="gap-2 text-muted-foreground" onClick={() => setOpen(true)}>
+        <SearchIcon className="h-4 w-4" />
+        <span className="hidden sm:inline">Search</span>
+        <kbd className="hidden sm:inline rounded border bg-muted px-1.5 text-[10px] font-medium">⌘K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 sm:max-w-[640px]">
+          <DialogTitle className="sr-only">Search</DialogTitle>
+          {/* 结果已经在服务端排序，关闭 cmdk 自带的过滤 */}
+          <Command shouldFilter={false}>
+            <CommandInput value={query} onValueChange={setQuery} placeholder="Search projects, tasks and comments..." />
+            <CommandList className="max-h-[420px]">
+              {query.trim() && !isSearching && <CommandEmpty>No results found.</CommandEmpty>}
+              {isSearching && results.length === 0 && (
+                <div className="py-6 text-center text-sm text-muted-foreground">Searching...</div>
+              )}
+              {results.length > 0 && (
+                <CommandGroup heading="Results">
+                  {results.map((result) => {
+                    const Icon = RESULT_ICONS[result.type]
+                    return (
+                      <CommandItem
+                        key={`${result.type}-${result.id}`}
+                        value={`${result.type}-${result.id}`}
+                        onSelect={() => handleSelect(result)}
+                        className="items-start"
+                      >
+                        <Icon className="mt-0.5 h-4 w-4 text-muted-foreground" />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="truncate font-medium">
+                              <Highlighted value={result.title} />
+                            </span>
+                            {result.type !== "project" && (
+                              <span className="shrink-0 text-xs text-muted-foreground">{result.projectTitle}</span>
+                            )}
+                          </div>
+                          {result.snippet && (
+                            <p className="mt-0.5 line-clamp-2 text-xs text-muted-foreground">
+                              <Highlighted value={result.snippet} />
+                            </p>
+                          )}
+                        </div>
+                      </CommandItem>
+                    )
+                  })}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -13,6 +13,7 @@ type MultiSelectProps = {
   placeholder?: string
   className?: string
   options?: string[]
+  labels?: Record<string, string> // 选项的显示名称，默认显示选项本身
 }
 
 export function MultiSelect({
@@ -21,6 +22,7 @@ export function MultiSelect({
   placeholder = "Select tags...",
   className,
   options = ["bug", "backend", "feature", "frontend", "documentation"],
+  labels,
 }: MultiSelectProps) {
   const [open, setOpen] = React.useState(false)
 
@@ -49,7 +51,7 @@ export function MultiSelect({
             {selected.length > 0 ? (
               selected.map((item) => (
                 <Badge key={item} variant="secondary" className="mr-1 px-1 py-0">
-                  {item}
+                  {labels?.[item] ?? item}
                   <button
                     className="ml-1 ring-offset-background rounded-full outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
                     onKeyDown={(e) => {
@@ -84,8 +86,8 @@ export function MultiSelect({
             <CommandEmpty>No tags available.</CommandEmpty>
             <CommandGroup>
               {options.map((tag) => (
-                <CommandItem key={tag} onSelect={() => handleSelect(tag)} className="cursor-pointer">
-                  {tag}
+                <CommandItem key={tag} value={tag} onSelect={() => handleSelect(tag)} className="cursor-pointer">
+                  {labels?.[tag] ?? tag}
                 </CommandItem>
               ))}
             </CommandGroup>
@@ -0,0 +1,98 @@
+"use client"
+
+import { useState, useRef } from "react"
+import { useRouter } from "next/navigation"
+import { ArchiveIcon, DownloadIcon, UploadIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { toast } from "@/hooks/use-toast"
+
+interface ProjectArchiveSettingsProps {
+  projectId: string
+}
+
+export function ProjectArchiveSettings({ projectId }: ProjectArchiveSettingsProps) {
+  const router = useRouter()
+  const [isImporting, setIsImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    setIsImporting(true)
+    try {
+      let archive: unknown
+      try {
+        archive = JSON.parse(await file.text())
+      } catch {
+        throw new Error("文件不是有效的 JSON")
+      }
+
+      const response = await fetch("/api/projects/archive", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(archive),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to import project")
+      }
+
+      const project = await response.json()
+
+      toast({
+        title: "项目已导入",
+        description: `已创建项目「${project.title}」，包含 ${project.taskCount} 个任务`,
+      })
+
+      router.push(`/projects/${project.id}`)
+    } catch (err) {
+      toast({
+        title: "导入失败",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ArchiveIcon className="h-5 w-5 mr-2" />
+          项目归档
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          归档是包含项目信息、工作流、自定义字段以及全部任务（排序、标签、字段值、子任务和依赖关系）的 JSON
+          文件，可用于备份或迁移。导入归档会创建一个新项目，你将成为该项目的所有者；旧版本导出的归档同样可以导入。
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href={`/api/projects/${projectId}/archive`}>
+              <DownloadIcon className="h-4 w-4 mr-2" />
+              下载归档
+            </a>
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            <UploadIcon className="h-4 w-4 mr-2" />
+            {isImporting ? "导入中..." : "从归档导入新项目"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,348 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { CopyIcon, Trash2Icon, UserPlusIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/hooks/use-toast"
+import type { ProjectInvitation, ProjectMember, ProjectRole } from "@/lib/types"
+import { PROJECT_ROLES, getRoleLabel } from "@/lib/members"
+
+interface ProjectMembersProps {
+  projectId: string
+}
+
+const getInviteLink = (token: string) => `${window.location.origin}/invite/${token}`
+
+export function ProjectMembers({ projectId }: ProjectMembersProps) {
+  const [members, setMembers] = useState<ProjectMember[]>([])
+  const [invitations, setInvitations] = useState<ProjectInvitation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState("")
+
+  // 邀请对话框
+  const [isInviteOpen, setIsInviteOpen] = useState(false)
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<ProjectRole>("editor")
+  const [isInviting, setIsInviting] = useState(false)
+  const [inviteLink, setInviteLink] = useState("")
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      const [membersResponse, invitationsResponse] = await Promise.all([
+        fetch(`/api/projects/${projectId}/members`),
+        fetch(`/api/projects/${projectId}/invitations`),
+      ])
+
+      if (!membersResponse.ok || !invitationsResponse.ok) {
+        throw new Error("Failed to fetch members")
+      }
+
+      setMembers(await membersResponse.json())
+      setInvitations(await invitationsResponse.json())
+    } catch (err) {
+      console.error("Error fetching members:", err)
+      setError("加载项目成员失败")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchMembers()
+  }, [fetchMembers])
+
+  const request = async (url: string, method: string, payload?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: payload ? JSON.stringify(payload) : undefined,
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || "Request failed")
+    }
+
+    return response.json()
+  }
+
+  const showError = (title: string, err: unknown) => {
+    toast({
+      title,
+      description: err instanceof Error ? err.message : String(err),
+      variant: "destructive",
+    })
+  }
+
+  const handleRoleChange = async (member: ProjectMember, role: ProjectRole) => {
+    try {
+      await request(`/api/projects/${projectId}/members/${member.id}`, "PATCH", { role })
+      setMembers((prev) => prev.map((m) => (m.id === member.id ? { ...m, role } : m)))
+      toast({
+        title: "角色已更新",
+        description: `${member.user.name} 现在是${getRoleLabel(role)}`,
+      })
+    } catch (err) {
+      showError("更新角色失败", err)
+    }
+  }
+
+  const handleRemoveMember = async (member: ProjectMember) => {
+    if (!confirm(`确定要将 ${member.user.name} 移出项目吗？分配给该成员的任务将变为未分配。`)) return
+
+    try {
+      await request(`/api/projects/${projectId}/members/${member.id}`, "DELETE")
+      setMembers((prev) => prev.filter((m) => m.id !== member.id))
+      toast({
+        title: "成员已移除",
+        description: `${member.user.name} 已被移出项目`,
+      })
+    } catch (err) {
+      showError("移除成员失败", err)
+    }
+  }
+
+  const handleInvite = async () => {
+    if (!inviteEmail.trim()) return
+
+    setIsInviting(true)
+    try {
+      const invitation: ProjectInvitation = await request(`/api/projects/${projectId}/invitations`, "POST", {
+        email: inviteEmail.trim(),
+        role: inviteRole,
+      })
+
+      setInvitations((prev) => [...prev.filter((i) => i.id !== invitation.id), invitation])
+      setInviteLink(getInviteLink(invitation.token))
+    } catch (err) {
+      showError("邀请失败", err)
+    } finally {
+      setIsInviting(false)
+    }
+  }
+
+  const handleRevoke = async (invitation: ProjectInvitation) => {
+    try {
+      await request(`/api/projects/${projectId}/invitations/${invitation.id}`, "DELETE")
+      setInvitations((prev) => prev.filter((i) => i.id !== invitation.id))
+    } catch (err) {
+      showError("撤销邀请失败", err)
+    }
+  }
+
+  const copyLink = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link)
+      toast({ title: "已复制邀请链接" })
+    } catch {
+      toast({ title: "复制失败", description: link, variant: "destructive" })
+    }
+  }
+
+  const openInviteDialog = () => {
+    setInviteEmail("")
+    setInviteRole("editor")
+    setInviteLink("")
+    setIsInviteOpen(true)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>成员权限</CardTitle>
+        <Button onClick={openInviteDialog} disabled={isLoading}>
+          <UserPlusIcon className="h-4 w-4 mr-2" />
+          邀请成员
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <p className="text-muted-foreground mb-6">
+          所有者可以管理项目设置和成员，编辑者可以创建和编辑任务，查看者只能查看项目。项目至少需要保留一名所有者。
+        </p>
+
+        {error && <div className="rounded-md bg-red-50 p-4 text-sm text-red-500 mb-4">{error}</div>}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>成员</TableHead>
+                  <TableHead className="w-[180px]">角色</TableHead>
+                  <TableHead className="text-right">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">
+                      暂无成员
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  members.map((member) => (
+                    <TableRow key={member.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          <Avatar className="h-8 w-8">
+                            <AvatarFallback className="text-xs">{member.user.initials}</AvatarFallback>
+                          </Avatar>
+                          <div>
+                            <div className="font-medium">{member.user.name}</div>
+                            <div className="text-xs text-muted-foreground">{member.user.email}</div>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={member.role}
+                          onValueChange={(role) => handleRoleChange(member, role as ProjectRole)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PROJECT_ROLES.map((role) => (
+                              <SelectItem key={role.value} value={role.value}>
+                                {role.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-500 hover:text-red-700"
+                          onClick={() => handleRemoveMember(member)}
+                        >
+                          <Trash2Icon className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+
+            {invitations.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">待接受的邀请</h3>
+                <Table>
+                  <TableBody>
+                    {invitations.map((invitation) => (
+                      <TableRow key={invitation.id}>
+                        <TableCell>{invitation.email}</TableCell>
+                        <TableCell className="w-[180px]">
+                          <Badge variant="outline">{getRoleLabel(invitation.role)}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => copyLink(getInviteLink(invitation.token))}
+                              title="复制邀请链接"
+                            >
+                              <CopyIcon className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-500 hover:text-red-700"
+                              onClick={() => handleRevoke(invitation)}
+                              title="撤销邀请"
+                            >
+                              <Trash2Icon className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>邀请成员</DialogTitle>
+          </DialogHeader>
+
+          {inviteLink ? (
+            <div className="space-y-2 py-4">
+              <Label>邀请链接</Label>
+              <div className="flex gap-2">
+                <Input value={inviteLink} readOnly />
+                <Button variant="outline" onClick={() => copyLink(inviteLink)}>
+                  <CopyIcon className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">把链接发送给对方，对方使用该邮箱登录后即可加入项目。</p>
+            </div>
+          ) : (
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">邮箱</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="name@example.com"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite-role">角色</Label>
+                <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as ProjectRole)}>
+                  <SelectTrigger id="invite-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROJECT_ROLES.map((role) => (
+                      <SelectItem key={role.value} value={role.value}>
+                        {role.label} - {role.description}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {inviteLink ? (
+              <Button onClick={() => setIsInviteOpen(false)}>完成</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setIsInviteOpen(false)}>
+                  取消
+                </Button>
+                <Button onClick={handleInvite} disabled={isInviting || !inviteEmail.trim()}>
+                  {isInviting ? "发送中..." : "创建邀请"}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -1,28 +1,53 @@
 "use client"
 
-import { useState, useEffect, useMemo, useCallback } from "react"
+import { useState, useEffect, useMemo, useCallback, useRef } from "react"
+import { format } from "date-fns"
 import TaskBoardWithErrorBoundary from "@/components/task-board-error-boundary"
 import { AddTaskButton } from "@/components/add-task-button"
+import type { FilterOptions } from "@/components/task-filter"
+import { Button } from "@/components/ui/button"
 import type { Task } from "@/lib/data"
-import type { CustomField } from "@/lib/types"
+import type { CustomField, ProjectMember, TaskQuery, TaskSort, WorkflowStatus } from "@/lib/types"
+import { getDefaultStatuses } from "@/lib/workflow"
+import { pruneFilterGroup } from "@/lib/filter-builder"
+import { useProjectEvents } from "@/hooks/use-project-events"
+import { useTaskPages } from "@/hooks/use-task-pages"
 
 interface ProjectTaskManagerProps {
   initialTasks: Task[]
+  initialNextCursor?: string | null
+  initialStatusCounts?: Record<string, number>
   projectId: string
   initialCustomFields?: CustomField[]
+  initialStatuses?: WorkflowStatus[]
+  members?: ProjectMember[]
+  currentUserId?: string
   onCustomFieldsChange?: (fields: CustomField[]) => void
 }
 
 export function ProjectTaskManager({
   initialTasks,
+  initialNextCursor = null,
+  initialStatusCounts,
   projectId,
   initialCustomFields = [],
+  initialStatuses,
+  members = [],
+  currentUserId,
   onCustomFieldsChange,
 }: ProjectTaskManagerProps) {
-  const [tasks, setTasks] = useState<Task[]>([])
+  const { tasks, setTasks, statusCounts, hasMore, isLoadingMore, loadMore, setQuery, refresh } = useTaskPages(
+    projectId,
+    initialTasks,
+    initialNextCursor,
+    initialStatusCounts,
+  )
   const [customFields, setCustomFields] = useState<CustomField[]>(initialCustomFields)
   const [isLoading, setIsLoading] = useState(true)
 
+  // 项目工作流状态，未传入时使用默认状态
+  const statuses = useMemo(() => initialStatuses || getDefaultStatuses(projectId), [initialStatuses, projectId])
+
   // 使用 useMemo 缓存任务数据，避免不必要的重新渲染
   const memoizedTasks = useMemo(() => initialTasks, [initialTasks])
 
@@ -56,6 +81,61 @@ export function ProjectTaskManager({
     setTasks(initialTasks)
   }, [initialTasks])
 
+  // 其他成员修改任务后重新拉取已加载的任务，短时间内的多个事件合并为一次请求
+  const refreshTimerRef = useRef<NodeJS.Timeout | null>(null)
+
+  const refreshTasks = useCallback(() => {
+    if (refreshTimerRef.current) {
+      clearTimeout(refreshTimerRef.current)
+    }
+
+    refreshTimerRef.current = setTimeout(refresh, 300)
+  }, [refresh])
+
+  useProjectEvents(projectId, refreshTasks)
+
+  useEffect(() => {
+    return () => {
+      if (refreshTimerRef.current) {
+        clearTimeout(refreshTimerRef.current)
+      }
+    }
+  }, [])
+
+  // 看板的筛选条件、搜索和排序交给服务端处理，从第一页重新加载符合条件的任务
+  const handleQueryChange = useCallback(
+    (filters: FilterOptions, search: string, sort: TaskSort | null) => {
+      const query: TaskQuery = {}
+      if (filters.title.trim()) query.title = filters.title.trim()
+      if (filters.assignee) query.assignees = [filters.assignee]
+      if (filters.status) query.statuses = [filters.status]
+      if (filters.priority) query.priorities = [filters.priority as Task["priority"]]
+      if (filters.dueDateFrom) query.dueFrom = format(filters.dueDateFrom, "yyyy-MM-dd")
+      if (filters.dueDateTo) query.dueTo = format(filters.dueDateTo, "yyyy-MM-dd")
+      if (filters.tags.length > 0) query.tags = filters.tags
+      const conditions = pruneFilterGroup(filters.conditions, customFields)
+      if (conditions.conditions.length > 0) query.filter = conditions
+      if (search.trim()) query.search = search.trim()
+      if (sort) query.sort = sort
+      setQuery(query)
+    },
+    [setQuery, customFields],
+  )
+
+  // 滚动到列表底部时自动加载下一页
+  const loadMoreRef = useRef<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    const element = loadMoreRef.current
+    if (!element || !hasMore || typeof IntersectionObserver === "undefined") return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) loadMore()
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [hasMore, loadMore, isLoading])
+
   // 优化任务添加处理函数
   const handleTaskAdded = useCallback((newTask: Task) => {
     setTasks((prevTasks) => [...prevTasks, newTask])
@@ -90,8 +170,8 @@ export function ProjectTaskManager({
           <div className="w-24 h-9 bg-gray-200 rounded animate-pulse"></div>
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-          {[1, 2, 3, 4].map((col) => (
-            <div key={col} className="flex flex-col p-4 rounded-lg border min-h-[300px]">
+          {statuses.map((status) => (
+            <div key={status.key} className="flex flex-col p-4 rounded-lg border min-h-[300px]">
               <div className="flex items-center justify-between mb-3">
                 <div className="h-5 w-20 bg-gray-200 rounded animate-pulse"></div>
                 <div className="flex items-center gap-2">
@@ -119,15 +199,33 @@ export function ProjectTaskManager({
     <div>
       <div className="flex items-center justify-between mb-8">
         <h2 className="text-lg font-medium">Task Board</h2>
-        <AddTaskButton projectId={projectId} onTaskAdded={handleTaskAdded} customFields={customFields} />
+        <AddTaskButton
+          projectId={projectId}
+          onTaskAdded={handleTaskAdded}
+          customFields={customFields}
+          statuses={statuses}
+          members={members}
+        />
       </div>
       <TaskBoardWithErrorBoundary
         tasks={tasks}
+        statusCounts={statusCounts}
         projectId={projectId}
         onTasksChange={setTasks}
         customFields={customFields}
+        statuses={statuses}
+        members={members}
+        currentUserId={currentUserId}
         onCustomFieldsChange={handleCustomFieldsChange}
+        onQueryChange={handleQueryChange}
       />
+      {hasMore && (
+        <div ref={loadMoreRef} className="flex justify-center py-6">
+          <Button variant="outline" size="sm" onClick={loadMore} disabled={isLoadingMore}>
+            {isLoadingMore ? "Loading..." : "Load more tasks"}
+          </Button>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,105 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { CopyIcon, LayoutTemplateIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toast } from "@/hooks/use-toast"
+import { MAX_TEMPLATE_NAME_LENGTH } from "@/lib/project-templates"
+import type { ProjectTemplate } from "@/lib/types"
+
+interface ProjectTemplateSettingsProps {
+  projectId: string
+}
+
+export function ProjectTemplateSettings({ projectId }: ProjectTemplateSettingsProps) {
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/projects/templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ projectId, name, description }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null)
+        throw new Error(errorData?.error || "Failed to save template")
+      }
+
+      const template: ProjectTemplate = await response.json()
+
+      toast({
+        title: "模板已保存",
+        description: `「${template.name}」包含 ${template.customFieldCount} 个自定义字段和 ${template.taskCount} 个任务`,
+      })
+      setName("")
+      setDescription("")
+    } catch (err) {
+      toast({
+        title: "保存失败",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <LayoutTemplateIcon className="h-5 w-5 mr-2" />
+          项目模板
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          模板保存当前项目的工作流、自定义字段和全部任务（不包括负责人），任务日期按相对项目创建日期的天数保存。
+          新建项目时可以选择模板，任务日期会从新项目的开始日期换算。模板只有你自己能看到。
+        </p>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">模板名称</Label>
+            <Input
+              id="template-name"
+              value={name}
+              maxLength={MAX_TEMPLATE_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="例如：客户项目"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">说明</Label>
+            <Input
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="可选"
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleSave} disabled={isSaving || !name.trim()}>
+            <LayoutTemplateIcon className="h-4 w-4 mr-2" />
+            {isSaving ? "保存中..." : "保存为模板"}
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href={`/projects/new?duplicate=${projectId}`}>
+              <CopyIcon className="h-4 w-4 mr-2" />
+              复制项目
+            </Link>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,324 @@
+"use client"
+
+import { useState, useEffect, useMemo, useCallback, useRef } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { BookmarkIcon, ChevronDownIcon, LinkIcon, SaveIcon, Trash2Icon, UsersIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useToast } from "@/hooks/use-toast"
+import { DEFAULT_VIEW_CONFIG, isSameViewConfig, MAX_VIEW_NAME_LENGTH } from "@/lib/saved-views"
+import { hasRole } from "@/lib/members"
+import type { ProjectMember, SavedView, SavedViewConfig } from "@/lib/types"
+
+interface SavedViewsProps {
+  projectId: string
+  config: SavedViewConfig // 看板当前的状态
+  onApply: (config: SavedViewConfig) => void
+  currentUserId?: string
+  members?: ProjectMember[]
+}
+
+// 保存的视图菜单：打开的视图通过 ?view=<id> 记录在地址中，复制地址即可分享同一视图
+export function SavedViews({ projectId, config, onApply, currentUserId, members = [] }: SavedViewsProps) {
+  const { toast } = useToast()
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const viewParam = searchParams.get("view")
+
+  const [views, setViews] = useState<SavedView[]>([])
+  const [activeViewId, setActiveViewId] = useState<string | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [viewName, setViewName] = useState("")
+  const [shareView, setShareView] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // 地址中的视图只在进入页面时打开一次
+  const initialViewIdRef = useRef(viewParam)
+  const onApplyRef = useRef(onApply)
+
+  useEffect(() => {
+    onApplyRef.current = onApply
+  }, [onApply])
+
+  const role = members.find((member) => member.user.id === currentUserId)?.role
+  const canShare = hasRole(role, "editor")
+  const activeView = views.find((view) => view.id === activeViewId) || null
+  const canManage = (view: SavedView) => view.createdBy === currentUserId || hasRole(role, "owner")
+  const isModified = !!activeView && !isSameViewConfig(activeView.config, config)
+
+  const sharedViews = useMemo(() => views.filter((view) => view.shared), [views])
+  const privateViews = useMemo(() => views.filter((view) => !view.shared), [views])
+
+  const request = useCallback(async (url: string, method: string, payload?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: payload ? { "Content-Type": "application/json" } : undefined,
+      body: payload ? JSON.stringify(payload) : undefined,
+    })
+    const data = await response.json().catch(() => null)
+
+    if (!response.ok) {
+      throw new Error(data?.error || "Request failed")
+    }
+
+    return data
+  }, [])
+
+  // 加载视图后打开地址中指定的视图
+  useEffect(() => {
+    const initialViewId = initialViewIdRef.current
+    let cancelled = false
+
+    request(`/api/projects/${projectId}/views`, "GET")
+      .then((data: SavedView[]) => {
+        if (cancelled) return
+        setViews(data)
+
+        if (initialViewId) {
+          const view = data.find((item) => item.id === initialViewId)
+          if (view) {
+            setActiveViewId(view.id)
+            onApplyRef.current(view.config)
+          } else {
+            toast({ title: "视图不存在", description: "该视图已被删除或没有共享给你", variant: "destructive" })
+          }
+        }
+      })
+      .catch((error) => console.error("Error loading saved views:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [projectId, request, toast])
+
+  const updateUrl = (viewId: string | null) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (viewId) params.set("view", viewId)
+    else params.delete("view")
+    const query = params.toString()
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }
+
+  const openView = (view: SavedView | null) => {
+    setActiveViewId(view?.id || null)
+    onApply(view ? view.config : DEFAULT_VIEW_CONFIG)
+    updateUrl(view?.id || null)
+  }
+
+  const handleSaveNew = async () => {
+    setIsSaving(true)
+    try {
+      const view: SavedView = await request(`/api/projects/${projectId}/views`, "POST", {
+        name: viewName,
+        config,
+        shared: shareView,
+      })
+      setViews((prev) => [...prev, view].sort((a, b) => a.name.localeCompare(b.name)))
+      setActiveViewId(view.id)
+      updateUrl(view.id)
+      setIsDialogOpen(false)
+      toast({ title: "视图已保存", description: view.name })
+    } catch (error) {
+      toast({
+        title: "保存失败",
+        description: error instanceof Error ? error.message : "无法保存视图",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleUpdate = async (view: SavedView, changes: { config?: SavedViewConfig; shared?: boolean }) => {
+    try {
+      const updated: SavedView = await request(`/api/projects/${projectId}/views/${view.id}`, "PUT", changes)
+      setViews((prev) => prev.map((item) => (item.id === updated.id ? updated : item)))
+      toast({ title: "视图已更新", description: updated.name })
+    } catch (error) {
+      toast({
+        title: "更新失败",
+        description: error instanceof Error ? error.message : "无法更新视图",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDelete = async (view: SavedView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return
+
+    try {
+      await request(`/api/projects/${projectId}/views/${view.id}`, "DELETE")
+      setViews((prev) => prev.filter((item) => item.id !== view.id))
+      if (activeViewId === view.id) {
+        setActiveViewId(null)
+        updateUrl(null)
+      }
+    } catch (error) {
+      toast({
+        title: "删除失败",
+        description: error instanceof Error ? error.message : "无法删除视图",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleCopyLink = async (view: SavedView) => {
+    const url = new URL(window.location.href)
+    url.searchParams.set("view", view.id)
+    try {
+      await navigator.clipboard.writeText(url.toString())
+      toast({
+        title: "链接已复制",
+        description: view.shared ? "项目成员打开链接即可看到同一视图" : "私有视图只有你自己能打开",
+      })
+    } catch {
+      toast({ title: "复制失败", description: url.toString(), variant: "destructive" })
+    }
+  }
+
+  const renderViewItem = (view: SavedView) => (
+    <DropdownMenuItem key={view.id} onSelect={() => openView(view)} className="gap-2">
+      {view.shared ? <UsersIcon className="h-4 w-4" /> : <BookmarkIcon className="h-4 w-4" />}
+      <span className={view.id === activeViewId ? "font-medium" : undefined}>{view.name}</span>
+    </DropdownMenuItem>
+  )
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2">
+            <BookmarkIcon className="h-4 w-4" />
+            <span className="max-w-[200px] truncate">{activeView ? activeView.name : "All tasks"}</span>
+            {isModified && <span className="h-2 w-2 rounded-full bg-primary" title="Unsaved changes" />}
+            <ChevronDownIcon className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuItem onSelect={() => openView(null)}>All tasks</DropdownMenuItem>
+
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Shared views</DropdownMenuLabel>
+              {sharedViews.map(renderViewItem)}
+            </>
+          )}
+
+          {privateViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>My views</DropdownMenuLabel>
+              {privateViews.map(renderViewItem)}
+            </>
+          )}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="gap-2"
+            onSelect={() => {
+              setViewName("")
+              setShareView(false)
+              setIsDialogOpen(true)
+            }}
+          >
+            <SaveIcon className="h-4 w-4" />
+            Save as new view...
+          </DropdownMenuItem>
+
+          {activeView && (
+            <>
+              {canManage(activeView) && isModified && (
+                <DropdownMenuItem className="gap-2" onSelect={() => handleUpdate(activeView, { config })}>
+                  <SaveIcon className="h-4 w-4" />
+                  Update &quot;{activeView.name}&quot;
+                </DropdownMenuItem>
+              )}
+              {canManage(activeView) && (canShare || activeView.shared) && (
+                <DropdownMenuItem
+                  className="gap-2"
+                  onSelect={() => handleUpdate(activeView, { shared: !activeView.shared })}
+                >
+                  <UsersIcon className="h-4 w-4" />
+                  {activeView.shared ? "Stop sharing" : "Share with project"}
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem className="gap-2" onSelect={() => handleCopyLink(activeView)}>
+                <LinkIcon className="h-4 w-4" />
+                Copy link
+              </DropdownMenuItem>
+              {canManage(activeView) && (
+                <DropdownMenuItem className="gap-2 text-red-600" onSelect={() => handleDelete(activeView)}>
+                  <Trash2Icon className="h-4 w-4" />
+                  Delete view
+                </DropdownMenuItem>
+              )}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !isSaving && setIsDialogOpen(open)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+            <DialogDescription>
+              Saves the current filters, search, sort order, table columns, swimlanes and view mode.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                value={viewName}
+                maxLength={MAX_VIEW_NAME_LENGTH}
+                onChange={(e) => setViewName(e.target.value)}
+                placeholder="e.g. My open bugs"
+                autoFocus
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="view-shared"
+                checked={shareView}
+                onCheckedChange={(checked) => setShareView(checked === true)}
+                disabled={!canShare}
+              />
+              <Label htmlFor="view-shared" className="font-normal">
+                Share with project members
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveNew} disabled={isSaving || !viewName.trim()}>
+              {isSaving ? "Saving..." : "Save view"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
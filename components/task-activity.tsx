@@ -0,0 +1,140 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { HistoryIcon } from "lucide-react"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import type { CustomField, TaskActivity, TaskActivityChange, WorkflowStatus } from "@/lib/types"
+import { getStatusName } from "@/lib/workflow"
+import { getInitials } from "@/lib/members"
+
+interface TaskActivityTimelineProps {
+  taskId: string
+  statuses: WorkflowStatus[]
+  customFields: CustomField[]
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "title",
+  description: "description",
+  status: "status",
+  priority: "priority",
+  parentId: "parent task",
+  assignee: "assignee",
+  startDate: "start date",
+  dueDate: "due date",
+  tags: "tags",
+  blockedBy: "blockers",
+  order: "position",
+  project: "project",
+  recurrence: "repeat rule",
+}
+
+const formatDateTime = (dateString?: string) => {
+  if (!dateString) return ""
+  return new Date(dateString).toLocaleString()
+}
+
+export function TaskActivityTimeline({ taskId, statuses, customFields }: TaskActivityTimelineProps) {
+  const [activity, setActivity] = useState<TaskActivity[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchActivity = async () => {
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/activity`)
+
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.error || "Failed to fetch activity")
+        }
+
+        setActivity(await response.json())
+      } catch (err) {
+        console.error("Error fetching activity:", err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchActivity()
+  }, [taskId])
+
+  const getFieldLabel = (field: string) => {
+    if (field.startsWith("customFields.")) {
+      const fieldId = field.slice("customFields.".length)
+      return customFields.find((customField) => customField.id === fieldId)?.name || "custom field"
+    }
+    return FIELD_LABELS[field] || field
+  }
+
+  const formatValue = (field: string, value: any) => {
+    if (value === null || value === undefined) return "none"
+    if (field === "status") return getStatusName(statuses, value)
+    if (field === "priority") return String(value).charAt(0).toUpperCase() + String(value).slice(1)
+    if (field === "dueDate" || field === "startDate") return new Date(value).toLocaleDateString()
+    if (Array.isArray(value)) return value.join(", ")
+    if (typeof value === "boolean") return value ? "Yes" : "No"
+    return String(value)
+  }
+
+  const describeChange = (change: TaskActivityChange) => {
+    const label = getFieldLabel(change.field)
+
+    // 描述是富文本、父任务只保存了 ID，只提示发生了修改
+    if (change.field === "description" || change.field === "parentId") return `updated the ${label}`
+    if (change.field === "order") return `moved the task from position ${change.from ?? "-"} to ${change.to ?? "-"}`
+
+    return (
+      <>
+        changed the {label} from <span className="font-medium">{formatValue(change.field, change.from)}</span> to{" "}
+        <span className="font-medium">{formatValue(change.field, change.to)}</span>
+      </>
+    )
+  }
+
+  const renderEntry = (entry: TaskActivity) => {
+    const actorName = entry.actor?.name || "System"
+
+    return (
+      <div key={entry.id} className="flex gap-3">
+        <Avatar className="h-8 w-8">
+          <AvatarFallback className="text-xs">{getInitials(actorName)}</AvatarFallback>
+        </Avatar>
+        <div className="flex-1 space-y-1">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-medium">{actorName}</span>
+            <span className="text-xs text-muted-foreground">{formatDateTime(entry.created_at)}</span>
+          </div>
+          {entry.action === "created" ? (
+            <p className="text-sm text-muted-foreground">created the task</p>
+          ) : (
+            <ul className="space-y-0.5">
+              {entry.changes.map((change) => (
+                <li key={change.field} className="text-sm text-muted-foreground">
+                  {describeChange(change)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <h3 className="text-lg font-medium flex items-center">
+        <HistoryIcon className="h-5 w-5 mr-2" />
+        Activity
+      </h3>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading activity...</p>
+      ) : activity.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No activity yet.</p>
+      ) : (
+        <div className="space-y-4">{activity.map((entry) => renderEntry(entry))}</div>
+      )}
+    </div>
+  )
+}
@@ -2,14 +2,20 @@
 
 import React from "react"
 import TaskBoard from "./task-board"
-import type { Task, CustomField } from "@/lib/types"
+import type { FilterOptions } from "./task-filter"
+import type { Task, CustomField, ProjectMember, TaskSort, WorkflowStatus } from "@/lib/types"
 
 type TaskBoardProps = {
   tasks: Task[]
+  statusCounts?: Record<string, number>
   projectId: string
   onTasksChange?: (tasks: Task[]) => void
   customFields?: CustomField[]
+  statuses?: WorkflowStatus[]
+  members?: ProjectMember[]
+  currentUserId?: string
   onCustomFieldsChange?: (fields: CustomField[]) => void
+  onQueryChange?: (filters: FilterOptions, search: string, sort: TaskSort | null) => void
 }
 
 class TaskBoardErrorBoundary extends React.Component<
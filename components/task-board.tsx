@@ -5,7 +5,22 @@ import { useState, useEffect, useMemo, useRef, useCallback } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
-import { CalendarIcon, MessageSquareIcon, PencilIcon, PlusIcon, Search } from "lucide-react"
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  BanIcon,
+  CalendarIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  Columns3Icon,
+  ListChecksIcon,
+  MessageSquareIcon,
+  PencilIcon,
+  PlusIcon,
+  RepeatIcon,
+  Rows3Icon,
+  Search,
+} from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Input } from "@/components/ui/input"
@@ -13,13 +28,46 @@ import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { useRouter } from "next/navigation"
-import type { FilterOptions } from "./task-filter"
+import { format, parseISO } from "date-fns"
+import TaskFilter, { EMPTY_FILTERS, type FilterOptions } from "./task-filter"
 import { MultiSelect } from "./multi-select"
 import { TaskTable } from "./task-table"
+import { TaskCalendar } from "./task-calendar"
+import { TaskTimeline, type TaskDateChanges } from "./task-timeline"
 import { ViewToggle } from "./view-toggle"
+import { SavedViews } from "./saved-views"
+import { TaskBulkActions } from "./task-bulk-actions"
+import { TaskConflictDialog } from "./task-conflict-dialog"
 import type { Task } from "@/lib/data"
-import type { CustomField } from "@/lib/types"
+import type {
+  CustomField,
+  ProjectMember,
+  SavedViewConfig,
+  SwimlaneGroupBy,
+  TaskBatchResult,
+  TaskSort,
+  TaskViewMode,
+  WorkflowStatus,
+} from "@/lib/types"
+import { matchesFilterGroup, pruneFilterGroup } from "@/lib/filter-builder"
+import { TABLE_COLUMNS } from "@/lib/saved-views"
+import { getLaneChanges, getSwimlaneOptions, getSwimlanes, getTaskLaneKeys } from "@/lib/swimlanes"
+import { toggleTaskSelection } from "@/lib/task-batch"
+import { getTaskChanges, mergeTaskVersions, resolveTaskConflicts } from "@/lib/task-merge"
+import type { TaskConflict, TaskConflictChoice, TaskMergeField } from "@/lib/task-merge"
+import { describeRecurrence } from "@/lib/task-recurrence"
+import { getDefaultStatuses, findStatus, checkStatusChange, isDoneStatus } from "@/lib/workflow"
+import { toAssignee } from "@/lib/members"
 import { memo } from "react"
 import { useToast } from "@/hooks/use-toast"
 import dynamic from "next/dynamic"
@@ -55,12 +103,17 @@ const TaskCard = memo(
     getPriorityColor,
     customFields,
     renderCustomFieldInCard,
-    getStatusColor,
+    getStatusMeta,
     draggedTask,
     index,
     dragOverInfo,
+    subtaskProgress,
+    blockers,
+    isSelected,
+    onToggleSelect,
   }: any) => {
     const router = useRouter()
+    const statusMeta = getStatusMeta(task.status)
     return (
       <div
         key={`task-card-${task.id}`}
@@ -81,7 +134,18 @@ const TaskCard = memo(
         <Card className="h-[180px] w-full max-w-[calc(100%-1px)] transition-all hover:border-primary hover:shadow-sm relative">
           <CardHeader className="p-4 pb-2">
             <div className="flex items-center justify-between">
-              <CardTitle className="text-base font-medium truncate">{task.title}</CardTitle>
+              <div className="flex items-center gap-2 min-w-0">
+                <Checkbox
+                  checked={isSelected}
+                  onClick={(e) => {
+                    e.preventDefault()
+                    e.stopPropagation()
+                    onToggleSelect(task.id, e.shiftKey)
+                  }}
+                  aria-label={`Select ${task.title}`}
+                />
+                <CardTitle className="text-base font-medium truncate">{task.title}</CardTitle>
+              </div>
               <Button
                 variant="ghost"
                 size="icon"
@@ -147,32 +211,51 @@ const TaskCard = memo(
 
                 <Badge
                   variant="outline"
-                  className={cn(
-                    "text-xs whitespace-nowrap",
-                    getStatusColor(task.status) === "bg-black"
-                      ? "bg-black text-white"
-                      : getStatusColor(task.status).replace("bg-", "text-"),
-                  )}
+                  className="text-xs whitespace-nowrap"
+                  style={{ color: statusMeta.color, borderColor: statusMeta.color }}
                 >
-                  {task.status === "in-progress"
-                    ? "In Progress"
-                    : task.status.charAt(0).toUpperCase() + task.status.slice(1)}
+                  {statusMeta.name}
                 </Badge>
               </div>
-              {(task.dueDate || task.comments > 0) && (
+              {(task.dueDate || task.recurrence || task.comments > 0 || subtaskProgress || blockers) && (
                 <div className="mt-2 flex items-center gap-4 text-xs text-muted-foreground">
+                  {blockers && (
+                    <div className="flex items-center gap-1 text-red-500" title={`Blocked by ${blockers.join(", ")}`}>
+                      <BanIcon className="h-3 w-3" />
+                      <span>Blocked</span>
+                    </div>
+                  )}
                   {task.dueDate && (
                     <div className="flex items-center gap-1">
                       <CalendarIcon className="h-3 w-3" />
                       <span>{formatDate(task.dueDate)}</span>
                     </div>
                   )}
+                  {task.recurrence && (
+                    <div className="flex items-center" title={describeRecurrence(task.recurrence)}>
+                      <RepeatIcon className="h-3 w-3" />
+                    </div>
+                  )}
                   {task.comments > 0 && (
                     <div className="flex items-center gap-1">
                       <MessageSquareIcon className="h-3 w-3" />
                       <span>{task.comments}</span>
                     </div>
                   )}
+                  {subtaskProgress && (
+                    <div
+                      className={cn(
+                        "flex items-center gap-1",
+                        subtaskProgress.done === subtaskProgress.total && "text-green-600",
+                      )}
+                      title="Subtasks done"
+                    >
+                      <ListChecksIcon className="h-3 w-3" />
+                      <span>
+                        {subtaskProgress.done}/{subtaskProgress.total}
+                      </span>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -190,9 +273,15 @@ const TaskCard = memo(
       prevProps.task.status === nextProps.task.status &&
       prevProps.task.priority === nextProps.task.priority &&
       prevProps.draggedTask?.id === nextProps.draggedTask?.id &&
+      prevProps.getStatusMeta === nextProps.getStatusMeta &&
       prevProps.index === nextProps.index &&
+      prevProps.isSelected === nextProps.isSelected &&
+      prevProps.subtaskProgress?.done === nextProps.subtaskProgress?.done &&
+      prevProps.subtaskProgress?.total === nextProps.subtaskProgress?.total &&
+      JSON.stringify(prevProps.blockers) === JSON.stringify(nextProps.blockers) &&
       JSON.stringify(prevProps.dragOverInfo) === JSON.stringify(nextProps.dragOverInfo) &&
-      JSON.stringify(prevProps.task.tags) === JSON.stringify(nextProps.task.tags)
+      JSON.stringify(prevProps.task.tags) === JSON.stringify(nextProps.task.tags) &&
+      JSON.stringify(prevProps.task.recurrence) === JSON.stringify(nextProps.task.recurrence)
     )
   },
 )
@@ -217,31 +306,72 @@ const TaskColumn = memo(
     getPriorityColor,
     customFields,
     renderCustomFieldInCard,
-    getStatusColor,
+    getStatusMeta,
     dragOverInfo,
+    totalCount,
+    wipLimit,
+    dropBlocked,
+    subtaskProgress,
+    openBlockers,
+    laneKey,
+    selectedTaskIds,
+    onToggleSelect,
   }: any) => {
     // 使用 useMemo 优化列内任务的过滤，避免不必要的重新计算
     const tasksInColumn = useMemo(() => {
       return filteredTasksList.filter((task) => task.status === column.id)
     }, [filteredTasksList, column.id])
 
+    // 分泳道时每个泳道中都有这一列，拖放高亮按泳道区分
+    const dropTargetId = laneKey === undefined ? column.id : `${laneKey}:${column.id}`
+
+    // 拖动时记录任务来自哪个泳道
+    const handleCardDragStart = useCallback(
+      (e: React.DragEvent, task: Task, index: number) => onDragStart(e, task, index, laneKey),
+      [onDragStart, laneKey],
+    )
+
+    // 按住 Shift 连续选择时按这一列中任务的顺序
+    const handleToggleSelect = useCallback(
+      (taskId: string, extend: boolean) =>
+        onToggleSelect(
+          taskId,
+          extend,
+          tasksInColumn.map((task: Task) => task.id),
+        ),
+      [onToggleSelect, tasksInColumn],
+    )
+
     return (
       <div
         key={`task-column-${column.id}`}
         className={cn(
           "flex flex-col p-4 rounded-lg w-full min-w-0",
-          dragOverColumn === column.id && "outline outline-2 outline-dashed outline-blue-500 bg-blue-50/50",
+          dragOverColumn === dropTargetId &&
+            !dropBlocked &&
+            "outline outline-2 outline-dashed outline-blue-500 bg-blue-50/50",
+          dropBlocked && "opacity-50 cursor-not-allowed",
         )}
-        onDragOver={(e) => handleDragOver(e, column.id)}
-        onDrop={(e) => handleDrop(e, column.id as Task["status"])}
-        onDragEnter={(e) => handleDragEnter(e, column.id)}
-        onDragLeave={(e) => handleDragLeave(e, column.id)}
+        onDragOver={(e) => handleDragOver(e, column.id, dropTargetId)}
+        onDrop={(e) => handleDrop(e, column.id as Task["status"], laneKey)}
+        onDragEnter={(e) => handleDragEnter(e, dropTargetId)}
+        onDragLeave={(e) => handleDragLeave(e, dropTargetId)}
         data-column-id={column.id}
       >
         <div className="mb-3 flex items-center justify-between">
-          <h3 className="font-medium">{column.title}</h3>
+          <h3 className="font-medium flex items-center gap-2">
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: column.color }} />
+            {column.title}
+          </h3>
           <div className="flex items-center gap-2">
-            <Badge variant="outline">{tasksInColumn.length}</Badge>
+            {wipLimit ? (
+              // WIP 上限按列内全部任务计算，不受筛选影响
+              <Badge variant={totalCount > wipLimit ? "destructive" : "outline"} title="WIP limit">
+                {totalCount}/{wipLimit}
+              </Badge>
+            ) : (
+              <Badge variant="outline">{tasksInColumn.length}</Badge>
+            )}
             <Button
               variant="ghost"
               size="icon"
@@ -252,13 +382,13 @@ const TaskColumn = memo(
             </Button>
           </div>
         </div>
-        <div className="flex flex-col gap-3 min-h-[200px]">
+        <div className={cn("flex flex-col gap-3", laneKey === undefined ? "min-h-[200px]" : "min-h-[80px]")}>
           {tasksInColumn.map((task, index) => (
             <TaskCard
               key={task.id}
               task={task}
               index={index}
-              onDragStart={onDragStart}
+              onDragStart={handleCardDragStart}
               onDragEnd={onDragEnd}
               onDragOver={onDragOverTask}
               handleEditTask={handleEditTask}
@@ -266,9 +396,13 @@ const TaskColumn = memo(
               getPriorityColor={getPriorityColor}
               customFields={customFields}
               renderCustomFieldInCard={renderCustomFieldInCard}
-              getStatusColor={getStatusColor}
+              getStatusMeta={getStatusMeta}
               draggedTask={draggedTask}
               dragOverInfo={dragOverInfo}
+              subtaskProgress={subtaskProgress[task.id]}
+              blockers={openBlockers[task.id]}
+              isSelected={selectedTaskIds.includes(task.id)}
+              onToggleSelect={handleToggleSelect}
             />
           ))}
           {tasksInColumn.length === 0 && (
@@ -277,7 +411,7 @@ const TaskColumn = memo(
               onDragOver={(e) => {
                 e.preventDefault()
                 e.stopPropagation()
-                handleDragOver(e, column.id)
+                handleDragOver(e, column.id, dropTargetId)
               }}
             >
               No tasks
@@ -291,7 +425,18 @@ const TaskColumn = memo(
   (prevProps, nextProps) => {
     return (
       prevProps.column.id === nextProps.column.id &&
+      prevProps.laneKey === nextProps.laneKey &&
+      prevProps.column.title === nextProps.column.title &&
+      prevProps.column.color === nextProps.column.color &&
+      prevProps.getStatusMeta === nextProps.getStatusMeta &&
       prevProps.dragOverColumn === nextProps.dragOverColumn &&
+      prevProps.totalCount === nextProps.totalCount &&
+      prevProps.wipLimit === nextProps.wipLimit &&
+      prevProps.dropBlocked === nextProps.dropBlocked &&
+      prevProps.subtaskProgress === nextProps.subtaskProgress &&
+      prevProps.openBlockers === nextProps.openBlockers &&
+      prevProps.selectedTaskIds === nextProps.selectedTaskIds &&
+      prevProps.onToggleSelect === nextProps.onToggleSelect &&
       prevProps.draggedTask?.id === nextProps.draggedTask?.id &&
       JSON.stringify(prevProps.dragOverInfo) === JSON.stringify(nextProps.dragOverInfo) &&
       // 使用任务ID和状态的组合来比较任务列表是否变化
@@ -311,19 +456,60 @@ const TaskColumn = memo(
 
 export type TaskBoardProps = {
   tasks: Task[]
+  // 服务端统计的每个状态的任务总数；已加载的任务可能只是其中一部分
+  statusCounts?: Record<string, number>
   projectId: string
   onTasksChange?: (tasks: Task[]) => void
   customFields?: CustomField[]
+  statuses?: WorkflowStatus[]
+  members?: ProjectMember[]
+  currentUserId?: string
   onCustomFieldsChange?: (fields: CustomField[]) => void
+  // 筛选条件、搜索词或排序变化时调用，父组件可据此从服务端重新加载任务
+  onQueryChange?: (filters: FilterOptions, search: string, sort: TaskSort | null) => void
+}
+
+const SORT_OPTIONS: { key: TaskSort["key"]; label: string }[] = [
+  { key: "title", label: "Title" },
+  { key: "dueDate", label: "Due date" },
+  { key: "createdAt", label: "Created" },
+  { key: "updatedAt", label: "Updated" },
+]
+
+const SORT_VALUES: Record<TaskSort["key"], (task: Task) => string | number | undefined> = {
+  order: (task) => task.order,
+  title: (task) => task.title.toLowerCase(),
+  dueDate: (task) => task.dueDate,
+  createdAt: (task) => task.created_at,
+  updatedAt: (task) => task.updated_at,
 }
 
-type ViewMode = "board" | "table"
+// 与服务端一致：空值总是排在最后，相同值之间按任务 ID 排序
+const sortTasks = (tasksToSort: Task[], sort: TaskSort) => {
+  const getValue = SORT_VALUES[sort.key]
+  const compare = (a: string | number, b: string | number) => (a < b ? -1 : a > b ? 1 : 0)
+
+  return [...tasksToSort].sort((a, b) => {
+    const aValue = getValue(a) ?? null
+    const bValue = getValue(b) ?? null
+    if ((aValue === null) !== (bValue === null)) return aValue === null ? 1 : -1
+
+    const order = (aValue === null || bValue === null ? 0 : compare(aValue, bValue)) || compare(a.id, b.id)
+    return sort.direction === "asc" ? order : -order
+  })
+}
 
 // Add this to the existing styles
 const RequiredIndicator = () => <span className="text-red-500 mr-0.5">*</span>
 
 // 将过滤函数移到组件外部并使用 useMemo 缓存结果
-const filterTasks = (tasksToFilter: Task[], filterOptions: FilterOptions, query: string) => {
+const filterTasks = (
+  tasksToFilter: Task[],
+  filterOptions: FilterOptions,
+  query: string,
+  customFields: CustomField[],
+  sort: TaskSort | null,
+) => {
   let result = [...tasksToFilter]
 
   // Add search filter
@@ -345,10 +531,15 @@ const filterTasks = (tasksToFilter: Task[], filterOptions: FilterOptions, query:
     if (filterOptions.assignee === "unassigned") {
       result = result.filter((task) => !task.assignee)
     } else {
-      result = result.filter((task) => task.assignee?.name === filterOptions.assignee)
+      result = result.filter((task) => task.assignee?.id === filterOptions.assignee)
     }
   }
 
+  // Filter by status
+  if (filterOptions.status) {
+    result = result.filter((task) => task.status === filterOptions.status)
+  }
+
   // Filter by priority
   if (filterOptions.priority) {
     result = result.filter((task) => task.priority === filterOptions.priority)
@@ -379,7 +570,13 @@ const filterTasks = (tasksToFilter: Task[], filterOptions: FilterOptions, query:
     })
   }
 
-  return result
+  // Filter by condition groups（引用已删除字段的条件不生效）
+  const conditions = pruneFilterGroup(filterOptions.conditions, customFields)
+  if (conditions.conditions.length > 0) {
+    result = result.filter((task) => matchesFilterGroup(task, conditions, customFields))
+  }
+
+  return sort ? sortTasks(result, sort) : result
 }
 
 // 优化自定义字段渲染函数
@@ -416,38 +613,6 @@ const renderCustomFieldInCard = (task: Task, field: CustomField) => {
   }
 }
 
-// 优化状态颜色函数
-const getStatusColorMemo = (() => {
-  const cache = new Map<string, string>()
-
-  return (status: Task["status"]) => {
-    if (cache.has(status)) {
-      return cache.get(status)!
-    }
-
-    let color
-    switch (status) {
-      case "todo":
-        color = "bg-gray-500"
-        break
-      case "in-progress":
-        color = "bg-red-500"
-        break
-      case "review":
-        color = "bg-purple-500"
-        break
-      case "done":
-        color = "bg-black"
-        break
-      default:
-        color = "bg-gray-500"
-    }
-
-    cache.set(status, color)
-    return color
-  }
-})()
-
 // 定义清理过期缓存的函数
 const clearExpiredCache = () => {
   // 实现清理过期缓存的逻辑
@@ -458,10 +623,15 @@ const clearExpiredCache = () => {
 
 function TaskBoard({
   tasks: initialTasks,
+  statusCounts = {},
   projectId,
   onTasksChange,
   customFields: initialCustomFields = [],
+  statuses: initialStatuses,
+  members = [],
+  currentUserId,
   onCustomFieldsChange,
+  onQueryChange,
 }: TaskBoardProps) {
   // Move the useToast hook to the top of the component
   const { toast } = useToast()
@@ -471,30 +641,36 @@ function TaskBoard({
   const router = useRouter()
   const [initialized, setInitialized] = useState(false)
   const [tasks, setTasks] = useState<Task[]>([])
-  const [filters, setFilters] = useState<FilterOptions>({
-    title: "",
-    assignee: "",
-    priority: "",
-    dueDateFrom: undefined,
-    dueDateTo: undefined,
-    tags: [],
-  })
-  const [viewMode, setViewMode] = useState<ViewMode>("board")
+  const [filters, setFilters] = useState<FilterOptions>(EMPTY_FILTERS)
+  const [viewMode, setViewMode] = useState<TaskViewMode>("board")
   const [searchQuery, setSearchQuery] = useState("")
+  const [sort, setSort] = useState<TaskSort | null>(null)
+  const [visibleColumns, setVisibleColumns] = useState<string[] | null>(null)
+  const [swimlanes, setSwimlanes] = useState<SwimlaneGroupBy | null>(null)
+  const [collapsedLanes, setCollapsedLanes] = useState<string[]>([])
+  // 批量操作选中的任务
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([])
+  const selectionAnchorRef = useRef<string | null>(null)
+  // 批量修改后重新挂载表格，表格只在任务集合变化时才同步传入的任务
+  const [tableVersion, setTableVersion] = useState(0)
 
   // 修改拖拽状态管理
   const [dragOverInfo, setDragOverInfo] = useState<DragOverInfo | null>(null)
   const [draggedTask, setDraggedTask] = useState<Task | null>(null)
   const [editingTask, setEditingTask] = useState<Task | null>(null)
+  // 编辑对话框基于的任务版本，保存时作为 If-Match 发送，冲突时作为合并的基准
+  const editingBaseRef = useRef<Task | null>(null)
+  const [editConflict, setEditConflict] = useState<{ merged: Task; conflicts: TaskConflict[] } | null>(null)
   const [isEditing, setIsEditing] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [isMovingTask, setIsMovingTask] = useState(isSaving)
 
   const [isAddingTask, setIsAddingTask] = useState(false)
-  const [newTaskStatus, setNewTaskStatus] = useState<Task["status"]>("todo")
+  const [newTaskStatus, setNewTaskStatus] = useState<Task["status"]>("")
   const [newTaskTitle, setNewTaskTitle] = useState("")
   const [newTaskDescription, setNewTaskDescription] = useState("")
   const [newTaskPriority, setNewTaskPriority] = useState<Task["priority"]>("medium")
+  const [newTaskStartDate, setNewTaskStartDate] = useState("")
   const [newTaskDueDate, setNewTaskDueDate] = useState("")
   const [newTaskAssignee, setNewTaskAssignee] = useState("")
   const [newTaskTags, setNewTaskTags] = useState<string[]>([])
@@ -506,6 +682,7 @@ function TaskBoard({
   const draggedTaskIdRef = useRef<string | null>(null)
   const draggedTaskSourceStatusRef = useRef<string | null>(null)
   const draggedTaskSourceIndexRef = useRef<number | null>(null)
+  const draggedTaskSourceLaneRef = useRef<string | null>(null)
   const tasksRef = useRef<Task[]>([])
   const initialTasksRef = useRef<Task[]>([])
   const isUpdatingRef = useRef(false)
@@ -530,6 +707,70 @@ function TaskBoard({
     }, 300)
   }, [])
 
+  useEffect(() => {
+    onQueryChange?.(filters, debouncedQuery, sort)
+  }, [filters, debouncedQuery, sort, onQueryChange])
+
+  // 当前看板状态，保存视图时使用
+  const currentViewConfig = useMemo<SavedViewConfig>(
+    () => ({
+      viewMode,
+      filters: {
+        title: filters.title,
+        assignee: filters.assignee,
+        status: filters.status,
+        priority: filters.priority,
+        dueFrom: filters.dueDateFrom ? format(filters.dueDateFrom, "yyyy-MM-dd") : null,
+        dueTo: filters.dueDateTo ? format(filters.dueDateTo, "yyyy-MM-dd") : null,
+        tags: filters.tags,
+        conditions: filters.conditions,
+      },
+      search: debouncedQuery,
+      sort,
+      columns: visibleColumns,
+      swimlanes,
+    }),
+    [viewMode, filters, debouncedQuery, sort, visibleColumns, swimlanes],
+  )
+
+  // 打开保存的视图
+  const applyViewConfig = useCallback((config: SavedViewConfig) => {
+    if (debouncedSearchRef.current) {
+      clearTimeout(debouncedSearchRef.current)
+    }
+
+    setViewMode(config.viewMode)
+    setSelectedTaskIds([])
+    setFilters({
+      title: config.filters.title,
+      assignee: config.filters.assignee,
+      status: config.filters.status,
+      priority: config.filters.priority,
+      dueDateFrom: config.filters.dueFrom ? parseISO(config.filters.dueFrom) : undefined,
+      dueDateTo: config.filters.dueTo ? parseISO(config.filters.dueTo) : undefined,
+      tags: config.filters.tags,
+      conditions: config.filters.conditions,
+    })
+    setSearchQuery(config.search)
+    setDebouncedQuery(config.search)
+    setSort(config.sort)
+    setVisibleColumns(config.columns)
+    setSwimlanes(config.swimlanes)
+  }, [])
+
+  const toggleColumn = useCallback(
+    (key: string, visible: boolean) => {
+      const allColumns = [...TABLE_COLUMNS.map((column) => column.key), ...customFields.map((field) => field.id)]
+      setVisibleColumns((prev) => {
+        const current = prev || allColumns
+        const next = visible ? [...current, key] : current.filter((column) => column !== key)
+        // 全部显示时不记录列，以后新增的自定义字段也会显示
+        return allColumns.every((column) => next.includes(column)) ? null : allColumns.filter((c) => next.includes(c))
+      })
+    },
+    [customFields],
+  )
+
   // Extract all unique tags from tasks
   const availableTags = useMemo(() => {
     const tagSet = new Set<string>()
@@ -544,8 +785,33 @@ function TaskBoard({
   // Use useMemo for filtered tasks
   const filteredTasksList = useMemo(() => {
     if (!initialized) return []
-    return filterTasks(tasks, filters, debouncedQuery)
-  }, [tasks, filters, debouncedQuery, initialized])
+    return filterTasks(tasks, filters, debouncedQuery, customFields, sort)
+  }, [tasks, filters, debouncedQuery, customFields, sort, initialized])
+
+  const swimlaneOptions = useMemo(() => getSwimlaneOptions(customFields), [customFields])
+
+  // 用来分泳道的自定义字段被删除后不再分泳道
+  const activeSwimlanes = useMemo(
+    () => (swimlanes && swimlaneOptions.some((option) => option.key === swimlanes) ? swimlanes : null),
+    [swimlanes, swimlaneOptions],
+  )
+
+  // 泳道及每个泳道中的任务，有多个标签（或多选值）的任务会出现在多个泳道中
+  const lanes = useMemo(() => {
+    if (!activeSwimlanes) return []
+    return getSwimlanes(filteredTasksList, activeSwimlanes, { members, customFields }).map((lane) => ({
+      ...lane,
+      tasks: filteredTasksList.filter((task) => getTaskLaneKeys(task, activeSwimlanes).includes(lane.key)),
+    }))
+  }, [activeSwimlanes, filteredTasksList, members, customFields])
+
+  // 筛选后看不到的任务不再保持选中，批量操作只作用于可见的任务
+  useEffect(() => {
+    setSelectedTaskIds((prev) => {
+      const next = prev.filter((id) => filteredTasksList.some((task) => task.id === id))
+      return next.length === prev.length ? prev : next
+    })
+  }, [filteredTasksList])
 
   // 使用 useCallback 优化 getPriorityColor 函数
   const getPriorityColor = useCallback((priority: Task["priority"]) => {
@@ -724,22 +990,116 @@ function TaskBoard({
     [projectId],
   )
 
+  const handleToggleSelect = useCallback((taskId: string, extend: boolean, orderedIds: string[]) => {
+    setSelectedTaskIds((prev) => toggleTaskSelection(prev, orderedIds, taskId, selectionAnchorRef.current, extend))
+    selectionAnchorRef.current = taskId
+  }, [])
+
+  const clearSelection = useCallback(() => {
+    setSelectedTaskIds([])
+    selectionAnchorRef.current = null
+  }, [])
+
+  // 切换视图时清空选择
+  const handleViewChange = useCallback(
+    (mode: TaskViewMode) => {
+      setViewMode(mode)
+      clearSelection()
+    },
+    [clearSelection],
+  )
+
+  // 批量操作完成后用服务端返回的任务替换本地任务，移除已删除或移到其他项目的任务，并加入复制到本项目的任务
+  // handleUpdateTask 会忽略同一时刻的多次更新，这里直接一次性修改任务列表
+  const handleBulkApplied = useCallback(
+    ({ tasks: updatedTasks, removedIds }: TaskBatchResult) => {
+      setTasks((prevTasks) => {
+        const updatedById = new Map(updatedTasks.map((task) => [task.id, task]))
+        const copiedTasks = updatedTasks.filter(
+          (task) => task.projectId === projectId && !prevTasks.some((item) => item.id === task.id),
+        )
+        const newTasks = [
+          ...prevTasks.filter((task) => !removedIds.includes(task.id)).map((task) => updatedById.get(task.id) || task),
+          ...copiedTasks,
+        ]
+        tasksRef.current = newTasks
+
+        try {
+          localStorage.setItem(`project-${projectId}-tasks`, JSON.stringify(newTasks))
+        } catch (err) {
+          console.error("Error updating localStorage:", err)
+        }
+
+        return newTasks
+      })
+      setTableVersion((version) => version + 1)
+      clearSelection()
+    },
+    [projectId, clearSelection],
+  )
+
   const handleFilterChange = useCallback((newFilters: FilterOptions) => {
     setFilters(newFilters)
   }, [])
 
+  // 看板列由项目工作流状态生成
+  const statuses = useMemo(() => initialStatuses || getDefaultStatuses(projectId), [initialStatuses, projectId])
+
   const columns = useMemo(
-    () => [
-      { id: "todo", title: "To Do" },
-      { id: "in-progress", title: "In Progress" },
-      { id: "review", title: "Review" },
-      { id: "done", title: "Done" },
-    ],
-    [],
+    () => statuses.map((status) => ({ id: status.key, title: status.name, color: status.color })),
+    [statuses],
+  )
+
+  // 状态已被删除时仍显示原始 key
+  const getStatusMeta = useCallback(
+    (key: string) => {
+      const status = findStatus(statuses, key)
+      return { name: status?.name || key, color: status?.color || "#6b7280" }
+    },
+    [statuses],
   )
 
-  // 修改 handleDragStart 函数，添加 index 参数
-  const handleDragStart = useCallback((e: React.DragEvent, task: Task, index: number) => {
+  // 子任务进度和未完成的前置任务由服务端按整个项目统计（不受分页和筛选影响），这里按任务 ID 索引
+  const subtaskProgress = useMemo(() => {
+    const progress: Record<string, { done: number; total: number }> = {}
+    tasks.forEach((task) => {
+      if (task.subtaskProgress) progress[task.id] = task.subtaskProgress
+    })
+    return progress
+  }, [tasks])
+
+  // 被尚未完成的前置任务阻塞的任务，值为前置任务标题
+  const openBlockers = useMemo(() => {
+    const result: Record<string, string[]> = {}
+    tasks.forEach((task) => {
+      if (task.openBlockers?.length) result[task.id] = task.openBlockers
+    })
+    return result
+  }, [tasks])
+
+  // 任务被移动到"已完成"类别的状态时，如果前置任务仍未完成则给出提醒（不阻止操作）
+  const warnIfBlocked = useCallback(
+    (task: Task, newStatus: string) => {
+      if (!isDoneStatus(statuses, newStatus) || isDoneStatus(statuses, task.status) || !openBlockers[task.id]) return
+
+      toast({
+        title: "前置任务尚未完成",
+        description: `"${task.title}" 仍被以下任务阻塞：${openBlockers[task.id].join("、")}`,
+        variant: "destructive",
+      })
+    },
+    [statuses, openBlockers, toast],
+  )
+
+  // 返回任务不能移动到目标列的原因，可以移动时返回 null
+  const getMoveBlockReason = useCallback(
+    (task: Task, targetStatus: string) =>
+      checkStatusChange(statuses, task.status, targetStatus, statusCounts[targetStatus] || 0),
+    [statuses, statusCounts],
+  )
+
+  // 修改 handleDragStart 函数，添加 index 参数；分泳道时 laneKey 为任务所在的泳道
+  const handleDragStart = useCallback((e: React.DragEvent, task: Task, index: number, laneKey?: string) => {
     console.log("Drag started for task:", task.id, task, "at index:", index)
 
     // Store the original task for potential reversion
@@ -747,6 +1107,7 @@ function TaskBoard({
     draggedTaskIdRef.current = task.id
     draggedTaskSourceStatusRef.current = task.status
     draggedTaskSourceIndexRef.current = index
+    draggedTaskSourceLaneRef.current = laneKey ?? null
 
     // Set data for the drag operation
     e.dataTransfer.setData("text/plain", task.id)
@@ -756,6 +1117,7 @@ function TaskBoard({
         taskId: task.id,
         sourceStatus: task.status,
         sourceIndex: index,
+        sourceLane: laneKey,
       }),
     )
     e.dataTransfer.effectAllowed = "move"
@@ -769,17 +1131,18 @@ function TaskBoard({
     }
   }, [])
 
+  // targetId 区分不同泳道中的同一列，不分泳道时就是列 ID
   const handleDragOver = useCallback(
-    (e: React.DragEvent, columnId: string) => {
+    (e: React.DragEvent, columnId: string, targetId: string = columnId) => {
       e.preventDefault()
       e.stopPropagation()
-      e.dataTransfer.dropEffect = "move"
+      e.dataTransfer.dropEffect = draggedTask && getMoveBlockReason(draggedTask, columnId) ? "none" : "move"
 
-      if (dragOverColumn !== columnId) {
-        setDragOverColumn(columnId)
+      if (dragOverColumn !== targetId) {
+        setDragOverColumn(targetId)
       }
     },
-    [dragOverColumn],
+    [dragOverColumn, draggedTask, getMoveBlockReason],
   )
 
   const handleDragEnter = useCallback((e: React.DragEvent, columnId: string) => {
@@ -819,6 +1182,7 @@ function TaskBoard({
     draggedTaskIdRef.current = null
     draggedTaskSourceStatusRef.current = null
     draggedTaskSourceIndexRef.current = null
+    draggedTaskSourceLaneRef.current = null
 
     // Reset all drag counters
     Object.keys(dragCounter.current).forEach((key) => {
@@ -883,9 +1247,9 @@ function TaskBoard({
     return (tasks[tasks.length - 1].order || 0) + 1000
   }, [])
 
-  // 优化 handleDrop 函数，使用批处理和防抖
+  // 优化 handleDrop 函数，使用批处理和防抖；分泳道时 laneKey 为目标泳道，跨泳道拖动会同时修改分组字段
   const handleDrop = useCallback(
-    async (e: React.DragEvent, newStatus: Task["status"]) => {
+    async (e: React.DragEvent, newStatus: Task["status"], laneKey?: string) => {
       e.preventDefault()
       e.stopPropagation()
 
@@ -894,6 +1258,7 @@ function TaskBoard({
         const taskId = e.dataTransfer.getData("text/plain")
         const dragData = JSON.parse(e.dataTransfer.getData("application/json") || "{}")
         const sourceStatus = dragData.sourceStatus || draggedTaskSourceStatusRef.current
+        const sourceLane = dragData.sourceLane ?? draggedTaskSourceLaneRef.current
 
         if (!taskId) {
           console.log("No taskId found")
@@ -912,13 +1277,46 @@ function TaskBoard({
           return
         }
 
+        // 不符合工作流规则（流转限制或 WIP 上限）时拒绝放置
+        const blockReason = getMoveBlockReason(taskToUpdate, newStatus)
+        if (blockReason) {
+          setDragOverColumn(null)
+          setDraggedTask(null)
+          setDragOverInfo(null)
+          toast({
+            title: "无法移动任务",
+            description: blockReason,
+            variant: "destructive",
+          })
+          return
+        }
+
+        const laneChanges =
+          activeSwimlanes && laneKey !== undefined && sourceLane !== undefined && sourceLane !== null
+            ? getLaneChanges(taskToUpdate, activeSwimlanes, sourceLane, laneKey, { members, customFields })
+            : {}
+        if (!laneChanges) {
+          setDragOverColumn(null)
+          setDraggedTask(null)
+          setDragOverInfo(null)
+          toast({
+            title: "无法移动任务",
+            description: "不能把任务移到这个泳道",
+            variant: "destructive",
+          })
+          return
+        }
+
+        warnIfBlocked(taskToUpdate, newStatus)
+
         // 设置移动标志，防止重复操作
         if (isMovingTask) return
 
         setIsMovingTask(true)
 
-        // 获取目标列中的任务
-        const tasksInColumn = filteredTasksList.filter((t) => t.status === newStatus)
+        // 获取目标列中的任务（分泳道时只取目标泳道中的任务，与拖放位置的序号对应）
+        const laneTasks = laneKey === undefined ? undefined : lanes.find((lane) => lane.key === laneKey)?.tasks
+        const tasksInColumn = (laneTasks || filteredTasksList).filter((t) => t.status === newStatus)
 
         // 根据拖放位置计算新的顺序值
         let newOrder: number
@@ -936,11 +1334,17 @@ function TaskBoard({
           }
         }
 
+        // 只提交拖动改变的字段：状态、顺序和泳道对应的字段
+        const changes = {
+          status: newStatus, // 如果跨列拖拽，更新状态
+          order: newOrder, // 更新顺序值
+          ...laneChanges,
+        }
+
         // 创建更新后的任务对象（只更新这一个任务）
         const updatedTask = {
           ...JSON.parse(JSON.stringify(taskToUpdate)),
-          status: newStatus, // 如果跨列拖拽，更新状态
-          order: newOrder, // 更新顺序值
+          ...changes,
         }
 
         // 重置拖拽状态
@@ -955,18 +1359,42 @@ function TaskBoard({
         const controller = new AbortController()
         const timeoutId = setTimeout(() => controller.abort(), 10000) // 10秒超时
 
-        // 发送API请求，只更新这一个任务
-        try {
-          console.log("Sending API request to update task:", updatedTask)
-          const response = await fetch(`/api/tasks/${taskId}`, {
-            method: "PUT",
+        // 发送API请求，只更新这一个任务；带上任务的版本号（If-Match）
+        const sendChanges = (version?: string) =>
+          fetch(`/api/tasks/${taskId}`, {
+            method: "PATCH",
             headers: {
               "Content-Type": "application/json",
+              ...(version ? { "If-Match": `"${version}"` } : {}),
             },
-            body: JSON.stringify(updatedTask),
+            body: JSON.stringify(changes),
             signal: controller.signal,
           })
 
+        try {
+          let response = await sendChanges(taskToUpdate.updated_at)
+
+          // 版本冲突：对方没有修改拖动涉及的字段时基于最新版本重试，否则显示服务端的最新任务
+          if (response.status === 409) {
+            const { current } = (await response.json()) as { current: Task }
+            const changedByOthers = Object.keys(changes).some(
+              (key) => JSON.stringify(current[key as keyof Task]) !== JSON.stringify(taskToUpdate[key as keyof Task]),
+            )
+
+            if (changedByOthers) {
+              clearTimeout(timeoutId)
+              handleUpdateTask(current)
+              toast({
+                title: "移动失败",
+                description: "其他成员刚刚修改了这个任务，已显示最新的版本",
+                variant: "destructive",
+              })
+              return
+            }
+
+            response = await sendChanges(current.updated_at)
+          }
+
           clearTimeout(timeoutId)
 
           // 检查是否是 429 错误
@@ -987,11 +1415,17 @@ function TaskBoard({
           })
 
           console.log("Task updated successfully:", result)
+          handleUpdateTask(result)
 
           // 显示成功提示
           toast({
             title: "任务已更新",
-            description: sourceStatus === newStatus ? "任务顺序已成功更新" : "任务状态和顺序已成功更新",
+            description:
+              Object.keys(laneChanges).length > 0
+                ? "任务已移到新的泳道"
+                : sourceStatus === newStatus
+                  ? "任务顺序已成功更新"
+                  : "任务状态和顺序已成功更新",
           })
         } catch (error) {
           console.error("Error updating task:", error)
@@ -1014,7 +1448,20 @@ function TaskBoard({
         setIsMovingTask(false)
       }
     },
-    [filteredTasksList, handleUpdateTask, dragOverInfo, calculateNewOrder, isMovingTask, toast],
+    [
+      filteredTasksList,
+      handleUpdateTask,
+      dragOverInfo,
+      calculateNewOrder,
+      isMovingTask,
+      toast,
+      getMoveBlockReason,
+      warnIfBlocked,
+      activeSwimlanes,
+      lanes,
+      members,
+      customFields,
+    ],
   )
 
   const handleEditTask = useCallback(
@@ -1036,13 +1483,83 @@ function TaskBoard({
         taskCopy.customFields = filteredCustomFields
       }
 
+      editingBaseRef.current = JSON.parse(JSON.stringify(taskCopy))
       setEditingTask(taskCopy)
       setIsEditing(true)
     },
     [customFields],
   )
 
-  // 优化 handleSaveTask 函数，使用批处理和防抖
+  // 带上编辑对话框基于的版本（If-Match）保存任务。其他成员在此期间保存过任务时服务端返回 409 和最新版本：
+  // 不同字段的修改自动合并后重新保存，双方都改了的字段交给用户选择。返回保存后的任务，等待用户选择时返回 null
+  const saveEditedTask = useCallback(async (taskToSave: Task): Promise<Task | null> => {
+    const base = editingBaseRef.current
+
+    // 使用 AbortController 实现请求取消功能
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), 10000) // 10秒超时
+
+    let response: Response
+    try {
+      response = await fetch(`/api/tasks/${taskToSave.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          ...(base?.updated_at ? { "If-Match": `"${base.updated_at}"` } : {}),
+        },
+        body: JSON.stringify(taskToSave),
+        signal: controller.signal,
+      })
+    } finally {
+      clearTimeout(timeoutId)
+    }
+
+    if (response.status === 409) {
+      const { current } = (await response.json()) as { current: Task }
+      const { merged, conflicts } = mergeTaskVersions(base || current, taskToSave, current)
+
+      // 对话框改为编辑最新版本，保留自己的修改
+      editingBaseRef.current = JSON.parse(JSON.stringify(current))
+      const keepMine = Object.fromEntries(conflicts.map(({ field }) => [field, "mine" as const]))
+      setEditingTask(resolveTaskConflicts(merged, conflicts, keepMine))
+
+      if (conflicts.length === 0) {
+        return saveEditedTask(merged)
+      }
+
+      setEditConflict({ merged, conflicts })
+      return null
+    }
+
+    // 检查是否是 429 错误
+    if (response.status === 429) {
+      throw new Error("Too many requests. Please try again later.")
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null)
+      throw new Error(errorData?.error || "Failed to update task")
+    }
+
+    return response.json()
+  }, [])
+
+  // 保存成功后才更新看板、关闭对话框并提示
+  const finishEditTask = useCallback(
+    (savedTask: Task) => {
+      handleUpdateTask(savedTask)
+      setIsEditing(false)
+      setEditingTask(null)
+      editingBaseRef.current = null
+
+      toast({
+        title: "任务已更新",
+        description: "任务已成功更新",
+      })
+    },
+    [handleUpdateTask, toast],
+  )
+
   const handleSaveTask = useCallback(async () => {
     if (!editingTask) return
 
@@ -1075,89 +1592,61 @@ function TaskBoard({
       // Create a deep copy of the task to ensure we're not modifying the original reference
       const taskToUpdate = JSON.parse(JSON.stringify(editingTask))
 
-      // Optimistically update UI first for immediate feedback
-      setTasks((prevTasks) => {
-        const updatedTasks = prevTasks.map((t) => (t.id === taskToUpdate.id ? taskToUpdate : t))
-
-        // Update localStorage immediately
-        try {
-          localStorage.setItem(`project-${projectId}-tasks`, JSON.stringify(updatedTasks))
-        } catch (err) {
-          console.error("Error updating localStorage:", err)
-        }
-
-        return updatedTasks
-      })
-
-      // Close the dialog immediately after optimistic update
-      setIsEditing(false)
-      setEditingTask(null)
-
-      // Show success toast
-      toast({
-        title: "任务已更新",
-        description: "任务已成功更新",
-      })
-
-      // 使用 AbortController 实现请求取消功能
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 10000) // 10秒超时
-
-      // Send API request in the background
-      fetch(`/api/tasks/${taskToUpdate.id}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(taskToUpdate),
-        signal: controller.signal,
-      })
-        .then((response) => {
-          clearTimeout(timeoutId)
-
-          // 检查是否是 429 错误
-          if (response.status === 429) {
-            throw new Error("Too many requests. Please try again later.")
-          }
-
-          if (!response.ok) {
-            throw new Error("Failed to update task")
-          }
-          return response.json().catch(() => taskToUpdate) // 如果解析失败，使用我们已经有的更新后的任务
-        })
-        .then((updatedTask) => {
-          // Silently update the state with the server response
-          setTasks((prevTasks) => prevTasks.map((t) => (t.id === updatedTask.id ? updatedTask : t)))
-        })
-        .catch((error) => {
-          console.error("Error updating task:", error)
+      const currentTask = tasksRef.current.find((t) => t.id === taskToUpdate.id)
+      if (currentTask) {
+        warnIfBlocked(currentTask, taskToUpdate.status)
+      }
 
-          // Show error toast
-          toast({
-            title: "更新失败",
-            description: error instanceof Error ? error.message : "保存更改时出错，请重试",
-            variant: "destructive",
-          })
-        })
+      const savedTask = await saveEditedTask(taskToUpdate)
+      if (savedTask) finishEditTask(savedTask)
     } catch (error) {
-      console.error("Error in task update:", error)
+      console.error("Error updating task:", error)
 
-      // Show error toast
+      // 对话框保持打开，用户可以重试
       toast({
         title: "更新失败",
-        description: error instanceof Error ? error.message : "更新任务失败，请重试",
+        description: error instanceof Error ? error.message : "保存更改时出错，请重试",
         variant: "destructive",
       })
-
+    } finally {
       setIsSaving(false)
     }
-  }, [editingTask, projectId, toast, customFields])
+  }, [editingTask, toast, customFields, warnIfBlocked, saveEditedTask, finishEditTask])
+
+  const handleResolveEditConflict = useCallback(
+    async (choices: Partial<Record<TaskMergeField, TaskConflictChoice>>) => {
+      if (!editConflict) return
+
+      setIsSaving(true)
+      try {
+        const savedTask = await saveEditedTask(
+          resolveTaskConflicts(editConflict.merged, editConflict.conflicts, choices),
+        )
+
+        if (savedTask) {
+          setEditConflict(null)
+          finishEditTask(savedTask)
+        }
+      } catch (error) {
+        console.error("Error updating task:", error)
+        toast({
+          title: "更新失败",
+          description: error instanceof Error ? error.message : "更新任务失败，请重试",
+          variant: "destructive",
+        })
+      } finally {
+        setIsSaving(false)
+      }
+    },
+    [editConflict, saveEditedTask, finishEditTask, toast],
+  )
 
   const handleAddTask = useCallback((status: Task["status"]) => {
     setNewTaskStatus(status)
     setNewTaskTitle("")
     setNewTaskDescription("")
     setNewTaskPriority("medium")
+    setNewTaskStartDate("")
     setNewTaskDueDate("")
     setNewTaskAssignee("")
     setNewTaskTags([])
@@ -1177,18 +1666,9 @@ function TaskBoard({
         description: newTaskDescription || "",
         status: newTaskStatus,
         priority: newTaskPriority,
+        startDate: newTaskStartDate || undefined,
         dueDate: newTaskDueDate || undefined,
-        assignee:
-          newTaskAssignee && newTaskAssignee !== "unassigned"
-            ? {
-                name: newTaskAssignee,
-                initials: newTaskAssignee
-                  .split(" ")
-                  .map((n) => n[0])
-                  .join("")
-                  .toUpperCase(),
-              }
-            : undefined,
+        assignee: toAssignee(members.find((member) => member.user.id === newTaskAssignee)) || undefined,
         tags: newTaskTags.length > 0 ? newTaskTags : undefined,
       }
 
@@ -1201,6 +1681,7 @@ function TaskBoard({
       setNewTaskTitle("")
       setNewTaskDescription("")
       setNewTaskPriority("medium")
+      setNewTaskStartDate("")
       setNewTaskDueDate("")
       setNewTaskAssignee("")
       setNewTaskTags([])
@@ -1262,32 +1743,56 @@ function TaskBoard({
     newTaskDescription,
     newTaskStatus,
     newTaskPriority,
+    newTaskStartDate,
     newTaskDueDate,
     newTaskAssignee,
+    members,
     newTaskTags,
     toast,
   ])
 
-  // 优化 handleUpdateTaskInline 函数，正确处理 429 错误和请求超时
+  // 表格中直接编辑任务：带上任务的版本号（If-Match）只保存改动的字段。
+  // 版本冲突时与服务端的最新版本合并，对方没有修改同样的字段就基于最新版本重试，否则以服务端的任务为准
   const handleUpdateTaskInline = useCallback(
     async (updatedTask: Task) => {
-      try {
-        console.log("Updating task inline:", updatedTask)
+      const base = tasksRef.current.find((t) => t.id === updatedTask.id) || updatedTask
+      warnIfBlocked(base, updatedTask.status)
 
+      const sendChanges = async (changes: Partial<Task>, version?: string) => {
         // 使用 AbortController 实现请求取消功能
         const controller = new AbortController()
         const timeoutId = setTimeout(() => controller.abort(), 10000) // 10秒超时
 
-        const response = await fetch(`/api/tasks/${updatedTask.id}`, {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(updatedTask),
-          signal: controller.signal,
-        })
+        try {
+          return await fetch(`/api/tasks/${updatedTask.id}`, {
+            method: "PATCH",
+            headers: {
+              "Content-Type": "application/json",
+              ...(version ? { "If-Match": `"${version}"` } : {}),
+            },
+            body: JSON.stringify(changes),
+            signal: controller.signal,
+          })
+        } finally {
+          clearTimeout(timeoutId)
+        }
+      }
 
-        clearTimeout(timeoutId)
+      try {
+        const changes = getTaskChanges(base, updatedTask)
+        if (Object.keys(changes).length === 0) return Promise.resolve()
+
+        let response = await sendChanges(changes, base.updated_at)
+
+        if (response.status === 409) {
+          const { current } = (await response.json()) as { current: Task }
+          const { merged, conflicts } = mergeTaskVersions(base, updatedTask, current)
+          if (conflicts.length > 0) {
+            handleUpdateTask(current)
+            throw new Error("Someone else changed the same fields of this task. The latest version is shown.")
+          }
+          response = await sendChanges(getTaskChanges(current, merged), current.updated_at)
+        }
 
         // 检查是否是 429 错误
         if (response.status === 429) {
@@ -1300,24 +1805,69 @@ function TaskBoard({
           throw new Error(errorData.error || "Failed to update task")
         }
 
-        // 解析响应
-        const result = await response.json().catch(() => {
-          console.error("Failed to parse response as JSON")
-          return updatedTask // 如果解析失败，使用我们已经有的更新后的任务
+        handleUpdateTask(await response.json())
+        return Promise.resolve()
+      } catch (error) {
+        console.error("Error updating task:", error)
+        return Promise.reject(error)
+      }
+    },
+    [handleUpdateTask, warnIfBlocked],
+  )
+
+  // 日历和时间线中拖动任务改期：先更新界面，再带上任务的版本号（If-Match）只保存改动的日期。
+  // 版本冲突时，如果对方没有修改这些日期就基于最新版本重试，否则以服务端的任务为准
+  const handleScheduleTask = useCallback(
+    async (task: Task, changes: TaskDateChanges) => {
+      const fields = Object.keys(changes) as (keyof TaskDateChanges)[]
+      const sendDates = (version?: string) =>
+        fetch(`/api/tasks/${task.id}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            ...(version ? { "If-Match": `"${version}"` } : {}),
+          },
+          body: JSON.stringify(changes),
         })
 
-        console.log("Task updated successfully:", result)
+      const scheduled = { ...task }
+      fields.forEach((field) => (scheduled[field] = changes[field] || undefined))
+      handleUpdateTask(scheduled)
 
-        // Update local state immediately
-        handleUpdateTask(result)
+      try {
+        let response = await sendDates(task.updated_at)
 
-        return Promise.resolve()
+        if (response.status === 409) {
+          const { current } = (await response.json()) as { current: Task }
+          if (fields.some((field) => (current[field] || "").slice(0, 10) !== (task[field] || "").slice(0, 10))) {
+            handleUpdateTask(current)
+            toast({
+              title: "改期失败",
+              description: "其他成员刚刚修改了这个任务的日期，已显示最新的日期",
+              variant: "destructive",
+            })
+            return
+          }
+          response = await sendDates(current.updated_at)
+        }
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => null)
+          throw new Error(errorData?.error || "Failed to update task")
+        }
+
+        handleUpdateTask(await response.json())
       } catch (error) {
-        console.error("Error updating task:", error)
-        return Promise.reject(error)
+        console.error("Error rescheduling task:", error)
+        handleUpdateTask(task)
+        toast({
+          title: "改期失败",
+          description: error instanceof Error ? error.message : "无法更新任务日期",
+          variant: "destructive",
+        })
       }
     },
-    [handleUpdateTask],
+    [handleUpdateTask, toast],
   )
 
   // Add this useEffect for cleanup
@@ -1435,13 +1985,144 @@ function TaskBoard({
     }
   }, [])
 
+  // 看板的各列，分泳道时每个泳道各有一组
+  const renderColumns = (tasksList: Task[], laneKey?: string) => (
+    <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-none lg:grid-flow-col lg:auto-cols-[minmax(240px,1fr)] max-w-full overflow-x-auto">
+      {columns.map((column) => (
+        <TaskColumn
+          key={column.id}
+          column={column}
+          filteredTasksList={tasksList}
+          handleDragOver={handleDragOver}
+          handleDrop={handleDrop}
+          handleDragEnter={handleDragEnter}
+          handleDragLeave={handleDragLeave}
+          dragOverColumn={dragOverColumn}
+          handleAddTask={handleAddTask}
+          draggedTask={draggedTask}
+          dragOverInfo={dragOverInfo}
+          onDragStart={handleDragStart}
+          onDragEnd={handleDragEnd}
+          onDragOverTask={onDragOverTask}
+          handleEditTask={handleEditTask}
+          formatDate={formatDate}
+          getPriorityColor={getPriorityColor}
+          customFields={customFields}
+          renderCustomFieldInCard={renderCustomFieldInCard}
+          getStatusMeta={getStatusMeta}
+          totalCount={statusCounts[column.id] || 0}
+          wipLimit={findStatus(statuses, column.id)?.wipLimit}
+          dropBlocked={!!draggedTask && !!getMoveBlockReason(draggedTask, column.id)}
+          subtaskProgress={subtaskProgress}
+          openBlockers={openBlockers}
+          laneKey={laneKey}
+          selectedTaskIds={selectedTaskIds}
+          onToggleSelect={handleToggleSelect}
+        />
+      ))}
+    </div>
+  )
+
   return (
     <>
+      <TaskFilter
+        value={filters}
+        onFilterChange={setFilters}
+        availableTags={availableTags}
+        statuses={statuses}
+        members={members}
+        customFields={customFields}
+        actions={
+          <SavedViews
+            projectId={projectId}
+            config={currentViewConfig}
+            onApply={applyViewConfig}
+            currentUserId={currentUserId}
+            members={members}
+          />
+        }
+      />
+
       <div className="flex items-center justify-between mb-6">
         <div className="flex items-center gap-4">
-          <ViewToggle currentView={viewMode} onViewChange={setViewMode} />
+          <ViewToggle currentView={viewMode} onViewChange={handleViewChange} />
         </div>
         <div className="flex items-center gap-2">
+          {viewMode === "board" && (
+            <Select
+              value={activeSwimlanes || "none"}
+              onValueChange={(value) => setSwimlanes(value === "none" ? null : (value as SwimlaneGroupBy))}
+            >
+              <SelectTrigger className="w-[170px] gap-2" title="Group rows by">
+                <Rows3Icon className="h-4 w-4 shrink-0" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No swimlanes</SelectItem>
+                {swimlaneOptions.map((option) => (
+                  <SelectItem key={option.key} value={option.key}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select
+            value={sort?.key || "manual"}
+            onValueChange={(value) =>
+              setSort(
+                value === "manual" ? null : { key: value as TaskSort["key"], direction: sort?.direction || "asc" },
+              )
+            }
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue placeholder="Sort by" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="manual">Manual order</SelectItem>
+              {SORT_OPTIONS.map((option) => (
+                <SelectItem key={option.key} value={option.key}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {sort && (
+            <Button
+              variant="outline"
+              size="icon"
+              title={sort.direction === "asc" ? "Ascending" : "Descending"}
+              onClick={() => setSort({ ...sort, direction: sort.direction === "asc" ? "desc" : "asc" })}
+            >
+              {sort.direction === "asc" ? <ArrowUpIcon className="h-4 w-4" /> : <ArrowDownIcon className="h-4 w-4" />}
+            </Button>
+          )}
+          {viewMode === "table" && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2">
+                  <Columns3Icon className="h-4 w-4" />
+                  Columns
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {[...TABLE_COLUMNS, ...customFields.map((field) => ({ key: field.id, label: field.name }))].map(
+                  (column) => (
+                    <DropdownMenuCheckboxItem
+                      key={column.key}
+                      checked={!visibleColumns || visibleColumns.includes(column.key)}
+                      onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                      onSelect={(e) => e.preventDefault()}
+                    >
+                      {column.label}
+                    </DropdownMenuCheckboxItem>
+                  ),
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
           <div className="relative">
             <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
             <Input
@@ -1454,40 +2135,76 @@ function TaskBoard({
         </div>
       </div>
 
+      {(viewMode === "board" || viewMode === "table") && (
+        <TaskBulkActions
+          projectId={projectId}
+          selectedIds={selectedTaskIds}
+          statuses={statuses}
+          members={members}
+          customFields={customFields}
+          availableTags={availableTags}
+          onApplied={handleBulkApplied}
+          onClear={clearSelection}
+        />
+      )}
+
       {viewMode === "board" ? (
-        <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-4 max-w-full">
-          {columns.map((column) => (
-            <TaskColumn
-              key={column.id}
-              column={column}
-              filteredTasksList={filteredTasksList}
-              handleDragOver={handleDragOver}
-              handleDrop={handleDrop}
-              handleDragEnter={handleDragEnter}
-              handleDragLeave={handleDragLeave}
-              dragOverColumn={dragOverColumn}
-              handleAddTask={handleAddTask}
-              draggedTask={draggedTask}
-              dragOverInfo={dragOverInfo}
-              onDragStart={handleDragStart}
-              onDragEnd={handleDragEnd}
-              onDragOverTask={onDragOverTask}
-              handleEditTask={handleEditTask}
-              formatDate={formatDate}
-              getPriorityColor={getPriorityColor}
-              customFields={customFields}
-              renderCustomFieldInCard={renderCustomFieldInCard}
-              getStatusColor={getStatusColorMemo}
-            />
-          ))}
-        </div>
+        activeSwimlanes ? (
+          <div className="space-y-4">
+            {lanes.map((lane) => {
+              const collapsed = collapsedLanes.includes(lane.key)
+              return (
+                <div key={lane.key} className="rounded-lg border">
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-2 px-4 py-2 text-sm font-medium hover:bg-muted/50"
+                    onClick={() =>
+                      setCollapsedLanes((prev) =>
+                        collapsed ? prev.filter((key) => key !== lane.key) : [...prev, lane.key],
+                      )
+                    }
+                  >
+                    {collapsed ? <ChevronRightIcon className="h-4 w-4" /> : <ChevronDownIcon className="h-4 w-4" />}
+                    {lane.label}
+                    <Badge variant="outline">{lane.tasks.length}</Badge>
+                  </button>
+                  {!collapsed && renderColumns(lane.tasks, lane.key)}
+                </div>
+              )
+            })}
+          </div>
+        ) : (
+          renderColumns(filteredTasksList)
+        )
+      ) : viewMode === "calendar" ? (
+        <TaskCalendar
+          tasks={filteredTasksList}
+          statuses={statuses}
+          onReschedule={(task, dueDate) => handleScheduleTask(task, { dueDate })}
+          onEditTask={(task) => handleEditTask(null, task)}
+        />
+      ) : viewMode === "timeline" ? (
+        <TaskTimeline
+          tasks={filteredTasksList}
+          statuses={statuses}
+          onChangeDates={handleScheduleTask}
+          onEditTask={(task) => handleEditTask(null, task)}
+        />
       ) : (
         <TaskTable
+          key={tableVersion}
           tasks={filteredTasksList}
           onUpdateTask={handleUpdateTaskInline}
-          onReorderTasks={handleReorderTasks}
+          onReorderTasks={sort ? undefined : handleReorderTasks}
           availableTags={availableTags}
           customFields={customFields}
+          statuses={statuses}
+          members={members}
+          openBlockers={openBlockers}
+          visibleColumns={visibleColumns}
+          keepOrder={!!sort}
+          selectedIds={selectedTaskIds}
+          onSelectionChange={setSelectedTaskIds}
         />
       )}
 
@@ -1522,7 +2239,7 @@ function TaskBoard({
                     rows={3}
                   />
                 </div>
-                <div className="grid gap-4 md:grid-cols-2">
+                <div className="grid gap-4 md:grid-cols-3">
                   <div className="space-y-2">
                     <Label>Priority</Label>
                     <Select
@@ -1541,6 +2258,14 @@ function TaskBoard({
                       </SelectContent>
                     </Select>
                   </div>
+                  <div className="space-y-2">
+                    <Label>Start Date</Label>
+                    <Input
+                      type="date"
+                      value={editingTask.startDate || ""}
+                      onChange={(e) => setEditingTask((prev) => (prev ? { ...prev, startDate: e.target.value } : null))}
+                    />
+                  </div>
                   <div className="space-y-2">
                     <Label>Due Date</Label>
                     <Input
@@ -1562,33 +2287,32 @@ function TaskBoard({
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="todo">To Do</SelectItem>
-                      <SelectItem value="in-progress">In Progress</SelectItem>
-                      <SelectItem value="review">Review</SelectItem>
-                      <SelectItem value="done">Done</SelectItem>
+                      {statuses.map((status) => {
+                        // 按任务保存前的状态判断是否允许流转
+                        const savedTask = tasks.find((t) => t.id === editingTask.id)
+                        return (
+                          <SelectItem
+                            key={status.key}
+                            value={status.key}
+                            disabled={!!savedTask && !!getMoveBlockReason(savedTask, status.key)}
+                          >
+                            {status.name}
+                          </SelectItem>
+                        )
+                      })}
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="space-y-2">
                   <Label>Assignee</Label>
                   <Select
-                    value={editingTask.assignee?.name || "unassigned"}
+                    value={editingTask.assignee?.id || "unassigned"}
                     onValueChange={(value) =>
                       setEditingTask((prev) =>
                         prev
                           ? {
                               ...prev,
-                              assignee:
-                                value !== "unassigned"
-                                  ? {
-                                      name: value,
-                                      initials: value
-                                        .split(" ")
-                                        .map((n) => n[0])
-                                        .join("")
-                                        .toUpperCase(),
-                                    }
-                                  : undefined,
+                              assignee: toAssignee(members.find((member) => member.user.id === value)),
                             }
                           : null,
                       )
@@ -1599,8 +2323,11 @@ function TaskBoard({
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="unassigned">Unassigned</SelectItem>
-                      <SelectItem value="John Doe">John Doe</SelectItem>
-                      <SelectItem value="Jane Smith">Jane Smith</SelectItem>
+                      {members.map((member) => (
+                        <SelectItem key={member.user.id} value={member.user.id}>
+                          {member.user.name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -1656,6 +2383,17 @@ function TaskBoard({
         </Dialog>
       )}
 
+      <TaskConflictDialog
+        open={!!editConflict}
+        conflicts={editConflict?.conflicts || []}
+        statuses={statuses}
+        customFields={customFields}
+        tasks={tasks}
+        isSaving={isSaving}
+        onResolve={handleResolveEditConflict}
+        onCancel={() => setEditConflict(null)}
+      />
+
       {/* Add Task Dialog */}
       <Dialog
         open={isAddingTask}
@@ -1678,7 +2416,7 @@ function TaskBoard({
               <Label>Description</Label>
               <Textarea value={newTaskDescription} onChange={(e) => setNewTaskDescription(e.target.value)} rows={3} />
             </div>
-            <div className="grid gap-4 md:grid-cols-2">
+            <div className="grid gap-4 md:grid-cols-3">
               <div className="space-y-2">
                 <Label>Priority</Label>
                 <Select
@@ -1695,6 +2433,10 @@ function TaskBoard({
                   </SelectContent>
                 </Select>
               </div>
+              <div className="space-y-2">
+                <Label>Start Date</Label>
+                <Input type="date" value={newTaskStartDate} onChange={(e) => setNewTaskStartDate(e.target.value)} />
+              </div>
               <div className="space-y-2">
                 <Label>Due Date</Label>
                 <Input type="date" value={newTaskDueDate} onChange={(e) => setNewTaskDueDate(e.target.value)} />
@@ -1711,8 +2453,11 @@ function TaskBoard({
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="unassigned">Unassigned</SelectItem>
-                  <SelectItem value="John Doe">John Doe</SelectItem>
-                  <SelectItem value="Jane Smith">Jane Smith</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.user.id} value={member.user.id}>
+                      {member.user.name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
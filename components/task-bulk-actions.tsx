@@ -0,0 +1,349 @@
+"use client"
+
+import { useState } from "react"
+import { CalendarIcon, FolderInputIcon, SlidersHorizontalIcon, TagsIcon, Trash2Icon, XIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { MultiSelect } from "./multi-select"
+import { TaskTransferDialog } from "./task-transfer-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { toAssignee } from "@/lib/members"
+import type {
+  CustomField,
+  CustomFieldValue,
+  ProjectMember,
+  TaskBatchRequest,
+  TaskBatchResult,
+  TaskBatchUpdate,
+  WorkflowStatus,
+} from "@/lib/types"
+
+type BulkDialog = "dueDate" | "tags" | "field"
+
+const UNASSIGNED = "__unassigned__"
+
+interface TaskBulkActionsProps {
+  projectId: string
+  selectedIds: string[]
+  statuses: Pick<WorkflowStatus, "key" | "name">[]
+  members?: ProjectMember[]
+  customFields?: CustomField[]
+  availableTags?: string[]
+  onApplied: (result: TaskBatchResult) => void
+  onClear: () => void
+}
+
+// 选中任务后显示的批量操作栏，所有修改通过 POST /api/tasks/batch 一次提交
+export function TaskBulkActions({
+  projectId,
+  selectedIds,
+  statuses,
+  members = [],
+  customFields = [],
+  availableTags = [],
+  onApplied,
+  onClear,
+}: TaskBulkActionsProps) {
+  const { toast } = useToast()
+  const [dialog, setDialog] = useState<BulkDialog | null>(null)
+  const [isApplying, setIsApplying] = useState(false)
+
+  const [dueDate, setDueDate] = useState("")
+  const [addTags, setAddTags] = useState<string[]>([])
+  const [removeTags, setRemoveTags] = useState<string[]>([])
+  const [fieldId, setFieldId] = useState("")
+  const [fieldValue, setFieldValue] = useState<CustomFieldValue>(null)
+  const [isTransferOpen, setIsTransferOpen] = useState(false)
+
+  const field = customFields.find((item) => item.id === fieldId)
+  const count = selectedIds.length
+
+  const openDialog = (next: BulkDialog) => {
+    setDueDate("")
+    setAddTags([])
+    setRemoveTags([])
+    setFieldId("")
+    setFieldValue(null)
+    setDialog(next)
+  }
+
+  const apply = async (batch: TaskBatchRequest) => {
+    setIsApplying(true)
+    try {
+      const response = await fetch("/api/tasks/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(batch),
+      })
+      const data = await response.json().catch(() => null)
+
+      if (!response.ok) {
+        throw new Error(data?.error || "Request failed")
+      }
+
+      onApplied(data as TaskBatchResult)
+      setDialog(null)
+      toast({ title: "批量操作完成", description: `已处理 ${count} 个任务` })
+    } catch (error) {
+      toast({
+        title: "批量操作失败",
+        description: error instanceof Error ? error.message : "没有任务被修改",
+        variant: "destructive",
+      })
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const update = (changes: TaskBatchUpdate) => apply({ action: "update", taskIds: selectedIds, changes })
+
+  const handleAssigneeChange = (value: string) => {
+    if (value === UNASSIGNED) {
+      update({ assignee: null })
+      return
+    }
+    const member = members.find((item) => item.user.id === value)
+    if (member) update({ assignee: toAssignee(member) })
+  }
+
+  const handleDelete = () => {
+    if (!confirm(`Delete ${count} selected task(s) and their subtasks?`)) return
+    apply({ action: "delete", taskIds: selectedIds })
+  }
+
+  const renderFieldInput = (item: CustomField) => {
+    switch (item.type) {
+      case "checkbox":
+        return (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="bulk-field-value"
+              checked={fieldValue === true}
+              onCheckedChange={(checked) => setFieldValue(checked === true)}
+            />
+            <Label htmlFor="bulk-field-value" className="font-normal">
+              {item.name}
+            </Label>
+          </div>
+        )
+      case "select":
+        return item.isMulti ? (
+          <MultiSelect
+            selected={Array.isArray(fieldValue) ? fieldValue : []}
+            onChange={(values) => setFieldValue(values)}
+            options={item.options || []}
+            placeholder="Select options..."
+          />
+        ) : (
+          <Select value={typeof fieldValue === "string" ? fieldValue : ""} onValueChange={setFieldValue}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select an option" />
+            </SelectTrigger>
+            <SelectContent>
+              {(item.options || []).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )
+      default:
+        return (
+          <Input
+            type={item.type === "number" ? "number" : item.type === "date" ? "date" : "text"}
+            value={fieldValue === null ? "" : String(fieldValue)}
+            onChange={(e) => {
+              const value = e.target.value
+              setFieldValue(value === "" ? null : item.type === "number" ? Number(value) : value)
+            }}
+          />
+        )
+    }
+  }
+
+  if (count === 0) return null
+
+  return (
+    <>
+      <div className="mb-4 flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 p-2">
+        <span className="px-2 text-sm font-medium">{count} selected</span>
+
+        <Select value="" onValueChange={(status) => update({ status })} disabled={isApplying}>
+          <SelectTrigger className="h-8 w-[130px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            {statuses.map((status) => (
+              <SelectItem key={status.key} value={status.key}>
+                {status.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value=""
+          onValueChange={(priority) => update({ priority: priority as TaskBatchUpdate["priority"] })}
+          disabled={isApplying}
+        >
+          <SelectTrigger className="h-8 w-[120px]">
+            <SelectValue placeholder="Priority" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="low">Low</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="high">High</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={handleAssigneeChange} disabled={isApplying}>
+          <SelectTrigger className="h-8 w-[140px]">
+            <SelectValue placeholder="Assignee" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {members.map((member) => (
+              <SelectItem key={member.user.id} value={member.user.id}>
+                {member.user.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => openDialog("dueDate")}>
+          <CalendarIcon className="h-4 w-4" />
+          Due date
+        </Button>
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => openDialog("tags")}>
+          <TagsIcon className="h-4 w-4" />
+          Tags
+        </Button>
+        {customFields.length > 0 && (
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => openDialog("field")}>
+            <SlidersHorizontalIcon className="h-4 w-4" />
+            Field
+          </Button>
+        )}
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsTransferOpen(true)}>
+          <FolderInputIcon className="h-4 w-4" />
+          Move or copy
+        </Button>
+        <Button variant="outline" size="sm" className="gap-2 text-red-600" onClick={handleDelete} disabled={isApplying}>
+          <Trash2Icon className="h-4 w-4" />
+          Delete
+        </Button>
+        <Button variant="ghost" size="sm" className="ml-auto gap-2" onClick={onClear}>
+          <XIcon className="h-4 w-4" />
+          Clear
+        </Button>
+      </div>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !isApplying && !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          {dialog === "dueDate" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Set due date</DialogTitle>
+                <DialogDescription>Applies to {count} selected task(s).</DialogDescription>
+              </DialogHeader>
+              <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+              <DialogFooter>
+                <Button variant="outline" onClick={() => update({ dueDate: null })} disabled={isApplying}>
+                  Clear due date
+                </Button>
+                <Button onClick={() => update({ dueDate })} disabled={isApplying || !dueDate}>
+                  Apply
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialog === "tags" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Edit tags</DialogTitle>
+                <DialogDescription>Other tags on the selected tasks are kept.</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Add tags</Label>
+                  <MultiSelect selected={addTags} onChange={setAddTags} options={availableTags} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Remove tags</Label>
+                  <MultiSelect selected={removeTags} onChange={setRemoveTags} options={availableTags} />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button
+                  onClick={() => update({ addTags, removeTags })}
+                  disabled={isApplying || (addTags.length === 0 && removeTags.length === 0)}
+                >
+                  Apply
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialog === "field" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Set custom field</DialogTitle>
+                <DialogDescription>Leave the value empty to clear the field.</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <Select
+                  value={fieldId}
+                  onValueChange={(value) => {
+                    setFieldId(value)
+                    setFieldValue(null)
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a field" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {customFields.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {field && renderFieldInput(field)}
+              </div>
+              <DialogFooter>
+                <Button
+                  onClick={() => update({ customFields: { [fieldId]: fieldValue } })}
+                  disabled={isApplying || !field}
+                >
+                  Apply
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <TaskTransferDialog
+        open={isTransferOpen}
+        onOpenChange={setIsTransferOpen}
+        projectId={projectId}
+        taskIds={selectedIds}
+        onTransferred={(result) => onApplied(result)}
+      />
+    </>
+  )
+}
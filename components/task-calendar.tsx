@@ -0,0 +1,271 @@
+"use client"
+
+import type React from "react"
+import { useMemo, useState } from "react"
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+import { ChevronLeft, ChevronRight, Inbox } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { getStatusColor } from "@/lib/workflow"
+import type { Task, WorkflowStatus } from "@/lib/types"
+
+type CalendarMode = "month" | "week"
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const
+// 月视图每天最多显示的任务数，其余折叠为 "+N more"
+const MAX_TASKS_PER_DAY = 3
+// 拖放时在 dataTransfer 中传递任务 ID
+const DRAG_TYPE = "application/x-task-id"
+const UNSCHEDULED = "unscheduled"
+
+interface TaskCalendarProps {
+  tasks: Task[]
+  statuses: WorkflowStatus[]
+  onReschedule: (task: Task, dueDate: string | null) => void // dueDate 为 YYYY-MM-DD，null 表示取消排期
+  onEditTask: (task: Task) => void
+}
+
+// 截止日期的日期部分，旧数据可能保存了完整时间
+const toDayKey = (dueDate?: string | null) => (dueDate ? dueDate.slice(0, 10) : null)
+
+function CalendarTask({
+  task,
+  statuses,
+  onEditTask,
+  onDragStart,
+  onDragEnd,
+  isDragging,
+}: {
+  task: Task
+  statuses: WorkflowStatus[]
+  onEditTask: (task: Task) => void
+  onDragStart: (e: React.DragEvent, task: Task) => void
+  onDragEnd: () => void
+  isDragging: boolean
+}) {
+  return (
+    <button
+      type="button"
+      draggable
+      onDragStart={(e) => onDragStart(e, task)}
+      onDragEnd={onDragEnd}
+      onClick={() => onEditTask(task)}
+      title={task.title}
+      className={cn(
+        "flex w-full items-center gap-1.5 rounded border bg-card px-1.5 py-1 text-left text-xs shadow-sm hover:bg-muted",
+        isDragging && "opacity-50",
+      )}
+    >
+      <span
+        className="h-2 w-2 shrink-0 rounded-full"
+        style={{ backgroundColor: getStatusColor(statuses, task.status) }}
+      />
+      <span className="truncate">{task.title}</span>
+    </button>
+  )
+}
+
+// 日历视图：任务显示在截止日期上，拖到其他日期即改期，拖到右侧“未排期”区域即取消截止日期
+export function TaskCalendar({ tasks, statuses, onReschedule, onEditTask }: TaskCalendarProps) {
+  const [mode, setMode] = useState<CalendarMode>("month")
+  const [currentDate, setCurrentDate] = useState(() => new Date())
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  const days = useMemo(() => {
+    const start =
+      mode === "month" ? startOfWeek(startOfMonth(currentDate), WEEK_OPTIONS) : startOfWeek(currentDate, WEEK_OPTIONS)
+    const end =
+      mode === "month" ? endOfWeek(endOfMonth(currentDate), WEEK_OPTIONS) : endOfWeek(currentDate, WEEK_OPTIONS)
+    return eachDayOfInterval({ start, end })
+  }, [mode, currentDate])
+
+  const { tasksByDay, unscheduledTasks } = useMemo(() => {
+    const byDay: Record<string, Task[]> = {}
+    const unscheduled: Task[] = []
+
+    tasks.forEach((task) => {
+      const day = toDayKey(task.dueDate)
+      if (!day) {
+        unscheduled.push(task)
+        return
+      }
+      if (!byDay[day]) byDay[day] = []
+      byDay[day].push(task)
+    })
+
+    return { tasksByDay: byDay, unscheduledTasks: unscheduled }
+  }, [tasks])
+
+  const title =
+    mode === "month"
+      ? format(currentDate, "MMMM yyyy")
+      : `${format(days[0], "MMM d")} – ${format(days[days.length - 1], "MMM d, yyyy")}`
+
+  const navigate = (direction: 1 | -1) => {
+    setCurrentDate((date) => (mode === "month" ? addMonths(date, direction) : addWeeks(date, direction)))
+  }
+
+  const handleDragStart = (e: React.DragEvent, task: Task) => {
+    e.dataTransfer.setData(DRAG_TYPE, task.id)
+    e.dataTransfer.effectAllowed = "move"
+    setDraggedTaskId(task.id)
+  }
+
+  const handleDragEnd = () => {
+    setDraggedTaskId(null)
+    setDropTarget(null)
+  }
+
+  const dropHandlers = (target: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_TYPE)) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = "move"
+      if (dropTarget !== target) setDropTarget(target)
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      // 进入子元素也会触发 dragleave，只在真正离开目标时清除高亮
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null)
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault()
+      const task = tasks.find((item) => item.id === e.dataTransfer.getData(DRAG_TYPE))
+      handleDragEnd()
+      if (!task) return
+
+      const dueDate = target === UNSCHEDULED ? null : target
+      if (toDayKey(task.dueDate) !== dueDate) onReschedule(task, dueDate)
+    },
+  })
+
+  const renderTasks = (dayTasks: Task[]) =>
+    dayTasks.map((task) => (
+      <CalendarTask
+        key={task.id}
+        task={task}
+        statuses={statuses}
+        onEditTask={onEditTask}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        isDragging={draggedTaskId === task.id}
+      />
+    ))
+
+  return (
+    <div className="flex flex-col gap-4 lg:flex-row">
+      <div className="min-w-0 flex-1">
+        <div className="mb-3 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => navigate(-1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setCurrentDate(new Date())}>
+              Today
+            </Button>
+            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => navigate(1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <h3 className="ml-2 text-lg font-medium">{title}</h3>
+          </div>
+          <div className="flex rounded-md border">
+            {(["month", "week"] as const).map((item, index) => (
+              <Button
+                key={item}
+                variant="ghost"
+                size="sm"
+                onClick={() => setMode(item)}
+                className={cn(
+                  "rounded-none px-3 capitalize",
+                  index === 0 ? "rounded-l-md" : "rounded-r-md border-l",
+                  mode === item ? "bg-muted" : "hover:bg-transparent",
+                )}
+              >
+                {item}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-7 overflow-hidden rounded-md border">
+          {days.slice(0, 7).map((day) => (
+            <div key={day.toISOString()} className="border-b bg-muted/50 px-2 py-1 text-xs font-medium">
+              {format(day, "EEE")}
+            </div>
+          ))}
+          {days.map((day) => {
+            const key = format(day, "yyyy-MM-dd")
+            const dayTasks = tasksByDay[key] || []
+            const visibleTasks = mode === "month" ? dayTasks.slice(0, MAX_TASKS_PER_DAY) : dayTasks
+            const hiddenCount = dayTasks.length - visibleTasks.length
+
+            return (
+              <div
+                key={key}
+                {...dropHandlers(key)}
+                className={cn(
+                  "flex flex-col gap-1 border-b border-r p-1.5 [&:nth-child(7n)]:border-r-0",
+                  mode === "month" ? "min-h-[110px]" : "min-h-[360px]",
+                  mode === "month" && !isSameMonth(day, currentDate) && "bg-muted/30 text-muted-foreground",
+                  dropTarget === key && "bg-primary/10",
+                )}
+              >
+                <span
+                  className={cn(
+                    "flex h-6 w-6 items-center justify-center self-end rounded-full text-xs",
+                    isToday(day) && "bg-primary font-medium text-primary-foreground",
+                  )}
+                >
+                  {format(day, "d")}
+                </span>
+                {renderTasks(visibleTasks)}
+                {hiddenCount > 0 && (
+                  <button
+                    type="button"
+                    className="text-left text-xs text-muted-foreground hover:underline"
+                    onClick={() => {
+                      setCurrentDate(day)
+                      setMode("week")
+                    }}
+                  >
+                    +{hiddenCount} more
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <div
+        {...dropHandlers(UNSCHEDULED)}
+        className={cn(
+          "flex w-full shrink-0 flex-col gap-2 rounded-md border p-3 lg:w-64",
+          dropTarget === UNSCHEDULED && "bg-primary/10",
+        )}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-2 text-sm font-medium">
+            <Inbox className="h-4 w-4" />
+            Unscheduled
+          </h3>
+          <Badge variant="secondary">{unscheduledTasks.length}</Badge>
+        </div>
+        <p className="text-xs text-muted-foreground">Drag a task onto a day to set its due date.</p>
+        <div className="flex max-h-[600px] flex-col gap-1 overflow-y-auto">{renderTasks(unscheduledTasks)}</div>
+      </div>
+    </div>
+  )
+}
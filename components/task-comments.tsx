@@ -0,0 +1,227 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { MessageSquareIcon, ReplyIcon, PencilIcon, Trash2Icon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import SimpleRichTextEditor from "@/components/simple-rich-text-editor"
+import { toast } from "@/hooks/use-toast"
+import type { TaskComment } from "@/lib/types"
+import { sanitizeRichText } from "@/lib/rich-text"
+import { isEmptyRichText } from "@/lib/utils"
+
+interface TaskCommentsProps {
+  taskId: string
+  onCountChange?: (count: number) => void
+}
+
+const countComments = (threads: TaskComment[]) =>
+  threads.reduce((total, thread) => total + 1 + (thread.replies?.length || 0), 0)
+
+const formatDateTime = (dateString?: string) => {
+  if (!dateString) return ""
+  return new Date(dateString).toLocaleString()
+}
+
+interface CommentEditorProps {
+  initialValue?: string
+  submitLabel: string
+  onSubmit: (body: string) => Promise<void>
+  onCancel?: () => void
+}
+
+function CommentEditor({ initialValue = "", submitLabel, onSubmit, onCancel }: CommentEditorProps) {
+  const [body, setBody] = useState(initialValue)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  // 提交后重新挂载编辑器以清空内容
+  const [editorKey, setEditorKey] = useState(0)
+
+  const handleSubmit = async () => {
+    if (isEmptyRichText(body)) return
+
+    setIsSubmitting(true)
+    try {
+      await onSubmit(body)
+      setBody(initialValue)
+      setEditorKey((key) => key + 1)
+    } catch {
+      // 错误已在上层提示，保留编辑内容
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <SimpleRichTextEditor key={editorKey} initialValue={initialValue} onChange={setBody} height={160} />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="outline" size="sm" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSubmit} disabled={isSubmitting || isEmptyRichText(body)}>
+          {isSubmitting ? "Saving..." : submitLabel}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export function TaskComments({ taskId, onCountChange }: TaskCommentsProps) {
+  const [threads, setThreads] = useState<TaskComment[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const fetchComments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/comments`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to fetch comments")
+      }
+
+      const data: TaskComment[] = await response.json()
+      setThreads(data)
+      onCountChange?.(countComments(data))
+    } catch (err) {
+      console.error("Error fetching comments:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [taskId, onCountChange])
+
+  useEffect(() => {
+    fetchComments()
+  }, [fetchComments])
+
+  const request = async (url: string, method: string, payload?: unknown) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: payload ? JSON.stringify(payload) : undefined,
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Request failed")
+      }
+
+      await fetchComments()
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      })
+      throw err
+    }
+  }
+
+  const handleCreate = async (body: string, parentId?: string) => {
+    await request(`/api/tasks/${taskId}/comments`, "POST", {
+      body,
+      parentId,
+    })
+    setReplyingTo(null)
+  }
+
+  const handleUpdate = async (commentId: string, body: string) => {
+    await request(`/api/tasks/${taskId}/comments/${commentId}`, "PUT", { body })
+    setEditingId(null)
+  }
+
+  const handleDelete = async (comment: TaskComment) => {
+    const message = comment.replies?.length ? "Delete this comment and all of its replies?" : "Delete this comment?"
+    if (!confirm(message)) return
+
+    // 错误已通过 toast 提示
+    await request(`/api/tasks/${taskId}/comments/${comment.id}`, "DELETE").catch(() => {})
+  }
+
+  const renderComment = (comment: TaskComment, isReply = false) => (
+    <div key={comment.id} id={`comment-${comment.id}`} className="flex gap-3 scroll-mt-24">
+      <Avatar className="h-8 w-8 shrink-0">
+        <AvatarFallback className="text-xs">{comment.author.initials}</AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-sm">
+            <span className="font-medium">{comment.author.name}</span>
+            <span className="text-muted-foreground ml-2 text-xs">
+              {formatDateTime(comment.created_at)}
+              {comment.updated_at && comment.updated_at !== comment.created_at && " (edited)"}
+            </span>
+          </div>
+          <div className="flex gap-1">
+            {!isReply && (
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setReplyingTo(comment.id)}>
+                <ReplyIcon className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setEditingId(comment.id)}>
+              <PencilIcon className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleDelete(comment)}>
+              <Trash2Icon className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {editingId === comment.id ? (
+          <div className="mt-2">
+            <CommentEditor
+              initialValue={comment.body}
+              submitLabel="Save"
+              onSubmit={(body) => handleUpdate(comment.id, body)}
+              onCancel={() => setEditingId(null)}
+            />
+          </div>
+        ) : (
+          <div
+            className="text-sm mt-1 rich-text-content"
+            dangerouslySetInnerHTML={{ __html: sanitizeRichText(comment.body) }}
+          />
+        )}
+
+        {comment.replies && comment.replies.length > 0 && (
+          <div className="mt-4 space-y-4 border-l pl-4">
+            {comment.replies.map((reply) => renderComment(reply, true))}
+          </div>
+        )}
+
+        {replyingTo === comment.id && (
+          <div className="mt-3">
+            <CommentEditor
+              submitLabel="Reply"
+              onSubmit={(body) => handleCreate(body, comment.id)}
+              onCancel={() => setReplyingTo(null)}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      <h3 className="text-lg font-medium flex items-center">
+        <MessageSquareIcon className="h-5 w-5 mr-2" />
+        Comments ({countComments(threads)})
+      </h3>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading comments...</p>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet.</p>
+      ) : (
+        <div className="space-y-6">{threads.map((thread) => renderComment(thread))}</div>
+      )}
+
+      <CommentEditor submitLabel="Comment" onSubmit={(body) => handleCreate(body)} />
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import type { CustomField, Task, WorkflowStatus } from "@/lib/types"
+import type { TaskConflict, TaskConflictChoice, TaskMergeField } from "@/lib/task-merge"
+import { getCustomFieldIdFromMergeField } from "@/lib/task-merge"
+import { getStatusName } from "@/lib/workflow"
+import { richTextToPlain } from "@/lib/task-csv"
+import { describeRecurrence } from "@/lib/task-recurrence"
+
+interface TaskConflictDialogProps {
+  open: boolean
+  conflicts: TaskConflict[]
+  statuses: WorkflowStatus[]
+  customFields: CustomField[]
+  tasks: Task[]
+  isSaving?: boolean
+  onResolve: (choices: Partial<Record<TaskMergeField, TaskConflictChoice>>) => void
+  onCancel: () => void
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  status: "Status",
+  priority: "Priority",
+  assignee: "Assignee",
+  parentId: "Parent Task",
+  startDate: "Start Date",
+  dueDate: "Due Date",
+  tags: "Tags",
+  recurrence: "Repeat",
+}
+
+export function TaskConflictDialog({
+  open,
+  conflicts,
+  statuses,
+  customFields,
+  tasks,
+  isSaving,
+  onResolve,
+  onCancel,
+}: TaskConflictDialogProps) {
+  const [choices, setChoices] = useState<Partial<Record<TaskMergeField, TaskConflictChoice>>>({})
+
+  // 每次打开时默认保留自己的修改
+  useEffect(() => {
+    if (open) setChoices(Object.fromEntries(conflicts.map((conflict) => [conflict.field, "mine"])))
+  }, [open, conflicts])
+
+  const getFieldLabel = (field: TaskMergeField) => {
+    const fieldId = getCustomFieldIdFromMergeField(field)
+    if (fieldId) return customFields.find((customField) => customField.id === fieldId)?.name || "Custom field"
+    return FIELD_LABELS[field] || field
+  }
+
+  const formatValue = (field: TaskMergeField, value: any) => {
+    if (value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) {
+      return "None"
+    }
+    if (field === "status") return getStatusName(statuses, value)
+    if (field === "priority") return String(value).charAt(0).toUpperCase() + String(value).slice(1)
+    if (field === "assignee") return value.name
+    if (field === "parentId") return tasks.find((task) => task.id === value)?.title || "Unknown task"
+    if (field === "dueDate" || field === "startDate") return new Date(value).toLocaleDateString()
+    if (field === "recurrence") return describeRecurrence(value)
+    if (field === "description") {
+      const text = richTextToPlain(value)
+      return text.length > 200 ? `${text.slice(0, 200)}…` : text || "None"
+    }
+    if (Array.isArray(value)) return value.join(", ")
+    if (typeof value === "boolean") return value ? "Yes" : "No"
+    return String(value)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Resolve conflicting changes</DialogTitle>
+          <DialogDescription>
+            Someone else updated this task while you were editing it. Their other changes have been merged with yours;
+            choose which version to keep for the fields you both changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-4 py-2">
+          {conflicts.map((conflict) => (
+            <div key={conflict.field} className="space-y-2">
+              <p className="text-sm font-medium">{getFieldLabel(conflict.field)}</p>
+              <RadioGroup
+                value={choices[conflict.field] || "mine"}
+                onValueChange={(value) =>
+                  setChoices((prev) => ({ ...prev, [conflict.field]: value as TaskConflictChoice }))
+                }
+                className="grid grid-cols-1 sm:grid-cols-2 gap-2"
+              >
+                {(["mine", "theirs"] as const).map((choice) => (
+                  <Label
+                    key={choice}
+                    htmlFor={`${conflict.field}-${choice}`}
+                    className="flex items-start gap-2 rounded-md border p-3 font-normal cursor-pointer"
+                  >
+                    <RadioGroupItem id={`${conflict.field}-${choice}`} value={choice} className="mt-0.5" />
+                    <span className="space-y-1 min-w-0">
+                      <span className="block text-xs text-muted-foreground">
+                        {choice === "mine" ? "Your change" : "Latest version"}
+                      </span>
+                      <span className="block text-sm break-words whitespace-pre-line">
+                        {formatValue(conflict.field, conflict[choice])}
+                      </span>
+                    </span>
+                  </Label>
+                ))}
+              </RadioGroup>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            Keep editing
+          </Button>
+          <Button onClick={() => onResolve(choices)} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save merged task"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
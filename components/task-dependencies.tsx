@@ -0,0 +1,203 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { BanIcon, LinkIcon, PlusIcon, Trash2Icon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "@/hooks/use-toast"
+import type { Task, TaskDependency, WorkflowStatus } from "@/lib/types"
+import { getStatusColor, getStatusName, isDoneStatus } from "@/lib/workflow"
+
+interface TaskDependenciesProps {
+  projectId: string
+  taskId: string
+  statuses: WorkflowStatus[]
+}
+
+type DependencyLink = TaskDependency & { task: Task }
+
+type DependencyDirection = "blocked-by" | "blocks"
+
+export function TaskDependencies({ projectId, taskId, statuses }: TaskDependenciesProps) {
+  const [blockedBy, setBlockedBy] = useState<DependencyLink[]>([])
+  const [blocks, setBlocks] = useState<DependencyLink[]>([])
+  const [projectTasks, setProjectTasks] = useState<Task[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [direction, setDirection] = useState<DependencyDirection>("blocked-by")
+  const [selectedTaskId, setSelectedTaskId] = useState("")
+  const [isAdding, setIsAdding] = useState(false)
+
+  const fetchDependencies = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/dependencies`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to fetch dependencies")
+      }
+
+      const data = await response.json()
+      setBlockedBy(data.blockedBy)
+      setBlocks(data.blocks)
+    } catch (err) {
+      console.error("Error fetching dependencies:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [taskId])
+
+  useEffect(() => {
+    fetchDependencies()
+  }, [fetchDependencies])
+
+  useEffect(() => {
+    fetch(`/api/tasks?projectId=${projectId}`)
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setProjectTasks)
+      .catch((err) => console.error("Error fetching project tasks:", err))
+  }, [projectId])
+
+  const request = async (url: string, method: string, payload?: unknown) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: payload ? JSON.stringify(payload) : undefined,
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Request failed")
+      }
+
+      await fetchDependencies()
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      })
+      throw err
+    }
+  }
+
+  const handleAdd = async () => {
+    if (!selectedTaskId) return
+
+    setIsAdding(true)
+    try {
+      await request(
+        `/api/tasks/${taskId}/dependencies`,
+        "POST",
+        direction === "blocked-by" ? { blockerId: selectedTaskId } : { blockedId: selectedTaskId },
+      )
+      setSelectedTaskId("")
+    } catch {
+      // 错误已提示
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleRemove = (link: DependencyLink) => {
+    request(`/api/tasks/${taskId}/dependencies/${link.id}`, "DELETE").catch(() => {})
+  }
+
+  const linkedIds = new Set([taskId, ...blockedBy.map((link) => link.task.id), ...blocks.map((link) => link.task.id)])
+  const candidates = projectTasks.filter((task) => !linkedIds.has(task.id))
+  const openBlockers = blockedBy.filter((link) => !isDoneStatus(statuses, link.task.status))
+
+  const renderLinks = (title: string, links: DependencyLink[]) => (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">{title}</h4>
+      {links.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {links.map((link) => (
+            <li key={link.id} className="flex items-center justify-between gap-3 px-3 py-2">
+              <Link href={`/projects/${projectId}/tasks/${link.task.id}`} className="text-sm hover:underline truncate">
+                {link.task.title}
+              </Link>
+              <div className="flex items-center gap-2">
+                <Badge
+                  variant="outline"
+                  className="text-xs whitespace-nowrap"
+                  style={{
+                    color: getStatusColor(statuses, link.task.status),
+                    borderColor: getStatusColor(statuses, link.task.status),
+                  }}
+                >
+                  {getStatusName(statuses, link.task.status)}
+                </Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 text-red-500 hover:text-red-700"
+                  onClick={() => handleRemove(link)}
+                >
+                  <Trash2Icon className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium flex items-center">
+        <LinkIcon className="h-5 w-5 mr-2" />
+        Dependencies
+      </h3>
+
+      {openBlockers.length > 0 && (
+        <div className="flex items-center gap-2 rounded-md bg-red-50 p-3 text-sm text-red-600">
+          <BanIcon className="h-4 w-4 flex-shrink-0" />
+          This task is blocked by {openBlockers.length} open {openBlockers.length === 1 ? "task" : "tasks"}.
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading dependencies...</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {renderLinks("Blocked by", blockedBy)}
+          {renderLinks("Blocks", blocks)}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Select value={direction} onValueChange={(value) => setDirection(value as DependencyDirection)}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="blocked-by">Blocked by</SelectItem>
+            <SelectItem value="blocks">Blocks</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={selectedTaskId} onValueChange={setSelectedTaskId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Select a task" />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map((task) => (
+              <SelectItem key={task.id} value={task.id}>
+                {task.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleAdd} disabled={isAdding || !selectedTaskId}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
@@ -12,74 +12,124 @@ import { CalendarIcon, FilterIcon } from "lucide-react"
 import { format } from "date-fns"
 import { cn } from "@/lib/utils"
 import { MultiSelect } from "./multi-select"
+import { FilterBuilder } from "./filter-builder"
+import { EMPTY_FILTER_GROUP, countFilterConditions, pruneFilterGroup } from "@/lib/filter-builder"
+import type { CustomField, FilterGroup, ProjectMember, WorkflowStatus } from "@/lib/types"
 
 export type FilterOptions = {
   title: string
-  assignee: string
+  assignee: string // 成员的用户 ID 或 "unassigned"
+  status: string
   priority: string
   dueDateFrom: Date | undefined
   dueDateTo: Date | undefined
   tags: string[]
+  conditions: FilterGroup // 条件构建器中的条件，与上面的条件是"且"的关系
+}
+
+export const EMPTY_FILTERS: FilterOptions = {
+  title: "",
+  assignee: "",
+  status: "",
+  priority: "",
+  dueDateFrom: undefined,
+  dueDateTo: undefined,
+  tags: [],
+  conditions: EMPTY_FILTER_GROUP,
 }
 
 type TaskFilterProps = {
   onFilterChange: (filters: FilterOptions) => void
   availableTags: string[]
+  statuses?: WorkflowStatus[]
+  members?: ProjectMember[]
+  customFields?: CustomField[]
+  value?: FilterOptions // 外部修改筛选条件（例如打开保存的视图）时同步到表单
+  actions?: React.ReactNode // 显示在筛选按钮左侧
 }
 
-export default function TaskFilter({ onFilterChange, availableTags }: TaskFilterProps) {
+export default function TaskFilter({
+  onFilterChange,
+  availableTags,
+  statuses = [],
+  members = [],
+  customFields = [],
+  value,
+  actions,
+}: TaskFilterProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [title, setTitle] = useState("")
   const [assignee, setAssignee] = useState("")
+  const [status, setStatus] = useState("")
   const [priority, setPriority] = useState("")
   const [dueDateFrom, setDueDateFrom] = useState<Date | undefined>(undefined)
   const [dueDateTo, setDueDateTo] = useState<Date | undefined>(undefined)
   const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [conditions, setConditions] = useState<FilterGroup>(EMPTY_FILTER_GROUP)
+
+  useEffect(() => {
+    if (!value) return
+    setTitle(value.title)
+    setAssignee(value.assignee)
+    setStatus(value.status)
+    setPriority(value.priority)
+    setDueDateFrom(value.dueDateFrom)
+    setDueDateTo(value.dueDateTo)
+    setSelectedTags(value.tags)
+    setConditions(value.conditions)
+  }, [value])
 
   const handleApplyFilters = () => {
     onFilterChange({
       title,
-      assignee,
-      priority,
+      assignee: assignee === "all" ? "" : assignee,
+      status: status === "all" ? "" : status,
+      priority: priority === "all" ? "" : priority,
       dueDateFrom,
       dueDateTo,
       tags: selectedTags,
+      // 还没填写完的条件不生效
+      conditions: pruneFilterGroup(conditions, customFields),
     })
   }
 
   const handleResetFilters = () => {
     setTitle("")
     setAssignee("")
+    setStatus("")
     setPriority("")
     setDueDateFrom(undefined)
     setDueDateTo(undefined)
     setSelectedTags([])
-    onFilterChange({
-      title: "",
-      assignee: "",
-      priority: "",
-      dueDateFrom: undefined,
-      dueDateTo: undefined,
-      tags: [],
-    })
+    setConditions(EMPTY_FILTER_GROUP)
+    onFilterChange(EMPTY_FILTERS)
   }
 
   return (
     <div className="mb-6">
       <div className="flex items-center justify-between mb-4">
-        <h2 className="text-lg font-medium">Task Board</h2>
+        <div className="flex items-center gap-2">{actions}</div>
         <Button variant="outline" size="sm" onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-1">
           <FilterIcon className="h-4 w-4" />
           Filters
-          {(title || assignee !== "" || priority !== "" || dueDateFrom || dueDateTo || selectedTags.length > 0) && (
+          {(title ||
+            assignee !== "" ||
+            status !== "" ||
+            priority !== "" ||
+            dueDateFrom ||
+            dueDateTo ||
+            selectedTags.length > 0 ||
+            countFilterConditions(conditions) > 0) && (
             <Badge variant="secondary" className="ml-2 px-1 py-0">
               {
                 [
                   title && "Title",
                   assignee !== "" && "Assignee",
+                  status !== "" && "Status",
                   priority !== "" && "Priority",
                   (dueDateFrom || dueDateTo) && "Date",
                   selectedTags.length > 0 && "Tags",
+                  countFilterConditions(conditions) > 0 && "Conditions",
                 ].filter(Boolean).length
               }
             </Badge>
@@ -108,13 +158,33 @@ export default function TaskFilter({ onFilterChange, availableTags }: TaskFilter
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All assignees</SelectItem>
-                  <SelectItem value="John Doe">John Doe</SelectItem>
-                  <SelectItem value="Jane Smith">Jane Smith</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.user.id} value={member.user.id}>
+                      {member.user.name}
+                    </SelectItem>
+                  ))}
                   <SelectItem value="unassigned">Unassigned</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="filter-status">Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger id="filter-status">
+                  <SelectValue placeholder="Select status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {statuses.map((item) => (
+                    <SelectItem key={item.key} value={item.key}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="filter-priority">Priority</Label>
               <Select value={priority} onValueChange={setPriority}>
@@ -180,6 +250,18 @@ export default function TaskFilter({ onFilterChange, availableTags }: TaskFilter
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label>Conditions</Label>
+            <FilterBuilder
+              value={conditions}
+              onChange={setConditions}
+              customFields={customFields}
+              statuses={statuses}
+              members={members}
+              availableTags={availableTags}
+            />
+          </div>
+
           <div className="flex justify-end gap-2">
             <Button variant="outline" onClick={handleResetFilters}>
               Reset
@@ -0,0 +1,356 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { DownloadIcon, FileSpreadsheetIcon, UploadIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/hooks/use-toast"
+import type { CustomField, TaskImportResult, TaskImportTarget, WorkflowStatus } from "@/lib/types"
+import { parseCsv, suggestColumnMapping, TASK_IMPORT_FIELDS } from "@/lib/task-csv"
+import { getStatusName } from "@/lib/workflow"
+
+interface TaskImportExportProps {
+  projectId: string
+}
+
+type ImportStep = "upload" | "mapping" | "preview" | "done"
+
+// Select 不支持空字符串作为选项值
+const IGNORE_COLUMN = "__ignore__"
+const MAX_ERRORS_SHOWN = 50
+
+export function TaskImportExport({ projectId }: TaskImportExportProps) {
+  const [customFields, setCustomFields] = useState<CustomField[]>([])
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>([])
+  const [step, setStep] = useState<ImportStep>("upload")
+  const [fileName, setFileName] = useState("")
+  const [csv, setCsv] = useState("")
+  const [headers, setHeaders] = useState<string[]>([])
+  const [sampleRow, setSampleRow] = useState<string[]>([])
+  const [mapping, setMapping] = useState<(TaskImportTarget | null)[]>([])
+  const [result, setResult] = useState<TaskImportResult | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    fetch(`/api/custom-fields?projectId=${projectId}`)
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setCustomFields)
+      .catch((err) => console.error("Error fetching custom fields:", err))
+
+    fetch(`/api/projects/${projectId}/statuses`)
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setStatuses)
+      .catch((err) => console.error("Error fetching statuses:", err))
+  }, [projectId])
+
+  const reset = () => {
+    setStep("upload")
+    setFileName("")
+    setCsv("")
+    setHeaders([])
+    setSampleRow([])
+    setMapping([])
+    setResult(null)
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    const text = await file.text()
+    const [header, ...rows] = parseCsv(text)
+
+    if (!header) {
+      toast({ title: "无法读取文件", description: "CSV 文件中没有数据", variant: "destructive" })
+      return
+    }
+
+    setFileName(file.name)
+    setCsv(text)
+    setHeaders(header)
+    setSampleRow(rows[0] || [])
+    setMapping(suggestColumnMapping(header, customFields))
+    setResult(null)
+    setStep("mapping")
+  }
+
+  // 同一字段只能由一列导入，选中时清除其他列上的相同映射
+  const updateMapping = (column: number, value: string) => {
+    const target = value === IGNORE_COLUMN ? null : (value as TaskImportTarget)
+    setMapping((prev) => prev.map((current, i) => (i === column ? target : current === target ? null : current)))
+  }
+
+  const runImport = async (dryRun: boolean) => {
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/import`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv, mapping, dryRun }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to import tasks")
+      }
+
+      const data: TaskImportResult = await response.json()
+      setResult(data)
+      setStep(dryRun ? "preview" : "done")
+
+      if (!dryRun) {
+        toast({
+          title: "导入完成",
+          description: `已导入 ${data.created} 个任务`,
+        })
+      }
+    } catch (err) {
+      toast({
+        title: dryRun ? "预览失败" : "导入失败",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const renderErrors = (importResult: TaskImportResult) => {
+    if (importResult.errors.length === 0) return null
+
+    return (
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-red-600">{importResult.errors.length} 个问题</h4>
+        <div className="max-h-64 overflow-y-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[80px]">行</TableHead>
+                <TableHead className="w-[160px]">列</TableHead>
+                <TableHead>问题</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {importResult.errors.slice(0, MAX_ERRORS_SHOWN).map((error, index) => (
+                <TableRow key={index}>
+                  <TableCell>{error.row}</TableCell>
+                  <TableCell>{error.column || "-"}</TableCell>
+                  <TableCell className="text-red-600">{error.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {importResult.errors.length > MAX_ERRORS_SHOWN && (
+          <p className="text-xs text-muted-foreground">仅显示前 {MAX_ERRORS_SHOWN} 个问题</p>
+        )}
+      </div>
+    )
+  }
+
+  const renderMapping = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        为 <span className="font-medium text-foreground">{fileName}</span>{" "}
+        的每一列选择要导入的字段，不需要的列可以忽略。
+      </p>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>CSV 列</TableHead>
+              <TableHead>示例</TableHead>
+              <TableHead className="w-[220px]">导入到</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {headers.map((header, column) => (
+              <TableRow key={column}>
+                <TableCell className="font-medium">{header || `第 ${column + 1} 列`}</TableCell>
+                <TableCell className="max-w-[240px] truncate text-muted-foreground">
+                  {sampleRow[column] || "-"}
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={mapping[column] || IGNORE_COLUMN}
+                    onValueChange={(value) => updateMapping(column, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={IGNORE_COLUMN}>忽略</SelectItem>
+                      {TASK_IMPORT_FIELDS.map((field) => (
+                        <SelectItem key={field.target} value={field.target}>
+                          {field.label}
+                          {field.target === "title" ? " *" : ""}
+                        </SelectItem>
+                      ))}
+                      {customFields.map((field) => (
+                        <SelectItem key={field.id} value={`custom:${field.id}`}>
+                          {field.name}
+                          {field.isRequired ? " *" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={reset}>
+          取消
+        </Button>
+        <Button onClick={() => runImport(true)} disabled={isSubmitting || !mapping.includes("title")}>
+          {isSubmitting ? "检查中..." : "预览导入"}
+        </Button>
+      </div>
+    </div>
+  )
+
+  const renderPreview = (importResult: TaskImportResult) => (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="outline">共 {importResult.total} 行</Badge>
+        <Badge variant="outline" className="border-green-600 text-green-600">
+          {importResult.valid} 行可导入
+        </Badge>
+        {importResult.total > importResult.valid && (
+          <Badge variant="outline" className="border-red-600 text-red-600">
+            {importResult.total - importResult.valid} 行将被跳过
+          </Badge>
+        )}
+      </div>
+
+      {renderErrors(importResult)}
+
+      {importResult.preview.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">预览（前 {importResult.preview.length} 行）</h4>
+          <div className="max-h-80 overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[60px]">行</TableHead>
+                  <TableHead>标题</TableHead>
+                  <TableHead>状态</TableHead>
+                  <TableHead>优先级</TableHead>
+                  <TableHead>负责人</TableHead>
+                  <TableHead>截止日期</TableHead>
+                  <TableHead>标签</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {importResult.preview.map(({ row, task }) => (
+                  <TableRow key={row}>
+                    <TableCell>{row}</TableCell>
+                    <TableCell className="font-medium">{task.title}</TableCell>
+                    <TableCell>{task.status ? getStatusName(statuses, task.status) : "默认"}</TableCell>
+                    <TableCell className="capitalize">{task.priority}</TableCell>
+                    <TableCell>{task.assignee?.name || "-"}</TableCell>
+                    <TableCell>{task.dueDate || "-"}</TableCell>
+                    <TableCell>{task.tags?.length ? task.tags.join(", ") : "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => setStep("mapping")} disabled={isSubmitting}>
+          返回修改映射
+        </Button>
+        <Button onClick={() => runImport(false)} disabled={isSubmitting || importResult.valid === 0}>
+          {isSubmitting ? "导入中..." : `导入 ${importResult.valid} 个任务`}
+        </Button>
+      </div>
+    </div>
+  )
+
+  const renderDone = (importResult: TaskImportResult) => (
+    <div className="space-y-4">
+      <p className="text-sm">
+        已导入 <span className="font-medium">{importResult.created}</span> 个任务
+        {importResult.total > importResult.created && `，跳过 ${importResult.total - importResult.created} 行`}。
+      </p>
+      {renderErrors(importResult)}
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={reset}>
+          导入其他文件
+        </Button>
+      </div>
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>导入导出</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="space-y-3">
+          <h3 className="text-lg font-medium flex items-center">
+            <DownloadIcon className="h-5 w-5 mr-2" />
+            导出任务
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            导出项目中的全部任务，每个自定义字段单独一列。CSV 文件可直接用 Excel 打开。
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <a href={`/api/projects/${projectId}/export?format=csv`}>
+                <DownloadIcon className="h-4 w-4 mr-2" />
+                导出 CSV
+              </a>
+            </Button>
+            <Button variant="outline" asChild>
+              <a href={`/api/projects/${projectId}/export?format=xlsx`}>
+                <FileSpreadsheetIcon className="h-4 w-4 mr-2" />
+                导出 Excel
+              </a>
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-lg font-medium flex items-center">
+            <UploadIcon className="h-5 w-5 mr-2" />从 CSV 导入
+          </h3>
+
+          {step === "upload" && (
+            <div className="flex flex-col items-center justify-center gap-3 rounded-md border border-dashed p-8 text-center">
+              <p className="text-sm text-muted-foreground">
+                第一行需为表头。导入前会先检查每一行，确认预览无误后再写入。
+              </p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={handleFileChange}
+              />
+              <Button onClick={() => fileInputRef.current?.click()}>
+                <UploadIcon className="h-4 w-4 mr-2" />
+                选择 CSV 文件
+              </Button>
+            </div>
+          )}
+
+          {step === "mapping" && renderMapping()}
+          {step === "preview" && result && renderPreview(result)}
+          {step === "done" && result && renderDone(result)}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
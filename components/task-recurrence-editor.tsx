@@ -0,0 +1,160 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { describeRecurrence, RECURRENCE_FREQUENCIES, WEEKDAYS } from "@/lib/task-recurrence"
+import type { RecurrenceFrequency, TaskRecurrence } from "@/lib/types"
+
+type RecurrenceEnd = "never" | "until" | "count"
+
+interface TaskRecurrenceEditorProps {
+  id?: string
+  value: TaskRecurrence | null
+  onChange: (value: TaskRecurrence | null) => void
+}
+
+const NO_REPEAT = "none"
+
+// 星期一排在最前面
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+// 重复规则编辑器；星期和日期留空时与截止日期相同，结束条件可以是日期或次数
+export function TaskRecurrenceEditor({ id, value, onChange }: TaskRecurrenceEditorProps) {
+  const end: RecurrenceEnd = value?.until ? "until" : value?.count ? "count" : "never"
+  const unit = RECURRENCE_FREQUENCIES.find((item) => item.value === value?.frequency)?.unit
+
+  const update = (changes: Partial<TaskRecurrence>) => value && onChange({ ...value, ...changes })
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === NO_REPEAT) {
+      onChange(null)
+      return
+    }
+    onChange({
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval || 1,
+      weekdays: null,
+      monthDay: null,
+      until: value?.until ?? null,
+      count: value?.count ?? null,
+    })
+  }
+
+  const handleEndChange = (next: string) => {
+    if (next === "until") update({ until: new Date().toISOString().slice(0, 10), count: null })
+    else if (next === "count") update({ until: null, count: 10 })
+    else update({ until: null, count: null })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={value?.frequency || NO_REPEAT} onValueChange={handleFrequencyChange}>
+          <SelectTrigger id={id} className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_REPEAT}>Does not repeat</SelectItem>
+            {RECURRENCE_FREQUENCIES.map((frequency) => (
+              <SelectItem key={frequency.value} value={frequency.value}>
+                {frequency.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {value && (
+          <div className="flex items-center gap-2 text-sm">
+            <span>every</span>
+            <Input
+              type="number"
+              min={1}
+              className="h-9 w-20"
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+            />
+            <span>{value.interval > 1 ? `${unit}s` : unit}</span>
+          </div>
+        )}
+      </div>
+
+      {value?.frequency === "weekly" && (
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          className="justify-start"
+          value={(value.weekdays || []).map(String)}
+          onValueChange={(days) => update({ weekdays: days.length > 0 ? days.map(Number) : null })}
+        >
+          {WEEKDAY_ORDER.map((day) => (
+            <ToggleGroupItem key={day} value={String(day)}>
+              {WEEKDAYS[day].label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {value?.frequency === "monthly" && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>on day</span>
+          <Input
+            type="number"
+            min={1}
+            max={31}
+            className="h-9 w-20"
+            placeholder="Due"
+            value={value.monthDay ?? ""}
+            onChange={(e) => {
+              const day = Math.floor(Number(e.target.value))
+              update({ monthDay: day >= 1 && day <= 31 ? day : null })
+            }}
+          />
+        </div>
+      )}
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span>ends</span>
+          <Select value={end} onValueChange={handleEndChange}>
+            <SelectTrigger className="h-9 w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never</SelectItem>
+              <SelectItem value="until">On date</SelectItem>
+              <SelectItem value="count">After</SelectItem>
+            </SelectContent>
+          </Select>
+          {end === "until" && (
+            <Input
+              type="date"
+              className="h-9 w-[160px]"
+              value={value.until || ""}
+              onChange={(e) => update({ until: e.target.value || null })}
+            />
+          )}
+          {end === "count" && (
+            <>
+              <Input
+                type="number"
+                min={1}
+                className="h-9 w-20"
+                value={value.count ?? ""}
+                onChange={(e) => update({ count: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+              />
+              <span>times</span>
+            </>
+          )}
+        </div>
+      )}
+
+      {value && (
+        <p className="text-xs text-muted-foreground">
+          {describeRecurrence(value)}. The next task is created when this one is completed or reaches its due date, with
+          the same tags and custom field values.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { CheckCircle2Icon, CircleIcon, ListChecksIcon, PlusIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { toast } from "@/hooks/use-toast"
+import type { Task, WorkflowStatus } from "@/lib/types"
+import { getStatusColor, getStatusName, isDoneStatus } from "@/lib/workflow"
+
+interface TaskSubtasksProps {
+  projectId: string
+  taskId: string
+  statuses: WorkflowStatus[]
+}
+
+export function TaskSubtasks({ projectId, taskId, statuses }: TaskSubtasksProps) {
+  const [subtasks, setSubtasks] = useState<Task[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [newTitle, setNewTitle] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
+
+  const fetchSubtasks = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/subtasks`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to fetch subtasks")
+      }
+
+      setSubtasks(await response.json())
+    } catch (err) {
+      console.error("Error fetching subtasks:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [taskId])
+
+  useEffect(() => {
+    fetchSubtasks()
+  }, [fetchSubtasks])
+
+  const handleCreate = async () => {
+    if (!newTitle.trim()) return
+
+    setIsCreating(true)
+    try {
+      const response = await fetch("/api/tasks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ projectId, title: newTitle.trim(), parentId: taskId }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to create subtask")
+      }
+
+      setNewTitle("")
+      await fetchSubtasks()
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const doneCount = subtasks.filter((subtask) => isDoneStatus(statuses, subtask.status)).length
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium flex items-center">
+          <ListChecksIcon className="h-5 w-5 mr-2" />
+          Subtasks
+        </h3>
+        {subtasks.length > 0 && (
+          <span className="text-sm text-muted-foreground">
+            {doneCount} of {subtasks.length} done
+          </span>
+        )}
+      </div>
+
+      {subtasks.length > 0 && <Progress value={(doneCount / subtasks.length) * 100} className="h-2" />}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading subtasks...</p>
+      ) : subtasks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No subtasks yet.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {subtasks.map((subtask) => (
+            <li key={subtask.id} className="flex items-center justify-between gap-3 px-3 py-2">
+              <Link
+                href={`/projects/${projectId}/tasks/${subtask.id}`}
+                className="flex items-center gap-2 text-sm hover:underline min-w-0"
+              >
+                {isDoneStatus(statuses, subtask.status) ? (
+                  <CheckCircle2Icon className="h-4 w-4 flex-shrink-0 text-green-600" />
+                ) : (
+                  <CircleIcon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                )}
+                <span className="truncate">{subtask.title}</span>
+              </Link>
+              <Badge
+                variant="outline"
+                className="text-xs whitespace-nowrap"
+                style={{
+                  color: getStatusColor(statuses, subtask.status),
+                  borderColor: getStatusColor(statuses, subtask.status),
+                }}
+              >
+                {getStatusName(statuses, subtask.status)}
+              </Badge>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Add a subtask"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleCreate()
+          }}
+        />
+        <Button onClick={handleCreate} disabled={isCreating || !newTitle.trim()}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add
+        </Button>
+      </div>
+    </div>
+  )
+}
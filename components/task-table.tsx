@@ -2,32 +2,36 @@
 
 import type React from "react"
 
-import { useState, useRef, useCallback, useEffect } from "react"
+import { useState, useRef, useCallback, useEffect, useMemo } from "react"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { CheckIcon, X, GripVertical } from "lucide-react"
+import { BanIcon, CheckIcon, X, GripVertical } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { MultiSelect } from "./multi-select"
 import { toast } from "@/hooks/use-toast"
 import { Checkbox } from "@/components/ui/checkbox"
 
 // Add the import for custom fields
-import type { CustomField, CustomFieldValue } from "@/lib/types"
+import type { CustomField, CustomFieldValue, ProjectMember, WorkflowStatus } from "@/lib/types"
+import { DEFAULT_WORKFLOW_STATUSES } from "@/lib/workflow"
+import { toAssignee } from "@/lib/members"
+import { toggleTaskSelection } from "@/lib/task-batch"
 
 interface Task {
   id: string
   title: string
   description: string
-  status: "todo" | "in-progress" | "review" | "done"
+  status: string
   priority: "low" | "medium" | "high"
   assignee?: {
+    id?: string
     name: string
     initials: string
-  }
+  } | null
   dueDate?: string
   comments: number
   projectId?: string
@@ -43,13 +47,33 @@ interface TaskTableProps {
   onReorderTasks?: (taskIds: string[], newOrders: number[]) => Promise<boolean | void>
   availableTags: string[]
   customFields?: CustomField[]
+  statuses?: Pick<WorkflowStatus, "key" | "name" | "color">[]
+  members?: ProjectMember[]
+  openBlockers?: Record<string, string[]> // 任务 ID -> 尚未完成的前置任务标题
+  visibleColumns?: string[] | null // 显示的列（内置列名或自定义字段 ID），为空时全部显示，标题列始终显示
+  keepOrder?: boolean // 任务已按其他字段排序时保持传入的顺序，并禁用拖拽排序
+  selectedIds?: string[] // 批量操作选中的任务，传入 onSelectionChange 时显示复选框列
+  onSelectionChange?: (selectedIds: string[]) => void
 }
 
 // Update the component to accept customFields
-export function TaskTable({ tasks, onUpdateTask, onReorderTasks, availableTags, customFields = [] }: TaskTableProps) {
+export function TaskTable({
+  tasks,
+  onUpdateTask,
+  onReorderTasks,
+  availableTags,
+  customFields = [],
+  statuses = DEFAULT_WORKFLOW_STATUSES,
+  members = [],
+  openBlockers = {},
+  visibleColumns = null,
+  keepOrder = false,
+  selectedIds = [],
+  onSelectionChange,
+}: TaskTableProps) {
   const [editingCell, setEditingCell] = useState<{
     taskId: string
-    field: keyof Task | "assigneeName" | `custom_${string}`
+    field: keyof Task | "assigneeId" | `custom_${string}`
   } | null>(null)
 
   const [editValues, setEditValues] = useState<Record<string, any>>({})
@@ -67,6 +91,8 @@ export function TaskTable({ tasks, onUpdateTask, onReorderTasks, availableTags,
   // Add this ref
   const initialLoadRef = useRef(false)
   const tasksRef = useRef<Task[]>([])
+  // 按住 Shift 点击时从上次点击的任务开始连续选择
+  const selectionAnchorRef = useRef<string | null>(null)
 
   // Initialize tasks with order if not present
   useEffect(() => {
@@ -76,14 +102,9 @@ export function TaskTable({ tasks, onUpdateTask, onReorderTasks, availableTags,
     // Skip if we've already processed the initial tasks and the tasks array length hasn't changed
     if (initialLoadRef.current && tasks.length === localTasks.length) {
       // Only do a deep comparison if the lengths match but we suspect changes
-      const tasksIds = tasks
-        .map((t) => t.id)
-        .sort()
-        .join(",")
-      const localTasksIds = localTasks
-        .map((t) => t.id)
-        .sort()
-        .join(",")
+      // 保持传入顺序时顺序变化也需要更新
+      const tasksIds = (keepOrder ? tasks.map((t) => t.id) : tasks.map((t) => t.id).sort()).join(",")
+      const localTasksIds = (keepOrder ? localTasks.map((t) => t.id) : localTasks.map((t) => t.id).sort()).join(",")
 
       if (tasksIds === localTasksIds) {
         return // No changes in the task IDs, skip update
@@ -97,23 +118,46 @@ export function TaskTable({ tasks, onUpdateTask, onReorderTasks, availableTags,
     }))
 
     // Sort by order
-    const sortedTasks = [...tasksWithOrder].sort((a, b) =>
-      a.order !== undefined && b.order !== undefined ? a.order - b.order : 0,
-    )
+    const sortedTasks = keepOrder
+      ? tasksWithOrder
+      : [...tasksWithOrder].sort((a, b) => (a.order !== undefined && b.order !== undefined ? a.order - b.order : 0))
 
     // Update the ref first to avoid race conditions
     tasksRef.current = sortedTasks
     setLocalTasks(sortedTasks)
     initialLoadRef.current = true
-  }, [tasks, localTasks.length, isReordering])
+  }, [tasks, localTasks.length, isReordering, keepOrder])
 
-  const statusMap = {
-    todo: "To Do",
-    "in-progress": "In Progress",
-    review: "Review",
-    done: "Done",
+  const isColumnVisible = useCallback(
+    (column: string) => !visibleColumns || visibleColumns.includes(column),
+    [visibleColumns],
+  )
+  const visibleCustomFields = useMemo(
+    () => customFields.filter((field) => isColumnVisible(field.id)),
+    [customFields, isColumnVisible],
+  )
+
+  const allSelected = localTasks.length > 0 && localTasks.every((task) => selectedIds.includes(task.id))
+
+  const handleSelectTask = (e: React.MouseEvent, taskId: string) => {
+    if (!onSelectionChange) return
+    onSelectionChange(
+      toggleTaskSelection(
+        selectedIds,
+        localTasks.map((task) => task.id),
+        taskId,
+        selectionAnchorRef.current,
+        e.shiftKey,
+      ),
+    )
+    selectionAnchorRef.current = taskId
   }
 
+  const statusMap = useMemo(
+    () => Object.fromEntries(statuses.map((status) => [status.key, status.name])) as Record<string, string>,
+    [statuses],
+  )
+
   const priorityColorMap = {
     low: "text-green-500",
     medium: "text-yellow-500",
@@ -121,14 +165,14 @@ export function TaskTable({ tasks, onUpdateTask, onReorderTasks, availableTags,
   }
 
   const isEditing = useCallback(
-    (taskId: string, field: keyof Task | "assigneeName" | `custom_${string}`) => {
+    (taskId: string, field: keyof Task | "assigneeId" | `custom_${string}`) => {
       return editingCell?.taskId === taskId && editingCell?.field === field
     },
     [editingCell],
   )
 
   const handleStartEdit = useCallback(
-    (taskId: string, field: keyof Task | "assigneeName" | `custom_${string}`, value: any) => {
+    (taskId: string, field: keyof Task | "assigneeId" | `custom_${string}`, value: any) => {
       setEditingCell({ taskId, field })
       if (field !== "tags") {
         setEditValues((prev) => ({ ...prev, [field]: value }))
@@ -152,28 +196,17 @@ export function TaskTable({ tasks, onUpdateTask, onReorderTasks, availableTags,
         const field = editingCell.field
         const updatedTask = { ...task }
 
-        if (field === "assigneeName") {
-          if (editValues[field] === "unassigned") {
-            updatedTask.assignee = undefined
-          } else if (editValues[field]) {
-            updatedTask.assignee = {
-              name: editValues[field],
-              initials: editValues[field]
-                .split(" ")
-                .map((n: string) => n[0])
-                .join("")
-                .toUpperCase(),
-            }
+        if (field === "assigneeId") {
+          if (editValues[field]) {
+            updatedTask.assignee = toAssignee(members.find((member) => member.user.id === editValues[field]))
           }
         } else if (field === "tags") {
           updatedTask.tags = editValues[field] || []
         } else if (field.startsWith("custom_")) {
           // Handle custom field updates
+          // Copy the values so the original task keeps its own object to compare against
           const fieldId = field.replace("custom_", "")
-          if (!updatedTask.customFields) {
-            updatedTask.customFields = {}
-          }
-          updatedTask.customFields[fieldId] = editValues[field]
+          updatedTask.customFields = { ...updatedTask.customFields, [fieldId]: editValues[field] }
         } else if (field in updatedTask) {
           updatedTask[field] = editValues[field]
         }
@@ -207,7 +240,7 @@ export function TaskTable({ tasks, onUpdateTask, onReorderTasks, availableTags,
         setEditValues({})
       }
     },
-    [editingCell, isSubmitting, editValues, onUpdateTask, toast],
+    [editingCell, isSubmitting, editValues, onUpdateTask, toast, members],
   )
 
   // Format date for display
@@ -379,17 +412,17 @@ export function TaskTable({ tasks, onUpdateTask, onReorderTasks, availableTags,
   )
 
   const renderValue = useCallback(
-    (task: Task, field: keyof Task | "assigneeName") => {
+    (task: Task, field: keyof Task | "assigneeId") => {
       switch (field) {
         case "status":
-          return <span className="text-sm">{statusMap[task.status]}</span>
+          return <span className="text-sm">{statusMap[task.status] || task.status}</span>
         case "priority":
           return (
             <span className={cn("text-sm font-medium", priorityColorMap[task.priority])}>
               {task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}
             </span>
           )
-        case "assigneeName":
+        case "assigneeId":
           return <span className="text-sm">{task.assignee?.name || "Unassigned"}</span>
         case "dueDate":
           return <span className="text-sm">{task.dueDate ? formatDate(task.dueDate) : "No due date"}</span>
@@ -442,18 +475,8 @@ export function TaskTable({ tasks, onUpdateTask, onReorderTasks, availableTags,
       try {
         const updatedTask = { ...task }
 
-        if (value === "unassigned") {
-          updatedTask.assignee = undefined
-        } else {
-          updatedTask.assignee = {
-            name: value,
-            initials: value
-              .split(" ")
-              .map((n) => n[0])
-              .join("")
-              .toUpperCase(),
-          }
-        }
+        // "unassigned" 找不到对应成员，会被转换为 null
+        updatedTask.assignee = toAssignee(members.find((member) => member.user.id === value))
 
         // Optimistically update the UI
         setLocalTasks((prevTasks) => prevTasks.map((t) => (t.id === task.id ? updatedTask : t)))
@@ -476,7 +499,7 @@ export function TaskTable({ tasks, onUpdateTask, onReorderTasks, availableTags,
         setIsSubmitting(false)
       }
     },
-    [isSubmitting, onUpdateTask, toast],
+    [isSubmitting, onUpdateTask, toast, members],
   )
 
   const handleTagsChange = useCallback(
@@ -844,15 +867,24 @@ export function TaskTable({ tasks, onUpdateTask, onReorderTasks, availableTags,
       <Table>
         <TableHeader>
           <TableRow>
+            {onSelectionChange && (
+              <TableHead className="w-[40px]">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => onSelectionChange(checked ? localTasks.map((task) => task.id) : [])}
+                  aria-label="Select all tasks"
+                />
+              </TableHead>
+            )}
             <TableHead>Title</TableHead>
-            <TableHead>Description</TableHead>
-            <TableHead className="w-[140px]">Status</TableHead>
-            <TableHead className="w-[100px]">Priority</TableHead>
-            <TableHead className="w-[140px]">Assignee</TableHead>
-            <TableHead className="w-[120px]">Due Date</TableHead>
-            <TableHead>Tags</TableHead>
+            {isColumnVisible("description") && <TableHead>Description</TableHead>}
+            {isColumnVisible("status") && <TableHead className="w-[140px]">Status</TableHead>}
+            {isColumnVisible("priority") && <TableHead className="w-[100px]">Priority</TableHead>}
+            {isColumnVisible("assignee") && <TableHead className="w-[140px]">Assignee</TableHead>}
+            {isColumnVisible("dueDate") && <TableHead className="w-[120px]">Due Date</TableHead>}
+            {isColumnVisible("tags") && <TableHead>Tags</TableHead>}
             {/* Add custom field columns */}
-            {customFields.map((field) => (
+            {visibleCustomFields.map((field) => (
               <TableHead key={field.id} className="w-[150px]">
                 {field.name}
                 {field.isRequired && <span className="text-red-500 ml-1">*</span>}
@@ -864,7 +896,7 @@ export function TaskTable({ tasks, onUpdateTask, onReorderTasks, availableTags,
           {localTasks.map((task, index) => (
             <TableRow
               key={task.id}
-              draggable
+              draggable={!keepOrder}
               onDragStart={(e) => handleDragStart(e, task.id, index)}
               onDragOver={(e) => handleDragOver(e, task.id)}
               onDragEnter={(e) => handleDragEnter(e, task.id)}
@@ -875,10 +907,23 @@ export function TaskTable({ tasks, onUpdateTask, onReorderTasks, availableTags,
                 draggedTaskId === task.id && "table-row-dragging",
                 dragOverTaskId === task.id && "table-row-drag-over",
               )}
+              data-state={selectedIds.includes(task.id) ? "selected" : undefined}
             >
+              {onSelectionChange && (
+                <TableCell>
+                  <Checkbox
+                    checked={selectedIds.includes(task.id)}
+                    onClick={(e) => {
+                      e.preventDefault()
+                      handleSelectTask(e, task.id)
+                    }}
+                    aria-label={`Select ${task.title}`}
+                  />
+                </TableCell>
+              )}
               <TableCell className="font-medium cursor-pointer hover:bg-muted/50">
                 <div className="flex items-center">
-                  <GripVertical className="h-4 w-4 mr-2 text-muted-foreground grip-handle" />
+                  {!keepOrder && <GripVertical className="h-4 w-4 mr-2 text-muted-foreground grip-handle" />}
                   {isEditing(task.id, "title") ? (
                     <div className="flex items-center gap-2">
                       <Input
@@ -911,172 +956,197 @@ export function TaskTable({ tasks, onUpdateTask, onReorderTasks, availableTags,
                   ) : (
                     <span onClick={() => handleStartEdit(task.id, "title", task.title)}>{task.title}</span>
                   )}
+                  {openBlockers[task.id] && (
+                    <span
+                      className="ml-2 flex items-center text-red-500"
+                      title={`Blocked by ${openBlockers[task.id].join(", ")}`}
+                    >
+                      <BanIcon className="h-4 w-4" />
+                    </span>
+                  )}
                 </div>
               </TableCell>
 
-              <TableCell
-                className="cursor-pointer hover:bg-muted/50"
-                onClick={() => handleStartEdit(task.id, "description", task.description)}
-              >
-                {isEditing(task.id, "description") ? (
-                  <div className="flex items-center gap-2">
-                    <Textarea
-                      value={editValues.description}
-                      onChange={(e) => setEditValues((prev) => ({ ...prev, description: e.target.value }))}
-                      className="h-20"
-                      autoFocus
-                    />
-                    <div className="flex flex-col">
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        className="h-8 w-8"
-                        onClick={() => handleSaveEdit(task)}
-                        disabled={isSubmitting}
-                      >
-                        <CheckIcon className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        className="h-8 w-8"
-                        onClick={handleCancelEdit}
-                        disabled={isSubmitting}
-                      >
-                        <X className="h-4 w-4" />
-                      </Button>
+              {isColumnVisible("description") && (
+                <TableCell
+                  className="cursor-pointer hover:bg-muted/50"
+                  onClick={() => handleStartEdit(task.id, "description", task.description)}
+                >
+                  {isEditing(task.id, "description") ? (
+                    <div className="flex items-center gap-2">
+                      <Textarea
+                        value={editValues.description}
+                        onChange={(e) => setEditValues((prev) => ({ ...prev, description: e.target.value }))}
+                        className="h-20"
+                        autoFocus
+                      />
+                      <div className="flex flex-col">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          onClick={() => handleSaveEdit(task)}
+                          disabled={isSubmitting}
+                        >
+                          <CheckIcon className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          onClick={handleCancelEdit}
+                          disabled={isSubmitting}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                ) : (
-                  <span className="line-clamp-2">{task.description}</span>
-                )}
-              </TableCell>
-
-              <TableCell className="cursor-pointer" onClick={() => handleStartEdit(task.id, "status", task.status)}>
-                {isEditing(task.id, "status") ? (
-                  <Select
-                    key={`status-select-${task.id}`}
-                    value={editValues.status}
-                    onValueChange={(value) => {
-                      setEditValues({ ...editValues, status: value })
-                      handleDirectValueChange(task, "status", value as Task["status"])
-                      handleCancelEdit()
-                    }}
-                    disabled={isSubmitting}
-                  >
-                    <SelectTrigger className="h-8">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="todo">To Do</SelectItem>
-                      <SelectItem value="in-progress">In Progress</SelectItem>
-                      <SelectItem value="review">Review</SelectItem>
-                      <SelectItem value="done">Done</SelectItem>
-                    </SelectContent>
-                  </Select>
-                ) : (
-                  renderValue(task, "status")
-                )}
-              </TableCell>
+                  ) : (
+                    <span className="line-clamp-2">{task.description}</span>
+                  )}
+                </TableCell>
+              )}
 
-              <TableCell className="cursor-pointer" onClick={() => handleStartEdit(task.id, "priority", task.priority)}>
-                {isEditing(task.id, "priority") ? (
-                  <Select
-                    key={`priority-select-${task.id}`}
-                    value={editValues.priority}
-                    onValueChange={(value) => {
-                      setEditValues({ ...editValues, priority: value })
-                      handleDirectValueChange(task, "priority", value as Task["priority"])
-                      handleCancelEdit()
-                    }}
-                    disabled={isSubmitting}
-                  >
-                    <SelectTrigger className="h-8">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="low">Low</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="high">High</SelectItem>
-                    </SelectContent>
-                  </Select>
-                ) : (
-                  renderValue(task, "priority")
-                )}
-              </TableCell>
+              {isColumnVisible("status") && (
+                <TableCell className="cursor-pointer" onClick={() => handleStartEdit(task.id, "status", task.status)}>
+                  {isEditing(task.id, "status") ? (
+                    <Select
+                      key={`status-select-${task.id}`}
+                      value={editValues.status}
+                      onValueChange={(value) => {
+                        setEditValues({ ...editValues, status: value })
+                        handleDirectValueChange(task, "status", value as Task["status"])
+                        handleCancelEdit()
+                      }}
+                      disabled={isSubmitting}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {statuses.map((status) => (
+                          <SelectItem key={status.key} value={status.key}>
+                            {status.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    renderValue(task, "status")
+                  )}
+                </TableCell>
+              )}
 
-              <TableCell
-                className="cursor-pointer"
-                onClick={() => handleStartEdit(task.id, "assigneeName", task.assignee?.name || "unassigned")}
-              >
-                {isEditing(task.id, "assigneeName") ? (
-                  <Select
-                    key={`assignee-select-${task.id}`}
-                    value={editValues.assigneeName}
-                    onValueChange={(value) => {
-                      setEditValues({ ...editValues, assigneeName: value })
-                      handleAssigneeChange(task, value)
-                      handleCancelEdit()
-                    }}
-                    disabled={isSubmitting}
-                  >
-                    <SelectTrigger className="h-8">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="unassigned">Unassigned</SelectItem>
-                      <SelectItem value="John Doe">John Doe</SelectItem>
-                      <SelectItem value="Jane Smith">Jane Smith</SelectItem>
-                    </SelectContent>
-                  </Select>
-                ) : (
-                  renderValue(task, "assigneeName")
-                )}
-              </TableCell>
+              {isColumnVisible("priority") && (
+                <TableCell
+                  className="cursor-pointer"
+                  onClick={() => handleStartEdit(task.id, "priority", task.priority)}
+                >
+                  {isEditing(task.id, "priority") ? (
+                    <Select
+                      key={`priority-select-${task.id}`}
+                      value={editValues.priority}
+                      onValueChange={(value) => {
+                        setEditValues({ ...editValues, priority: value })
+                        handleDirectValueChange(task, "priority", value as Task["priority"])
+                        handleCancelEdit()
+                      }}
+                      disabled={isSubmitting}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="low">Low</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="high">High</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    renderValue(task, "priority")
+                  )}
+                </TableCell>
+              )}
 
-              <TableCell
-                className="cursor-pointer"
-                onClick={() => handleStartEdit(task.id, "dueDate", task.dueDate || "")}
-              >
-                {isEditing(task.id, "dueDate") ? (
-                  <div className="flex items-center gap-2">
-                    <Input
-                      type="date"
-                      value={editValues.dueDate}
-                      onChange={(e) => setEditValues((prev) => ({ ...prev, dueDate: e.target.value }))}
-                      className="h-8"
-                      autoFocus
+              {isColumnVisible("assignee") && (
+                <TableCell
+                  className="cursor-pointer"
+                  onClick={() => handleStartEdit(task.id, "assigneeId", task.assignee?.id || "unassigned")}
+                >
+                  {isEditing(task.id, "assigneeId") ? (
+                    <Select
+                      key={`assignee-select-${task.id}`}
+                      value={editValues.assigneeId}
+                      onValueChange={(value) => {
+                        setEditValues({ ...editValues, assigneeId: value })
+                        handleAssigneeChange(task, value)
+                        handleCancelEdit()
+                      }}
                       disabled={isSubmitting}
-                    />
-                    <div className="flex items-center">
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        className="h-8 w-8"
-                        onClick={() => handleSaveEdit(task)}
-                        disabled={isSubmitting}
-                      >
-                        <CheckIcon className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        className="h-8 w-8"
-                        onClick={handleCancelEdit}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="unassigned">Unassigned</SelectItem>
+                        {members.map((member) => (
+                          <SelectItem key={member.user.id} value={member.user.id}>
+                            {member.user.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    renderValue(task, "assigneeId")
+                  )}
+                </TableCell>
+              )}
+
+              {isColumnVisible("dueDate") && (
+                <TableCell
+                  className="cursor-pointer"
+                  onClick={() => handleStartEdit(task.id, "dueDate", task.dueDate || "")}
+                >
+                  {isEditing(task.id, "dueDate") ? (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="date"
+                        value={editValues.dueDate}
+                        onChange={(e) => setEditValues((prev) => ({ ...prev, dueDate: e.target.value }))}
+                        className="h-8"
+                        autoFocus
                         disabled={isSubmitting}
-                      >
-                        <X className="h-4 w-4" />
-                      </Button>
+                      />
+                      <div className="flex items-center">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          onClick={() => handleSaveEdit(task)}
+                          disabled={isSubmitting}
+                        >
+                          <CheckIcon className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          onClick={handleCancelEdit}
+                          disabled={isSubmitting}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                ) : (
-                  renderValue(task, "dueDate")
-                )}
-              </TableCell>
+                  ) : (
+                    renderValue(task, "dueDate")
+                  )}
+                </TableCell>
+              )}
 
-              <TableCell>{renderTagsCell(task)}</TableCell>
+              {isColumnVisible("tags") && <TableCell>{renderTagsCell(task)}</TableCell>}
               {/* Add custom field cells */}
-              {customFields.map((field) => (
+              {visibleCustomFields.map((field) => (
                 <TableCell
                   key={field.id}
                   className="cursor-pointer hover:bg-muted/50"
@@ -0,0 +1,419 @@
+"use client"
+
+import type React from "react"
+import { useMemo, useState } from "react"
+import { addDays, differenceInCalendarDays, format, isToday, isWeekend, parseISO, startOfWeek } from "date-fns"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import { getStatusColor } from "@/lib/workflow"
+import type { Task, WorkflowStatus } from "@/lib/types"
+
+type TimelineGroupBy = "status" | "assignee"
+type DragMode = "move" | "start" | "end"
+
+// 只包含修改了的日期，null 表示清除
+export type TaskDateChanges = { startDate?: string | null; dueDate?: string | null }
+
+const DAY_WIDTH = 32
+const ROW_HEIGHT = 36
+const LABEL_WIDTH = 240
+const WINDOW_DAYS = 42
+// 前后翻页时移动的天数
+const PAGE_DAYS = 14
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const
+
+interface TaskTimelineProps {
+  tasks: Task[]
+  statuses: WorkflowStatus[]
+  onChangeDates: (task: Task, changes: TaskDateChanges) => void
+  onEditTask: (task: Task) => void
+}
+
+type TimelineRow = { type: "group"; key: string; label: string; color?: string } | { type: "task"; task: Task }
+
+type DragState = { task: Task; mode: DragMode; originX: number; delta: number }
+
+// 日期的日期部分，旧数据可能保存了完整时间
+const toDayKey = (date?: string | null) => (date ? date.slice(0, 10) : null)
+const shiftDay = (day: string, days: number) => format(addDays(parseISO(day), days), "yyyy-MM-dd")
+
+// 任务在时间线上的起止日期：只有一个日期时显示为一天
+function getTaskSpan(task: Task) {
+  const start = toDayKey(task.startDate) || toDayKey(task.dueDate)
+  const end = toDayKey(task.dueDate) || start
+  return start && end ? { start, end } : null
+}
+
+// 拖动后的新日期，只返回实际改变的字段；只有截止日期的任务整体移动时仍然只修改截止日期
+function getDateChanges(task: Task, mode: DragMode, delta: number): TaskDateChanges {
+  const span = getTaskSpan(task)
+  if (!span || delta === 0) return {}
+
+  if (mode === "move") {
+    const changes: TaskDateChanges = {}
+    if (task.startDate) changes.startDate = shiftDay(span.start, delta)
+    if (task.dueDate) changes.dueDate = shiftDay(span.end, delta)
+    return changes
+  }
+
+  if (mode === "start") {
+    const startDate = shiftDay(span.start, delta)
+    return { startDate: startDate > span.end ? span.end : startDate }
+  }
+
+  const dueDate = shiftDay(span.end, delta)
+  return { dueDate: dueDate < span.start ? span.start : dueDate }
+}
+
+// 时间线（甘特图）视图：任务按开始和截止日期显示为横条，拖动横条整体改期，拖动两端修改开始或截止日期；
+// 箭头从前置任务指向被它阻塞的任务
+export function TaskTimeline({ tasks, statuses, onChangeDates, onEditTask }: TaskTimelineProps) {
+  const [groupBy, setGroupBy] = useState<TimelineGroupBy>("status")
+  const [windowStart, setWindowStart] = useState(() => startOfWeek(addDays(new Date(), -7), WEEK_OPTIONS))
+  const [drag, setDrag] = useState<DragState | null>(null)
+
+  const days = useMemo(
+    () => Array.from({ length: WINDOW_DAYS }, (_, index) => addDays(windowStart, index)),
+    [windowStart],
+  )
+
+  const rows = useMemo(() => {
+    const groups = new Map<string, { label: string; color?: string; tasks: Task[] }>()
+
+    if (groupBy === "status") {
+      statuses.forEach((status) =>
+        groups.set(status.key, { label: status.name, color: getStatusColor(statuses, status.key), tasks: [] }),
+      )
+    }
+
+    tasks.forEach((task) => {
+      const key = groupBy === "status" ? task.status : task.assignee?.id || task.assignee?.name || ""
+      if (!groups.has(key)) {
+        const label = groupBy === "status" ? key : task.assignee?.name || "Unassigned"
+        groups.set(key, { label, tasks: [] })
+      }
+      groups.get(key)!.tasks.push(task)
+    })
+
+    // 按负责人分组时按姓名排序，未分配的放在最后
+    const entries = [...groups.entries()].filter(([, group]) => group.tasks.length > 0)
+    if (groupBy === "assignee") {
+      entries.sort(([a, groupA], [b, groupB]) =>
+        a === "" ? 1 : b === "" ? -1 : groupA.label.localeCompare(groupB.label),
+      )
+    }
+
+    const result: TimelineRow[] = []
+    entries.forEach(([key, group]) => {
+      result.push({ type: "group", key, label: group.label, color: group.color })
+      // 组内按开始日期排列，没有日期的任务放在最后
+      const sorted = [...group.tasks].sort((a, b) => {
+        const spanA = getTaskSpan(a)
+        const spanB = getTaskSpan(b)
+        if (!spanA || !spanB) return spanA ? -1 : spanB ? 1 : 0
+        return spanA.start.localeCompare(spanB.start)
+      })
+      sorted.forEach((task) => result.push({ type: "task", task }))
+    })
+    return result
+  }, [tasks, statuses, groupBy])
+
+  // 拖动中的任务使用预览的日期
+  const getDisplaySpan = (task: Task) => {
+    if (drag?.task.id !== task.id) return getTaskSpan(task)
+    const changes = getDateChanges(task, drag.mode, drag.delta)
+    return getTaskSpan({ ...task, ...changes } as Task)
+  }
+
+  const getBarPosition = (span: { start: string; end: string }) => {
+    const offset = differenceInCalendarDays(parseISO(span.start), windowStart)
+    const length = differenceInCalendarDays(parseISO(span.end), parseISO(span.start)) + 1
+    return { left: offset * DAY_WIDTH, width: length * DAY_WIDTH }
+  }
+
+  // 依赖箭头：前置任务横条的末端指向被阻塞任务横条的开头，两个任务都要有日期且在当前列表中
+  const dependencyLinks = useMemo(() => {
+    const rowIndex = new Map<string, number>()
+    rows.forEach((row, index) => row.type === "task" && rowIndex.set(row.task.id, index))
+
+    return rows.flatMap((row, index) => {
+      if (row.type !== "task") return []
+      return (row.task.blockedBy || []).flatMap((blockerId) => {
+        const blockerIndex = rowIndex.get(blockerId)
+        if (blockerIndex === undefined) return []
+        const blocker = rows[blockerIndex] as Extract<TimelineRow, { type: "task" }>
+        return [
+          {
+            id: `${blockerId}-${row.task.id}`,
+            from: blocker.task,
+            fromIndex: blockerIndex,
+            to: row.task,
+            toIndex: index,
+          },
+        ]
+      })
+    })
+  }, [rows])
+
+  const handlePointerDown = (e: React.PointerEvent, task: Task, mode: DragMode) => {
+    if (e.button !== 0) return
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDrag({ task, mode, originX: e.clientX, delta: 0 })
+  }
+
+  // 两端的拖动手柄在横条内部，事件不再冒泡到横条，避免重复处理
+  const handlePointerMove = (e: React.PointerEvent) => {
+    e.stopPropagation()
+    if (!drag) return
+    const delta = Math.round((e.clientX - drag.originX) / DAY_WIDTH)
+    if (delta !== drag.delta) setDrag({ ...drag, delta })
+  }
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    e.stopPropagation()
+    if (!drag) return
+    const { task, mode, delta } = drag
+    setDrag(null)
+
+    // 没有拖动时当作点击，打开编辑
+    if (delta === 0) {
+      if (mode === "move") onEditTask(task)
+      return
+    }
+
+    const changes = getDateChanges(task, mode, delta)
+    const changed = (Object.keys(changes) as (keyof TaskDateChanges)[]).some(
+      (field) => changes[field] !== toDayKey(task[field]),
+    )
+    if (changed) onChangeDates(task, changes)
+  }
+
+  const todayOffset = differenceInCalendarDays(new Date(), windowStart)
+  const timelineWidth = WINDOW_DAYS * DAY_WIDTH
+  const gridBackground = {
+    backgroundImage: "linear-gradient(to right, hsl(var(--border)) 1px, transparent 1px)",
+    backgroundSize: `${DAY_WIDTH}px 100%`,
+  }
+
+  return (
+    <div>
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setWindowStart((date) => addDays(date, -PAGE_DAYS))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setWindowStart(startOfWeek(addDays(new Date(), -7), WEEK_OPTIONS))}
+          >
+            Today
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setWindowStart((date) => addDays(date, PAGE_DAYS))}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h3 className="ml-2 text-lg font-medium">
+            {format(days[0], "MMM d")} – {format(days[days.length - 1], "MMM d, yyyy")}
+          </h3>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Group by</span>
+          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as TimelineGroupBy)}>
+            <SelectTrigger className="h-8 w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="status">Status</SelectItem>
+              <SelectItem value="assignee">Assignee</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-md border">
+        <div className="relative" style={{ width: LABEL_WIDTH + timelineWidth }}>
+          <div className="flex border-b bg-muted/50 text-xs" style={{ height: ROW_HEIGHT }}>
+            <div
+              className="sticky left-0 z-20 flex shrink-0 items-center border-r bg-muted px-3 font-medium"
+              style={{ width: LABEL_WIDTH }}
+            >
+              Task
+            </div>
+            {days.map((day) => (
+              <div
+                key={day.toISOString()}
+                className={cn(
+                  "flex shrink-0 flex-col items-center justify-center border-r leading-tight",
+                  isWeekend(day) && "text-muted-foreground",
+                  isToday(day) && "font-semibold text-primary",
+                )}
+                style={{ width: DAY_WIDTH }}
+              >
+                <span>{format(day, "EEEEE")}</span>
+                <span>{format(day, "d")}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="relative">
+            {rows.map((row) => {
+              if (row.type === "group") {
+                return (
+                  <div key={`group-${row.key}`} className="flex border-b bg-muted/30" style={{ height: ROW_HEIGHT }}>
+                    <div
+                      className="sticky left-0 z-20 flex shrink-0 items-center gap-2 border-r bg-muted px-3 text-sm font-medium"
+                      style={{ width: LABEL_WIDTH }}
+                    >
+                      {row.color && <span className="h-2 w-2 rounded-full" style={{ backgroundColor: row.color }} />}
+                      <span className="truncate">{row.label}</span>
+                    </div>
+                    <div style={{ width: timelineWidth, ...gridBackground }} />
+                  </div>
+                )
+              }
+
+              const { task } = row
+              const span = getDisplaySpan(task)
+              const position = span ? getBarPosition(span) : null
+              const isDragging = drag?.task.id === task.id
+
+              return (
+                <div key={task.id} className="flex border-b" style={{ height: ROW_HEIGHT }}>
+                  <button
+                    type="button"
+                    onClick={() => onEditTask(task)}
+                    className="sticky left-0 z-20 shrink-0 truncate border-r bg-background px-3 text-left text-sm hover:bg-muted"
+                    style={{ width: LABEL_WIDTH }}
+                    title={task.title}
+                  >
+                    {task.title}
+                  </button>
+                  <div className="relative overflow-hidden" style={{ width: timelineWidth, ...gridBackground }}>
+                    {span && position ? (
+                      <div
+                        onPointerDown={(e) => handlePointerDown(e, task, "move")}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={() => setDrag(null)}
+                        title={`${task.title}: ${span.start === span.end ? span.start : `${span.start} – ${span.end}`}`}
+                        className={cn(
+                          "group absolute top-1.5 flex h-6 cursor-grab touch-none select-none items-center rounded px-2 text-xs text-white shadow-sm",
+                          isDragging && "cursor-grabbing opacity-80 ring-2 ring-primary",
+                        )}
+                        style={{
+                          left: position.left,
+                          width: position.width,
+                          backgroundColor: getStatusColor(statuses, task.status),
+                        }}
+                      >
+                        <span
+                          onPointerDown={(e) => handlePointerDown(e, task, "start")}
+                          onPointerMove={handlePointerMove}
+                          onPointerUp={handlePointerUp}
+                          className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize rounded-l opacity-0 group-hover:bg-black/20 group-hover:opacity-100"
+                        />
+                        <span className="truncate">{task.title}</span>
+                        <span
+                          onPointerDown={(e) => handlePointerDown(e, task, "end")}
+                          onPointerMove={handlePointerMove}
+                          onPointerUp={handlePointerUp}
+                          className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize rounded-r opacity-0 group-hover:bg-black/20 group-hover:opacity-100"
+                        />
+                      </div>
+                    ) : (
+                      <span className="absolute inset-y-0 left-3 flex items-center text-xs text-muted-foreground">
+                        No dates
+                      </span>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+
+            {rows.length === 0 && (
+              <div className="p-6 text-center text-sm text-muted-foreground">No tasks match the current filters.</div>
+            )}
+
+            <svg
+              className="pointer-events-none absolute top-0 z-10 overflow-visible"
+              style={{ left: LABEL_WIDTH, width: timelineWidth, height: rows.length * ROW_HEIGHT }}
+            >
+              <defs>
+                <marker
+                  id="timeline-arrow"
+                  viewBox="0 0 8 8"
+                  refX="7"
+                  refY="4"
+                  markerWidth="6"
+                  markerHeight="6"
+                  orient="auto"
+                >
+                  <path d="M0,0 L8,4 L0,8 z" className="fill-muted-foreground" />
+                </marker>
+                <marker
+                  id="timeline-arrow-late"
+                  viewBox="0 0 8 8"
+                  refX="7"
+                  refY="4"
+                  markerWidth="6"
+                  markerHeight="6"
+                  orient="auto"
+                >
+                  <path d="M0,0 L8,4 L0,8 z" className="fill-red-500" />
+                </marker>
+              </defs>
+              {dependencyLinks.map((link) => {
+                const fromSpan = getDisplaySpan(link.from)
+                const toSpan = getDisplaySpan(link.to)
+                if (!fromSpan || !toSpan) return null
+
+                const from = getBarPosition(fromSpan)
+                const to = getBarPosition(toSpan)
+                const x1 = from.left + from.width
+                const y1 = link.fromIndex * ROW_HEIGHT + ROW_HEIGHT / 2
+                const x2 = to.left
+                const y2 = link.toIndex * ROW_HEIGHT + ROW_HEIGHT / 2
+                // 前置任务在被阻塞任务开始之后才结束时标红
+                const isLate = fromSpan.end >= toSpan.start
+
+                return (
+                  <path
+                    key={link.id}
+                    d={`M ${x1} ${y1} C ${x1 + 16} ${y1}, ${x2 - 16} ${y2}, ${x2} ${y2}`}
+                    fill="none"
+                    strokeWidth={1.5}
+                    className={isLate ? "stroke-red-500" : "stroke-muted-foreground"}
+                    markerEnd={`url(#${isLate ? "timeline-arrow-late" : "timeline-arrow"})`}
+                  />
+                )
+              })}
+            </svg>
+
+            {todayOffset >= 0 && todayOffset < WINDOW_DAYS && (
+              <div
+                className="pointer-events-none absolute inset-y-0 z-10 w-0.5 bg-primary"
+                style={{ left: LABEL_WIDTH + todayOffset * DAY_WIDTH + DAY_WIDTH / 2 }}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+      <p className="mt-2 text-xs text-muted-foreground">
+        Drag a bar to move a task, or drag its edges to change the start or due date.
+      </p>
+    </div>
+  )
+}
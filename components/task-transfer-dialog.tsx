@@ -0,0 +1,196 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { AlertTriangleIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import type { Project, TaskBatchResult, UnmappedFieldValue } from "@/lib/types"
+
+type TransferMode = "move" | "copy"
+
+interface TaskTransferDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  projectId: string // 任务当前所在的项目
+  taskIds: string[]
+  onTransferred: (result: TaskBatchResult, mode: TransferMode, targetProjectId: string) => void
+}
+
+const formatValue = (value: UnmappedFieldValue["value"]) => (Array.isArray(value) ? value.join(", ") : String(value))
+
+// 把任务（连同子任务）移动或复制到其他项目；有自定义字段值无法映射到目标项目时，完成后在对话框中列出
+export function TaskTransferDialog({ open, onOpenChange, projectId, taskIds, onTransferred }: TaskTransferDialogProps) {
+  const { toast } = useToast()
+  const [mode, setMode] = useState<TransferMode>("move")
+  const [targetProjectId, setTargetProjectId] = useState("")
+  const [projects, setProjects] = useState<Project[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [unmapped, setUnmapped] = useState<UnmappedFieldValue[] | null>(null)
+  const [completed, setCompleted] = useState<{ result: TaskBatchResult; mode: TransferMode; target: string } | null>(
+    null,
+  )
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+
+    setMode("move")
+    setTargetProjectId("")
+    setUnmapped(null)
+    setCompleted(null)
+
+    fetch("/api/projects")
+      .then((response) => (response.ok ? response.json() : []))
+      .then((data: Project[]) => {
+        if (!cancelled) setProjects(data)
+      })
+      .catch((error) => console.error("Error loading projects:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [open])
+
+  // 只能复制到任务所在的项目，不能移动到那里
+  const targetProjects = mode === "move" ? projects.filter((project) => project.id !== projectId) : projects
+
+  const finish = () => {
+    if (completed) onTransferred(completed.result, completed.mode, completed.target)
+    onOpenChange(false)
+  }
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/tasks/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: mode, taskIds, projectId: targetProjectId }),
+      })
+      const data = await response.json().catch(() => null)
+
+      if (!response.ok) {
+        throw new Error(data?.error || "Request failed")
+      }
+
+      const result = data as TaskBatchResult
+      toast({
+        title: mode === "move" ? "任务已移动" : "任务已复制",
+        description: `${result.tasks.length} 个任务（包括子任务）`,
+      })
+
+      if (result.unmapped && result.unmapped.length > 0) {
+        // 先列出丢弃的值，关闭对话框时再通知调用方
+        setUnmapped(result.unmapped)
+        setCompleted({ result, mode, target: targetProjectId })
+      } else {
+        onTransferred(result, mode, targetProjectId)
+        onOpenChange(false)
+      }
+    } catch (error) {
+      toast({
+        title: mode === "move" ? "移动失败" : "复制失败",
+        description: error instanceof Error ? error.message : "没有任务被修改",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSubmitting && (next ? onOpenChange(true) : finish())}>
+      <DialogContent className="sm:max-w-[480px]">
+        {unmapped ? (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <AlertTriangleIcon className="h-5 w-5 text-yellow-500" />
+                Some field values were not kept
+              </DialogTitle>
+              <DialogDescription>
+                The target project has no field with the same name and type, or no matching option, for these values.
+              </DialogDescription>
+            </DialogHeader>
+            <ul className="max-h-[300px] space-y-2 overflow-y-auto text-sm">
+              {unmapped.map((item, index) => (
+                <li key={`${item.taskId}-${item.field}-${index}`} className="rounded-md border p-2">
+                  <div className="font-medium">{item.taskTitle}</div>
+                  <div className="text-muted-foreground">
+                    {item.field}: {formatValue(item.value)} — {item.reason}
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <DialogFooter>
+              <Button onClick={finish}>Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>Move or copy {taskIds.length === 1 ? "task" : `${taskIds.length} tasks`}</DialogTitle>
+              <DialogDescription>
+                Subtasks are included. Custom field values are matched to fields with the same name and type; statuses
+                missing from the target project are reset and assignees who are not members there are unassigned.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Action</Label>
+                <Select
+                  value={mode}
+                  onValueChange={(value) => {
+                    setMode(value as TransferMode)
+                    if (value === "move" && targetProjectId === projectId) setTargetProjectId("")
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="move">Move</SelectItem>
+                    <SelectItem value="copy">Copy</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Project</Label>
+                <Select value={targetProjectId} onValueChange={setTargetProjectId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={targetProjects.length > 0 ? "Select a project" : "No other projects"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {targetProjects.map((project) => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.id === projectId ? `${project.title} (this project)` : project.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={isSubmitting || !targetProjectId}>
+                {isSubmitting ? "Working..." : mode === "move" ? "Move" : "Copy"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,54 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { GlobalSearch } from "@/components/global-search"
+import type { User } from "@/lib/types"
+
+// 顶部导航中的当前用户，未登录时显示登录入口
+export function UserNav() {
+  const router = useRouter()
+  const [user, setUser] = useState<User | null>(null)
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setUser)
+      .catch(() => setUser(null))
+      .finally(() => setIsLoaded(true))
+  }, [])
+
+  const handleSignOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" })
+    setUser(null)
+    router.push("/login")
+    router.refresh()
+  }
+
+  if (!isLoaded) return null
+
+  if (!user) {
+    return (
+      <Link href="/login" className="text-sm font-medium">
+        Sign in
+      </Link>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <GlobalSearch />
+      <Avatar className="h-7 w-7">
+        <AvatarFallback className="text-xs">{user.initials}</AvatarFallback>
+      </Avatar>
+      <span className="text-sm hidden sm:inline">{user.name}</span>
+      <Button variant="ghost" size="sm" onClick={handleSignOut}>
+        Sign out
+      </Button>
+    </div>
+  )
+}
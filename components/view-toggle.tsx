@@ -1,14 +1,13 @@
 "use client"
 
-import { LayoutGrid, Table2 } from "lucide-react"
+import { CalendarDays, GanttChart, LayoutGrid, Table2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
-
-type ViewMode = "board" | "table"
+import type { TaskViewMode } from "@/lib/types"
 
 interface ViewToggleProps {
-  currentView: ViewMode
-  onViewChange: (view: ViewMode) => void
+  currentView: TaskViewMode
+  onViewChange: (view: TaskViewMode) => void
 }
 
 export function ViewToggle({ currentView, onViewChange }: ViewToggleProps) {
@@ -31,13 +30,37 @@ export function ViewToggle({ currentView, onViewChange }: ViewToggleProps) {
         size="sm"
         onClick={() => onViewChange("table")}
         className={cn(
-          "rounded-none rounded-r-md px-3 gap-2 border-l",
+          "rounded-none px-3 gap-2 border-l",
           currentView === "table" ? "bg-muted" : "hover:bg-transparent",
         )}
       >
         <Table2 className="h-4 w-4" />
         Table
       </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onViewChange("calendar")}
+        className={cn(
+          "rounded-none px-3 gap-2 border-l",
+          currentView === "calendar" ? "bg-muted" : "hover:bg-transparent",
+        )}
+      >
+        <CalendarDays className="h-4 w-4" />
+        Calendar
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onViewChange("timeline")}
+        className={cn(
+          "rounded-none rounded-r-md px-3 gap-2 border-l",
+          currentView === "timeline" ? "bg-muted" : "hover:bg-transparent",
+        )}
+      >
+        <GanttChart className="h-4 w-4" />
+        Timeline
+      </Button>
     </div>
   )
 }
@@ -0,0 +1,356 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon, Trash2Icon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/hooks/use-toast"
+import type { WorkflowStatus, WorkflowStatusCategory } from "@/lib/types"
+import { STATUS_CATEGORIES, STATUS_COLORS } from "@/lib/workflow"
+
+interface WorkflowSettingsProps {
+  projectId: string
+}
+
+// 编辑中的状态，新添加的状态使用临时 key，以便在流转规则中引用
+type DraftStatus = {
+  id: string
+  key: string
+  name: string
+  color: string
+  category: WorkflowStatusCategory
+  wipLimit: number | null
+  allowedTransitions: string[] | null
+}
+
+export function WorkflowSettings({ projectId }: WorkflowSettingsProps) {
+  const [statuses, setStatuses] = useState<DraftStatus[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const toDrafts = (items: WorkflowStatus[]): DraftStatus[] =>
+    items.map((status) => ({
+      id: status.id,
+      key: status.key,
+      name: status.name,
+      color: status.color,
+      category: status.category,
+      wipLimit: status.wipLimit ?? null,
+      allowedTransitions: status.allowedTransitions ?? null,
+    }))
+
+  useEffect(() => {
+    const fetchStatuses = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/statuses`)
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch statuses")
+        }
+
+        setStatuses(toDrafts(await response.json()))
+      } catch (err) {
+        console.error("Error fetching statuses:", err)
+        setError("加载工作流状态失败")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchStatuses()
+  }, [projectId])
+
+  const updateStatus = (index: number, changes: Partial<DraftStatus>) => {
+    setStatuses((prev) => prev.map((status, i) => (i === index ? { ...status, ...changes } : status)))
+  }
+
+  const moveStatus = (index: number, offset: number) => {
+    setStatuses((prev) => {
+      const target = index + offset
+      if (target < 0 || target >= prev.length) return prev
+
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const handleAddStatus = () => {
+    const suffix = Date.now().toString(36)
+    setStatuses((prev) => [
+      ...prev,
+      {
+        id: `new-${suffix}`,
+        key: `status-${suffix}`,
+        name: "",
+        color: STATUS_COLORS[1],
+        category: "active",
+        wipLimit: null,
+        allowedTransitions: null,
+      },
+    ])
+  }
+
+  const handleRemoveStatus = (index: number) => {
+    setStatuses((prev) => {
+      const removedKey = prev[index].key
+      // 同时从其他状态的流转规则中移除
+      return prev
+        .filter((_, i) => i !== index)
+        .map((status) => ({
+          ...status,
+          allowedTransitions: status.allowedTransitions?.filter((key) => key !== removedKey) ?? null,
+        }))
+    })
+  }
+
+  const toggleTransition = (index: number, targetKey: string, checked: boolean) => {
+    const status = statuses[index]
+    // 未设置规则时视为允许流转到所有其他状态
+    const current = status.allowedTransitions ?? statuses.filter((s) => s.key !== status.key).map((s) => s.key)
+    const next = checked ? [...current, targetKey] : current.filter((key) => key !== targetKey)
+    updateStatus(index, { allowedTransitions: next })
+  }
+
+  const getTransitionLabel = (status: DraftStatus) => {
+    if (!status.allowedTransitions) return "任意状态"
+    if (status.allowedTransitions.length === 0) return "不允许流转"
+    return `${status.allowedTransitions.length} 个状态`
+  }
+
+  const handleSave = async () => {
+    if (statuses.length === 0) {
+      setError("至少需要一个状态")
+      return
+    }
+
+    if (statuses.some((status) => !status.name.trim())) {
+      setError("状态名称不能为空")
+      return
+    }
+
+    setIsSaving(true)
+    setError("")
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/statuses`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          statuses: statuses.map(({ key, name, color, category, wipLimit, allowedTransitions }) => ({
+            key,
+            name,
+            color,
+            category,
+            wipLimit,
+            allowedTransitions,
+          })),
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to update statuses")
+      }
+
+      setStatuses(toDrafts(await response.json()))
+
+      toast({
+        title: "工作流已更新",
+        description: "项目的工作流状态已成功保存",
+      })
+    } catch (err) {
+      console.error("Error updating statuses:", err)
+      setError(err instanceof Error ? err.message : "保存工作流失败，请重试")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>工作流</CardTitle>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleAddStatus} disabled={isLoading}>
+            <PlusIcon className="h-4 w-4 mr-2" />
+            添加状态
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading || isSaving}>
+            {isSaving ? "保存中..." : "保存"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-muted-foreground mb-6">
+          按顺序定义任务看板的列。可以为每个状态设置 WIP
+          上限和允许流转到的状态。仍有任务使用的状态不能删除，请先把任务移动到其他状态。
+        </p>
+
+        {error && <div className="rounded-md bg-red-50 p-4 text-sm text-red-500 mb-4">{error}</div>}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[100px]">顺序</TableHead>
+                <TableHead>状态名称</TableHead>
+                <TableHead className="w-[140px]">颜色</TableHead>
+                <TableHead className="w-[160px]">类别</TableHead>
+                <TableHead className="w-[110px]">WIP 上限</TableHead>
+                <TableHead className="w-[150px]">允许流转到</TableHead>
+                <TableHead className="text-right">操作</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statuses.map((status, index) => (
+                <TableRow key={status.id}>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => moveStatus(index, -1)}
+                        disabled={index === 0}
+                      >
+                        <ArrowUpIcon className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => moveStatus(index, 1)}
+                        disabled={index === statuses.length - 1}
+                      >
+                        <ArrowDownIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={status.name}
+                      onChange={(e) => updateStatus(index, { name: e.target.value })}
+                      placeholder="输入状态名称"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select value={status.color} onValueChange={(color) => updateStatus(index, { color })}>
+                      <SelectTrigger>
+                        <SelectValue>
+                          <span className="flex items-center gap-2">
+                            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: status.color }} />
+                            {status.color}
+                          </span>
+                        </SelectValue>
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STATUS_COLORS.map((color) => (
+                          <SelectItem key={color} value={color}>
+                            <span className="flex items-center gap-2">
+                              <span className="h-3 w-3 rounded-full" style={{ backgroundColor: color }} />
+                              {color}
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={status.category}
+                      onValueChange={(category) =>
+                        updateStatus(index, { category: category as WorkflowStatusCategory })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STATUS_CATEGORIES.map((category) => (
+                          <SelectItem key={category.value} value={category.value}>
+                            {category.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={status.wipLimit ?? ""}
+                      onChange={(e) =>
+                        updateStatus(index, {
+                          wipLimit: e.target.value ? Math.max(1, Math.floor(Number(e.target.value))) : null,
+                        })
+                      }
+                      placeholder="不限"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <Button variant="outline" size="sm" className="w-full justify-start font-normal">
+                          {getTransitionLabel(status)}
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-56 p-3" align="start">
+                        <div className="space-y-2">
+                          {statuses
+                            .filter((target) => target.key !== status.key)
+                            .map((target) => (
+                              <label key={target.key} className="flex items-center gap-2 text-sm">
+                                <Checkbox
+                                  checked={!status.allowedTransitions || status.allowedTransitions.includes(target.key)}
+                                  onCheckedChange={(checked) => toggleTransition(index, target.key, checked === true)}
+                                />
+                                {target.name || "未命名状态"}
+                              </label>
+                            ))}
+                          {status.allowedTransitions && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="w-full"
+                              onClick={() => updateStatus(index, { allowedTransitions: null })}
+                            >
+                              允许任意状态
+                            </Button>
+                          )}
+                        </div>
+                      </PopoverContent>
+                    </Popover>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-500 hover:text-red-700"
+                      onClick={() => handleRemoveStatus(index)}
+                      disabled={statuses.length === 1}
+                    >
+                      <Trash2Icon className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,44 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import type { ProjectEvent } from "@/lib/realtime"
+
+/**
+ * 订阅项目的实时事件（/api/projects/[id]/events）。
+ * 断线重连后会以不带事件的方式调用一次 onEvent，调用方应重新拉取数据以补上断线期间的变化。
+ */
+export function useProjectEvents(projectId: string, onEvent: (event?: ProjectEvent) => void) {
+  const onEventRef = useRef(onEvent)
+
+  useEffect(() => {
+    onEventRef.current = onEvent
+  }, [onEvent])
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return
+
+    const source = new EventSource(`/api/projects/${projectId}/events`)
+    let disconnected = false
+
+    source.onmessage = (message) => {
+      try {
+        onEventRef.current(JSON.parse(message.data))
+      } catch (error) {
+        console.error("Error handling project event:", error)
+      }
+    }
+
+    source.onerror = () => {
+      disconnected = true
+    }
+
+    source.onopen = () => {
+      if (disconnected) {
+        disconnected = false
+        onEventRef.current()
+      }
+    }
+
+    return () => source.close()
+  }, [projectId])
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { Task, TaskPage, TaskQuery } from "@/lib/types"
+import { TASK_PAGE_SIZE, toTaskQueryParams } from "@/lib/task-query"
+
+async function fetchTaskPage(projectId: string, query: TaskQuery): Promise<TaskPage> {
+  const params = toTaskQueryParams({ ...query, limit: query.limit || TASK_PAGE_SIZE })
+  params.set("projectId", projectId)
+
+  const response = await fetch(`/api/tasks?${params}`, { cache: "no-store" })
+  if (!response.ok) {
+    const data = await response.json().catch(() => null)
+    throw new Error(data?.error || "Failed to fetch tasks")
+  }
+
+  return response.json()
+}
+
+/**
+ * 分页加载项目任务（GET /api/tasks 的 limit / cursor）。
+ * setQuery 在筛选条件变化时从第一页重新加载；refresh 按已加载的数量重新拉取，用于实时事件后同步数据。
+ * statusCounts 是服务端统计的每个状态的任务总数，每次拉取都会更新
+ */
+export function useTaskPages(
+  projectId: string,
+  initialTasks: Task[],
+  initialNextCursor: string | null = null,
+  initialStatusCounts: Record<string, number> = {},
+) {
+  const [tasks, setTasks] = useState<Task[]>(initialTasks)
+  const [nextCursor, setNextCursor] = useState<string | null>(initialNextCursor)
+  const [statusCounts, setStatusCounts] = useState<Record<string, number>>(initialStatusCounts)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+
+  const tasksRef = useRef(tasks)
+  const queryRef = useRef<TaskQuery>({})
+  // 每次重新加载递增，较早发出的请求返回时直接丢弃
+  const requestRef = useRef(0)
+
+  useEffect(() => {
+    tasksRef.current = tasks
+  }, [tasks])
+
+  useEffect(() => {
+    queryRef.current = {}
+    requestRef.current++
+    setNextCursor(initialNextCursor)
+    setStatusCounts(initialStatusCounts)
+  }, [initialTasks, initialNextCursor, initialStatusCounts])
+
+  // 从第一页开始加载，直到至少 count 个任务或没有更多任务
+  const reload = useCallback(
+    async (count: number) => {
+      const request = ++requestRef.current
+      const query = queryRef.current
+      const loaded: Task[] = []
+      let cursor: string | null = null
+      let counts: Record<string, number> = {}
+
+      try {
+        do {
+          const page: TaskPage = await fetchTaskPage(projectId, { ...query, cursor: cursor || undefined })
+          loaded.push(...page.tasks)
+          cursor = page.nextCursor
+          counts = page.statusCounts
+        } while (cursor && loaded.length < count)
+      } catch (err) {
+        console.error("Error loading tasks:", err)
+        return
+      }
+
+      if (request !== requestRef.current) return
+      setTasks(loaded)
+      setNextCursor(cursor)
+      setStatusCounts(counts)
+    },
+    [projectId],
+  )
+
+  const setQuery = useCallback(
+    (query: TaskQuery) => {
+      if (JSON.stringify(query) === JSON.stringify(queryRef.current)) return
+      queryRef.current = query
+      reload(TASK_PAGE_SIZE)
+    },
+    [reload],
+  )
+
+  const refresh = useCallback(() => reload(Math.max(tasksRef.current.length, TASK_PAGE_SIZE)), [reload])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return
+
+    const request = requestRef.current
+    setIsLoadingMore(true)
+    try {
+      const page = await fetchTaskPage(projectId, { ...queryRef.current, cursor: nextCursor })
+      if (request !== requestRef.current) return
+
+      // 本地新建的任务可能已经在列表末尾，按 ID 去重
+      setTasks((prev) => {
+        const loadedIds = new Set(prev.map((task) => task.id))
+        return [...prev, ...page.tasks.filter((task) => !loadedIds.has(task.id))]
+      })
+      setNextCursor(page.nextCursor)
+      setStatusCounts(page.statusCounts)
+    } catch (err) {
+      console.error("Error loading more tasks:", err)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }, [projectId, nextCursor, isLoadingMore])
+
+  return { tasks, setTasks, statusCounts, hasMore: !!nextCursor, isLoadingMore, loadMore, setQuery, refresh }
+}
@@ -0,0 +1,279 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { User } from "../types"
+
+type DataModule = typeof import("../data")
+
+let data: DataModule
+let owner: User
+
+// 每个测试使用新的内存存储和新的 data.ts（其中的缓存是模块级的）
+beforeEach(async () => {
+  vi.resetModules()
+  delete (globalThis as { __localRepositoryTables?: unknown }).__localRepositoryTables
+  vi.spyOn(console, "error").mockImplementation(() => {})
+
+  data = await import("../data")
+  owner = await data.registerUser({ name: "Ana Lima", email: "ana@example.com", password: "password123" })
+})
+
+async function createProject(title = "Launch") {
+  return data.addProject({ title, description: "", status: "active" }, owner.id)
+}
+
+async function createTask(projectId: string, values: Record<string, unknown> = {}) {
+  return data.addTask({ projectId, title: "Task", description: "", status: "", priority: "medium", ...values }, owner)
+}
+
+describe("projects and members", () => {
+  it("makes the creator the project owner", async () => {
+    const project = await createProject()
+
+    expect((await data.getUserProjects(owner.id)).map((item) => item.id)).toEqual([project.id])
+    expect((await data.getProjectMember(project.id, owner.id))?.role).toBe("owner")
+  })
+
+  it("keeps at least one owner", async () => {
+    const project = await createProject()
+    const member = await data.getProjectMember(project.id, owner.id)
+
+    await expect(data.updateProjectMemberRole(project.id, member!.id, "editor")).rejects.toThrow(/owner/)
+  })
+})
+
+describe("tasks", () => {
+  it("saves tags and custom field values with the task", async () => {
+    const project = await createProject()
+    const field = await data.addCustomField({
+      projectId: project.id,
+      name: "Points",
+      type: "number",
+      isRequired: false,
+    })
+    const task = await createTask(project.id, { tags: ["api"], customFields: { [field.id]: 3 } })
+
+    const loaded = await data.getTask(task.id)
+    expect(loaded.status).toBe("todo")
+    expect(loaded.tags).toEqual(["api"])
+    expect(loaded.customFields).toEqual({ [field.id]: 3 })
+  })
+
+  it("records field-level changes", async () => {
+    const project = await createProject()
+    const task = await createTask(project.id)
+    // 变更记录按时间倒序，两条记录不能落在同一毫秒
+    await new Promise((resolve) => setTimeout(resolve, 5))
+
+    await data.updateTask(task.id, { title: "Renamed", priority: "high" }, owner)
+
+    const [latest, created] = await data.getTaskActivity(task.id)
+    expect(created.action).toBe("created")
+    expect(latest.actor).toEqual({ id: owner.id, name: owner.name })
+    expect(latest.changes).toEqual([
+      { field: "title", from: "Task", to: "Renamed" },
+      { field: "priority", from: "medium", to: "high" },
+    ])
+  })
+
+  it("rejects updates against an old version", async () => {
+    const project = await createProject()
+    const task = await createTask(project.id)
+    // 版本精确到毫秒
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await data.updateTask(task.id, { title: "First" }, owner)
+
+    await expect(
+      data.updateTask(task.id, { title: "Second" }, owner, { expectedUpdatedAt: task.updated_at }),
+    ).rejects.toBeInstanceOf(data.ConflictError)
+    expect((await data.getTask(task.id)).title).toBe("First")
+  })
+
+  it("enforces workflow transitions and WIP limits", async () => {
+    const project = await createProject()
+    await data.updateProjectStatuses(project.id, [
+      { key: "todo", name: "To Do", color: "#6b7280", category: "not-started", allowedTransitions: ["doing"] },
+      { key: "doing", name: "Doing", color: "#3b82f6", category: "active", wipLimit: 1 },
+      { key: "done", name: "Done", color: "#000000", category: "done" },
+    ])
+    const first = await createTask(project.id)
+    const second = await createTask(project.id)
+
+    await expect(data.updateTask(first.id, { status: "done" }, owner)).rejects.toThrow(/cannot be moved/)
+    await data.updateTask(first.id, { status: "doing" }, owner)
+    await expect(data.updateTask(second.id, { status: "doing" }, owner)).rejects.toThrow(/WIP limit/)
+  })
+
+  it("deletes subtasks with their parent", async () => {
+    const project = await createProject()
+    const parent = await createTask(project.id)
+    const child = await createTask(project.id, { parentId: parent.id })
+    const grandchild = await createTask(project.id, { parentId: child.id })
+    const other = await createTask(project.id)
+
+    await data.deleteTask(parent.id)
+
+    const remaining = (await data.queryProjectTasks(project.id)).tasks.map((task) => task.id)
+    expect(remaining).toEqual([other.id])
+    expect(remaining).not.toContain(grandchild.id)
+  })
+
+  it("keeps every subtask when deleting a parent fails", async () => {
+    const project = await createProject()
+    const parent = await createTask(project.id)
+    await createTask(project.id, { parentId: parent.id })
+    const { getRepository } = await import("../repository")
+    vi.spyOn(getRepository(), "deleteTasks").mockResolvedValueOnce({ data: null, error: { message: "offline" } })
+
+    await expect(data.deleteTask(parent.id)).rejects.toThrow(/offline/)
+    expect((await data.queryProjectTasks(project.id)).tasks).toHaveLength(2)
+  })
+
+  it("deletes nothing when a batch contains a missing task", async () => {
+    const project = await createProject()
+    const parent = await createTask(project.id)
+    const child = await createTask(project.id, { parentId: parent.id })
+
+    await expect(data.deleteTasks([parent.id, "missing"])).rejects.toThrow()
+    expect((await data.queryProjectTasks(project.id)).tasks).toHaveLength(2)
+
+    expect((await data.deleteTasks([child.id, parent.id])).sort()).toEqual([parent.id, child.id].sort())
+    expect((await data.queryProjectTasks(project.id)).tasks).toEqual([])
+  })
+
+  it("rejects dependency cycles", async () => {
+    const project = await createProject()
+    const a = await createTask(project.id)
+    const b = await createTask(project.id)
+    const c = await createTask(project.id)
+
+    await data.addTaskDependency(a.id, b.id, owner)
+    await data.addTaskDependency(b.id, c.id, owner)
+
+    await expect(data.addTaskDependency(c.id, a.id, owner)).rejects.toThrow(/cycle/)
+    expect((await data.getTask(c.id)).blockedBy).toEqual([b.id])
+  })
+
+  it("moves task counts and activity to the target project", async () => {
+    const source = await createProject("Source")
+    const target = await createProject("Target")
+    const task = await createTask(source.id)
+    expect((await data.getProject(target.id))?.taskCount).toBe(0)
+
+    await data.moveTasks([task.id], target.id, owner)
+
+    expect((await data.getProject(source.id))?.taskCount).toBe(0)
+    expect((await data.getProject(target.id))?.taskCount).toBe(1)
+    const { getRepository } = await import("../repository")
+    const { data: activity } = await getRepository().listActivity(task.id)
+    expect(activity?.map((item) => item.project_id)).toEqual([target.id, target.id])
+  })
+
+  it("generates due occurrences once, and only when asked to", async () => {
+    const project = await createProject()
+    const today = new Date().toISOString().slice(0, 10)
+    const recurrence = { frequency: "daily", interval: 1, weekdays: null, monthDay: null, until: null, count: null }
+    const task = await createTask(project.id, { dueDate: today, recurrence })
+
+    expect((await data.queryProjectTasks(project.id)).tasks).toHaveLength(1)
+
+    const [createdId] = await data.generateDueOccurrences()
+    expect(await data.generateDueOccurrences()).toEqual([])
+    expect((await data.getTask(task.id)).nextOccurrenceId).toBe(createdId)
+    expect((await data.queryProjectTasks(project.id)).tasks).toHaveLength(2)
+  })
+})
+
+describe("queryProjectTasks", () => {
+  it("filters, sorts and pages with a cursor", async () => {
+    const project = await createProject()
+    for (const [title, priority] of [
+      ["b", "high"],
+      ["a", "high"],
+      ["c", "low"],
+      ["d", "high"],
+    ] as const) {
+      await createTask(project.id, { title, priority })
+    }
+
+    const query = {
+      priorities: ["high" as const],
+      sort: { key: "title" as const, direction: "asc" as const },
+      limit: 2,
+    }
+    const first = await data.queryProjectTasks(project.id, query)
+    const second = await data.queryProjectTasks(project.id, { ...query, cursor: first.nextCursor! })
+
+    expect(first.tasks.map((task) => task.title)).toEqual(["a", "b"])
+    expect(second.tasks.map((task) => task.title)).toEqual(["d"])
+    expect(second.nextCursor).toBeNull()
+  })
+
+  it("counts subtasks, blockers and statuses across the whole project", async () => {
+    const project = await createProject()
+    const parent = await createTask(project.id, { title: "Parent" })
+    await createTask(project.id, { title: "Child 1", parentId: parent.id, status: "done" })
+    await createTask(project.id, { title: "Child 2", parentId: parent.id })
+    const blocker = await createTask(project.id, { title: "Blocker" })
+    await data.addTaskDependency(blocker.id, parent.id, owner)
+
+    const page = await data.queryProjectTasks(project.id, { title: "Parent", limit: 1 })
+
+    expect(page.tasks).toHaveLength(1)
+    expect(page.tasks[0].subtaskProgress).toEqual({ done: 1, total: 2 })
+    expect(page.tasks[0].openBlockers).toEqual(["Blocker"])
+    expect(page.statusCounts).toMatchObject({ todo: 3, done: 1 })
+  })
+})
+
+describe("searchWorkspace", () => {
+  it("matches rich text without markup and ranks title matches first", async () => {
+    const project = await createProject("Website")
+    await createTask(project.id, { title: "Polish styles", description: "<p>Fix the <b>login</b> page</p>" })
+    await createTask(project.id, { title: "Login page", description: "" })
+
+    const results = await data.searchWorkspace(owner.id, "login page")
+    expect(results.map((result) => result.title.text)).toEqual(["Login page", "Polish styles"])
+    expect(await data.searchWorkspace(owner.id, "<b>")).toEqual([])
+  })
+})
+
+describe("comments", () => {
+  it("counts comments and replies on the task", async () => {
+    const project = await createProject()
+    const task = await createTask(project.id)
+
+    const comment = await data.addTaskComment(task.id, { author: owner, body: "<p>Looks good</p>" })
+    await data.addTaskComment(task.id, { author: owner, body: "<p>Thanks</p>", parentId: comment.id })
+
+    const [thread] = await data.getTaskComments(task.id)
+    expect(thread.author.id).toBe(owner.id)
+    expect(thread.replies).toHaveLength(1)
+    expect((await data.getTask(task.id)).comments).toBe(2)
+  })
+
+  it("rejects replies to comments on other tasks", async () => {
+    const project = await createProject()
+    const [first, second] = [await createTask(project.id), await createTask(project.id)]
+    const comment = await data.addTaskComment(first.id, { author: owner, body: "<p>Hi</p>" })
+
+    await expect(
+      data.addTaskComment(second.id, { author: owner, body: "<p>Reply</p>", parentId: comment.id }),
+    ).rejects.toBeInstanceOf(data.ValidationError)
+  })
+
+  it("strips scripts and event handlers from comment bodies", async () => {
+    const project = await createProject()
+    const task = await createTask(project.id)
+
+    const comment = await data.addTaskComment(task.id, {
+      author: owner,
+      body: '<p onclick="steal()">Hi<img src=x onerror="steal()"><script>steal()</script></p>',
+    })
+    expect(comment.body).toBe("<p>Hi</p>")
+
+    const updated = await data.updateTaskComment(comment.id, '<a href="javascript:steal()">link</a>')
+    expect(updated.body).toBe("<a>link</a>")
+    await expect(data.updateTaskComment(comment.id, "<script>steal()</script>")).rejects.toBeInstanceOf(
+      data.ValidationError,
+    )
+  })
+})
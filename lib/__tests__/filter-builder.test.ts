@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest"
+import {
+  countFilterConditions,
+  matchesFilterGroup,
+  MAX_FILTER_DEPTH,
+  pruneFilterGroup,
+  validateFilterGroup,
+} from "../filter-builder"
+import type { CustomField, FilterGroup, Task } from "../types"
+
+const customFields: CustomField[] = [
+  { id: "points", projectId: "p1", name: "Points", type: "number" },
+  { id: "areas", projectId: "p1", name: "Areas", type: "select", options: ["api", "ui"], isMulti: true },
+]
+
+const task: Task = {
+  id: "t1",
+  projectId: "p1",
+  title: "Fix login",
+  description: "<p>Users see a <b>blank</b> page</p>",
+  status: "doing",
+  priority: "high",
+  comments: 0,
+  tags: ["bug"],
+  dueDate: "2026-10-20",
+  customFields: { points: 3, areas: ["api"] },
+}
+
+describe("matchesFilterGroup", () => {
+  it("combines conditions with and / or", () => {
+    const group: FilterGroup = {
+      combinator: "and",
+      conditions: [
+        { field: "priority", operator: "any_of", value: ["high"] },
+        {
+          combinator: "or",
+          conditions: [
+            { field: "tags", operator: "any_of", value: ["feature"] },
+            { field: "custom:points", operator: "gte", value: 3 },
+          ],
+        },
+      ],
+    }
+
+    expect(matchesFilterGroup(task, group, customFields)).toBe(true)
+    expect(matchesFilterGroup({ ...task, customFields: { points: 1 } }, group, customFields)).toBe(false)
+  })
+
+  it("matches descriptions as plain text", () => {
+    const contains = (value: string): FilterGroup => ({
+      combinator: "and",
+      conditions: [{ field: "description", operator: "contains", value }],
+    })
+
+    expect(matchesFilterGroup(task, contains("a blank page"), customFields)).toBe(true)
+    expect(matchesFilterGroup(task, contains("<b>"), customFields)).toBe(false)
+  })
+
+  it("compares dates and handles empty values", () => {
+    const between: FilterGroup = {
+      combinator: "and",
+      conditions: [{ field: "dueDate", operator: "between", value: ["2026-10-01", ""] }],
+    }
+    const notEmpty: FilterGroup = {
+      combinator: "and",
+      conditions: [{ field: "startDate", operator: "is_empty", value: null }],
+    }
+
+    expect(matchesFilterGroup(task, between, customFields)).toBe(true)
+    expect(matchesFilterGroup({ ...task, dueDate: undefined }, between, customFields)).toBe(false)
+    expect(matchesFilterGroup(task, notEmpty, customFields)).toBe(true)
+  })
+
+  it("supports all_of and none_of on multi-select fields", () => {
+    const allOf: FilterGroup = {
+      combinator: "and",
+      conditions: [{ field: "custom:areas", operator: "all_of", value: ["api", "ui"] }],
+    }
+    const noneOf: FilterGroup = {
+      combinator: "and",
+      conditions: [{ field: "custom:areas", operator: "none_of", value: ["ui"] }],
+    }
+
+    expect(matchesFilterGroup(task, allOf, customFields)).toBe(false)
+    expect(matchesFilterGroup(task, noneOf, customFields)).toBe(true)
+  })
+})
+
+describe("validateFilterGroup", () => {
+  it("reports unknown fields, bad operators and bad values", () => {
+    const validate = (conditions: FilterGroup["conditions"]) =>
+      validateFilterGroup({ combinator: "and", conditions }, customFields)
+
+    expect(validate([{ field: "custom:gone", operator: "is", value: "x" }])).toBe('Unknown filter field "custom:gone"')
+    expect(validate([{ field: "title", operator: "gt", value: "x" }])).toBe('"gt" cannot be used with title')
+    expect(validate([{ field: "custom:points", operator: "is", value: "many" }])).toBe(
+      '"many" is not a number (custom:points)',
+    )
+    expect(validate([{ field: "dueDate", operator: "is", value: "2026-10-20" }])).toBeNull()
+  })
+
+  it("limits nesting depth", () => {
+    let group: FilterGroup = { combinator: "and", conditions: [] }
+    for (let depth = 0; depth < MAX_FILTER_DEPTH; depth++) {
+      group = { combinator: "and", conditions: [group] }
+    }
+
+    expect(validateFilterGroup(group, customFields)).toMatch(/nested at most/)
+  })
+})
+
+describe("pruneFilterGroup", () => {
+  it("drops incomplete conditions and empty groups", () => {
+    const group: FilterGroup = {
+      combinator: "or",
+      conditions: [
+        { field: "title", operator: "contains", value: "" },
+        { combinator: "and", conditions: [{ field: "tags", operator: "any_of", value: [] }] },
+        { field: "priority", operator: "any_of", value: ["low"] },
+      ],
+    }
+
+    const pruned = pruneFilterGroup(group, customFields)
+    expect(pruned).toEqual({
+      combinator: "or",
+      conditions: [{ field: "priority", operator: "any_of", value: ["low"] }],
+    })
+    expect(countFilterConditions(group)).toBe(3)
+  })
+})
@@ -0,0 +1,32 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { LocalRepository } from "../local-repository"
+
+let directory: string
+
+beforeEach(() => {
+  delete (globalThis as { __localRepositoryTables?: unknown }).__localRepositoryTables
+  vi.spyOn(console, "error").mockImplementation(() => {})
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "local-repository-"))
+})
+
+afterEach(() => {
+  fs.rmSync(directory, { recursive: true, force: true })
+})
+
+describe("LocalRepository", () => {
+  it("keeps a storage file it cannot parse instead of overwriting it", async () => {
+    const filePath = path.join(directory, "storage.json")
+    fs.writeFileSync(filePath, "{ not json")
+    const repository = new LocalRepository(filePath)
+
+    expect((await repository.listProjects()).data).toEqual([])
+    await repository.insertProject({ title: "New", description: "", status: "active" })
+
+    const backup = fs.readdirSync(directory).find((name) => name.startsWith("storage.json.corrupt-"))
+    expect(fs.readFileSync(path.join(directory, backup!), "utf8")).toBe("{ not json")
+    expect(JSON.parse(fs.readFileSync(filePath, "utf8")).projects).toHaveLength(1)
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest"
+import { parseProjectArchive, PROJECT_ARCHIVE_FORMAT, PROJECT_ARCHIVE_VERSION } from "../project-archive"
+
+const archive = (tasks: unknown[]) => ({
+  format: PROJECT_ARCHIVE_FORMAT,
+  version: PROJECT_ARCHIVE_VERSION,
+  exportedAt: "2026-10-19T00:00:00.000Z",
+  project: { title: "Launch" },
+  statuses: [{ key: "todo", name: "To Do", category: "not-started" }],
+  customFields: [],
+  tasks,
+})
+
+describe("parseProjectArchive", () => {
+  it("upgrades version 1 exports", () => {
+    const result = parseProjectArchive({
+      project: { title: "Old project", description: "From the first export", status: "active" },
+      customFields: [{ id: "f1", name: "Size", type: "select", options: ["S", "L"] }],
+      tasks: [
+        { id: "t1", title: "Plan", status: "todo", priority: "high", customFields: { f1: "S" } },
+        { id: "t2", title: "Ship", status: "blocked", assignee: { name: "Ana", initials: "A" } },
+      ],
+      exportDate: "2025-01-01T00:00:00.000Z",
+    })
+
+    expect(result.error).toBeUndefined()
+    const upgraded = result.archive!
+    expect(upgraded.version).toBe(PROJECT_ARCHIVE_VERSION)
+    expect(upgraded.exportedAt).toBe("2025-01-01T00:00:00.000Z")
+    expect(upgraded.statuses.map((status) => status.key)).toEqual(["todo", "in-progress", "review", "done", "blocked"])
+    expect(upgraded.tasks.map((task) => task.order)).toEqual([0, 1])
+    expect(upgraded.tasks[1].assignee).toEqual({ name: "Ana", email: null })
+    expect(upgraded.customFields[0]).toMatchObject({ id: "f1", isRequired: false, isMulti: false })
+  })
+
+  it("applies defaults to the current version", () => {
+    const result = parseProjectArchive(archive([{ id: "t1", title: "Plan", status: "todo" }]))
+
+    expect(result.archive?.project).toEqual({ title: "Launch", description: "", status: "planning" })
+    expect(result.archive?.tasks[0]).toMatchObject({ priority: "medium", tags: [], recurrence: null })
+  })
+
+  it("rejects newer versions and other files", () => {
+    expect(parseProjectArchive({ ...archive([]), version: PROJECT_ARCHIVE_VERSION + 1 }).error).toMatch(/is newer/)
+    expect(parseProjectArchive({ format: "something-else" }).error).toBe("The file is not a project archive")
+    expect(parseProjectArchive([]).error).toBe("The archive must be a JSON object")
+  })
+
+  it("checks references inside the archive", () => {
+    const unknownStatus = parseProjectArchive(archive([{ id: "t1", title: "Plan", status: "doing" }]))
+    expect(unknownStatus.error).toBe('Invalid archive at tasks.0.status: Unknown status "doing"')
+
+    const cycle = parseProjectArchive(
+      archive([
+        { id: "a", title: "A", status: "todo", blockedBy: ["b"] },
+        { id: "b", title: "B", status: "todo", blockedBy: ["a"] },
+      ]),
+    )
+    expect(cycle.error).toBe("Invalid archive at tasks: Task dependencies form a cycle")
+
+    const missingParent = parseProjectArchive(archive([{ id: "a", title: "A", status: "todo", parentId: "x" }]))
+    expect(missingParent.error).toBe('Invalid archive at tasks.0: Unknown task "x"')
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+import { sanitizeRichText } from "../rich-text"
+
+describe("sanitizeRichText", () => {
+  it("keeps the formatting the editor produces", () => {
+    const html =
+      '<p style="text-align: center;"><b>Bold</b> <i>it</i> <u>u</u><br></p><ul><li>one</li></ul>' +
+      '<a href="https://example.com">site</a>'
+
+    expect(sanitizeRichText(html)).toBe(
+      '<p style="text-align: center"><b>Bold</b> <i>it</i> <u>u</u><br></p><ul><li>one</li></ul>' +
+        '<a href="https://example.com" rel="noopener noreferrer" target="_blank">site</a>',
+    )
+  })
+
+  it("removes scripts, event handlers and unsafe links", () => {
+    expect(sanitizeRichText('<img src=x onerror="alert(1)"><script>alert(1)</script>ok')).toBe("ok")
+    expect(sanitizeRichText('<div onmouseover=alert(1) style="background:url(x)">a</div>')).toBe("<div>a</div>")
+    expect(sanitizeRichText('<a href=" javascript:alert(1)">a</a>')).toBe("<a>a</a>")
+    expect(sanitizeRichText('<svg><a title="x>">b</a></svg><!-- <script> -->')).toBe("<a>b</a>")
+  })
+
+  it("escapes stray angle brackets in text", () => {
+    expect(sanitizeRichText("1 < 2 <p>x</p> >")).toBe("1 &lt; 2 <p>x</p> &gt;")
+  })
+})
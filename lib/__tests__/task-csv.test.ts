@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest"
+import {
+  coerceCustomFieldValue,
+  normalizeCsvDate,
+  parseCsv,
+  plainToRichText,
+  readCsvCell,
+  richTextToPlain,
+  splitCsvList,
+  suggestColumnMapping,
+  toCsv,
+} from "../task-csv"
+import type { CustomField } from "../types"
+
+const field = (values: Partial<CustomField>): CustomField => ({
+  id: "f1",
+  projectId: "p1",
+  name: "Field",
+  type: "text",
+  ...values,
+})
+
+describe("parseCsv", () => {
+  it("handles quotes, escaped quotes and line breaks inside cells", () => {
+    expect(parseCsv('\ufeffTitle,Notes\r\n"A, B","say ""hi""\nthere"\n\n')).toEqual([
+      ["Title", "Notes"],
+      ["A, B", 'say "hi"\nthere'],
+    ])
+  })
+})
+
+describe("toCsv", () => {
+  it("quotes cells that need it and guards formulas", () => {
+    expect(toCsv([["a,b", "=SUM(A1)", 3, null]])).toBe('"a,b",\'=SUM(A1),3,')
+  })
+
+  it("round-trips through parseCsv and readCsvCell", () => {
+    const [[formula, quoted]] = parseCsv(toCsv([["=1+1", 'He said "no"']]))
+    expect(readCsvCell(formula)).toBe("=1+1")
+    expect(quoted).toBe('He said "no"')
+  })
+})
+
+describe("rich text", () => {
+  it("converts HTML to plain text and back", () => {
+    expect(richTextToPlain("<p>One &amp; two</p><p>a&lt;b<br>c</p>")).toBe("One & two\na<b\nc")
+    expect(plainToRichText("a<b\nc")).toBe("<p>a&lt;b</p><p>c</p>")
+  })
+})
+
+describe("cell values", () => {
+  it("splits lists on English and Chinese separators", () => {
+    expect(splitCsvList("a, b;c，d、 e")).toEqual(["a", "b", "c", "d", "e"])
+  })
+
+  it("normalizes dates and rejects impossible ones", () => {
+    expect(normalizeCsvDate("2026/3/5")).toBe("2026-03-05")
+    expect(normalizeCsvDate("2026-02-31")).toBeNull()
+    expect(normalizeCsvDate("soon")).toBeNull()
+  })
+
+  it("coerces values by field type", () => {
+    expect(coerceCustomFieldValue(field({ type: "number" }), "4.5")).toEqual({ value: 4.5 })
+    expect(coerceCustomFieldValue(field({ type: "number" }), "four").error).toBe('"four" is not a number')
+    expect(coerceCustomFieldValue(field({ type: "checkbox" }), "是")).toEqual({ value: true })
+    expect(coerceCustomFieldValue(field({ type: "url" }), "ftp://example.com").error).toMatch(/not a valid URL/)
+    expect(coerceCustomFieldValue(field({ isRequired: true }), " ").error).toBe("Field is required")
+  })
+
+  it("matches select options case-insensitively", () => {
+    const select = field({ type: "select", options: ["Red", "Blue"], isMulti: true })
+    expect(coerceCustomFieldValue(select, "red; BLUE")).toEqual({ value: ["Red", "Blue"] })
+    expect(coerceCustomFieldValue(select, "Green").error).toBe('"Green" is not an option of Field')
+  })
+})
+
+describe("suggestColumnMapping", () => {
+  it("maps headers to system and custom fields once each", () => {
+    const fields = [field({ id: "f9", name: "Estimate" })]
+    expect(suggestColumnMapping(["标题", "Due", "estimate", "Title", "Other"], fields)).toEqual([
+      "title",
+      "dueDate",
+      "custom:f9",
+      null,
+      null,
+    ])
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest"
+import { getCustomFieldIdFromMergeField, getTaskChanges, mergeTaskVersions, resolveTaskConflicts } from "../task-merge"
+import type { Task } from "../types"
+
+const base: Task = {
+  id: "t1",
+  projectId: "p1",
+  title: "Write docs",
+  description: "",
+  status: "todo",
+  priority: "medium",
+  comments: 0,
+  tags: ["docs", "api"],
+  customFields: { estimate: 3 },
+}
+
+describe("mergeTaskVersions", () => {
+  it("keeps changes made on only one side", () => {
+    const mine = { ...base, title: "Write API docs" }
+    const theirs = { ...base, priority: "high" as const }
+
+    const { merged, conflicts } = mergeTaskVersions(base, mine, theirs)
+
+    expect(conflicts).toEqual([])
+    expect(merged.title).toBe("Write API docs")
+    expect(merged.priority).toBe("high")
+  })
+
+  it("reports fields both sides changed to different values", () => {
+    const mine = { ...base, status: "in-progress" }
+    const theirs = { ...base, status: "done" }
+
+    const { merged, conflicts } = mergeTaskVersions(base, mine, theirs)
+
+    expect(conflicts).toEqual([{ field: "status", mine: "in-progress", theirs: "done" }])
+    expect(merged.status).toBe("done")
+  })
+
+  it("does not treat the same change on both sides as a conflict", () => {
+    const mine = { ...base, dueDate: "2026-11-01" }
+    const theirs = { ...base, dueDate: "2026-11-01" }
+
+    expect(mergeTaskVersions(base, mine, theirs).conflicts).toEqual([])
+  })
+
+  it("ignores tag order and empty values", () => {
+    const mine = { ...base, tags: ["api", "docs"], startDate: "" }
+    const theirs = { ...base, startDate: undefined }
+
+    expect(mergeTaskVersions(base, mine, theirs).conflicts).toEqual([])
+  })
+
+  it("merges custom fields one by one", () => {
+    const mine = { ...base, customFields: { estimate: 5 } }
+    const theirs = { ...base, customFields: { estimate: 3, owner: "ops" } }
+
+    const { merged, conflicts } = mergeTaskVersions(base, mine, theirs)
+
+    expect(conflicts).toEqual([])
+    expect(merged.customFields).toEqual({ estimate: 5, owner: "ops" })
+  })
+})
+
+describe("resolveTaskConflicts", () => {
+  it("applies the chosen side and keeps theirs for unanswered fields", () => {
+    const mine = { ...base, title: "Mine", priority: "low" as const }
+    const theirs = { ...base, title: "Theirs", priority: "high" as const }
+    const { merged, conflicts } = mergeTaskVersions(base, mine, theirs)
+
+    const resolved = resolveTaskConflicts(merged, conflicts, { title: "mine" })
+
+    expect(resolved.title).toBe("Mine")
+    expect(resolved.priority).toBe("high")
+  })
+
+  it("resolves custom field conflicts", () => {
+    const mine = { ...base, customFields: { estimate: 5 } }
+    const theirs = { ...base, customFields: { estimate: 8 } }
+    const { merged, conflicts } = mergeTaskVersions(base, mine, theirs)
+
+    expect(conflicts.map((conflict) => getCustomFieldIdFromMergeField(conflict.field))).toEqual(["estimate"])
+    expect(resolveTaskConflicts(merged, conflicts, { "customFields.estimate": "mine" }).customFields).toEqual({
+      estimate: 5,
+    })
+  })
+})
+
+describe("getTaskChanges", () => {
+  it("returns only the changed fields", () => {
+    expect(getTaskChanges(base, { ...base, tags: ["api", "docs"] })).toEqual({})
+    expect(getTaskChanges(base, { ...base, title: "Write API docs", dueDate: "" })).toEqual({ title: "Write API docs" })
+    expect(getTaskChanges({ ...base, dueDate: "2026-11-01" }, base)).toEqual({ dueDate: null })
+  })
+
+  it("sends all custom field values when one of them changed", () => {
+    const withOwner = { ...base, customFields: { estimate: 3, owner: "ops" } }
+
+    expect(getTaskChanges(withOwner, { ...withOwner, customFields: { estimate: 5, owner: "ops" } })).toEqual({
+      customFields: { estimate: 5, owner: "ops" },
+    })
+  })
+})
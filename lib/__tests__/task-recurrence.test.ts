@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest"
+import {
+  daysBetween,
+  describeRecurrence,
+  formatRRule,
+  getNextOccurrence,
+  parseTaskRecurrence,
+  shiftDate,
+} from "../task-recurrence"
+import type { TaskRecurrence } from "../types"
+
+const rule = (values: Partial<TaskRecurrence>): TaskRecurrence => ({
+  frequency: "daily",
+  interval: 1,
+  weekdays: null,
+  monthDay: null,
+  until: null,
+  count: null,
+  ...values,
+})
+
+describe("parseTaskRecurrence", () => {
+  it("treats empty values as no recurrence", () => {
+    expect(parseTaskRecurrence(null)).toEqual({ recurrence: null })
+    expect(parseTaskRecurrence("")).toEqual({ recurrence: null })
+  })
+
+  it("parses RRULE text", () => {
+    expect(parseTaskRecurrence("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=FR,MO;COUNT=10")).toEqual({
+      recurrence: rule({ frequency: "weekly", interval: 2, weekdays: [1, 5], count: 10 }),
+    })
+    expect(parseTaskRecurrence("FREQ=MONTHLY;BYMONTHDAY=31;UNTIL=20271231T000000Z").recurrence).toEqual(
+      rule({ frequency: "monthly", monthDay: 31, until: "2027-12-31" }),
+    )
+  })
+
+  it("drops parts that do not apply to the frequency", () => {
+    expect(parseTaskRecurrence({ frequency: "daily", weekdays: [1], monthDay: 3 }).recurrence).toEqual(rule({}))
+  })
+
+  it("rejects invalid rules", () => {
+    expect(parseTaskRecurrence("FREQ=HOURLY").error).toMatch(/Invalid recurrence/)
+    expect(parseTaskRecurrence("FREQ=DAILY;BYSETPOS=1").error).toBe(
+      'Invalid recurrence: Unsupported RRULE part "BYSETPOS"',
+    )
+    expect(parseTaskRecurrence("FREQ=WEEKLY;BYDAY=XX").error).toBe('Invalid recurrence: Unknown weekday "XX" in BYDAY')
+    expect(parseTaskRecurrence({ frequency: "daily", until: "2027-01-01", count: 3 }).error).toMatch(/not both/)
+  })
+
+  it("round-trips through formatRRule", () => {
+    const weekly = rule({ frequency: "weekly", interval: 2, weekdays: [1, 5], count: 10 })
+    expect(formatRRule(weekly)).toBe("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;COUNT=10")
+    expect(parseTaskRecurrence(formatRRule(weekly)).recurrence).toEqual(weekly)
+  })
+})
+
+describe("describeRecurrence", () => {
+  it("describes the rule in words", () => {
+    expect(describeRecurrence(rule({ frequency: "weekly", interval: 2, weekdays: [1, 5], count: 10 }))).toBe(
+      "Every 2 weeks on Mon, Fri, 10 times",
+    )
+    expect(describeRecurrence(rule({ frequency: "monthly", until: "2027-03-01" }))).toBe("Monthly, until Mar 1, 2027")
+  })
+})
+
+describe("getNextOccurrence", () => {
+  it("moves daily rules by the interval", () => {
+    expect(getNextOccurrence(rule({ interval: 3 }), "2026-10-01", 1, "2026-10-01")).toMatchObject({
+      date: "2026-10-04",
+      index: 2,
+    })
+  })
+
+  it("finds the next listed weekday", () => {
+    // 2026-10-19 是星期一
+    const weekly = rule({ frequency: "weekly", weekdays: [1, 5] })
+    expect(getNextOccurrence(weekly, "2026-10-19", 1, "2026-10-01")?.date).toBe("2026-10-23")
+    expect(getNextOccurrence(weekly, "2026-10-23", 2, "2026-10-01")?.date).toBe("2026-10-26")
+  })
+
+  it("pins the weekday or month day of the anchor", () => {
+    const weekly = getNextOccurrence(rule({ frequency: "weekly" }), "2026-10-21", 1, "2026-10-01")
+    expect(weekly?.recurrence.weekdays).toEqual([3])
+
+    const monthly = getNextOccurrence(rule({ frequency: "monthly" }), "2027-01-31", 1, "2027-01-01")
+    expect(monthly?.date).toBe("2027-02-28")
+    expect(monthly?.recurrence.monthDay).toBe(31)
+    expect(getNextOccurrence(monthly!.recurrence, "2027-02-28", 2, "2027-01-01")?.date).toBe("2027-03-31")
+  })
+
+  it("skips dates before today and counts them", () => {
+    expect(getNextOccurrence(rule({}), "2026-10-01", 1, "2026-10-05")).toMatchObject({ date: "2026-10-05", index: 5 })
+  })
+
+  it("stops when the rule ends", () => {
+    expect(getNextOccurrence(rule({ count: 2 }), "2026-10-01", 2, "2026-10-01")).toBeNull()
+    expect(getNextOccurrence(rule({ until: "2026-10-01" }), "2026-10-01", 1, "2026-10-01")).toBeNull()
+  })
+})
+
+describe("date helpers", () => {
+  it("shifts dates and counts days between them", () => {
+    expect(shiftDate("2026-12-30T00:00:00Z", 3)).toBe("2027-01-02")
+    expect(daysBetween("2026-12-30", "2027-01-02")).toBe(3)
+  })
+})
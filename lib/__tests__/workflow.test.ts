@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest"
+import { checkStatusChange, getDefaultStatuses, getInitialStatus, getOpenBlockers, isDoneStatus } from "../workflow"
+import type { WorkflowStatus } from "../types"
+
+const statuses: WorkflowStatus[] = [
+  { id: "1", projectId: "p1", key: "backlog", name: "Backlog", color: "#6b7280", category: "not-started", order: 0 },
+  {
+    id: "2",
+    projectId: "p1",
+    key: "doing",
+    name: "Doing",
+    color: "#3b82f6",
+    category: "active",
+    order: 1,
+    wipLimit: 2,
+    allowedTransitions: ["done"],
+  },
+  { id: "3", projectId: "p1", key: "done", name: "Done", color: "#000000", category: "done", order: 2 },
+]
+
+describe("checkStatusChange", () => {
+  it("allows moves without rules", () => {
+    expect(checkStatusChange(statuses, "backlog", "doing", 0)).toBeNull()
+  })
+
+  it("rejects unknown statuses", () => {
+    expect(checkStatusChange(statuses, "backlog", "archived", 0)).toBe('Invalid status "archived" for this project')
+  })
+
+  it("enforces allowed transitions", () => {
+    expect(checkStatusChange(statuses, "doing", "backlog", 0)).toBe('Tasks in "Doing" cannot be moved to "Backlog"')
+    expect(checkStatusChange(statuses, "doing", "done", 0)).toBeNull()
+  })
+
+  it("enforces WIP limits", () => {
+    expect(checkStatusChange(statuses, "backlog", "doing", 1)).toBeNull()
+    expect(checkStatusChange(statuses, "backlog", "doing", 2)).toBe('"Doing" has reached its WIP limit of 2')
+  })
+
+  it("does not check a task that stays in its status", () => {
+    expect(checkStatusChange(statuses, "doing", "doing", 5)).toBeNull()
+  })
+})
+
+describe("workflow helpers", () => {
+  it("uses the first not-started status for new tasks", () => {
+    expect(getInitialStatus(statuses)).toBe("backlog")
+    expect(getInitialStatus(getDefaultStatuses("p1"))).toBe("todo")
+  })
+
+  it("detects done statuses", () => {
+    expect(isDoneStatus(statuses, "done")).toBe(true)
+    expect(isDoneStatus(statuses, "doing")).toBe(false)
+    expect(isDoneStatus(statuses, "missing")).toBe(false)
+  })
+
+  it("returns only blockers that are not done", () => {
+    const tasks = [
+      { id: "a", status: "done" },
+      { id: "b", status: "doing" },
+      { id: "c", status: "backlog" },
+    ]
+
+    expect(getOpenBlockers({ blockedBy: ["a", "b"] }, tasks, statuses).map((task) => task.id)).toEqual(["b"])
+    expect(getOpenBlockers({}, tasks, statuses)).toEqual([])
+  })
+})
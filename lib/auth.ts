@@ -0,0 +1,127 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import { cookies } from "next/headers"
+import type { NextResponse } from "next/server"
+import { getUser, getProjectMember, getTaskProjectId, getCustomFieldProjectId } from "./data"
+import { hasRole } from "./members"
+import type { ProjectRole } from "./types"
+
+export const SESSION_COOKIE = "pm_session"
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 // 30 天（秒）
+
+function getSecret() {
+  const secret = process.env.AUTH_SECRET
+  if (secret) return secret
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("Missing AUTH_SECRET environment variable")
+  }
+
+  return "development-auth-secret"
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", getSecret()).update(payload).digest("hex")
+}
+
+// 会话令牌格式为 userId.过期时间.签名
+export function createSessionToken(userId: string) {
+  const payload = `${userId}.${Date.now() + SESSION_MAX_AGE * 1000}`
+  return `${payload}.${sign(payload)}`
+}
+
+// 校验令牌并返回用户 ID，无效或过期时返回 null
+export function verifySessionToken(token?: string | null) {
+  if (!token) return null
+
+  const [userId, expires, signature] = token.split(".")
+  if (!userId || !expires || !signature) return null
+
+  const expected = Buffer.from(sign(`${userId}.${expires}`))
+  const actual = Buffer.from(signature)
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null
+
+  return Number(expires) > Date.now() ? userId : null
+}
+
+// 获取当前登录的用户，未登录时返回 null
+export async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const userId = verifySessionToken(cookieStore.get(SESSION_COOKIE)?.value)
+  return userId ? getUser(userId) : null
+}
+
+export function setSessionCookie(response: NextResponse, userId: string) {
+  response.cookies.set(SESSION_COOKIE, createSessionToken(userId), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE,
+  })
+  return response
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
+
+// 未登录（401）、权限不足（403）或目标资源不存在（404）时抛出，API 路由据此返回对应状态码
+export class AuthorizationError extends Error {
+  status: 401 | 403 | 404
+
+  constructor(message: string, status: 401 | 403 | 404) {
+    super(message)
+    this.name = "AuthorizationError"
+    this.status = status
+  }
+}
+
+// 要求已登录
+export async function requireUser() {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new AuthorizationError("Authentication required", 401)
+  }
+  return user
+}
+
+// 要求当前用户在项目中至少拥有指定角色。
+// 这些检查只在 API 路由中生效：数据库对 anon 和 authenticated 角色开启了行级安全且没有策略，
+// 服务端通过 service role key 访问，新增的表也必须开启行级安全，否则公开的 anon key 可以绕过这里
+export async function requireProjectRole(projectId: string, role: ProjectRole) {
+  const user = await requireUser()
+  const member = await getProjectMember(projectId, user.id)
+
+  if (!member) {
+    throw new AuthorizationError("You are not a member of this project", 403)
+  }
+
+  if (!hasRole(member.role, role)) {
+    throw new AuthorizationError(`This action requires the ${role} role`, 403)
+  }
+
+  return { user, member }
+}
+
+// 按任务所属项目校验角色
+export async function requireTaskRole(taskId: string, role: ProjectRole) {
+  const projectId = await getTaskProjectId(taskId)
+  if (!projectId) {
+    await requireUser()
+    throw new AuthorizationError("Task not found", 404)
+  }
+
+  return { projectId, ...(await requireProjectRole(projectId, role)) }
+}
+
+// 按自定义字段所属项目校验角色
+export async function requireCustomFieldRole(fieldId: string, role: ProjectRole) {
+  const projectId = await getCustomFieldProjectId(fieldId)
+  if (!projectId) {
+    await requireUser()
+    throw new AuthorizationError("Custom field not found", 404)
+  }
+
+  return { projectId, ...(await requireProjectRole(projectId, role)) }
+}
@@ -1,5 +1,95 @@
 import { notFound } from "next/navigation"
-import { createServerSupabaseClient } from "./supabase-server"
+import { randomBytes } from "crypto"
+import {
+  getRepository,
+  type CommentRow,
+  type StatusRow,
+  type TaskRow,
+  type UserRow,
+  type MemberRow,
+  type InvitationRow,
+  type ActivityRow,
+  type DependencyRow,
+  type UpdateOptions,
+  type RepositoryResult,
+  type TaskRowQuery,
+  type TaskRowSortColumn,
+  type SavedViewRow,
+  type ProjectTemplateRow,
+} from "./repository"
+import {
+  checkStatusChange,
+  getDefaultStatuses,
+  getInitialStatus,
+  getOpenBlockers,
+  getStatusName,
+  isDoneStatus,
+} from "./workflow"
+import {
+  coerceCustomFieldValue,
+  formatCustomFieldCell,
+  normalizeCsvDate,
+  parseCsv,
+  plainToRichText,
+  readCsvCell,
+  richTextToPlain,
+  splitCsvList,
+  TASK_IMPORT_FIELDS,
+  type CsvCell,
+} from "./task-csv"
+import {
+  parseProjectArchive,
+  PROJECT_ARCHIVE_FORMAT,
+  PROJECT_ARCHIVE_VERSION,
+  type ProjectArchive,
+} from "./project-archive"
+import { getInitials, isProjectRole } from "./members"
+import { hashPassword, verifyPassword } from "./password"
+import {
+  countProjectSubscribers,
+  publishProjectEvent,
+  subscribeProjectEvents,
+  type ProjectEvent,
+  type ProjectEventType,
+} from "./realtime"
+import { coerceCustomFieldPredicateValue } from "./task-query"
+import { matchesFilterGroup, validateFilterGroup } from "./filter-builder"
+import { DEFAULT_VIEW_CONFIG, MAX_VIEW_NAME_LENGTH, parseSavedViewConfig } from "./saved-views"
+import { rankSearchDocument, highlightText, tokenizeSearchQuery, toSearchText } from "./search"
+import {
+  archiveToTemplateContent,
+  MAX_TEMPLATE_NAME_LENGTH,
+  parseProjectTemplateContent,
+  templateContentToArchive,
+} from "./project-templates"
+import { sanitizeRichText } from "./rich-text"
+import { mapCustomFieldValues } from "./task-batch"
+import { isEmptyRichText } from "./utils"
+import { daysBetween, describeRecurrence, getNextOccurrence, parseTaskRecurrence, shiftDate } from "./task-recurrence"
+import type {
+  WorkflowStatus,
+  WorkflowStatusCategory,
+  User,
+  ProjectRole,
+  ProjectMember,
+  ProjectInvitation,
+  TaskActivity,
+  TaskActivityChange,
+  TaskDependency,
+  TaskImportError,
+  TaskImportResult,
+  TaskImportTarget,
+  TaskPage,
+  TaskQuery,
+  SearchResult,
+  SavedView,
+  ProjectTemplate,
+  TaskRecurrence,
+  TaskSortKey,
+  CustomFieldPredicate,
+  TaskBatchUpdate,
+  UnmappedFieldValue,
+} from "./types"
 import { cache } from "react"
 
 export type Project = {
@@ -17,21 +107,44 @@ export type Task = {
   projectId: string
   title: string
   description: string
-  status: "todo" | "in-progress" | "review" | "done"
+  status: string // 对应项目工作流中某个状态的 key
   priority: "low" | "medium" | "high"
+  parentId?: string | null // 父任务 ID，为空表示顶层任务
   assignee?: {
+    id?: string // 项目成员的用户 ID
     name: string
     initials: string
-  }
+  } | null // null 表示取消分配
+  startDate?: string // 开始日期，不晚于截止日期
   dueDate?: string
-  comments: number
+  comments: number // 评论数，由 task_comments 统计得出
   tags?: string[]
   customFields?: Record<string, any>
+  blockedBy?: string[] // 阻塞该任务的前置任务 ID
+  openBlockers?: string[] // 尚未完成的前置任务标题
+  subtaskProgress?: { done: number; total: number } | null // 子任务完成进度，没有子任务时为空
+  recurrence?: TaskRecurrence | null // 重复规则，为空表示不重复
+  nextOccurrenceId?: string | null // 已经生成的下一次任务
   created_at?: string
   updated_at?: string
   order?: number // Ensure order is included in the type
 }
 
+export type TaskComment = {
+  id: string
+  taskId: string
+  parentId: string | null
+  author: {
+    id: string | null
+    name: string
+    initials: string
+  }
+  body: string
+  created_at?: string
+  updated_at?: string
+  replies?: TaskComment[]
+}
+
 export type CustomField = {
   id: string
   projectId: string
@@ -42,6 +155,25 @@ export type CustomField = {
   isMulti?: boolean
 }
 
+// 请求数据不合法时抛出，API 路由据此返回 400
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ValidationError"
+  }
+}
+
+// 带版本条件（expectedUpdatedAt）的更新遇到了已被他人修改的记录，current 是记录的最新内容
+export class ConflictError<T = unknown> extends Error {
+  current: T
+
+  constructor(message: string, current: T) {
+    super(message)
+    this.name = "ConflictError"
+    this.current = current
+  }
+}
+
 // 使用 LRU 缓存来限制内存使用
 class LRUCache<K, V> {
   private capacity: number
@@ -126,9 +258,71 @@ if (typeof window !== "undefined") {
   const cleanupInterval = setInterval(clearExpiredCache, 60000) // 每分钟清理一次
 }
 
+// 本进程最近写入的任务：数据库随后推送的同一修改已经通过进程内事件通知过，不再重复通知
+const LOCAL_WRITE_WINDOW = 3000
+const localTaskWrites = new Map<string, number>()
+
+function isRecentLocalWrite(taskId: string) {
+  const now = Date.now()
+  for (const [id, writtenAt] of localTaskWrites) {
+    if (now - writtenAt > LOCAL_WRITE_WINDOW) localTaskWrites.delete(id)
+  }
+  return localTaskWrites.has(taskId)
+}
+
+// 任务变化后清除项目任务缓存，并通知正在查看该项目的客户端
+export function invalidateProjectTasks(projectId: string, type: ProjectEventType, taskIds: string[] = []) {
+  const writtenAt = Date.now()
+  taskIds.forEach((taskId) => localTaskWrites.set(taskId, writtenAt))
+  notifyProjectTasks(projectId, type, taskIds)
+}
+
+// 新增或删除（包括移入、移出）任务时项目的 taskCount 也会变化，一起清除项目缓存
+function notifyProjectTasks(projectId: string, type: ProjectEventType, taskIds: string[]) {
+  taskCache.delete(projectId)
+  cacheExpiry.delete(`tasks:${projectId}`)
+
+  if (type === "task.created" || type === "task.deleted") {
+    projectCache.delete(projectId)
+    projectCache.delete("all")
+    cacheExpiry.delete(`project:${projectId}`)
+    cacheExpiry.delete("projects:all")
+  }
+
+  publishProjectEvent({ projectId, type, taskIds })
+}
+
+// 每个项目只保留一个对存储驱动的监听，在第一个订阅者出现时开始、最后一个离开时停止
+const globalWatchers = globalThis as unknown as { __projectTaskWatchers?: Map<string, () => void> }
+const taskWatchers = (globalWatchers.__projectTaskWatchers ??= new Map())
+
+// 订阅项目任务变化；其他进程（或直接对数据库）的修改同样会使本进程的缓存失效
+export function subscribeProjectTasks(projectId: string, listener: (event: ProjectEvent) => void) {
+  const unsubscribe = subscribeProjectEvents(projectId, listener)
+
+  if (!taskWatchers.has(projectId)) {
+    taskWatchers.set(
+      projectId,
+      getRepository().watchTasks(projectId, (change) => {
+        const taskIds = change.taskIds.filter((taskId) => !isRecentLocalWrite(taskId))
+        if (taskIds.length > 0) notifyProjectTasks(projectId, change.type, taskIds)
+      }),
+    )
+  }
+
+  return () => {
+    unsubscribe()
+
+    if (countProjectSubscribers(projectId) === 0) {
+      taskWatchers.get(projectId)?.()
+      taskWatchers.delete(projectId)
+    }
+  }
+}
+
 // 重新添加 getProjects 函数
 export async function getProjects() {
-  const supabase = createServerSupabaseClient()
+  const repository = getRepository()
   const cacheKey = "projects:all"
 
   // 检查缓存是否有效
@@ -139,10 +333,7 @@ export async function getProjects() {
     }
   }
 
-  const { data, error } = await supabase
-    .from("projects_with_task_counts")
-    .select("*")
-    .order("created_at", { ascending: false })
+  const { data, error } = await repository.listProjects()
 
   if (error) {
     console.error("Error fetching projects:", error)
@@ -168,7 +359,7 @@ export async function getProjects() {
 
 // 优化 getProject 函数
 export const getProject = cache(async (id: string) => {
-  const supabase = createServerSupabaseClient()
+  const repository = getRepository()
   const cacheKey = `project:${id}`
 
   // 检查缓存是否有效
@@ -179,7 +370,7 @@ export const getProject = cache(async (id: string) => {
     }
   }
 
-  const { data, error } = await supabase.from("projects_with_task_counts").select("*").eq("id", id).single()
+  const { data, error } = await repository.getProject(id)
 
   if (error) {
     console.error(`Error fetching project ${id}:`, error)
@@ -203,84 +394,36 @@ export const getProject = cache(async (id: string) => {
   return project
 })
 
-// 优化 getProjectTasks 函数
-export const getProjectTasks = cache(async (projectId: string) => {
-  const supabase = createServerSupabaseClient()
-  const cacheKey = `tasks:${projectId}`
-
-  // 检查缓存是否有效
-  if (!isCacheExpired(cacheKey)) {
-    const cachedTasks = taskCache.get(projectId)
-    if (cachedTasks) {
-      return cachedTasks
-    }
-  }
-
-  // 使用分页查询优化大型数据集
-  const PAGE_SIZE = 100
-  let allTasks: any[] = []
-  let page = 0
-  let hasMore = true
-
-  while (hasMore) {
-    const { data, error } = await supabase
-      .from("tasks")
-      .select("*")
-      .eq("project_id", projectId)
-      .order("order", { ascending: true })
-      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
-
-    if (error) {
-      console.error(`Error fetching tasks for project ${projectId}:`, error)
-      throw new Error(`Failed to fetch tasks: ${error.message}`)
-    }
-
-    if (!data || data.length === 0) {
-      hasMore = false
-    } else {
-      allTasks = [...allTasks, ...data]
-      page++
-
-      // 如果返回的数据少于页面大小，说明已经到达末尾
-      if (data.length < PAGE_SIZE) {
-        hasMore = false
-      }
-    }
-  }
-
-  // 如果没有任务，返回空数组
-  if (allTasks.length === 0) {
-    const emptyTasks: Task[] = []
-    taskCache.put(projectId, emptyTasks)
-    setCacheExpiry(cacheKey)
-    return emptyTasks
-  }
+// 补全任务行的标签、自定义字段、评论数和前置任务，并转换为前端使用的格式。
+// 子任务进度和未完成的前置任务按整个项目统计，不受分页和筛选条件的影响
+async function formatTaskRows(projectId: string, rows: TaskRow[]): Promise<Task[]> {
+  const repository = getRepository()
+  const statuses = await getProjectStatuses(projectId)
 
   // 获取任务ID列表
-  const taskIds = allTasks.map((task) => task.id)
+  const taskIds = rows.map((task) => task.id)
 
   // 使用批处理查询优化标签和自定义字段获取
   const taskTags: Record<string, string[]> = {}
   const taskCustomFields: Record<string, Record<string, any>> = {}
+  const taskComments: Record<string, number> = {}
+  const subtaskProgress: Record<string, { done: number; total: number }> = {}
 
   // 使用批处理查询，每次处理最多50个任务
   const BATCH_SIZE = 50
   for (let i = 0; i < taskIds.length; i += BATCH_SIZE) {
     const batchIds = taskIds.slice(i, i + BATCH_SIZE)
 
-    // 并行获取标签和自定义字段
+    // 并行获取标签、自定义字段和评论数
     await Promise.all([
       // 获取标签
       (async () => {
-        const { data: tagsData } = await supabase
-          .from("task_tags")
-          .select("task_id, tags(name)")
-          .in("task_id", batchIds)
+        const { data: tagsData } = await repository.getTaskTags(batchIds)
 
         if (tagsData) {
           tagsData.forEach((item) => {
             const taskId = item.task_id
-            const tagName = item.tags?.name
+            const tagName = item.name
 
             if (tagName) {
               if (!taskTags[taskId]) {
@@ -294,10 +437,7 @@ export const getProjectTasks = cache(async (projectId: string) => {
 
       // 获取自定义字段
       (async () => {
-        const { data: customFieldsData } = await supabase
-          .from("task_custom_field_values")
-          .select("task_id, field_id, value")
-          .in("task_id", batchIds)
+        const { data: customFieldsData } = await repository.getCustomFieldValues(batchIds)
 
         if (customFieldsData) {
           customFieldsData.forEach((item) => {
@@ -312,31 +452,134 @@ export const getProjectTasks = cache(async (projectId: string) => {
           })
         }
       })(),
+
+      // 获取评论数
+      (async () => {
+        const { data: commentCounts } = await repository.countComments(batchIds)
+
+        commentCounts?.forEach((item) => {
+          taskComments[item.task_id] = item.count
+        })
+      })(),
+
+      // 获取子任务进度，按子任务状态是否属于"已完成"类别统计
+      (async () => {
+        const { data: subtasks, error } = await repository.listChildTasks(batchIds)
+
+        if (error) {
+          console.error(`Error fetching subtasks for project ${projectId}:`, error)
+          throw new Error(`Failed to fetch subtasks: ${error.message}`)
+        }
+
+        subtasks.forEach((subtask) => {
+          const entry = subtaskProgress[subtask.parent_id!] || { done: 0, total: 0 }
+          entry.total += 1
+          if (isDoneStatus(statuses, subtask.status)) entry.done += 1
+          subtaskProgress[subtask.parent_id!] = entry
+        })
+      })(),
     ])
   }
 
+  // 获取任务依赖，以及阻塞这些任务的前置任务（用于判断哪些前置任务尚未完成）
+  const taskBlockers = groupBlockers(await listProjectDependencies(projectId))
+  const blockerIds = [...new Set(taskIds.flatMap((id) => taskBlockers[id] || []))]
+  const blockerRows: TaskRow[] = []
+
+  for (let i = 0; i < blockerIds.length; i += BATCH_SIZE) {
+    const { data, error } = await repository.getTasks(blockerIds.slice(i, i + BATCH_SIZE))
+
+    if (error) {
+      console.error(`Error fetching blocking tasks for project ${projectId}:`, error)
+      throw new Error(`Failed to fetch blocking tasks: ${error.message}`)
+    }
+
+    blockerRows.push(...data)
+  }
+
   // 格式化任务数据
-  const formattedTasks = allTasks.map((task) => ({
+  return rows.map((task) => ({
     id: task.id,
     projectId: task.project_id,
     title: task.title,
     description: task.description,
     status: task.status,
     priority: task.priority,
+    parentId: task.parent_id || null,
     assignee: task.assignee_name
       ? {
+          id: task.assignee_id || undefined,
           name: task.assignee_name,
           initials: task.assignee_initials,
         }
       : undefined,
+    startDate: task.start_date || undefined,
     dueDate: task.due_date,
-    comments: task.comments || 0,
+    comments: taskComments[task.id] || 0,
     tags: taskTags[task.id] || [],
     customFields: taskCustomFields[task.id] || {},
+    blockedBy: taskBlockers[task.id] || [],
+    openBlockers: getOpenBlockers({ blockedBy: taskBlockers[task.id] }, blockerRows, statuses).map(
+      (blocker) => blocker.title,
+    ),
+    subtaskProgress: subtaskProgress[task.id] || null,
+    recurrence: task.recurrence ?? null,
+    nextOccurrenceId: task.recurrence_next_id ?? null,
     created_at: task.created_at,
     updated_at: task.updated_at,
     order: task.order,
-  }))
+  })) as Task[]
+}
+
+// 优化 getProjectTasks 函数
+export const getProjectTasks = cache(async (projectId: string) => {
+  const repository = getRepository()
+  const cacheKey = `tasks:${projectId}`
+
+  // 检查缓存是否有效
+  if (!isCacheExpired(cacheKey)) {
+    const cachedTasks = taskCache.get(projectId)
+    if (cachedTasks) {
+      return cachedTasks
+    }
+  }
+
+  // 使用分页查询优化大型数据集
+  const PAGE_SIZE = 100
+  let allTasks: any[] = []
+  let page = 0
+  let hasMore = true
+
+  while (hasMore) {
+    const { data, error } = await repository.listTasks(projectId, page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+
+    if (error) {
+      console.error(`Error fetching tasks for project ${projectId}:`, error)
+      throw new Error(`Failed to fetch tasks: ${error.message}`)
+    }
+
+    if (!data || data.length === 0) {
+      hasMore = false
+    } else {
+      allTasks = [...allTasks, ...data]
+      page++
+
+      // 如果返回的数据少于页面大小，说明已经到达末尾
+      if (data.length < PAGE_SIZE) {
+        hasMore = false
+      }
+    }
+  }
+
+  // 如果没有任务，返回空数组
+  if (allTasks.length === 0) {
+    const emptyTasks: Task[] = []
+    taskCache.put(projectId, emptyTasks)
+    setCacheExpiry(cacheKey)
+    return emptyTasks
+  }
+
+  const formattedTasks = await formatTaskRows(projectId, allTasks)
 
   // 存入缓存
   taskCache.put(projectId, formattedTasks)
@@ -345,131 +588,314 @@ export const getProjectTasks = cache(async (projectId: string) => {
   return formattedTasks
 })
 
+const TASK_SORT_COLUMNS: Record<TaskSortKey, TaskRowSortColumn> = {
+  order: "order",
+  title: "title",
+  dueDate: "due_date",
+  createdAt: "created_at",
+  updatedAt: "updated_at",
+}
+
+// 分页游标：上一页最后一个任务的排序值和 ID，以及生成游标时的排序方式（如 "-dueDate"）
+type TaskCursor = { sort: string; value: string | number | null; id: string }
+
+function encodeTaskCursor(cursor: TaskCursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url")
+}
+
+function decodeTaskCursor(text: string): TaskCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(text, "base64url").toString("utf8"))
+    if (typeof cursor?.sort === "string" && typeof cursor.id === "string" && "value" in cursor) {
+      return cursor
+    }
+  } catch {
+    // 无法解析的游标按无效处理
+  }
+  throw new ValidationError("Invalid cursor")
+}
+
+// 按字段类型转换自定义字段条件中的值（查询参数中都是字符串）
+async function resolveCustomFieldPredicates(projectId: string, predicates: CustomFieldPredicate[]) {
+  const fields: CustomField[] = await getProjectCustomFields(projectId)
+
+  return predicates.map((predicate) => {
+    const field = fields.find((item) => item.id === predicate.fieldId)
+    if (!field) {
+      throw new ValidationError(`Unknown custom field "${predicate.fieldId}"`)
+    }
+
+    if (predicate.operator === "has" && !(field.type === "select" && field.isMulti)) {
+      throw new ValidationError(`"has" can only be used with multi-select fields`)
+    }
+
+    const value = coerceCustomFieldPredicateValue(field, predicate.value)
+    if (value === null) {
+      throw new ValidationError(`"${predicate.value}" is not a number`)
+    }
+
+    return { ...predicate, value }
+  })
+}
+
+const TASK_QUERY_BATCH_SIZE = 500
+
+// 按条件查询项目任务，筛选、排序和分页都在存储层完成；不传 limit 时返回全部符合条件的任务。
+// 条件组（query.filter）无法交给存储层，按其余条件分批取出任务后在内存中求值，直到凑满一页
+export async function queryProjectTasks(projectId: string, query: TaskQuery = {}): Promise<TaskPage> {
+  const repository = getRepository()
+  const sort = query.sort || { key: "order", direction: "asc" }
+  const sortId = `${sort.direction === "desc" ? "-" : ""}${sort.key}`
+  const column = TASK_SORT_COLUMNS[sort.key]
+
+  let after: TaskRowQuery["after"]
+  if (query.cursor) {
+    const cursor = decodeTaskCursor(query.cursor)
+    if (cursor.sort !== sortId) {
+      throw new ValidationError("The cursor was created for a different sort order")
+    }
+    after = { value: cursor.value, id: cursor.id }
+  }
+
+  const assigneeIds = query.assignees?.filter((assignee) => assignee !== "unassigned")
+  const rowQuery: Omit<TaskRowQuery, "after" | "limit"> = {
+    statuses: query.statuses,
+    priorities: query.priorities,
+    assigneeIds: assigneeIds?.length ? assigneeIds : undefined,
+    unassigned: query.assignees?.includes("unassigned") || undefined,
+    tagNames: query.tags,
+    dueFrom: query.dueFrom,
+    dueTo: query.dueTo,
+    title: query.title,
+    search: query.search,
+    customFields: query.customFields && (await resolveCustomFieldPredicates(projectId, query.customFields)),
+    sort: { column, ascending: sort.direction === "asc" },
+  }
+
+  const filter = query.filter
+  const customFields: CustomField[] = filter ? await getProjectCustomFields(projectId) : []
+  if (filter) {
+    const filterError = validateFilterGroup(filter, customFields)
+    if (filterError) {
+      throw new ValidationError(filterError)
+    }
+  }
+
+  // 多取一条用于判断是否还有下一页；不分页时分批取完全部任务
+  const wanted = query.limit ? query.limit + 1 : Infinity
+  const rows: TaskRow[] = []
+  const matchedTasks: Task[] = [] // 有条件组时已经补全的任务，与 rows 一一对应
+
+  while (rows.length < wanted) {
+    const limit = filter ? TASK_QUERY_BATCH_SIZE : Math.min(TASK_QUERY_BATCH_SIZE, wanted - rows.length)
+    const { data, error } = await repository.queryTasks(projectId, { ...rowQuery, after, limit })
+
+    if (error) {
+      console.error(`Error querying tasks for project ${projectId}:`, error)
+      throw new Error(`Failed to fetch tasks: ${error.message}`)
+    }
+
+    if (filter) {
+      const batchTasks = await formatTaskRows(projectId, data)
+      batchTasks.forEach((task, index) => {
+        if (matchesFilterGroup(task, filter, customFields)) {
+          rows.push(data[index])
+          matchedTasks.push(task)
+        }
+      })
+    } else {
+      rows.push(...data)
+    }
+    if (data.length < limit) break
+
+    const last = data[data.length - 1]
+    after = { value: last[column] ?? null, id: last.id }
+  }
+
+  const hasMore = query.limit !== undefined && rows.length > query.limit
+  const pageRows = hasMore ? rows.slice(0, query.limit) : rows
+  const last = pageRows[pageRows.length - 1]
+
+  let tasks: Task[] = []
+  if (filter) {
+    tasks = matchedTasks.slice(0, pageRows.length)
+  } else if (pageRows.length > 0) {
+    tasks = await formatTaskRows(projectId, pageRows)
+  }
+
+  return {
+    tasks,
+    nextCursor: hasMore ? encodeTaskCursor({ sort: sortId, value: last[column] ?? null, id: last.id }) : null,
+    statusCounts: await getProjectStatusCounts(projectId),
+  }
+}
+
+// 项目中每个工作流状态的任务总数
+async function getProjectStatusCounts(projectId: string) {
+  const repository = getRepository()
+  const statuses = await getProjectStatuses(projectId)
+  const counts: Record<string, number> = {}
+
+  await Promise.all(
+    statuses.map(async (status) => {
+      const { data, error } = await repository.countTasks(projectId, status.key)
+
+      if (error) {
+        console.error(`Error counting tasks for project ${projectId}:`, error)
+        throw new Error(`Failed to count tasks: ${error.message}`)
+      }
+
+      counts[status.key] = data
+    }),
+  )
+
+  return counts
+}
+
 // 获取单个任务
 export async function getTask(id: string) {
-  const supabase = createServerSupabaseClient()
-
   // 获取任务
-  const { data: task, error: taskError } = await supabase.from("tasks").select("*").eq("id", id).single()
+  const { data: task, error: taskError } = await getRepository().getTask(id)
 
   if (taskError) {
     console.error(`Error fetching task ${id}:`, taskError)
     notFound()
   }
 
-  // 获取标签
-  const { data: tagsData } = await supabase.from("task_tags").select("tags(name)").eq("task_id", id)
+  return formatTask(task)
+}
 
-  const tags = (tagsData?.map((item) => item.tags?.name).filter(Boolean) as string[]) || []
+// 为单个任务行补全关联数据，与列表中的任务格式相同
+async function formatTask(task: TaskRow) {
+  const [formatted] = await formatTaskRows(task.project_id, [task])
+  return formatted
+}
 
-  // 获取自定义字段值
-  const { data: customFieldsData } = await supabase
-    .from("task_custom_field_values")
-    .select("field_id, value")
-    .eq("task_id", id)
+/**
+ * 任务的多表写入（任务行、task_tags、task_custom_field_values）
+ *
+ * 存储层不提供跨表事务，这里按顺序执行每一步写入并登记对应的撤销操作：任何一步失败时，按相反顺序撤销已完成的步骤，
+ * 再抛出错误，保证任务要么完整写入，要么恢复到写入前的状态，不会出现只写了一半的标签或自定义字段。
+ */
+class TaskWriteUnit {
+  private undoSteps: { description: string; undo: () => Promise<RepositoryResult<unknown>> }[] = []
+
+  // 执行一步写入，成功后登记撤销操作；失败时回滚之前的步骤并抛出错误
+  async run<T>(
+    description: string,
+    write: () => Promise<RepositoryResult<T>>,
+    undo?: (data: T) => Promise<RepositoryResult<unknown>>,
+  ): Promise<T> {
+    let result: RepositoryResult<T>
+    try {
+      result = await write()
+    } catch (error) {
+      result = { data: null, error: { message: error instanceof Error ? error.message : String(error) } }
+    }
 
-  const customFields: Record<string, any> = {}
-  customFieldsData?.forEach((item) => {
-    customFields[item.field_id] = item.value
-  })
+    if (result.error) {
+      console.error(`Error during task write (${description}):`, result.error)
+      await this.rollback()
+      throw new Error(`Failed to ${description}: ${result.error.message}`)
+    }
 
-  // 格式化任务
-  return {
-    id: task.id,
-    projectId: task.project_id,
-    title: task.title,
-    description: task.description,
-    status: task.status,
-    priority: task.priority,
-    assignee: task.assignee_name
-      ? {
-          name: task.assignee_name,
-          initials: task.assignee_initials,
-        }
-      : undefined,
-    dueDate: task.due_date,
-    comments: task.comments || 0,
-    tags,
-    customFields,
-    created_at: task.created_at,
-    updated_at: task.updated_at,
-    order: task.order,
+    const data = result.data
+    if (undo) this.registerUndo(description, () => undo(data))
+    return data
+  }
+
+  // 登记在 run 之外完成的写入的撤销操作
+  registerUndo(description: string, undo: () => Promise<RepositoryResult<unknown>>) {
+    this.undoSteps.push({ description, undo })
   }
+
+  private async rollback() {
+    for (const step of this.undoSteps.reverse()) {
+      try {
+        const { error } = await step.undo()
+        if (error) console.error(`Error rolling back task write (${step.description}):`, error)
+      } catch (error) {
+        console.error(`Error rolling back task write (${step.description}):`, error)
+      }
+    }
+    this.undoSteps = []
+  }
+}
+
+// 开始日期不能晚于截止日期，只比较日期部分
+function assertTaskDates(startDate?: string | null, dueDate?: string | null) {
+  if (startDate && dueDate && startDate.slice(0, 10) > dueDate.slice(0, 10)) {
+    throw new ValidationError("The start date cannot be after the due date")
+  }
+}
+
+// 校验重复规则，接受规则对象或 RRULE 文本
+function toRecurrence(input: unknown) {
+  const parsed = parseTaskRecurrence(input)
+  if (parsed.error !== undefined) {
+    throw new ValidationError(parsed.error)
+  }
+  return parsed.recurrence
 }
 
 // 添加任务
-export async function addTask(task: Omit<Task, "id" | "comments">) {
-  const supabase = createServerSupabaseClient()
+export async function addTask(task: Omit<Task, "id" | "comments">, actor?: User | null) {
+  const repository = getRepository()
 
   // 获取项目中最高的顺序值，以便将新任务放在末尾
-  const { data: maxOrderData } = await supabase
-    .from("tasks")
-    .select("order")
-    .eq("project_id", task.projectId)
-    .order("order", { ascending: false })
-    .limit(1)
-
-  const nextOrder =
-    maxOrderData && maxOrderData.length > 0 && maxOrderData[0].order !== null ? maxOrderData[0].order + 1 : 0
-
-  // 首先插入任务
-  const { data: taskData, error: taskError } = await supabase
-    .from("tasks")
-    .insert({
-      project_id: task.projectId,
-      title: task.title,
-      description: task.description || "",
-      status: task.status || "todo",
-      priority: task.priority || "medium",
-      assignee_name: task.assignee?.name,
-      assignee_initials: task.assignee?.initials,
-      due_date: task.dueDate,
-      order: nextOrder,
-    })
-    .select()
-    .single()
+  const { data: maxOrder } = await repository.getMaxTaskOrder(task.projectId)
 
-  if (taskError) {
-    console.error("Error creating task:", taskError)
-    throw new Error(`Failed to create task: ${taskError.message}`)
-  }
+  const nextOrder = maxOrder !== null ? maxOrder + 1 : 0
 
-  // 如果有标签，处理它们
-  if (task.tags && task.tags.length > 0) {
-    // 首先确保所有标签都存在
-    for (const tagName of task.tags) {
-      // 尝试插入标签，如果已存在则忽略
-      await supabase.from("tags").upsert({ name: tagName }, { onConflict: "name" })
-    }
+  // 校验状态是否属于项目工作流以及目标列的 WIP 限制，未提供时使用默认状态
+  const statuses = await getProjectStatuses(task.projectId)
+  const status = task.status || getInitialStatus(statuses)
+  await assertStatusChange(task.projectId, statuses, null, status)
+
+  assertTaskDates(task.startDate, task.dueDate)
+  const recurrence = toRecurrence(task.recurrence)
 
-    // 获取标签ID
-    const { data: tagData } = await supabase.from("tags").select("id, name").in("name", task.tags)
+  const taskValues = {
+    project_id: task.projectId,
+    title: task.title,
+    description: task.description || "",
+    status,
+    priority: task.priority || "medium",
+    ...(await resolveParent(task.projectId, task.parentId)),
+    ...(await resolveAssignee(task.projectId, task.assignee)),
+    start_date: task.startDate || null,
+    due_date: task.dueDate,
+    order: nextOrder,
+    recurrence,
+    recurrence_index: recurrence ? 1 : null,
+  }
 
-    if (tagData && tagData.length > 0) {
-      // 创建任务-标签关联
-      const taskTagInserts = tagData.map((tag) => ({
-        task_id: taskData.id,
-        tag_id: tag.id,
-      }))
+  // 任务、标签和自定义字段作为一个整体写入，后续步骤失败时删除刚创建的任务
+  const write = new TaskWriteUnit()
+  const taskData = await write.run(
+    "create task",
+    () => repository.insertTask(taskValues),
+    (created) => repository.deleteTask(created.id),
+  )
 
-      await supabase.from("task_tags").insert(taskTagInserts)
-    }
+  // 如果有标签，处理它们（会自动创建不存在的标签）
+  if (task.tags && task.tags.length > 0) {
+    await write.run("save task tags", () => repository.setTaskTags(taskData.id, task.tags || []))
   }
 
   // 如果有自定义字段，处理它们
   if (task.customFields && Object.keys(task.customFields).length > 0) {
-    const customFieldInserts = Object.entries(task.customFields).map(([fieldId, value]) => ({
-      task_id: taskData.id,
-      field_id: fieldId,
-      value,
-    }))
-
-    await supabase.from("task_custom_field_values").insert(customFieldInserts)
+    await write.run("save custom field values", () =>
+      repository.setCustomFieldValues(taskData.id, task.customFields || {}),
+    )
   }
 
-  // 清除项目任务缓存
-  taskCache.delete(task.projectId)
-  cacheExpiry.delete(`tasks:${task.projectId}`)
+  await recordTaskActivity(
+    [{ taskId: taskData.id, projectId: taskData.project_id, action: "created", changes: [] }],
+    actor,
+  )
+
+  invalidateProjectTasks(task.projectId, "task.created", [taskData.id])
 
   // 返回前端期望格式的任务
   return {
@@ -479,16 +905,22 @@ export async function addTask(task: Omit<Task, "id" | "comments">) {
     description: taskData.description,
     status: taskData.status,
     priority: taskData.priority,
+    parentId: taskData.parent_id || null,
     assignee: taskData.assignee_name
       ? {
+          id: taskData.assignee_id || undefined,
           name: taskData.assignee_name,
           initials: taskData.assignee_initials,
         }
       : undefined,
+    startDate: taskData.start_date || undefined,
     dueDate: taskData.due_date,
     comments: 0,
     tags: task.tags,
     customFields: task.customFields,
+    blockedBy: [],
+    recurrence: taskData.recurrence ?? null,
+    nextOccurrenceId: null,
     created_at: taskData.created_at,
     updated_at: taskData.updated_at,
     order: taskData.order,
@@ -496,8 +928,38 @@ export async function addTask(task: Omit<Task, "id" | "comments">) {
 }
 
 // 更新任务
-export async function updateTask(id: string, taskData: Partial<Task>) {
-  const supabase = createServerSupabaseClient()
+// 传入 options.expectedUpdatedAt 时，只有任务的 updated_at 与之一致才会更新，否则抛出 ConflictError
+export async function updateTask(
+  id: string,
+  taskData: Partial<Task>,
+  actor?: User | null,
+  options: UpdateOptions = {},
+) {
+  const repository = getRepository()
+
+  // 修改前的任务行只读取一次：用于校验、生成变更记录，后续步骤失败时也用于恢复
+  const { data: previousRow, error: previousError } = await repository.getTask(id)
+
+  if (previousError) {
+    console.error(`Error fetching task ${id}:`, previousError)
+    throw new Error(`Failed to fetch task: ${previousError.message}`)
+  }
+
+  // 修改状态时校验目标状态是否属于任务所在项目的工作流
+  if (taskData.status !== undefined) {
+    const statuses = await getProjectStatuses(previousRow.project_id)
+    await assertStatusChange(previousRow.project_id, statuses, previousRow.status, taskData.status)
+  }
+
+  const before = await formatTask(previousRow)
+
+  // 只修改其中一个日期时与另一个已有的日期比较
+  if (taskData.startDate !== undefined || taskData.dueDate !== undefined) {
+    assertTaskDates(
+      taskData.startDate !== undefined ? taskData.startDate : before.startDate,
+      taskData.dueDate !== undefined ? taskData.dueDate : before.dueDate,
+    )
+  }
 
   // 只包含实际提供的字段
   const updateFields: Record<string, any> = {}
@@ -506,129 +968,2484 @@ export async function updateTask(id: string, taskData: Partial<Task>) {
   if (taskData.description !== undefined) updateFields.description = taskData.description
   if (taskData.status !== undefined) updateFields.status = taskData.status
   if (taskData.priority !== undefined) updateFields.priority = taskData.priority
+  if (taskData.startDate !== undefined) updateFields.start_date = taskData.startDate || null
   if (taskData.dueDate !== undefined) updateFields.due_date = taskData.dueDate
-  if (taskData.comments !== undefined) updateFields.comments = taskData.comments
   if (taskData.order !== undefined) updateFields.order = taskData.order
+  if (taskData.recurrence !== undefined) updateFields.recurrence = toRecurrence(taskData.recurrence)
 
-  // 处理 assignee
+  // 处理 assignee（必须是项目成员，null 表示取消分配）
   if (taskData.assignee !== undefined) {
-    updateFields.assignee_name = taskData.assignee?.name
-    updateFields.assignee_initials = taskData.assignee?.initials
+    Object.assign(updateFields, await resolveTaskAssignee(id, taskData.assignee))
   }
 
-  // 只有在有字段要更新时才执行更新
-  let updatedTask
-  if (Object.keys(updateFields).length > 0) {
-    // 更新任务
-    const { data, error } = await supabase.from("tasks").update(updateFields).eq("id", id).select().single()
+  // 处理父任务（必须属于同一项目且不能形成循环，null 表示移为顶层任务）
+  if (taskData.parentId !== undefined) {
+    Object.assign(updateFields, await resolveTaskParent(id, taskData.parentId))
+  }
 
-    if (error) {
+  // 标签和自定义字段存放在关联表中，修改它们同样算作修改任务，需要更新版本
+  const touchesTask =
+    Object.keys(updateFields).length > 0 || taskData.tags !== undefined || taskData.customFields !== undefined
+
+  // 任务行、标签和自定义字段作为一个整体写入，任何一步失败都会恢复已写入的部分
+  const write = new TaskWriteUnit()
+  let updatedTask = previousRow
+
+  // 只有在有字段要更新时才执行更新
+  if (touchesTask) {
+    updateFields.updated_at = new Date().toISOString()
+
+    // 更新任务
+    const { data, error } = await repository.updateTask(id, updateFields, options)
+
+    if (error?.code === "conflict") {
+      throw new ConflictError("The task has been modified by someone else", await getTask(id))
+    }
+
+    if (error) {
       console.error(`Error updating task ${id}:`, error)
       throw new Error(`Failed to update task: ${error.message}`)
     }
 
-    updatedTask = data
-  } else {
-    // 如果没有基本字段要更新，获取当前任务
-    const { data, error } = await supabase.from("tasks").select("*").eq("id", id).single()
+    const previousValues = Object.fromEntries(
+      Object.keys(updateFields).map((key) => [key, previousRow[key as keyof TaskRow] ?? null]),
+    )
+    write.registerUndo("update task", () => repository.updateTask(id, previousValues))
+    updatedTask = data
+  }
+
+  // 替换现有标签关联
+  if (taskData.tags !== undefined) {
+    await write.run(
+      "save task tags",
+      () => repository.setTaskTags(id, taskData.tags || []),
+      () => repository.setTaskTags(id, before.tags || []),
+    )
+  }
+
+  // 替换现有自定义字段值
+  if (taskData.customFields !== undefined) {
+    await write.run(
+      "save custom field values",
+      () => repository.setCustomFieldValues(id, taskData.customFields || {}),
+      () => repository.setCustomFieldValues(id, before.customFields || {}),
+    )
+  }
+
+  if (updatedTask.project_id) {
+    invalidateProjectTasks(updatedTask.project_id, "task.updated", [id])
+  }
+
+  // 完成重复任务时生成下一次任务
+  if (taskData.status !== undefined && updatedTask.recurrence) {
+    const statuses = await getProjectStatuses(updatedTask.project_id)
+    if (isDoneStatus(statuses, taskData.status) && !isDoneStatus(statuses, before.status)) {
+      await createNextOccurrences([id], actor)
+    }
+  }
+
+  // 获取更新后的任务及其所有相关数据
+  const after = await getTask(id)
+  await recordTaskChanges(before, after, actor)
+
+  return after
+}
+
+/**
+ * 为重复任务生成下一次任务，返回新任务的 ID；已经生成过下一次或者规则已经结束时返回 null
+ *
+ * 下一次任务复制标题、描述、优先级、负责人、父任务、标签、自定义字段值和重复规则，状态为工作流的初始状态，
+ * 截止日期按规则顺延（见 lib/task-recurrence.ts），开始日期随之移动相同的天数。新任务由系统生成，不检查 WIP 限制
+ */
+async function createNextOccurrence(taskId: string, actor?: User | null) {
+  const repository = getRepository()
+  const { data: row, error } = await repository.getTask(taskId)
+
+  if (error) {
+    console.error(`Error fetching task ${taskId}:`, error)
+    throw new Error(`Failed to fetch task: ${error.message}`)
+  }
+
+  if (!row.recurrence || row.recurrence_next_id) return null
+
+  const parsed = parseTaskRecurrence(row.recurrence)
+  if (parsed.error !== undefined || !parsed.recurrence) {
+    console.error(`Invalid recurrence on task ${taskId}:`, parsed.error)
+    return null
+  }
+
+  // 没有截止日期时以开始日期为基准，都没有时以今天为基准
+  const today = new Date().toISOString().slice(0, 10)
+  const anchor = (row.due_date || row.start_date || today).slice(0, 10)
+  const next = getNextOccurrence(parsed.recurrence, anchor, row.recurrence_index ?? 1, today)
+  if (!next) return null
+
+  const offset = daysBetween(anchor, next.date)
+  const [statuses, tags, customFields, maxOrder] = await Promise.all([
+    getProjectStatuses(row.project_id),
+    repository.getTaskTags([taskId]),
+    repository.getCustomFieldValues([taskId]),
+    repository.getMaxTaskOrder(row.project_id),
+  ])
+
+  const readError = tags.error || customFields.error || maxOrder.error
+  if (readError) {
+    console.error(`Error reading task ${taskId} for its next occurrence:`, readError)
+    throw new Error(`Failed to read task: ${readError.message}`)
+  }
+
+  // recurrence_source_id 唯一，同时完成和到期（或多个实例同时处理）时只有一个能写入，其余的直接放弃
+  const { data: created, error: insertError } = await repository.insertTask({
+    project_id: row.project_id,
+    title: row.title,
+    description: row.description,
+    status: getInitialStatus(statuses),
+    priority: row.priority,
+    parent_id: row.parent_id ?? null,
+    assignee_id: row.assignee_id ?? null,
+    assignee_name: row.assignee_name ?? null,
+    assignee_initials: row.assignee_initials ?? null,
+    start_date: row.start_date ? shiftDate(row.start_date, offset) : null,
+    due_date: row.due_date || !row.start_date ? next.date : null,
+    order: maxOrder.data !== null ? maxOrder.data + 1 : 0,
+    recurrence: next.recurrence,
+    recurrence_index: next.index,
+    recurrence_next_id: null,
+    recurrence_source_id: taskId,
+  })
+
+  if (insertError?.code === "conflict") return null
+
+  if (insertError) {
+    console.error(`Error creating the next occurrence of task ${taskId}:`, insertError)
+    throw new Error(`Failed to create next occurrence: ${insertError.message}`)
+  }
+
+  const write = new TaskWriteUnit()
+  write.registerUndo("create next occurrence", () => repository.deleteTask(created.id))
+
+  const tagNames = tags.data.map((tag) => tag.name)
+  if (tagNames.length > 0) {
+    await write.run("save task tags", () => repository.setTaskTags(created.id, tagNames))
+  }
+
+  if (customFields.data.length > 0) {
+    await write.run("save custom field values", () =>
+      repository.setCustomFieldValues(
+        created.id,
+        Object.fromEntries(customFields.data.map((item) => [item.field_id, item.value])),
+      ),
+    )
+  }
+
+  await write.run("link next occurrence", () => repository.updateTask(taskId, { recurrence_next_id: created.id }))
+
+  await recordTaskActivity([{ taskId: created.id, projectId: row.project_id, action: "created", changes: [] }], actor)
+
+  invalidateProjectTasks(row.project_id, "task.created", [created.id])
+  invalidateProjectTasks(row.project_id, "task.updated", [taskId])
+
+  return created.id
+}
+
+// 逐个生成下一次任务，返回生成的任务 ID；生成失败只记录错误，不影响已经完成的修改
+async function createNextOccurrences(taskIds: string[], actor?: User | null) {
+  const createdIds: string[] = []
+
+  for (const taskId of taskIds) {
+    try {
+      const createdId = await createNextOccurrence(taskId, actor)
+      if (createdId) createdIds.push(createdId)
+    } catch (error) {
+      console.error(`Error creating the next occurrence of task ${taskId}:`, error)
+    }
+  }
+
+  return createdIds
+}
+
+// 到达截止日期的重复任务生成下一次任务，由系统操作，返回生成的任务 ID。
+// 由定时任务调用（见 app/api/tasks/recurrence/route.ts），读取任务时不会写入
+export async function generateDueOccurrences() {
+  const today = new Date().toISOString().slice(0, 10)
+  const { data, error } = await getRepository().listDueRecurringTasks(today)
+
+  if (error) {
+    console.error("Error fetching due recurring tasks:", error)
+    throw new Error(`Failed to fetch due recurring tasks: ${error.message}`)
+  }
+
+  return createNextOccurrences(data.map((row) => row.id))
+}
+
+// 获取任务的全部后代任务 ID（子任务、子任务的子任务……）
+async function getDescendantTaskIds(id: string) {
+  const repository = getRepository()
+  const descendants: string[] = []
+  const queue = [id]
+
+  while (queue.length > 0) {
+    const parentId = queue.shift() as string
+    const { data, error } = await repository.listSubtasks(parentId)
+
+    if (error) {
+      console.error(`Error fetching subtasks for task ${parentId}:`, error)
+      throw new Error(`Failed to fetch subtasks: ${error.message}`)
+    }
+
+    data.forEach((subtask) => {
+      if (!descendants.includes(subtask.id) && subtask.id !== id) {
+        descendants.push(subtask.id)
+        queue.push(subtask.id)
+      }
+    })
+  }
+
+  return descendants
+}
+
+// 删除任务
+// 默认连同全部子任务一起删除，与 deleteTasks 相同在一次写入中删除；
+// keepSubtasks 为 true 时直接子任务会移到被删除任务的父任务下
+export async function deleteTask(id: string, options: { keepSubtasks?: boolean } = {}) {
+  if (!options.keepSubtasks) {
+    await deleteTasks([id])
+    return { success: true }
+  }
+
+  const repository = getRepository()
+  const { data: task, error: taskError } = await repository.getTask(id)
+
+  if (taskError) {
+    console.error(`Error fetching task ${id}:`, taskError)
+    throw new Error(`Failed to fetch task: ${taskError.message}`)
+  }
+
+  const { data: subtasks, error: subtasksError } = await repository.listSubtasks(id)
+
+  if (subtasksError) {
+    console.error(`Error fetching subtasks for task ${id}:`, subtasksError)
+    throw new Error(`Failed to fetch subtasks: ${subtasksError.message}`)
+  }
+
+  // 移动子任务和删除任务作为一个整体，删除失败时把子任务移回来
+  const write = new TaskWriteUnit()
+  for (const subtask of subtasks) {
+    await write.run(
+      "detach subtask",
+      () => repository.updateTask(subtask.id, { parent_id: task.parent_id || null }),
+      () => repository.updateTask(subtask.id, { parent_id: id }),
+    )
+  }
+
+  await write.run("delete task", () => repository.deleteTask(id))
+
+  invalidateProjectTasks(task.project_id, "task.deleted", [id])
+
+  return { success: true }
+}
+
+// 读取批量操作的任务行，任务必须属于同一个项目
+async function getBatchTaskRows(taskIds: string[]) {
+  const repository = getRepository()
+  const rows: TaskRow[] = []
+
+  for (const id of taskIds) {
+    const { data, error } = await repository.getTask(id)
+
+    if (error) {
+      console.error(`Error fetching task ${id}:`, error)
+      throw new Error(`Failed to fetch task: ${error.message}`)
+    }
+
+    rows.push(data)
+  }
+
+  if (new Set(rows.map((row) => row.project_id)).size > 1) {
+    throw new ValidationError("Tasks must belong to the same project")
+  }
+
+  return rows
+}
+
+// 批量修改任务
+// 先校验全部任务和修改内容，再逐个写入任务行、标签和自定义字段；任何一步失败都会恢复已经写入的全部任务
+export async function updateTasks(taskIds: string[], changes: TaskBatchUpdate, actor?: User | null) {
+  const repository = getRepository()
+  const rows = await getBatchTaskRows(taskIds)
+  const projectId = rows[0].project_id
+  const before = await formatTaskRows(projectId, rows)
+
+  const updateFields: Partial<TaskRow> = {}
+
+  if (changes.status !== undefined) {
+    await assertBatchStatusChange(projectId, before, changes.status)
+    updateFields.status = changes.status
+  }
+
+  if (changes.priority !== undefined) updateFields.priority = changes.priority
+
+  if (changes.dueDate !== undefined) {
+    before.forEach((task) => assertTaskDates(task.startDate, changes.dueDate))
+    updateFields.due_date = changes.dueDate
+  }
+
+  if (changes.assignee !== undefined) {
+    Object.assign(updateFields, await resolveAssignee(projectId, changes.assignee))
+  }
+
+  if (changes.customFields !== undefined) {
+    const fields: CustomField[] = await getProjectCustomFields(projectId)
+    const unknownId = Object.keys(changes.customFields).find((id) => !fields.some((field) => field.id === id))
+    if (unknownId) {
+      throw new ValidationError(`Custom field ${unknownId} does not belong to this project`)
+    }
+  }
+
+  const write = new TaskWriteUnit()
+  const updatedAt = new Date().toISOString()
+
+  for (const [index, task] of before.entries()) {
+    const removeTags = changes.removeTags || []
+    const tags = [
+      ...new Set([...(task.tags || []).filter((tag) => !removeTags.includes(tag)), ...(changes.addTags || [])]),
+    ]
+    const tagsChanged = !isSameValue([...tags].sort(), [...(task.tags || [])].sort())
+
+    // 标签和自定义字段的修改同样需要更新任务版本
+    const fields = { ...updateFields, updated_at: updatedAt }
+    const previousValues = Object.fromEntries(
+      Object.keys(fields).map((key) => [key, rows[index][key as keyof TaskRow] ?? null]),
+    )
+    await write.run(
+      "update task",
+      () => repository.updateTask(task.id, fields),
+      () => repository.updateTask(task.id, previousValues),
+    )
+
+    if (tagsChanged) {
+      await write.run(
+        "save task tags",
+        () => repository.setTaskTags(task.id, tags),
+        () => repository.setTaskTags(task.id, task.tags || []),
+      )
+    }
+
+    if (changes.customFields !== undefined) {
+      const customFields = { ...task.customFields, ...changes.customFields }
+      await write.run(
+        "save custom field values",
+        () => repository.setCustomFieldValues(task.id, customFields),
+        () => repository.setCustomFieldValues(task.id, task.customFields || {}),
+      )
+    }
+  }
+
+  invalidateProjectTasks(projectId, "task.updated", taskIds)
+
+  if (changes.status !== undefined) {
+    const statuses = await getProjectStatuses(projectId)
+    if (isDoneStatus(statuses, changes.status)) {
+      await createNextOccurrences(
+        before.filter((task) => task.recurrence && !isDoneStatus(statuses, task.status)).map((task) => task.id),
+        actor,
+      )
+    }
+  }
+
+  const after = await formatTaskRows(projectId, await getBatchTaskRows(taskIds))
+  await recordTaskActivity(
+    after.flatMap((task, index) => {
+      const taskChanges = diffTask(before[index], task)
+      return taskChanges.length > 0
+        ? [{ taskId: task.id, projectId, action: "updated" as const, changes: taskChanges }]
+        : []
+    }),
+    actor,
+  )
+
+  return after
+}
+
+// 批量删除任务，子任务一起删除；返回实际删除的全部任务 ID
+// 删除无法撤销，因此先确认全部任务都存在并且属于同一个项目、收集全部后代，再在一次写入中删除
+export async function deleteTasks(taskIds: string[]) {
+  const repository = getRepository()
+
+  const rows = await getBatchTaskRows(taskIds)
+  const removedIds = new Set<string>()
+
+  for (const row of rows) {
+    // 已作为其他被删除任务的后代收集
+    if (removedIds.has(row.id)) continue
+
+    ;[row.id, ...(await getDescendantTaskIds(row.id))].forEach((removedId) => removedIds.add(removedId))
+  }
+
+  const { error } = await repository.deleteTasks([...removedIds])
+
+  if (error) {
+    console.error("Error deleting tasks:", error)
+    throw new Error(`Failed to delete tasks: ${error.message}`)
+  }
+
+  invalidateProjectTasks(rows[0].project_id, "task.deleted", [...removedIds])
+
+  return [...removedIds]
+}
+
+// 移动或复制任务前的准备：选中的任务连同全部子任务（父任务排在子任务之前），以及它们放进目标项目时的字段值
+// 目标项目没有的状态改为目标项目的初始状态（不受流转规则和 WIP 上限限制），负责人不是目标项目成员时取消分配，
+// 任务排在目标项目末尾；自定义字段按名称和类型映射到目标项目的字段，无法映射的值放在 unmapped 中
+async function prepareTaskTransfer(taskIds: string[], targetProjectId: string) {
+  const repository = getRepository()
+  const sourceProjectId = (await getBatchTaskRows(taskIds))[0].project_id
+
+  const [source, target] = await Promise.all([
+    repository.getProject(sourceProjectId),
+    repository.getProject(targetProjectId),
+  ])
+
+  if (source.error || target.error) {
+    const error = source.error || target.error
+    console.error("Error fetching projects for task transfer:", error)
+    throw new Error(`Failed to fetch project: ${error?.message}`)
+  }
+
+  const ids = new Set(taskIds)
+  for (const id of taskIds) {
+    ;(await getDescendantTaskIds(id)).forEach((descendantId) => ids.add(descendantId))
+  }
+
+  const unsortedRows = await getBatchTaskRows([...ids])
+  const rowsById = new Map(unsortedRows.map((row) => [row.id, row]))
+  const getDepth = (row: TaskRow) => {
+    let depth = 0
+    for (let parentId = row.parent_id; parentId && rowsById.has(parentId); depth++) {
+      parentId = rowsById.get(parentId)?.parent_id
+    }
+    return depth
+  }
+  const rows = [...unsortedRows].sort((a, b) => getDepth(a) - getDepth(b))
+
+  const [tasks, statuses, members, sourceFields, targetFields, dependencies, maxOrder] = await Promise.all([
+    formatTaskRows(sourceProjectId, rows),
+    getProjectStatuses(targetProjectId),
+    getProjectMembers(targetProjectId),
+    getProjectCustomFields(sourceProjectId),
+    getProjectCustomFields(targetProjectId),
+    listProjectDependencies(sourceProjectId),
+    repository.getMaxTaskOrder(targetProjectId),
+  ])
+
+  if (maxOrder.error) {
+    console.error(`Error fetching max task order for project ${targetProjectId}:`, maxOrder.error)
+    throw new Error(`Failed to fetch task order: ${maxOrder.error.message}`)
+  }
+
+  const initialStatus = getInitialStatus(statuses)
+  const memberIds = new Set(members.map((member) => member.user.id))
+  const firstOrder = maxOrder.data !== null ? maxOrder.data + 1 : 0
+  const unmapped: UnmappedFieldValue[] = []
+
+  const targets = rows.map((row, index) => {
+    const mapping = mapCustomFieldValues(tasks[index].customFields || {}, sourceFields, targetFields)
+    mapping.unmapped.forEach((item) => unmapped.push({ taskId: row.id, taskTitle: row.title, ...item }))
+
+    const fields: Partial<TaskRow> = {
+      status: statuses.some((status) => status.key === row.status) ? row.status : initialStatus,
+      order: firstOrder + index,
+      // 旧数据只有负责人名字，保持原值
+      ...(row.assignee_id && !memberIds.has(row.assignee_id)
+        ? { assignee_id: null, assignee_name: null, assignee_initials: null }
+        : {}),
+    }
+
+    return { fields, customFields: mapping.values }
+  })
+
+  return {
+    sourceProjectId,
+    sourceTitle: source.data.title,
+    targetTitle: target.data.title,
+    ids,
+    rows,
+    tasks,
+    targets,
+    dependencies: dependencies.filter((dependency) => ids.has(dependency.blocker_id) || ids.has(dependency.blocked_id)),
+    unmapped,
+  }
+}
+
+// 把任务连同子任务移到另一个项目，字段的处理见 prepareTaskTransfer
+// 父任务没有一起移动时移为顶层任务；只保留两端都被移动的依赖关系
+export async function moveTasks(taskIds: string[], targetProjectId: string, actor?: User | null) {
+  const repository = getRepository()
+  const transfer = await prepareTaskTransfer(taskIds, targetProjectId)
+  const { sourceProjectId, ids } = transfer
+
+  if (sourceProjectId === targetProjectId) {
+    throw new ValidationError("The tasks are already in this project")
+  }
+
+  const write = new TaskWriteUnit()
+  const updatedAt = new Date().toISOString()
+
+  for (const [index, row] of transfer.rows.entries()) {
+    const { fields: targetFields, customFields } = transfer.targets[index]
+    const fields: Partial<TaskRow> = {
+      ...targetFields,
+      project_id: targetProjectId,
+      parent_id: row.parent_id && ids.has(row.parent_id) ? row.parent_id : null,
+      updated_at: updatedAt,
+    }
+    const previousValues = Object.fromEntries(
+      Object.keys(fields).map((key) => [key, row[key as keyof TaskRow] ?? null]),
+    )
+
+    await write.run(
+      "move task",
+      () => repository.updateTask(row.id, fields),
+      () => repository.updateTask(row.id, previousValues),
+    )
+
+    // 原项目的字段 ID 在目标项目中没有意义，换成映射后的字段
+    const previousCustomFields = transfer.tasks[index].customFields || {}
+    if (Object.keys(previousCustomFields).length > 0 || Object.keys(customFields).length > 0) {
+      await write.run(
+        "map custom field values",
+        () => repository.setCustomFieldValues(row.id, customFields),
+        () => repository.setCustomFieldValues(row.id, previousCustomFields),
+      )
+    }
+  }
+
+  for (const dependency of transfer.dependencies) {
+    const { project_id, blocker_id, blocked_id } = dependency
+    await write.run(
+      "remove task dependency",
+      () => repository.deleteDependency(dependency.id),
+      () => repository.insertDependency({ project_id, blocker_id, blocked_id }),
+    )
+
+    if (ids.has(blocker_id) && ids.has(blocked_id)) {
+      await write.run(
+        "move task dependency",
+        () => repository.insertDependency({ project_id: targetProjectId, blocker_id, blocked_id }),
+        (inserted) => repository.deleteDependency(inserted.id),
+      )
+    }
+  }
+
+  // 之前的变更记录跟着任务移动到目标项目
+  await write.run(
+    "move task activity",
+    () => repository.moveActivity([...ids], targetProjectId),
+    () => repository.moveActivity([...ids], sourceProjectId),
+  )
+
+  invalidateProjectTasks(sourceProjectId, "task.deleted", [...ids])
+  invalidateProjectTasks(targetProjectId, "task.created", [...ids])
+
+  const after = await formatTaskRows(targetProjectId, await getBatchTaskRows([...ids]))
+  await recordTaskActivity(
+    after.map((task) => ({
+      taskId: task.id,
+      projectId: targetProjectId,
+      action: "updated" as const,
+      changes: [{ field: "project", from: transfer.sourceTitle, to: transfer.targetTitle }],
+    })),
+    actor,
+  )
+
+  return { tasks: after, removedIds: [...ids], unmapped: transfer.unmapped }
+}
+
+// 把任务连同子任务复制到指定项目（可以是任务所在的项目），字段的处理见 prepareTaskTransfer
+// 复制标签和映射后的自定义字段，不复制评论和变更记录；父任务没有一起复制时，复制到同一项目的任务保留原父任务，
+// 复制到其他项目的任务作为顶层任务；只复制两端都被复制的依赖关系
+export async function copyTasks(taskIds: string[], targetProjectId: string, actor?: User | null) {
+  const repository = getRepository()
+  const transfer = await prepareTaskTransfer(taskIds, targetProjectId)
+  const sameProject = transfer.sourceProjectId === targetProjectId
+
+  const write = new TaskWriteUnit()
+  const copiedIds = new Map<string, string>()
+
+  for (const [index, row] of transfer.rows.entries()) {
+    const task = transfer.tasks[index]
+    const { fields, customFields } = transfer.targets[index]
+    const parentId = row.parent_id ? copiedIds.get(row.parent_id) || (sameProject ? row.parent_id : null) : null
+
+    const created = await write.run(
+      "copy task",
+      () =>
+        repository.insertTask({
+          project_id: targetProjectId,
+          title: row.title,
+          description: row.description,
+          status: row.status,
+          priority: row.priority,
+          parent_id: parentId,
+          assignee_id: row.assignee_id ?? null,
+          assignee_name: row.assignee_name ?? null,
+          assignee_initials: row.assignee_initials ?? null,
+          start_date: row.start_date ?? null,
+          due_date: row.due_date ?? null,
+          order: row.order,
+          // 副本是一组新的重复任务；已经生成过下一次的旧任务不再重复
+          recurrence: row.recurrence_next_id ? null : (row.recurrence ?? null),
+          recurrence_index: row.recurrence && !row.recurrence_next_id ? 1 : null,
+          ...fields,
+        }),
+      (created) => repository.deleteTask(created.id),
+    )
+    copiedIds.set(row.id, created.id)
+
+    if (task.tags && task.tags.length > 0) {
+      await write.run("save task tags", () => repository.setTaskTags(created.id, task.tags || []))
+    }
+
+    if (Object.keys(customFields).length > 0) {
+      await write.run("save custom field values", () => repository.setCustomFieldValues(created.id, customFields))
+    }
+  }
+
+  for (const { blocker_id, blocked_id } of transfer.dependencies) {
+    const blockerId = copiedIds.get(blocker_id)
+    const blockedId = copiedIds.get(blocked_id)
+    if (!blockerId || !blockedId) continue
+
+    await write.run(
+      "copy task dependency",
+      () => repository.insertDependency({ project_id: targetProjectId, blocker_id: blockerId, blocked_id: blockedId }),
+      (inserted) => repository.deleteDependency(inserted.id),
+    )
+  }
+
+  const newIds = [...copiedIds.values()]
+  invalidateProjectTasks(targetProjectId, "task.created", newIds)
+
+  const after = await formatTaskRows(targetProjectId, await getBatchTaskRows(newIds))
+  await recordTaskActivity(
+    after.map((task) => ({ taskId: task.id, projectId: targetProjectId, action: "created" as const, changes: [] })),
+    actor,
+  )
+
+  return { tasks: after, removedIds: [], unmapped: transfer.unmapped }
+}
+
+function formatStatus(status: StatusRow): WorkflowStatus {
+  return {
+    id: status.id,
+    projectId: status.project_id,
+    key: status.key,
+    name: status.name,
+    color: status.color,
+    category: status.category as WorkflowStatusCategory,
+    order: status.order,
+    wipLimit: status.wip_limit ?? null,
+    allowedTransitions: status.allowed_transitions ?? null,
+  }
+}
+
+// 按工作流规则校验状态变更（流转规则和 WIP 限制）
+async function assertStatusChange(projectId: string, statuses: WorkflowStatus[], from: string | null, to: string) {
+  if (from === to) return
+
+  const { data: targetCount, error } = await getRepository().countTasks(projectId, to)
+
+  if (error) {
+    console.error(`Error counting tasks in status ${to}:`, error)
+    throw new Error(`Failed to count tasks: ${error.message}`)
+  }
+
+  const reason = checkStatusChange(statuses, from, to, targetCount)
+  if (reason) {
+    throw new ValidationError(reason)
+  }
+}
+
+// 批量修改状态时逐个按流转规则校验，WIP 上限按当前数量加上本次已移入目标状态的任务计算
+async function assertBatchStatusChange(projectId: string, tasks: Task[], to: string) {
+  const statuses = await getProjectStatuses(projectId)
+
+  if (!statuses.some((status) => status.key === to)) {
+    throw new ValidationError(`Invalid status "${to}" for this project`)
+  }
+
+  const { data: targetCount, error } = await getRepository().countTasks(projectId, to)
+
+  if (error) {
+    console.error(`Error counting tasks in status ${to}:`, error)
+    throw new Error(`Failed to count tasks: ${error.message}`)
+  }
+
+  let incoming = 0
+  for (const task of tasks) {
+    if (task.status === to) continue
+
+    const reason = checkStatusChange(statuses, task.status, to, targetCount + incoming)
+    if (reason) {
+      throw new ValidationError(`"${task.title}": ${reason}`)
+    }
+    incoming += 1
+  }
+}
+
+// 获取项目工作流状态（未配置时返回默认状态）
+export async function getProjectStatuses(projectId: string): Promise<WorkflowStatus[]> {
+  const repository = getRepository()
+  const cacheKey = `statuses:${projectId}`
+
+  // 检查缓存是否有效
+  if (!isCacheExpired(cacheKey)) {
+    const cachedStatuses = projectCache.get(cacheKey)
+    if (cachedStatuses) {
+      return cachedStatuses
+    }
+  }
+
+  const { data, error } = await repository.listStatuses(projectId)
+
+  if (error) {
+    console.error(`Error fetching statuses for project ${projectId}:`, error)
+    throw new Error(`Failed to fetch statuses: ${error.message}`)
+  }
+
+  const statuses = data.length > 0 ? data.map(formatStatus) : getDefaultStatuses(projectId)
+
+  // 存入缓存
+  projectCache.put(cacheKey, statuses)
+  setCacheExpiry(cacheKey)
+
+  return statuses
+}
+
+// 根据名称生成状态 key，无法生成时使用随机值
+function toStatusKey(name: string) {
+  const key = name
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^a-z0-9-]/g, "")
+  return key || `status-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// 更新项目工作流状态（按传入顺序保存）
+export async function updateProjectStatuses(
+  projectId: string,
+  statuses: Array<
+    Pick<WorkflowStatus, "name" | "color" | "category" | "wipLimit" | "allowedTransitions"> & { key?: string }
+  >,
+) {
+  const repository = getRepository()
+
+  if (!statuses || statuses.length === 0) {
+    throw new ValidationError("At least one status is required")
+  }
+
+  const categories: WorkflowStatusCategory[] = ["not-started", "active", "done"]
+  const usedKeys = new Set<string>()
+
+  const values = statuses.map((status, index) => {
+    if (!status.name?.trim()) {
+      throw new ValidationError("Status name is required")
+    }
+
+    if (!categories.includes(status.category)) {
+      throw new ValidationError(`Invalid status category "${status.category}"`)
+    }
+
+    if (status.wipLimit != null && (!Number.isInteger(status.wipLimit) || status.wipLimit < 1)) {
+      throw new ValidationError(`WIP limit of "${status.name}" must be a positive integer`)
+    }
+
+    // 保证 key 在项目内唯一
+    const baseKey = status.key || toStatusKey(status.name)
+    let key = baseKey
+    for (let suffix = 2; usedKeys.has(key); suffix++) {
+      key = `${baseKey}-${suffix}`
+    }
+    usedKeys.add(key)
+
+    return {
+      key,
+      name: status.name.trim(),
+      color: status.color || "#6b7280",
+      category: status.category,
+      order: index,
+      wip_limit: status.wipLimit ?? null,
+      allowed_transitions: status.allowedTransitions ?? null,
+    }
+  })
+
+  // 忽略指向不存在状态的流转规则
+  values.forEach((value) => {
+    value.allowed_transitions = value.allowed_transitions?.filter((key) => usedKeys.has(key)) ?? null
+  })
+
+  // 仍有任务使用的状态不能删除
+  for (const previous of await getProjectStatuses(projectId)) {
+    if (usedKeys.has(previous.key)) continue
+
+    const { data: count } = await repository.countTasks(projectId, previous.key)
+    if (count) {
+      throw new ValidationError(`Cannot remove status "${previous.name}": ${count} task(s) still use it`)
+    }
+  }
+
+  const { data, error } = await repository.replaceStatuses(projectId, values)
+
+  if (error) {
+    console.error(`Error updating statuses for project ${projectId}:`, error)
+    throw new Error(`Failed to update statuses: ${error.message}`)
+  }
+
+  // 清除项目状态缓存
+  projectCache.delete(`statuses:${projectId}`)
+  cacheExpiry.delete(`statuses:${projectId}`)
+
+  return data.map(formatStatus)
+}
+
+// 清除评论所属任务的项目缓存（评论数会随之变化）
+async function invalidateCommentTask(taskId: string) {
+  const { data: task } = await getRepository().getTask(taskId)
+
+  if (task?.project_id) {
+    invalidateProjectTasks(task.project_id, "task.updated", [taskId])
+  }
+}
+
+function formatComment(comment: CommentRow): TaskComment {
+  return {
+    id: comment.id,
+    taskId: comment.task_id,
+    parentId: comment.parent_id,
+    author: {
+      id: comment.author_id ?? null,
+      name: comment.author_name,
+      initials: comment.author_initials,
+    },
+    body: comment.body,
+    created_at: comment.created_at,
+    updated_at: comment.updated_at,
+  }
+}
+
+// 获取任务评论（顶层评论按时间排序，回复挂在 replies 下）
+export async function getTaskComments(taskId: string) {
+  const repository = getRepository()
+
+  const { data, error } = await repository.listComments(taskId)
+
+  if (error) {
+    console.error(`Error fetching comments for task ${taskId}:`, error)
+    throw new Error(`Failed to fetch comments: ${error.message}`)
+  }
+
+  const threads: TaskComment[] = []
+  const threadMap = new Map<string, TaskComment>()
+
+  data.forEach((row) => {
+    if (!row.parent_id) {
+      const comment = { ...formatComment(row), replies: [] }
+      threads.push(comment)
+      threadMap.set(comment.id, comment)
+    }
+  })
+
+  data.forEach((row) => {
+    if (row.parent_id) {
+      threadMap.get(row.parent_id)?.replies?.push(formatComment(row))
+    }
+  })
+
+  return threads
+}
+
+// 评论正文按白名单清理（见 lib/rich-text.ts），清理后没有内容时拒绝保存
+function sanitizeCommentBody(body: string) {
+  const sanitized = sanitizeRichText(body)
+
+  if (isEmptyRichText(sanitized)) {
+    throw new ValidationError("Comment body is required")
+  }
+
+  return sanitized
+}
+
+// 添加评论（回复的回复会挂到同一个顶层评论下）
+export async function addTaskComment(
+  taskId: string,
+  comment: { author: TaskComment["author"]; body: string; parentId?: string | null },
+) {
+  const repository = getRepository()
+  const body = sanitizeCommentBody(comment.body)
+
+  let parentId: string | null = null
+  if (comment.parentId) {
+    const { data: parent, error: parentError } = await repository.getComment(comment.parentId)
+
+    if (parentError || parent.task_id !== taskId) {
+      throw new ValidationError(`Parent comment ${comment.parentId} not found`)
+    }
+
+    parentId = parent.parent_id || parent.id
+  }
+
+  const { data, error } = await repository.insertComment({
+    task_id: taskId,
+    parent_id: parentId,
+    author_id: comment.author.id,
+    author_name: comment.author.name,
+    author_initials: comment.author.initials,
+    body,
+  })
+
+  if (error) {
+    console.error(`Error creating comment for task ${taskId}:`, error)
+    throw new Error(`Failed to create comment: ${error.message}`)
+  }
+
+  await invalidateCommentTask(taskId)
+
+  return formatComment(data)
+}
+
+// 更新评论内容
+export async function updateTaskComment(id: string, body: string) {
+  const repository = getRepository()
+
+  const { data, error } = await repository.updateComment(id, {
+    body: sanitizeCommentBody(body),
+    updated_at: new Date().toISOString(),
+  })
+
+  if (error) {
+    console.error(`Error updating comment ${id}:`, error)
+    throw new Error(`Failed to update comment: ${error.message}`)
+  }
+
+  return formatComment(data)
+}
+
+// 删除评论（顶层评论的回复会一起删除）
+export async function deleteTaskComment(id: string) {
+  const repository = getRepository()
+
+  // 首先获取任务ID以便稍后清除缓存
+  const { data: comment } = await repository.getComment(id)
+  const taskId = comment?.task_id
+
+  const { error } = await repository.deleteComment(id)
+
+  if (error) {
+    console.error(`Error deleting comment ${id}:`, error)
+    throw new Error(`Failed to delete comment: ${error.message}`)
+  }
+
+  if (taskId) {
+    await invalidateCommentTask(taskId)
+  }
+
+  return { success: true }
+}
+
+type TaskActivityEntry = {
+  taskId: string
+  projectId: string
+  action: TaskActivity["action"]
+  changes: TaskActivityChange[]
+}
+
+// getTask 或 API 返回的前端格式任务
+type TaskSnapshot = Record<string, any>
+
+// 变更记录中比较的任务字段（自定义字段单独按字段 ID 比较）
+const TRACKED_TASK_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "parentId",
+  "assignee",
+  "startDate",
+  "dueDate",
+  "tags",
+  "order",
+  "recurrence",
+] as const
+
+// 转换为便于比较和保存的值：assignee 只保留名字，标签按名称排序，空值统一为 null
+function toActivityValue(field: string, value: any) {
+  if (value === undefined || value === null || value === "") return null
+  if (field === "assignee") return value.name || null
+  if (field === "tags") return value.length > 0 ? [...value].sort() : null
+  if (field === "recurrence") return describeRecurrence(value)
+  return value
+}
+
+function isSameValue(a: any, b: any) {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// 比较修改前后的任务，返回字段级变更
+function diffTask(before: TaskSnapshot, after: TaskSnapshot): TaskActivityChange[] {
+  const changes: TaskActivityChange[] = []
+
+  TRACKED_TASK_FIELDS.forEach((field) => {
+    const from = toActivityValue(field, before[field])
+    const to = toActivityValue(field, after[field])
+    if (!isSameValue(from, to)) {
+      changes.push({ field, from, to })
+    }
+  })
+
+  const beforeFields = before.customFields || {}
+  const afterFields = after.customFields || {}
+  new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]).forEach((fieldId) => {
+    const from = toActivityValue(fieldId, beforeFields[fieldId])
+    const to = toActivityValue(fieldId, afterFields[fieldId])
+    if (!isSameValue(from, to)) {
+      changes.push({ field: `customFields.${fieldId}`, from, to })
+    }
+  })
+
+  return changes
+}
+
+// 写入变更记录，actor 为空时表示由系统操作
+async function recordTaskActivity(entries: TaskActivityEntry[], actor?: User | null) {
+  if (entries.length === 0) return
+
+  const { error } = await getRepository().insertActivity(
+    entries.map((entry) => ({
+      task_id: entry.taskId,
+      project_id: entry.projectId,
+      actor_id: actor?.id || null,
+      actor_name: actor?.name || null,
+      action: entry.action,
+      changes: entry.changes,
+    })),
+  )
+
+  if (error) {
+    console.error("Error recording task activity:", error)
+    throw new Error(`Failed to record task activity: ${error.message}`)
+  }
+}
+
+// 记录一次任务修改，没有字段变化时不写入
+export async function recordTaskChanges(
+  before: TaskSnapshot & { id: string; projectId: string },
+  after: TaskSnapshot,
+  actor?: User | null,
+) {
+  const changes = diffTask(before, after)
+  if (changes.length === 0) return
+
+  await recordTaskActivity([{ taskId: before.id, projectId: before.projectId, action: "updated", changes }], actor)
+}
+
+function formatActivity(activity: ActivityRow): TaskActivity {
+  return {
+    id: activity.id,
+    taskId: activity.task_id,
+    action: activity.action as TaskActivity["action"],
+    actor: activity.actor_id ? { id: activity.actor_id, name: activity.actor_name || "" } : null,
+    changes: activity.changes || [],
+    created_at: activity.created_at,
+  }
+}
+
+// 获取任务的变更记录（最新的在前）
+export async function getTaskActivity(taskId: string) {
+  const { data, error } = await getRepository().listActivity(taskId)
+
+  if (error) {
+    console.error(`Error fetching activity for task ${taskId}:`, error)
+    throw new Error(`Failed to fetch task activity: ${error.message}`)
+  }
+
+  return data.map(formatActivity)
+}
+
+function formatDependency(dependency: DependencyRow): TaskDependency {
+  return {
+    id: dependency.id,
+    projectId: dependency.project_id,
+    blockerId: dependency.blocker_id,
+    blockedId: dependency.blocked_id,
+    created_at: dependency.created_at,
+  }
+}
+
+async function listProjectDependencies(projectId: string) {
+  const { data, error } = await getRepository().listDependencies(projectId)
+
+  if (error) {
+    console.error(`Error fetching dependencies for project ${projectId}:`, error)
+    throw new Error(`Failed to fetch task dependencies: ${error.message}`)
+  }
+
+  return data
+}
+
+// 按被阻塞的任务分组，得到每个任务的前置任务 ID
+function groupBlockers(dependencies: DependencyRow[]) {
+  const blockers: Record<string, string[]> = {}
+  dependencies.forEach((dependency) => {
+    if (!blockers[dependency.blocked_id]) {
+      blockers[dependency.blocked_id] = []
+    }
+    blockers[dependency.blocked_id].push(dependency.blocker_id)
+  })
+  return blockers
+}
+
+// 判断从 fromId 沿 "阻塞" 方向能否到达 toId
+function isReachable(dependencies: DependencyRow[], fromId: string, toId: string) {
+  const visited = new Set<string>()
+  const queue = [fromId]
+
+  while (queue.length > 0) {
+    const current = queue.shift() as string
+    if (current === toId) return true
+    if (visited.has(current)) continue
+    visited.add(current)
+
+    dependencies.forEach((dependency) => {
+      if (dependency.blocker_id === current) queue.push(dependency.blocked_id)
+    })
+  }
+
+  return false
+}
+
+// 获取任务的依赖关系：blockedBy 为阻塞该任务的任务，blocks 为被该任务阻塞的任务
+export async function getTaskDependencies(taskId: string) {
+  const { data: task, error } = await getRepository().getTask(taskId)
+
+  if (error) {
+    console.error(`Error fetching task ${taskId}:`, error)
+    throw new Error(`Failed to fetch task: ${error.message}`)
+  }
+
+  const [dependencies, tasks] = await Promise.all([
+    listProjectDependencies(task.project_id),
+    getProjectTasks(task.project_id) as Promise<Task[]>,
+  ])
+  const taskMap = new Map(tasks.map((item) => [item.id, item]))
+
+  const toLinks = (items: DependencyRow[], getOtherId: (dependency: DependencyRow) => string) =>
+    items
+      .filter((dependency) => taskMap.has(getOtherId(dependency)))
+      .map((dependency) => ({ ...formatDependency(dependency), task: taskMap.get(getOtherId(dependency)) as Task }))
+
+  return {
+    blockedBy: toLinks(
+      dependencies.filter((dependency) => dependency.blocked_id === taskId),
+      (dependency) => dependency.blocker_id,
+    ),
+    blocks: toLinks(
+      dependencies.filter((dependency) => dependency.blocker_id === taskId),
+      (dependency) => dependency.blocked_id,
+    ),
+  }
+}
+
+// 记录被阻塞任务的前置任务变化
+async function recordBlockersChange(blocked: TaskRow, before: string[], after: string[], actor?: User | null) {
+  const titles = new Map<string, string>()
+  for (const blockerId of new Set([...before, ...after])) {
+    const { data } = await getRepository().getTask(blockerId)
+    titles.set(blockerId, data?.title || blockerId)
+  }
+
+  const toTitles = (ids: string[]) => (ids.length > 0 ? ids.map((id) => titles.get(id)).sort() : null)
+
+  await recordTaskActivity(
+    [
+      {
+        taskId: blocked.id,
+        projectId: blocked.project_id,
+        action: "updated",
+        changes: [{ field: "blockedBy", from: toTitles(before), to: toTitles(after) }],
+      },
+    ],
+    actor,
+  )
+}
+
+// 添加依赖：blocker 阻塞 blocked。两个任务必须属于同一项目，且不能形成循环
+export async function addTaskDependency(blockerId: string, blockedId: string, actor?: User | null) {
+  const repository = getRepository()
+
+  if (blockerId === blockedId) {
+    throw new ValidationError("A task cannot block itself")
+  }
+
+  const [{ data: blocker }, { data: blocked }] = await Promise.all([
+    repository.getTask(blockerId),
+    repository.getTask(blockedId),
+  ])
+
+  if (!blocker || !blocked) {
+    throw new ValidationError("Task not found")
+  }
+
+  if (blocker.project_id !== blocked.project_id) {
+    throw new ValidationError("Dependencies must link tasks in the same project")
+  }
+
+  const dependencies = await listProjectDependencies(blocker.project_id)
+
+  if (dependencies.some((dependency) => dependency.blocker_id === blockerId && dependency.blocked_id === blockedId)) {
+    throw new ValidationError(`"${blocker.title}" already blocks "${blocked.title}"`)
+  }
+
+  // blocked 已经（直接或间接）阻塞 blocker 时，新依赖会形成循环
+  if (isReachable(dependencies, blockedId, blockerId)) {
+    throw new ValidationError(`"${blocked.title}" already blocks "${blocker.title}", this would create a cycle`)
+  }
+
+  const { data, error } = await repository.insertDependency({
+    project_id: blocker.project_id,
+    blocker_id: blockerId,
+    blocked_id: blockedId,
+  })
+
+  if (error) {
+    console.error(`Error creating dependency ${blockerId} -> ${blockedId}:`, error)
+    throw new Error(`Failed to create task dependency: ${error.message}`)
+  }
+
+  const before = groupBlockers(dependencies)[blockedId] || []
+  await recordBlockersChange(blocked, before, [...before, blockerId], actor)
+
+  invalidateProjectTasks(blocker.project_id, "task.updated", [blockedId])
+
+  return formatDependency(data)
+}
+
+// 删除依赖，dependencyId 必须与 taskId 相关
+export async function removeTaskDependency(taskId: string, dependencyId: string, actor?: User | null) {
+  const repository = getRepository()
+
+  const { data: task, error: taskError } = await repository.getTask(taskId)
+
+  if (taskError) {
+    console.error(`Error fetching task ${taskId}:`, taskError)
+    throw new Error(`Failed to fetch task: ${taskError.message}`)
+  }
+
+  const dependencies = await listProjectDependencies(task.project_id)
+  const dependency = dependencies.find(
+    (item) => item.id === dependencyId && (item.blocker_id === taskId || item.blocked_id === taskId),
+  )
+
+  if (!dependency) {
+    throw new ValidationError("Dependency not found")
+  }
+
+  const { error } = await repository.deleteDependency(dependencyId)
+
+  if (error) {
+    console.error(`Error deleting dependency ${dependencyId}:`, error)
+    throw new Error(`Failed to delete task dependency: ${error.message}`)
+  }
+
+  const before = groupBlockers(dependencies)[dependency.blocked_id] || []
+  const { data: blocked } = await repository.getTask(dependency.blocked_id)
+  if (blocked) {
+    await recordBlockersChange(
+      blocked,
+      before,
+      before.filter((id) => id !== dependency.blocker_id),
+      actor,
+    )
+  }
+
+  invalidateProjectTasks(task.project_id, "task.updated", [dependency.blocked_id])
+
+  return { success: true }
+}
+
+// 导出项目任务为表格行：第一行为表头，每个自定义字段占一列
+export async function getProjectTaskExport(projectId: string) {
+  const [project, tasks, customFields, statuses]: [Project, Task[], CustomField[], WorkflowStatus[]] =
+    await Promise.all([
+      getProject(projectId),
+      getProjectTasks(projectId),
+      getProjectCustomFields(projectId),
+      getProjectStatuses(projectId),
+    ])
+
+  const titles = new Map(tasks.map((task) => [task.id, task.title]))
+  const header = [
+    "ID",
+    "Title",
+    "Description",
+    "Status",
+    "Priority",
+    "Assignee",
+    "Due Date",
+    "Tags",
+    "Parent",
+    "Blocked By",
+    "Created",
+    "Updated",
+    ...customFields.map((field) => field.name),
+  ]
+
+  const rows: CsvCell[][] = tasks.map((task) => [
+    task.id,
+    task.title,
+    richTextToPlain(task.description),
+    getStatusName(statuses, task.status),
+    task.priority,
+    task.assignee?.name || "",
+    task.dueDate ? normalizeCsvDate(task.dueDate) || task.dueDate : "",
+    (task.tags || []).join(", "),
+    task.parentId ? titles.get(task.parentId) || "" : "",
+    (task.blockedBy || [])
+      .map((id) => titles.get(id))
+      .filter(Boolean)
+      .join(", "),
+    task.created_at || "",
+    task.updated_at || "",
+    ...customFields.map((field) => formatCustomFieldCell(field, task.customFields?.[field.id])),
+  ])
+
+  return { project, rows: [header, ...rows] }
+}
+
+const MAX_IMPORT_ROWS = 5000
+const IMPORT_PREVIEW_ROWS = 20
+const SYSTEM_IMPORT_TARGETS = TASK_IMPORT_FIELDS.map((field) => field.target)
+const PRIORITY_ALIASES: Record<string, Task["priority"]> = {
+  low: "low",
+  medium: "medium",
+  high: "high",
+  低: "low",
+  中: "medium",
+  高: "high",
+}
+
+// 按列映射导入 CSV 中的任务；dryRun 时只做校验并返回预览，不写入任何数据
+export async function importProjectTasks(
+  projectId: string,
+  { csv, mapping, dryRun }: { csv: string; mapping: (TaskImportTarget | null)[]; dryRun?: boolean },
+  actor?: User | null,
+): Promise<TaskImportResult> {
+  const [header, ...rows] = parseCsv(csv)
+
+  if (!header) {
+    throw new ValidationError("The CSV file is empty")
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`A single import is limited to ${MAX_IMPORT_ROWS} rows`)
+  }
+
+  const [statuses, members, customFields]: [WorkflowStatus[], ProjectMember[], CustomField[]] = await Promise.all([
+    getProjectStatuses(projectId),
+    getProjectMembers(projectId),
+    getProjectCustomFields(projectId),
+  ])
+  const fieldsById = new Map(customFields.map((field) => [field.id, field]))
+
+  // 校验列映射：目标字段必须存在、不能重复，标题和必填自定义字段必须有对应的列
+  const targets = mapping.filter((target): target is TaskImportTarget => !!target)
+
+  for (const target of targets) {
+    const isKnown = target.startsWith("custom:")
+      ? fieldsById.has(target.slice("custom:".length))
+      : SYSTEM_IMPORT_TARGETS.includes(target)
+    if (!isKnown) {
+      throw new ValidationError(`Unknown import field: ${target}`)
+    }
+  }
+
+  if (new Set(targets).size !== targets.length) {
+    throw new ValidationError("Each field can only be mapped from one column")
+  }
+
+  if (!targets.includes("title")) {
+    throw new ValidationError("A column must be mapped to the task title")
+  }
+
+  const unmappedField = customFields.find((field) => field.isRequired && !targets.includes(`custom:${field.id}`))
+  if (unmappedField) {
+    throw new ValidationError(`A column must be mapped to the required field "${unmappedField.name}"`)
+  }
+
+  const errors: TaskImportError[] = []
+  const prepared: TaskImportResult["preview"] = []
+
+  rows.forEach((cells, index) => {
+    const row = index + 2
+    const rowErrors: TaskImportError[] = []
+    const task: Omit<Task, "id" | "comments"> = {
+      projectId,
+      title: "",
+      description: "",
+      status: "",
+      priority: "medium",
+      tags: [],
+      customFields: {},
+    }
+
+    mapping.forEach((target, column) => {
+      if (!target) return
+
+      const value = readCsvCell(cells[column])
+      const fail = (message: string) => rowErrors.push({ row, column: header[column], message })
+
+      if (target.startsWith("custom:")) {
+        const field = fieldsById.get(target.slice("custom:".length))!
+        const result = coerceCustomFieldValue(field, value)
+        if (result.error !== undefined) fail(result.error)
+        else if (result.value !== null) task.customFields![field.id] = result.value
+        return
+      }
+
+      if (!value) return
+
+      switch (target) {
+        case "title":
+          task.title = value
+          break
+        case "description":
+          task.description = plainToRichText(value)
+          break
+        case "status": {
+          // 状态可以填写 key 或显示名称
+          const lower = value.toLowerCase()
+          const status = statuses.find((s) => s.key.toLowerCase() === lower || s.name.toLowerCase() === lower)
+          if (status) task.status = status.key
+          else fail(`Unknown status "${value}"`)
+          break
+        }
+        case "priority": {
+          const priority = PRIORITY_ALIASES[value.toLowerCase()]
+          if (priority) task.priority = priority
+          else fail(`Priority must be low, medium or high`)
+          break
+        }
+        case "assignee": {
+          // 负责人按成员姓名或邮箱匹配
+          const lower = value.toLowerCase()
+          const member = members.find(
+            (m) => m.user.name.toLowerCase() === lower || m.user.email.toLowerCase() === lower,
+          )
+          if (member) task.assignee = { id: member.user.id, name: member.user.name, initials: member.user.initials }
+          else fail(`"${value}" is not a project member`)
+          break
+        }
+        case "dueDate": {
+          const dueDate = normalizeCsvDate(value)
+          if (dueDate) task.dueDate = dueDate
+          else fail(`"${value}" is not a valid date`)
+          break
+        }
+        case "tags":
+          task.tags = splitCsvList(value)
+          break
+      }
+    })
+
+    if (!task.title) {
+      rowErrors.push({ row, column: header[mapping.indexOf("title")], message: "Title is required" })
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors)
+    } else {
+      prepared.push({ row, task })
+    }
+  })
+
+  let created = 0
+
+  if (!dryRun) {
+    // 逐行创建任务，写入时的校验（如 WIP 限制）失败只跳过该行
+    for (const { row, task } of prepared) {
+      try {
+        await addTask(task, actor)
+        created++
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error
+        errors.push({ row, message: error.message })
+      }
+    }
+
+    errors.sort((a, b) => a.row - b.row)
+  }
+
+  return {
+    dryRun: !!dryRun,
+    total: rows.length,
+    valid: prepared.length,
+    created,
+    errors,
+    preview: prepared.slice(0, IMPORT_PREVIEW_ROWS),
+  }
+}
+
+// 导出项目归档（格式与版本说明见 lib/project-archive.ts）
+export async function exportProjectArchive(projectId: string): Promise<ProjectArchive> {
+  const [project, tasks, customFields, statuses, members]: [
+    Project,
+    Task[],
+    CustomField[],
+    WorkflowStatus[],
+    ProjectMember[],
+  ] = await Promise.all([
+    getProject(projectId),
+    getProjectTasks(projectId),
+    getProjectCustomFields(projectId),
+    getProjectStatuses(projectId),
+    getProjectMembers(projectId),
+  ])
+
+  const emails = new Map(members.map((member) => [member.user.id, member.user.email]))
+
+  return {
+    format: PROJECT_ARCHIVE_FORMAT,
+    version: PROJECT_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      title: project.title,
+      description: project.description || "",
+      status: project.status,
+    },
+    statuses: statuses.map((status) => ({
+      key: status.key,
+      name: status.name,
+      color: status.color,
+      category: status.category,
+      wipLimit: status.wipLimit ?? null,
+      allowedTransitions: status.allowedTransitions ?? null,
+    })),
+    customFields: customFields.map((field) => ({
+      id: field.id,
+      name: field.name,
+      type: field.type,
+      options: field.options || [],
+      isRequired: !!field.isRequired,
+      isMulti: !!field.isMulti,
+    })),
+    tasks: [...tasks]
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      .map((task) => ({
+        id: task.id,
+        title: task.title,
+        description: task.description || "",
+        status: task.status,
+        priority: task.priority,
+        order: task.order ?? 0,
+        parentId: task.parentId || null,
+        blockedBy: task.blockedBy || [],
+        assignee: task.assignee
+          ? { name: task.assignee.name, email: (task.assignee.id && emails.get(task.assignee.id)) || null }
+          : null,
+        startDate: task.startDate || null,
+        dueDate: task.dueDate || null,
+        tags: task.tags || [],
+        customFields: task.customFields || {},
+        // 只有最新的一次保留重复规则，否则导入后每个旧的一次都会再生成下一次
+        recurrence: task.nextOccurrenceId ? null : task.recurrence || null,
+        createdAt: task.created_at || null,
+      })),
+  }
+}
+
+// 从归档创建新项目，导入者成为项目所有者；options.members 中的用户在导入任务前加入新项目，以便恢复负责人
+export async function importProjectArchive(
+  input: unknown,
+  owner: User,
+  options: { members?: { userId: string; role: ProjectRole }[] } = {},
+) {
+  const parsed = parseProjectArchive(input)
+
+  if (parsed.error !== undefined) {
+    throw new ValidationError(parsed.error)
+  }
+
+  const { archive } = parsed
+  const repository = getRepository()
+  const project = await addProject(archive.project, owner.id)
+
+  try {
+    // 先创建不带 WIP 限制的工作流，任务全部导入后再恢复限制
+    await updateProjectStatuses(
+      project.id,
+      archive.statuses.map((status) => ({ ...status, wipLimit: null })),
+    )
+
+    const fieldIds = new Map<string, string>()
+    for (const field of archive.customFields) {
+      const created = await addCustomField({
+        projectId: project.id,
+        name: field.name,
+        type: field.type,
+        options: field.options,
+        isRequired: field.isRequired,
+        isMulti: field.isMulti,
+      })
+      fieldIds.set(field.id, created.id)
+    }
+
+    for (const member of options.members || []) {
+      if (member.userId !== owner.id) await addProjectMember(project.id, member.userId, member.role)
+    }
+
+    const members = await getProjectMembers(project.id)
+    const taskIds = new Map<string, string>()
+
+    // 按原有顺序创建任务，父任务和前置任务在全部任务创建后再关联
+    for (const task of [...archive.tasks].sort((a, b) => a.order - b.order)) {
+      const email = task.assignee?.email?.toLowerCase()
+      const member = email ? members.find((m) => m.user.email === email) : undefined
+
+      const created = await addTask(
+        {
+          projectId: project.id,
+          title: task.title,
+          description: task.description,
+          status: task.status,
+          priority: task.priority,
+          assignee: member ? { id: member.user.id, name: member.user.name, initials: member.user.initials } : null,
+          startDate: task.startDate || undefined,
+          dueDate: task.dueDate || undefined,
+          tags: task.tags,
+          customFields: Object.fromEntries(
+            Object.entries(task.customFields).map(([fieldId, value]) => [fieldIds.get(fieldId)!, value]),
+          ),
+          recurrence: task.recurrence,
+        },
+        owner,
+      )
+      taskIds.set(task.id, created.id)
+    }
+
+    // 归档已校验过引用和循环，这里直接写入关系
+    for (const task of archive.tasks) {
+      const id = taskIds.get(task.id)!
+
+      if (task.parentId) {
+        const { error } = await repository.updateTask(id, { parent_id: taskIds.get(task.parentId) })
+        if (error) throw new Error(`Failed to link subtask: ${error.message}`)
+      }
+
+      for (const blockerId of task.blockedBy) {
+        const { error } = await repository.insertDependency({
+          project_id: project.id,
+          blocker_id: taskIds.get(blockerId)!,
+          blocked_id: id,
+        })
+        if (error) throw new Error(`Failed to create dependency: ${error.message}`)
+      }
+    }
+
+    if (archive.statuses.some((status) => status.wipLimit)) {
+      await updateProjectStatuses(project.id, archive.statuses)
+    }
+  } catch (error) {
+    // 导入失败时删除已创建的部分数据
+    console.error(`Error importing archive into project ${project.id}:`, error)
+    await deleteProject(project.id)
+    throw error
+  }
+
+  taskCache.delete(project.id)
+  cacheExpiry.delete(`tasks:${project.id}`)
+
+  return { ...project, taskCount: archive.tasks.length }
+}
+
+function formatProjectTemplate(row: ProjectTemplateRow): ProjectTemplate {
+  const { content } = parseProjectTemplateContent(row.content)
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    statusCount: content?.statuses.length ?? 0,
+    customFieldCount: content?.customFields.length ?? 0,
+    taskCount: content?.tasks.length ?? 0,
+    createdBy: row.created_by,
+    created_at: row.created_at,
+  }
+}
+
+// 获取用户创建的项目模板
+export async function getUserProjectTemplates(userId: string) {
+  const { data, error } = await getRepository().listProjectTemplates(userId)
+
+  if (error) {
+    console.error(`Error fetching project templates for user ${userId}:`, error)
+    throw new Error(`Failed to fetch project templates: ${error.message}`)
+  }
+
+  return data.map(formatProjectTemplate)
+}
+
+// 获取模板，不存在时返回 null
+export async function getProjectTemplate(id: string) {
+  const { data } = await getRepository().getProjectTemplate(id)
+  return data ? formatProjectTemplate(data) : null
+}
+
+// 把项目保存为模板：工作流状态、自定义字段和全部任务（不包括负责人），任务日期换算为相对项目创建日期的天数
+export async function saveProjectAsTemplate(
+  projectId: string,
+  template: { name: unknown; description?: unknown },
+  userId: string,
+) {
+  const name = typeof template.name === "string" ? template.name.trim() : ""
+  if (!name) {
+    throw new ValidationError("Template name is required")
+  }
+  if (name.length > MAX_TEMPLATE_NAME_LENGTH) {
+    throw new ValidationError(`Template name must be at most ${MAX_TEMPLATE_NAME_LENGTH} characters`)
+  }
+
+  const [project, archive]: [Project, ProjectArchive] = await Promise.all([
+    getProject(projectId),
+    exportProjectArchive(projectId),
+  ])
+  const startDate = (project.created_at || new Date().toISOString()).slice(0, 10)
+
+  const { data, error } = await getRepository().insertProjectTemplate({
+    name,
+    description: typeof template.description === "string" ? template.description.trim() : "",
+    content: archiveToTemplateContent(archive, startDate),
+    created_by: userId,
+  })
+
+  if (error) {
+    console.error(`Error saving project ${projectId} as template:`, error)
+    throw new Error(`Failed to save project template: ${error.message}`)
+  }
+
+  return formatProjectTemplate(data)
+}
+
+export async function deleteProjectTemplate(id: string) {
+  const { error } = await getRepository().deleteProjectTemplate(id)
+
+  if (error) {
+    console.error(`Error deleting project template ${id}:`, error)
+    throw new Error(`Failed to delete project template: ${error.message}`)
+  }
+}
+
+// 用模板创建项目，startDate（YYYY-MM-DD，默认今天）为新项目的开始日期，任务日期以此为基准换算
+export async function createProjectFromTemplate(
+  templateId: string,
+  project: { title: string; description: string },
+  owner: User,
+  startDate?: string,
+) {
+  const { data, error } = await getRepository().getProjectTemplate(templateId)
+
+  if (error) {
+    console.error(`Error fetching project template ${templateId}:`, error)
+    throw new ValidationError("Template not found")
+  }
+
+  const { content, error: contentError } = parseProjectTemplateContent(data.content)
+  if (!content) {
+    throw new ValidationError(contentError)
+  }
+
+  const archive = templateContentToArchive(
+    content,
+    { title: project.title, description: project.description, status: "planning" },
+    startDate || new Date().toISOString().slice(0, 10),
+  )
+  return importProjectArchive(archive, owner)
+}
+
+// 复制项目：工作流状态、自定义字段、成员和全部任务（包括日期、负责人、标签、子任务和依赖关系），不复制评论和变更记录
+export async function duplicateProject(
+  projectId: string,
+  project: { title: string; description: string },
+  owner: User,
+) {
+  const [archive, members]: [ProjectArchive, ProjectMember[]] = await Promise.all([
+    exportProjectArchive(projectId),
+    getProjectMembers(projectId),
+  ])
+
+  return importProjectArchive(
+    { ...archive, project: { ...archive.project, title: project.title, description: project.description } },
+    owner,
+    { members: members.map((member) => ({ userId: member.user.id, role: member.role })) },
+  )
+}
+
+function formatUser(user: UserRow): User {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    initials: user.initials,
+    created_at: user.created_at,
+  }
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+// 注册新用户
+export async function registerUser({ name, email, password }: { name: string; email: string; password: string }) {
+  const repository = getRepository()
+
+  if (!name?.trim()) {
+    throw new ValidationError("Name is required")
+  }
+
+  if (!email || !/^[^\s@]+@[^\s@]+$/.test(email.trim())) {
+    throw new ValidationError("A valid email is required")
+  }
+
+  if (!password || password.length < 8) {
+    throw new ValidationError("Password must be at least 8 characters")
+  }
+
+  const { data: existing } = await repository.getUserByEmail(normalizeEmail(email))
+  if (existing) {
+    throw new ValidationError("An account with this email already exists")
+  }
+
+  const { data, error } = await repository.insertUser({
+    name: name.trim(),
+    email: normalizeEmail(email),
+    initials: getInitials(name),
+    password_hash: await hashPassword(password),
+  })
+
+  if (error) {
+    console.error("Error creating user:", error)
+    throw new Error(`Failed to create user: ${error.message}`)
+  }
+
+  return formatUser(data)
+}
+
+// 校验邮箱和密码，失败时返回 null
+export async function authenticateUser(email: string, password: string) {
+  const { data: user, error } = await getRepository().getUserByEmail(normalizeEmail(email || ""))
+
+  if (error) {
+    console.error("Error fetching user:", error)
+    throw new Error(`Failed to fetch user: ${error.message}`)
+  }
+
+  if (!user || !(await verifyPassword(password || "", user.password_hash))) {
+    return null
+  }
+
+  return formatUser(user)
+}
+
+// 获取用户，不存在时返回 null
+export async function getUser(id: string) {
+  const { data, error } = await getRepository().getUser(id)
+  return error ? null : formatUser(data)
+}
+
+function formatMember(member: MemberRow, user: UserRow): ProjectMember {
+  return {
+    id: member.id,
+    projectId: member.project_id,
+    role: member.role as ProjectRole,
+    user: formatUser(user),
+    created_at: member.created_at,
+  }
+}
+
+// 清除项目成员缓存
+function invalidateMembers(projectId: string) {
+  projectCache.delete(`members:${projectId}`)
+  cacheExpiry.delete(`members:${projectId}`)
+}
+
+// 获取项目成员
+export async function getProjectMembers(projectId: string): Promise<ProjectMember[]> {
+  const repository = getRepository()
+  const cacheKey = `members:${projectId}`
+
+  // 检查缓存是否有效
+  if (!isCacheExpired(cacheKey)) {
+    const cachedMembers = projectCache.get(cacheKey)
+    if (cachedMembers) {
+      return cachedMembers
+    }
+  }
+
+  const { data, error } = await repository.listMembers(projectId)
+
+  if (error) {
+    console.error(`Error fetching members for project ${projectId}:`, error)
+    throw new Error(`Failed to fetch members: ${error.message}`)
+  }
 
-    if (error) {
-      console.error(`Error fetching task ${id}:`, error)
-      throw new Error(`Failed to fetch task: ${error.message}`)
-    }
+  const { data: users, error: usersError } =
+    data.length > 0 ? await repository.getUsers(data.map((member) => member.user_id)) : { data: [], error: null }
 
-    updatedTask = data
+  if (usersError) {
+    console.error(`Error fetching users for project ${projectId}:`, usersError)
+    throw new Error(`Failed to fetch users: ${usersError.message}`)
   }
 
-  // 并行处理标签和自定义字段更新
-  await Promise.all([
-    // 处理标签更新
-    (async () => {
-      if (taskData.tags !== undefined) {
-        // 首先删除现有标签关联
-        await supabase.from("task_tags").delete().eq("task_id", id)
+  const usersById = new Map(users.map((user) => [user.id, user]))
+  const members = data
+    .filter((member) => usersById.has(member.user_id))
+    .map((member) => formatMember(member, usersById.get(member.user_id)!))
 
-        // 然后添加新的（如果有的话）
-        if (taskData.tags && taskData.tags.length > 0) {
-          // 确保所有标签都存在
-          const tagPromises = taskData.tags.map((tagName) =>
-            supabase.from("tags").upsert({ name: tagName }, { onConflict: "name" }),
-          )
-          await Promise.all(tagPromises)
+  // 存入缓存
+  projectCache.put(cacheKey, members)
+  setCacheExpiry(cacheKey)
 
-          // 获取标签ID
-          const { data: tagData } = await supabase.from("tags").select("id, name").in("name", taskData.tags)
+  return members
+}
 
-          if (tagData && tagData.length > 0) {
-            // 创建任务-标签关联
-            const taskTagInserts = tagData.map((tag) => ({
-              task_id: id,
-              tag_id: tag.id,
-            }))
+// 获取用户参与的项目
+export async function getUserProjects(userId: string): Promise<Project[]> {
+  const { data, error } = await getRepository().listUserMemberships(userId)
 
-            await supabase.from("task_tags").insert(taskTagInserts)
-          }
-        }
-      }
-    })(),
-
-    // 处理自定义字段更新
-    (async () => {
-      if (taskData.customFields !== undefined) {
-        // 首先删除现有自定义字段值
-        await supabase.from("task_custom_field_values").delete().eq("task_id", id)
-
-        // 然后添加新的（如果有的话）
-        if (taskData.customFields && Object.keys(taskData.customFields).length > 0) {
-          const customFieldInserts = Object.entries(taskData.customFields).map(([fieldId, value]) => ({
-            task_id: id,
-            field_id: fieldId,
-            value,
-          }))
-
-          await supabase.from("task_custom_field_values").insert(customFieldInserts)
-        }
-      }
-    })(),
+  if (error) {
+    console.error(`Error fetching memberships for user ${userId}:`, error)
+    throw new Error(`Failed to fetch memberships: ${error.message}`)
+  }
+
+  const projectIds = new Set(data.map((member) => member.project_id))
+  const projects: Project[] = await getProjects()
+  return projects.filter((project) => projectIds.has(project.id))
+}
+
+// 每类（项目、任务、评论）最多取出的候选数；存储层已按相关性排序，这里只在候选中计算最终得分和高亮
+const SEARCH_CANDIDATE_LIMIT = 50
+
+// 在用户参与的所有项目中搜索项目、任务和评论，按相关性排序，相同得分时较新的在前
+export async function searchWorkspace(userId: string, query: string, limit = 20): Promise<SearchResult[]> {
+  const terms = tokenizeSearchQuery(query)
+  if (terms.length === 0) return []
+
+  const repository = getRepository()
+  const memberships = await repository.listUserMemberships(userId)
+
+  if (memberships.error) {
+    console.error(`Error fetching memberships for user ${userId}:`, memberships.error)
+    throw new Error(`Failed to fetch memberships: ${memberships.error.message}`)
+  }
+
+  const projectIds = memberships.data.map((member) => member.project_id)
+  if (projectIds.length === 0) return []
+
+  const rowQuery = { projectIds, terms, limit: SEARCH_CANDIDATE_LIMIT }
+  const [projects, tasks, comments] = await Promise.all([
+    repository.searchProjects(rowQuery),
+    repository.searchTasks(rowQuery),
+    repository.searchComments(rowQuery),
   ])
 
-  // 清除项目任务缓存
-  if (updatedTask.project_id) {
-    taskCache.delete(updatedTask.project_id)
-    cacheExpiry.delete(`tasks:${updatedTask.project_id}`)
+  const error = projects.error || tasks.error || comments.error
+  if (error) {
+    console.error("Error searching:", error)
+    throw new Error(`Failed to search: ${error.message}`)
   }
 
-  // 获取更新后的任务及其所有相关数据
-  return getTask(id)
+  // 任务和评论的结果中显示所属项目的标题
+  const projectTitles = new Map((await getUserProjects(userId)).map((project) => [project.id, project.title]))
+  const results: SearchResult[] = []
+
+  projects.data.forEach((project) => {
+    const match = rankSearchDocument(project.title, toSearchText(project.description), terms)
+    if (!match) return
+    results.push({
+      type: "project",
+      id: project.id,
+      projectId: project.id,
+      projectTitle: project.title,
+      taskId: null,
+      ...match,
+      updatedAt: project.updated_at || project.created_at || null,
+    })
+  })
+
+  tasks.data.forEach((task) => {
+    const match = rankSearchDocument(task.title, toSearchText(task.description), terms)
+    if (!match) return
+    results.push({
+      type: "task",
+      id: task.id,
+      projectId: task.project_id,
+      projectTitle: projectTitles.get(task.project_id) || "",
+      taskId: task.id,
+      ...match,
+      updatedAt: task.updated_at || task.created_at || null,
+    })
+  })
+
+  // 评论只按内容匹配，标题显示所属任务
+  comments.data.forEach((comment) => {
+    const match = rankSearchDocument("", toSearchText(comment.body), terms)
+    if (!match) return
+    results.push({
+      type: "comment",
+      id: comment.id,
+      projectId: comment.project_id,
+      projectTitle: projectTitles.get(comment.project_id) || "",
+      taskId: comment.task_id,
+      ...match,
+      title: highlightText(comment.task_title, terms),
+      updatedAt: comment.updated_at || comment.created_at || null,
+    })
+  })
+
+  return results
+    .sort((a, b) => b.score - a.score || (b.updatedAt || "").localeCompare(a.updatedAt || ""))
+    .slice(0, limit)
 }
 
-// 删除任务
-export async function deleteTask(id: string) {
-  const supabase = createServerSupabaseClient()
+// 获取任务所属的项目 ID，任务不存在时返回 null
+export async function getTaskProjectId(taskId: string) {
+  const { data } = await getRepository().getTask(taskId)
+  return data?.project_id || null
+}
 
-  // 首先获取项目ID以便稍后清除缓存
-  const { data: task } = await supabase.from("tasks").select("project_id").eq("id", id).single()
-  const projectId = task?.project_id
+// 获取自定义字段所属的项目 ID，字段不存在时返回 null
+export async function getCustomFieldProjectId(fieldId: string) {
+  const { data } = await getRepository().getCustomField(fieldId)
+  return data?.project_id || null
+}
+
+// 获取用户在项目中的成员身份，不是成员时返回 null
+export async function getProjectMember(projectId: string, userId: string) {
+  const members = await getProjectMembers(projectId)
+  return members.find((member) => member.user.id === userId) || null
+}
+
+// 把用户加入项目
+export async function addProjectMember(projectId: string, userId: string, role: ProjectRole) {
+  const repository = getRepository()
+
+  if (!isProjectRole(role)) {
+    throw new ValidationError(`Invalid role "${role}"`)
+  }
 
-  const { error } = await supabase.from("tasks").delete().eq("id", id)
+  if (await getProjectMember(projectId, userId)) {
+    throw new ValidationError("User is already a member of this project")
+  }
+
+  const { data, error } = await repository.insertMember({ project_id: projectId, user_id: userId, role })
 
   if (error) {
-    console.error(`Error deleting task ${id}:`, error)
-    throw new Error(`Failed to delete task: ${error.message}`)
+    console.error(`Error adding member to project ${projectId}:`, error)
+    throw new Error(`Failed to add member: ${error.message}`)
   }
 
-  // 清除项目任务缓存
-  if (projectId) {
-    taskCache.delete(projectId)
-    cacheExpiry.delete(`tasks:${projectId}`)
+  invalidateMembers(projectId)
+
+  const { data: user } = await repository.getUser(userId)
+  return user ? formatMember(data, user) : null
+}
+
+// 项目必须至少保留一个所有者
+async function assertOwnerRemains(projectId: string, memberId: string) {
+  const members = await getProjectMembers(projectId)
+  const member = members.find((m) => m.id === memberId)
+
+  if (!member) {
+    throw new ValidationError("Member not found in this project")
+  }
+
+  if (member.role === "owner" && members.filter((m) => m.role === "owner").length === 1) {
+    throw new ValidationError("A project must keep at least one owner")
+  }
+
+  return member
+}
+
+// 修改成员角色
+export async function updateProjectMemberRole(projectId: string, memberId: string, role: ProjectRole) {
+  const repository = getRepository()
+
+  if (!isProjectRole(role)) {
+    throw new ValidationError(`Invalid role "${role}"`)
+  }
+
+  const member = await assertOwnerRemains(projectId, memberId)
+  if (member.role === role) return member
+
+  const { data, error } = await repository.updateMember(memberId, { role })
+
+  if (error) {
+    console.error(`Error updating member ${memberId}:`, error)
+    throw new Error(`Failed to update member: ${error.message}`)
+  }
+
+  invalidateMembers(projectId)
+
+  return { ...member, role: data.role as ProjectRole }
+}
+
+// 移除成员，并取消其在该项目中的任务分配
+export async function removeProjectMember(projectId: string, memberId: string) {
+  const repository = getRepository()
+
+  const member = await assertOwnerRemains(projectId, memberId)
+
+  const { error } = await repository.deleteMember(memberId)
+
+  if (error) {
+    console.error(`Error removing member ${memberId}:`, error)
+    throw new Error(`Failed to remove member: ${error.message}`)
+  }
+
+  const { error: unassignError } = await repository.clearTaskAssignee(projectId, member.user.id)
+
+  if (unassignError) {
+    console.error(`Error unassigning tasks of member ${memberId}:`, unassignError)
+  }
+
+  invalidateMembers(projectId)
+  invalidateProjectTasks(projectId, "task.updated")
+
+  return { success: true }
+}
+
+function formatInvitation(invitation: InvitationRow): ProjectInvitation {
+  return {
+    id: invitation.id,
+    projectId: invitation.project_id,
+    email: invitation.email,
+    role: invitation.role as ProjectRole,
+    token: invitation.token,
+    invitedBy: invitation.invited_by,
+    created_at: invitation.created_at,
+  }
+}
+
+// 获取项目中尚未接受的邀请
+export async function getProjectInvitations(projectId: string) {
+  const { data, error } = await getRepository().listInvitations(projectId)
+
+  if (error) {
+    console.error(`Error fetching invitations for project ${projectId}:`, error)
+    throw new Error(`Failed to fetch invitations: ${error.message}`)
+  }
+
+  return data.map(formatInvitation)
+}
+
+// 邀请成员：同一邮箱已有待接受的邀请时更新其角色
+export async function inviteProjectMember(projectId: string, email: string, role: ProjectRole, invitedBy?: string) {
+  const repository = getRepository()
+
+  if (!email || !/^[^\s@]+@[^\s@]+$/.test(email.trim())) {
+    throw new ValidationError("A valid email is required")
+  }
+
+  if (!isProjectRole(role)) {
+    throw new ValidationError(`Invalid role "${role}"`)
+  }
+
+  const normalizedEmail = normalizeEmail(email)
+  const members = await getProjectMembers(projectId)
+  if (members.some((member) => member.user.email === normalizedEmail)) {
+    throw new ValidationError(`${normalizedEmail} is already a member of this project`)
+  }
+
+  const pending = (await getProjectInvitations(projectId)).find((invitation) => invitation.email === normalizedEmail)
+
+  const { data, error } = pending
+    ? await repository.updateInvitation(pending.id, { role })
+    : await repository.insertInvitation({
+        project_id: projectId,
+        email: normalizedEmail,
+        role,
+        token: randomBytes(24).toString("hex"),
+        invited_by: invitedBy || null,
+      })
+
+  if (error) {
+    console.error(`Error inviting ${normalizedEmail} to project ${projectId}:`, error)
+    throw new Error(`Failed to create invitation: ${error.message}`)
+  }
+
+  return formatInvitation(data)
+}
+
+// 撤销邀请
+export async function revokeInvitation(projectId: string, invitationId: string) {
+  const repository = getRepository()
+
+  const invitations = await getProjectInvitations(projectId)
+  if (!invitations.some((invitation) => invitation.id === invitationId)) {
+    throw new ValidationError("Invitation not found in this project")
+  }
+
+  const { error } = await repository.deleteInvitation(invitationId)
+
+  if (error) {
+    console.error(`Error revoking invitation ${invitationId}:`, error)
+    throw new Error(`Failed to revoke invitation: ${error.message}`)
   }
 
   return { success: true }
 }
 
+// 通过链接中的 token 获取邀请及项目名称，不存在或已接受时返回 null
+export async function getInvitation(token: string) {
+  const repository = getRepository()
+
+  const { data: invitation, error } = await repository.getInvitationByToken(token)
+  if (error || invitation.accepted_at) return null
+
+  const { data: project } = await repository.getProject(invitation.project_id)
+  if (!project) return null
+
+  return { ...formatInvitation(invitation), projectTitle: project.title }
+}
+
+// 接受邀请：只有受邀邮箱对应的用户可以接受
+export async function acceptInvitation(token: string, user: User) {
+  const repository = getRepository()
+
+  const invitation = await getInvitation(token)
+  if (!invitation) {
+    throw new ValidationError("This invitation is invalid or has already been used")
+  }
+
+  if (invitation.email !== user.email) {
+    throw new ValidationError(`This invitation was sent to ${invitation.email}`)
+  }
+
+  const member =
+    (await getProjectMember(invitation.projectId, user.id)) ||
+    (await addProjectMember(invitation.projectId, user.id, invitation.role))
+
+  const { error } = await repository.updateInvitation(invitation.id, { accepted_at: new Date().toISOString() })
+
+  if (error) {
+    console.error(`Error accepting invitation ${invitation.id}:`, error)
+    throw new Error(`Failed to accept invitation: ${error.message}`)
+  }
+
+  return member
+}
+
+function formatSavedView(row: SavedViewRow): SavedView {
+  // 无法解析的旧配置按默认视图打开
+  const { config } = parseSavedViewConfig(row.config)
+
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    config: config || DEFAULT_VIEW_CONFIG,
+    shared: row.is_shared,
+    createdBy: row.created_by,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+// 校验视图名称和配置，未提交的字段不校验
+function validateSavedView(input: { name?: unknown; config?: unknown }) {
+  const values: Partial<SavedViewRow> = {}
+
+  if (input.name !== undefined) {
+    const name = typeof input.name === "string" ? input.name.trim() : ""
+    if (!name) {
+      throw new ValidationError("View name is required")
+    }
+    if (name.length > MAX_VIEW_NAME_LENGTH) {
+      throw new ValidationError(`View name must be at most ${MAX_VIEW_NAME_LENGTH} characters`)
+    }
+    values.name = name
+  }
+
+  if (input.config !== undefined) {
+    const { config, error } = parseSavedViewConfig(input.config)
+    if (!config) {
+      throw new ValidationError(error)
+    }
+    values.config = config
+  }
+
+  return values
+}
+
+// 获取用户在项目中能看到的视图：共享的视图和自己创建的视图
+export async function getProjectSavedViews(projectId: string, userId: string) {
+  const { data, error } = await getRepository().listSavedViews(projectId)
+
+  if (error) {
+    console.error(`Error fetching saved views for project ${projectId}:`, error)
+    throw new Error(`Failed to fetch saved views: ${error.message}`)
+  }
+
+  return data.filter((view) => view.is_shared || view.created_by === userId).map(formatSavedView)
+}
+
+// 获取视图，不存在时返回 null
+export async function getSavedView(id: string) {
+  const { data } = await getRepository().getSavedView(id)
+  return data ? formatSavedView(data) : null
+}
+
+export async function addSavedView(
+  projectId: string,
+  view: { name: unknown; config: unknown; shared?: boolean },
+  userId: string,
+) {
+  const values = validateSavedView({ name: view.name, config: view.config ?? {} })
+
+  const { data, error } = await getRepository().insertSavedView({
+    project_id: projectId,
+    name: values.name!,
+    config: values.config,
+    is_shared: !!view.shared,
+    created_by: userId,
+  })
+
+  if (error) {
+    console.error(`Error creating saved view in project ${projectId}:`, error)
+    throw new Error(`Failed to create saved view: ${error.message}`)
+  }
+
+  return formatSavedView(data)
+}
+
+export async function updateSavedView(id: string, view: { name?: unknown; config?: unknown; shared?: boolean }) {
+  const values = validateSavedView(view)
+  if (view.shared !== undefined) values.is_shared = !!view.shared
+
+  const { data, error } = await getRepository().updateSavedView(id, {
+    ...values,
+    updated_at: new Date().toISOString(),
+  })
+
+  if (error) {
+    console.error(`Error updating saved view ${id}:`, error)
+    throw new Error(`Failed to update saved view: ${error.message}`)
+  }
+
+  return formatSavedView(data)
+}
+
+export async function deleteSavedView(id: string) {
+  const { error } = await getRepository().deleteSavedView(id)
+
+  if (error) {
+    console.error(`Error deleting saved view ${id}:`, error)
+    throw new Error(`Failed to delete saved view: ${error.message}`)
+  }
+}
+
+// 把请求中的 assignee 解析为成员引用；旧数据只有名字且未改变时保持原值
+async function resolveAssignee(
+  projectId: string,
+  assignee: Task["assignee"] | null | undefined,
+  current?: TaskRow,
+): Promise<Partial<TaskRow>> {
+  if (!assignee) {
+    return { assignee_id: null, assignee_name: null, assignee_initials: null }
+  }
+
+  if (!assignee.id) {
+    if (current && !current.assignee_id && current.assignee_name === assignee.name) return {}
+    throw new ValidationError("Assignee must be a project member")
+  }
+
+  const member = await getProjectMember(projectId, assignee.id)
+  if (!member) {
+    throw new ValidationError("Assignee must be a project member")
+  }
+
+  return { assignee_id: member.user.id, assignee_name: member.user.name, assignee_initials: member.user.initials }
+}
+
+// 校验父任务：必须属于同一项目，且不能是任务自身或其后代（避免形成循环）
+async function resolveParent(projectId: string, parentId: string | null | undefined, taskId?: string) {
+  if (!parentId) {
+    return { parent_id: null }
+  }
+
+  const repository = getRepository()
+  const visited = new Set<string>()
+  let currentId: string | null | undefined = parentId
+
+  while (currentId && !visited.has(currentId)) {
+    if (currentId === taskId) {
+      throw new ValidationError("A task cannot be moved under itself or one of its subtasks")
+    }
+
+    visited.add(currentId)
+
+    const { data: ancestor, error } = await repository.getTask(currentId)
+    if (error) {
+      throw new ValidationError(`Parent task ${parentId} not found`)
+    }
+
+    if (ancestor.project_id !== projectId) {
+      throw new ValidationError("Parent task must belong to the same project")
+    }
+
+    currentId = ancestor.parent_id
+  }
+
+  return { parent_id: parentId }
+}
+
+// 解析更新任务时提交的父任务
+export async function resolveTaskParent(taskId: string, parentId: string | null) {
+  const { data: task, error } = await getRepository().getTask(taskId)
+
+  if (error) {
+    console.error(`Error fetching task ${taskId}:`, error)
+    throw new Error(`Failed to fetch task: ${error.message}`)
+  }
+
+  return resolveParent(task.project_id, parentId, taskId)
+}
+
+// 获取任务的直接子任务
+export async function getSubtasks(taskId: string) {
+  const { data: task, error } = await getRepository().getTask(taskId)
+
+  if (error) {
+    console.error(`Error fetching task ${taskId}:`, error)
+    throw new Error(`Failed to fetch task: ${error.message}`)
+  }
+
+  const tasks: Task[] = await getProjectTasks(task.project_id)
+  return tasks.filter((item) => item.parentId === taskId)
+}
+
+// 解析更新任务时提交的 assignee
+export async function resolveTaskAssignee(taskId: string, assignee: Task["assignee"] | null) {
+  const { data: task, error } = await getRepository().getTask(taskId)
+
+  if (error) {
+    console.error(`Error fetching task ${taskId}:`, error)
+    throw new Error(`Failed to fetch task: ${error.message}`)
+  }
+
+  return resolveAssignee(task.project_id, assignee, task)
+}
+
 // 获取项目自定义字段
 export async function getProjectCustomFields(projectId: string) {
-  const supabase = createServerSupabaseClient()
+  const repository = getRepository()
   const cacheKey = `customFields:${projectId}`
 
   // 检查缓存是否有效
@@ -639,7 +3456,7 @@ export async function getProjectCustomFields(projectId: string) {
     }
   }
 
-  const { data, error } = await supabase.from("custom_fields").select("*").eq("project_id", projectId)
+  const { data, error } = await repository.listCustomFields(projectId)
 
   if (error) {
     console.error(`Error fetching custom fields for project ${projectId}:`, error)
@@ -665,19 +3482,16 @@ export async function getProjectCustomFields(projectId: string) {
 
 // 添加自定义字段
 export async function addCustomField(field: Omit<CustomField, "id">) {
-  const supabase = createServerSupabaseClient()
+  const repository = getRepository()
 
-  const { data, error } = await supabase
-    .from("custom_fields")
-    .insert({
-      project_id: field.projectId,
-      name: field.name,
-      type: field.type,
-      options: field.options,
-      is_required: field.isRequired,
-    })
-    .select()
-    .single()
+  const { data, error } = await repository.insertCustomField({
+    project_id: field.projectId,
+    name: field.name,
+    type: field.type,
+    options: field.options,
+    is_required: field.isRequired,
+    is_multi: field.isMulti,
+  })
 
   if (error) {
     console.error("Error creating custom field:", error)
@@ -688,6 +3502,40 @@ export async function addCustomField(field: Omit<CustomField, "id">) {
   projectCache.delete(`fields:${field.projectId}`)
   cacheExpiry.delete(`customFields:${field.projectId}`)
 
+  return {
+    id: data.id,
+    projectId: data.project_id,
+    name: data.name,
+    type: data.type,
+    options: data.options,
+    isRequired: data.is_required,
+    isMulti: data.is_multi,
+  }
+}
+
+// 更新自定义字段
+export async function updateCustomField(id: string, fieldData: Partial<CustomField>) {
+  const repository = getRepository()
+
+  // 只包含实际提供的字段
+  const updateFields: Record<string, any> = {}
+
+  if (fieldData.name !== undefined) updateFields.name = fieldData.name
+  if (fieldData.type !== undefined) updateFields.type = fieldData.type
+  if (fieldData.options !== undefined) updateFields.options = fieldData.options
+  if (fieldData.isRequired !== undefined) updateFields.is_required = fieldData.isRequired
+
+  const { data, error } = await repository.updateCustomField(id, updateFields)
+
+  if (error) {
+    console.error(`Error updating custom field ${id}:`, error)
+    throw new Error(`Failed to update custom field: ${error.message}`)
+  }
+
+  // 清除项目自定义字段缓存
+  projectCache.delete(`fields:${data.project_id}`)
+  cacheExpiry.delete(`customFields:${data.project_id}`)
+
   return {
     id: data.id,
     projectId: data.project_id,
@@ -700,13 +3548,13 @@ export async function addCustomField(field: Omit<CustomField, "id">) {
 
 // 删除自定义字段
 export async function deleteCustomField(id: string) {
-  const supabase = createServerSupabaseClient()
+  const repository = getRepository()
 
   // 首先获取项目ID以便稍后清除缓存
-  const { data: field } = await supabase.from("custom_fields").select("project_id").eq("id", id).single()
+  const { data: field } = await repository.getCustomField(id)
   const projectId = field?.project_id
 
-  const { error } = await supabase.from("custom_fields").delete().eq("id", id)
+  const { error } = await repository.deleteCustomField(id)
 
   if (error) {
     console.error(`Error deleting custom field ${id}:`, error)
@@ -722,25 +3570,30 @@ export async function deleteCustomField(id: string) {
   return { success: true }
 }
 
-// 添加项目
-export async function addProject(project: Omit<Project, "id" | "taskCount">) {
-  const supabase = createServerSupabaseClient()
+// 添加项目，创建者成为项目所有者
+export async function addProject(project: Omit<Project, "id" | "taskCount">, ownerId: string) {
+  const repository = getRepository()
 
-  const { data, error } = await supabase
-    .from("projects")
-    .insert({
-      title: project.title,
-      description: project.description,
-      status: project.status,
-    })
-    .select()
-    .single()
+  const { data, error } = await repository.insertProject({
+    title: project.title,
+    description: project.description,
+    status: project.status,
+  })
 
   if (error) {
     console.error("Error creating project:", error)
     throw new Error(`Failed to create project: ${error.message}`)
   }
 
+  // 没有所有者的项目任何人都无法访问，添加所有者失败时删除刚创建的项目
+  try {
+    await addProjectMember(data.id, ownerId, "owner")
+  } catch (memberError) {
+    console.error(`Error adding the owner of project ${data.id}:`, memberError)
+    await repository.deleteProject(data.id)
+    throw memberError
+  }
+
   // 清除项目缓存
   projectCache.delete("all")
   cacheExpiry.delete("projects:all")
@@ -756,12 +3609,9 @@ export async function addProject(project: Omit<Project, "id" | "taskCount">) {
 
 // 获取项目任务数量
 export async function getProjectTaskCount(projectId: string) {
-  const supabase = createServerSupabaseClient()
+  const repository = getRepository()
 
-  const { count, error } = await supabase
-    .from("tasks")
-    .select("*", { count: "exact", head: true })
-    .eq("project_id", projectId)
+  const { data: count, error } = await repository.countTasks(projectId)
 
   if (error) {
     console.error(`Error getting task count for project ${projectId}:`, error)
@@ -772,43 +3622,55 @@ export async function getProjectTaskCount(projectId: string) {
 }
 
 // 重新排序任务
-export async function reorderTasks(taskIds: string[], newOrders: number[]) {
-  const supabase = createServerSupabaseClient()
+export async function reorderTasks(taskIds: string[], newOrders: number[], actor?: User | null) {
+  const repository = getRepository()
 
   // 获取项目ID以便缓存失效
   let projectId = null
   if (taskIds.length > 0) {
-    const { data } = await supabase.from("tasks").select("project_id").eq("id", taskIds[0]).single()
+    const { data } = await repository.getTask(taskIds[0])
     if (data) {
       projectId = data.project_id
     }
   }
 
-  // 使用批处理更新任务顺序
+  // 使用批处理更新任务顺序，同时记录顺序实际发生变化的任务
   const BATCH_SIZE = 50
+  const entries: TaskActivityEntry[] = []
   for (let i = 0; i < taskIds.length; i += BATCH_SIZE) {
     const batchIds = taskIds.slice(i, i + BATCH_SIZE)
     const batchOrders = newOrders.slice(i, i + BATCH_SIZE)
 
-    const promises = batchIds.map((taskId, index) => {
-      return supabase.from("tasks").update({ order: batchOrders[index] }).eq("id", taskId)
+    const promises = batchIds.map(async (taskId, index) => {
+      const { data: current } = await repository.getTask(taskId)
+      await repository.updateTask(taskId, { order: batchOrders[index] })
+
+      if (current && current.order !== batchOrders[index]) {
+        entries.push({
+          taskId,
+          projectId: current.project_id,
+          action: "reordered",
+          changes: [{ field: "order", from: current.order, to: batchOrders[index] }],
+        })
+      }
     })
 
     await Promise.all(promises)
   }
 
-  // 清除受影响项目的任务缓存
+  await recordTaskActivity(entries, actor)
+
   if (projectId) {
-    taskCache.delete(projectId)
-    cacheExpiry.delete(`tasks:${projectId}`)
+    invalidateProjectTasks(projectId, "tasks.reordered", taskIds)
   }
 
   return { success: true }
 }
 
 // 更新项目
-export async function updateProject(id: string, projectData: Partial<Project>) {
-  const supabase = createServerSupabaseClient()
+// 传入 options.expectedUpdatedAt 时，只有项目的 updated_at 与之一致才会更新，否则抛出 ConflictError
+export async function updateProject(id: string, projectData: Partial<Project>, options: UpdateOptions = {}) {
+  const repository = getRepository()
 
   // 只包含实际提供的字段
   const updateFields: Record<string, any> = {}
@@ -820,7 +3682,13 @@ export async function updateProject(id: string, projectData: Partial<Project>) {
   // 添加更新时间戳
   updateFields.updated_at = new Date().toISOString()
 
-  const { data, error } = await supabase.from("projects").update(updateFields).eq("id", id).select().single()
+  const { data, error } = await repository.updateProject(id, updateFields, options)
+
+  if (error?.code === "conflict") {
+    projectCache.delete(id)
+    cacheExpiry.delete(`project:${id}`)
+    throw new ConflictError("The project has been modified by someone else", await getProject(id))
+  }
 
   if (error) {
     console.error(`Error updating project ${id}:`, error)
@@ -844,10 +3712,10 @@ export async function updateProject(id: string, projectData: Partial<Project>) {
 
 // 删除项目及其所有任务
 export async function deleteProject(id: string) {
-  const supabase = createServerSupabaseClient()
+  const repository = getRepository()
 
   // 删除项目（级联删除应该处理相关任务）
-  const { error } = await supabase.from("projects").delete().eq("id", id)
+  const { error } = await repository.deleteProject(id)
 
   if (error) {
     console.error(`Error deleting project ${id}:`, error)
@@ -858,6 +3726,7 @@ export async function deleteProject(id: string) {
   projectCache.delete(id)
   projectCache.delete("all")
   taskCache.delete(id)
+  invalidateMembers(id)
   cacheExpiry.delete(`project:${id}`)
   cacheExpiry.delete("projects:all")
   cacheExpiry.delete(`tasks:${id}`)
@@ -0,0 +1,284 @@
+import { z } from "zod"
+import { richTextToPlain } from "./task-csv"
+import type { CustomField, FilterCondition, FilterField, FilterGroup, FilterOperator, FilterValue, Task } from "./types"
+
+/**
+ * 条件构建器：任务筛选条件组的校验和求值，看板（浏览器）和 GET /api/tasks（服务端）共用
+ *
+ * 每个字段按值的类型归为一类，各类可用的运算符见 FILTER_OPERATORS。
+ * 日期按 YYYY-MM-DD 比较，创建和更新时间取 UTC 日期；文本比较不区分大小写。
+ * 字段没有值时只有 is_empty、is_not、not_contains 和 none_of 成立（复选框未勾选按 false 处理）。
+ */
+
+export type FilterFieldKind = "text" | "number" | "date" | "option" | "options" | "checkbox"
+
+export const MAX_FILTER_DEPTH = 3 // 最外层的组为第 1 层
+export const MAX_FILTER_CONDITIONS = 50
+
+export const FILTER_OPERATORS: Record<FilterFieldKind, FilterOperator[]> = {
+  text: ["contains", "not_contains", "is", "is_not", "is_empty", "is_not_empty"],
+  number: ["is", "is_not", "gt", "gte", "lt", "lte", "between", "is_empty", "is_not_empty"],
+  date: ["is", "gt", "gte", "lt", "lte", "between", "is_empty", "is_not_empty"],
+  option: ["any_of", "none_of", "is_empty", "is_not_empty"],
+  options: ["any_of", "all_of", "none_of", "is_empty", "is_not_empty"],
+  checkbox: ["is"],
+}
+
+export const BUILT_IN_FILTER_FIELDS: { key: FilterField; label: string; kind: FilterFieldKind }[] = [
+  { key: "title", label: "Title", kind: "text" },
+  { key: "description", label: "Description", kind: "text" },
+  { key: "status", label: "Status", kind: "option" },
+  { key: "priority", label: "Priority", kind: "option" },
+  { key: "assignee", label: "Assignee", kind: "option" },
+  { key: "tags", label: "Tags", kind: "options" },
+  { key: "startDate", label: "Start date", kind: "date" },
+  { key: "dueDate", label: "Due date", kind: "date" },
+  { key: "createdAt", label: "Created", kind: "date" },
+  { key: "updatedAt", label: "Updated", kind: "date" },
+]
+
+export const EMPTY_FILTER_GROUP: FilterGroup = { combinator: "and", conditions: [] }
+
+const ALL_OPERATORS = [...new Set(Object.values(FILTER_OPERATORS).flat())]
+const LIST_OPERATORS: FilterOperator[] = ["any_of", "all_of", "none_of"]
+const NEGATIVE_OPERATORS: FilterOperator[] = ["is_not", "not_contains", "none_of"]
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const filterConditionSchema = z.object({
+  field: z.custom<FilterField>((value) => typeof value === "string" && value.length > 0, "Invalid filter field"),
+  operator: z.enum(ALL_OPERATORS as [FilterOperator, ...FilterOperator[]]),
+  value: z.union([z.string(), z.number(), z.boolean(), z.array(z.string()), z.null()]).default(null),
+})
+
+// 只校验结构，字段是否存在、运算符和值是否匹配由 validateFilterGroup 检查
+export const filterGroupSchema: z.ZodType<FilterGroup, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z.object({
+    combinator: z.enum(["and", "or"]),
+    conditions: z.array(z.union([filterGroupSchema, filterConditionSchema])),
+  }),
+)
+
+export function isFilterGroup(item: FilterCondition | FilterGroup): item is FilterGroup {
+  return "combinator" in item
+}
+
+export function getCustomFieldKind(field: CustomField): FilterFieldKind {
+  switch (field.type) {
+    case "number":
+      return "number"
+    case "date":
+      return "date"
+    case "select":
+      return field.isMulti ? "options" : "option"
+    case "checkbox":
+      return "checkbox"
+    default:
+      return "text"
+  }
+}
+
+// 字段的值类型，字段不存在（例如自定义字段已被删除）时返回 null
+export function getFilterFieldKind(field: FilterField, customFields: CustomField[]): FilterFieldKind | null {
+  if (field.startsWith("custom:")) {
+    const customField = customFields.find((item) => item.id === field.slice("custom:".length))
+    return customField ? getCustomFieldKind(customField) : null
+  }
+  return BUILT_IN_FILTER_FIELDS.find((item) => item.key === field)?.kind ?? null
+}
+
+// 切换字段或运算符后条件的初始值
+export function getDefaultFilterValue(kind: FilterFieldKind, operator: FilterOperator): FilterValue {
+  if (operator === "is_empty" || operator === "is_not_empty") return null
+  if (operator === "between") return ["", ""]
+  if (LIST_OPERATORS.includes(operator)) return []
+  return kind === "checkbox" ? true : ""
+}
+
+function isValidScalar(kind: FilterFieldKind, value: string | number | boolean) {
+  if (typeof value === "boolean") return false
+  if (kind === "number") return value !== "" && Number.isFinite(Number(value))
+  if (kind === "date") return typeof value === "string" && DATE_PATTERN.test(value)
+  return true
+}
+
+function describeInvalidValue(condition: FilterCondition, kind: FilterFieldKind, value: unknown) {
+  if (kind === "number") return `"${value}" is not a number (${condition.field})`
+  if (kind === "date") return `${condition.field} must be compared with a date in YYYY-MM-DD format`
+  return `Invalid value for ${condition.field}`
+}
+
+// 条件有问题时返回说明，完整有效时返回 null；看板据此跳过还没填写完的条件
+export function getFilterConditionError(condition: FilterCondition, customFields: CustomField[]): string | null {
+  const { field, operator, value } = condition
+  const kind = getFilterFieldKind(field, customFields)
+  if (!kind) return `Unknown filter field "${field}"`
+  if (!FILTER_OPERATORS[kind].includes(operator)) return `"${operator}" cannot be used with ${field}`
+
+  if (operator === "is_empty" || operator === "is_not_empty") return null
+
+  if (LIST_OPERATORS.includes(operator)) {
+    return Array.isArray(value) && value.length > 0 ? null : `Select at least one option for ${field}`
+  }
+
+  if (operator === "between") {
+    if (!Array.isArray(value) || value.length !== 2 || value.every((bound) => bound === "")) {
+      return `"between" needs a start or an end value (${field})`
+    }
+    const invalid = value.find((bound) => bound !== "" && !isValidScalar(kind, bound))
+    return invalid === undefined ? null : describeInvalidValue(condition, kind, invalid)
+  }
+
+  if (kind === "checkbox") return typeof value === "boolean" ? null : `${field} must be compared with true or false`
+  if (value === null || value === "" || Array.isArray(value)) return `A value is required for ${field}`
+  return isValidScalar(kind, value) ? null : describeInvalidValue(condition, kind, value)
+}
+
+// 检查嵌套层数、条件数量和每个条件，返回第一个问题
+export function validateFilterGroup(group: FilterGroup, customFields: CustomField[]): string | null {
+  let count = 0
+
+  const validate = (item: FilterGroup, depth: number): string | null => {
+    if (depth > MAX_FILTER_DEPTH) return `Filter groups can be nested at most ${MAX_FILTER_DEPTH} levels deep`
+
+    for (const child of item.conditions) {
+      if (isFilterGroup(child)) {
+        const error = validate(child, depth + 1)
+        if (error) return error
+        continue
+      }
+
+      if (++count > MAX_FILTER_CONDITIONS) return `A filter can have at most ${MAX_FILTER_CONDITIONS} conditions`
+      const error = getFilterConditionError(child, customFields)
+      if (error) return error
+    }
+    return null
+  }
+
+  return validate(group, 1)
+}
+
+// 去掉无效的条件和空的组，用于应用构建器中还没填写完的条件
+export function pruneFilterGroup(group: FilterGroup, customFields: CustomField[]): FilterGroup {
+  return {
+    combinator: group.combinator,
+    conditions: group.conditions.flatMap((item): (FilterCondition | FilterGroup)[] => {
+      if (isFilterGroup(item)) {
+        const pruned = pruneFilterGroup(item, customFields)
+        return pruned.conditions.length > 0 ? [pruned] : []
+      }
+      return getFilterConditionError(item, customFields) ? [] : [item]
+    }),
+  }
+}
+
+export function countFilterConditions(group: FilterGroup): number {
+  return group.conditions.reduce((total, item) => total + (isFilterGroup(item) ? countFilterConditions(item) : 1), 0)
+}
+
+function getTaskFieldValue(task: Task, field: FilterField): unknown {
+  switch (field) {
+    case "title":
+      return task.title
+    case "description":
+      return richTextToPlain(task.description)
+    case "status":
+      return task.status
+    case "priority":
+      return task.priority
+    case "assignee":
+      // 旧数据的负责人可能没有用户 ID
+      return task.assignee ? task.assignee.id || task.assignee.name : null
+    case "tags":
+      return task.tags
+    case "startDate":
+      return task.startDate
+    case "dueDate":
+      return task.dueDate
+    case "createdAt":
+      return task.created_at
+    case "updatedAt":
+      return task.updated_at
+    default:
+      return task.customFields?.[field.slice("custom:".length)]
+  }
+}
+
+function isEmptyValue(value: unknown) {
+  return value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0)
+}
+
+function compareScalar<T extends string | number>(
+  operator: FilterOperator,
+  actual: T,
+  value: FilterValue,
+  parse: (value: string | number | boolean) => T,
+) {
+  if (operator === "between") {
+    const [from, to] = value as string[]
+    return (from === "" || actual >= parse(from)) && (to === "" || actual <= parse(to))
+  }
+
+  const target = parse(value as string | number)
+  switch (operator) {
+    case "is":
+      return actual === target
+    case "is_not":
+      return actual !== target
+    case "gt":
+      return actual > target
+    case "gte":
+      return actual >= target
+    case "lt":
+      return actual < target
+    case "lte":
+      return actual <= target
+    default:
+      return false
+  }
+}
+
+function matchesFilterCondition(task: Task, condition: FilterCondition, kind: FilterFieldKind) {
+  const { operator, value } = condition
+  const actual = getTaskFieldValue(task, condition.field)
+
+  if (kind === "checkbox") return Boolean(actual) === value
+  if (operator === "is_empty") return isEmptyValue(actual)
+  if (operator === "is_not_empty") return !isEmptyValue(actual)
+  if (isEmptyValue(actual)) return NEGATIVE_OPERATORS.includes(operator)
+
+  switch (kind) {
+    case "text": {
+      const text = String(actual).toLowerCase()
+      const part = String(value).toLowerCase()
+      if (operator === "contains") return text.includes(part)
+      if (operator === "not_contains") return !text.includes(part)
+      return compareScalar(operator, text, part, (item) => String(item).toLowerCase())
+    }
+    case "option":
+    case "options": {
+      const values = Array.isArray(actual) ? actual.map(String) : [String(actual)]
+      const selected = value as string[]
+      if (operator === "all_of") return selected.every((option) => values.includes(option))
+      const matched = selected.some((option) => values.includes(option))
+      return operator === "none_of" ? !matched : matched
+    }
+    case "number": {
+      const number = Number(actual)
+      return Number.isFinite(number) && compareScalar(operator, number, value, Number)
+    }
+    case "date":
+      return compareScalar(operator, String(actual).slice(0, 10), value, (item) => String(item).slice(0, 10))
+  }
+}
+
+// 任务是否满足条件组，空的组总是满足；条件组应先经过 validateFilterGroup 或 pruneFilterGroup
+export function matchesFilterGroup(task: Task, group: FilterGroup, customFields: CustomField[]): boolean {
+  const matches = (item: FilterCondition | FilterGroup) => {
+    if (isFilterGroup(item)) return matchesFilterGroup(task, item, customFields)
+    const kind = getFilterFieldKind(item.field, customFields)
+    return !!kind && matchesFilterCondition(task, item, kind)
+  }
+
+  if (group.conditions.length === 0) return true
+  return group.combinator === "or" ? group.conditions.some(matches) : group.conditions.every(matches)
+}
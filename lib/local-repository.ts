@@ -0,0 +1,850 @@
+import fs from "fs"
+import path from "path"
+import { randomUUID } from "crypto"
+import type {
+  StorageRepository,
+  RepositoryResult,
+  ProjectRow,
+  ProjectInsert,
+  TaskRow,
+  TaskInsert,
+  TagRow,
+  TaskTagRow,
+  CustomFieldRow,
+  CustomFieldInsert,
+  CustomFieldValueRow,
+  CommentRow,
+  CommentCountRow,
+  CommentInsert,
+  StatusRow,
+  StatusInsert,
+  UserRow,
+  UserInsert,
+  MemberRow,
+  MemberInsert,
+  InvitationRow,
+  InvitationInsert,
+  ActivityRow,
+  ActivityInsert,
+  DependencyRow,
+  DependencyInsert,
+  UpdateOptions,
+  TaskRowQuery,
+  SearchRowQuery,
+  CommentSearchRow,
+  SavedViewRow,
+  SavedViewInsert,
+  ProjectTemplateRow,
+  ProjectTemplateInsert,
+} from "./repository"
+import { matchesCustomFieldPredicate } from "./task-query"
+import { toSearchText } from "./search"
+
+// 本地存储的表结构，与 Supabase 中的表一一对应
+export type LocalTables = {
+  projects: ProjectRow[]
+  project_statuses: StatusRow[]
+  tasks: TaskRow[]
+  tags: TagRow[]
+  task_tags: { task_id: string; tag_id: string }[]
+  custom_fields: CustomFieldRow[]
+  task_custom_field_values: CustomFieldValueRow[]
+  task_comments: CommentRow[]
+  task_activity: ActivityRow[]
+  task_dependencies: DependencyRow[]
+  users: UserRow[]
+  project_members: MemberRow[]
+  project_invitations: InvitationRow[]
+  saved_views: SavedViewRow[]
+  project_templates: ProjectTemplateRow[]
+}
+
+const emptyTables = (): LocalTables => ({
+  projects: [],
+  project_statuses: [],
+  tasks: [],
+  tags: [],
+  task_tags: [],
+  custom_fields: [],
+  task_custom_field_values: [],
+  task_comments: [],
+  task_activity: [],
+  task_dependencies: [],
+  users: [],
+  project_members: [],
+  project_invitations: [],
+  saved_views: [],
+  project_templates: [],
+})
+
+// 在开发模式热重载时保留内存数据
+const globalStore = globalThis as unknown as { __localRepositoryTables?: Map<string, LocalTables> }
+
+function ok<T>(data: T): RepositoryResult<T> {
+  return { data, error: null }
+}
+
+function fail<T>(message: string): RepositoryResult<T> {
+  return { data: null, error: { message } }
+}
+
+function conflict<T>(message: string): RepositoryResult<T> {
+  return { data: null, error: { message, code: "conflict" } }
+}
+
+const now = () => new Date().toISOString()
+
+// 与数据库中的搜索函数一致：去掉 HTML 后必须包含全部关键词（不区分大小写），
+// 出现在标题中的关键词计 3 分，只出现在正文中的计 1 分；不匹配时返回 null
+function scoreSearchRow(title: string, body: string | null | undefined, terms: string[]) {
+  const lowerTitle = title.toLowerCase()
+  const text = `${lowerTitle} ${toSearchText(body).toLowerCase()}`
+  const lowerTerms = terms.map((term) => term.toLowerCase())
+  if (!lowerTerms.every((term) => text.includes(term))) return null
+  return lowerTerms.reduce((score, term) => score + (lowerTitle.includes(term) ? 3 : 1), 0)
+}
+
+// 按得分排序，同分时较新的在前，取前 limit 行
+function rankSearchRows<T extends { created_at?: string; updated_at?: string }>(
+  matches: { row: T; score: number | null }[],
+  limit: number,
+) {
+  const updatedAt = (row: T) => row.updated_at || row.created_at || ""
+  return matches
+    .filter((match): match is { row: T; score: number } => match.score !== null)
+    .sort((a, b) => b.score - a.score || updatedAt(b.row).localeCompare(updatedAt(a.row)))
+    .slice(0, limit)
+    .map((match) => ({ ...match.row }))
+}
+
+function compareValues(a: unknown, b: unknown) {
+  return (a as string | number) < (b as string | number) ? -1 : (a as string | number) > (b as string | number) ? 1 : 0
+}
+
+// 与 Supabase 一致：值为 undefined 的字段在更新时会被忽略
+function definedValues<T extends object>(values: Partial<T>): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>
+}
+
+/**
+ * 本地驱动 - 不依赖 Supabase 的内存存储
+ * 传入 filePath 时会在每次写入后把数据持久化到 JSON 文件，启动时从文件加载
+ */
+export class LocalRepository implements StorageRepository {
+  private filePath?: string
+
+  constructor(filePath?: string) {
+    this.filePath = filePath ? path.resolve(filePath) : undefined
+  }
+
+  private get tables(): LocalTables {
+    if (!globalStore.__localRepositoryTables) {
+      globalStore.__localRepositoryTables = new Map()
+    }
+
+    const key = this.filePath || ":memory:"
+    let tables = globalStore.__localRepositoryTables.get(key)
+
+    if (!tables) {
+      tables = this.load()
+      globalStore.__localRepositoryTables.set(key, tables)
+    }
+
+    return tables
+  }
+
+  private load(): LocalTables {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return emptyTables()
+    }
+
+    try {
+      return { ...emptyTables(), ...JSON.parse(fs.readFileSync(this.filePath, "utf8")) }
+    } catch (error) {
+      // 文件无法解析时先把它改名保留，避免下一次写入用空数据覆盖
+      const backupPath = `${this.filePath}.corrupt-${Date.now()}`
+      fs.renameSync(this.filePath, backupPath)
+      console.error(`Error reading local storage file ${this.filePath}, moved it to ${backupPath}:`, error)
+      return emptyTables()
+    }
+  }
+
+  private persist() {
+    if (!this.filePath) return
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    fs.writeFileSync(this.filePath, JSON.stringify(this.tables, null, 2))
+  }
+
+  private withTaskCount(project: ProjectRow): ProjectRow {
+    return {
+      ...project,
+      task_count: this.tables.tasks.filter((task) => task.project_id === project.id).length,
+    }
+  }
+
+  async listProjects(): Promise<RepositoryResult<ProjectRow[]>> {
+    const projects = [...this.tables.projects]
+      .sort((a, b) => (b.created_at || "").localeCompare(a.created_at || ""))
+      .map((project) => this.withTaskCount(project))
+    return ok(projects)
+  }
+
+  async getProject(id: string): Promise<RepositoryResult<ProjectRow>> {
+    const project = this.tables.projects.find((p) => p.id === id)
+    return project ? ok(this.withTaskCount(project)) : fail(`Project ${id} not found`)
+  }
+
+  async insertProject(values: ProjectInsert): Promise<RepositoryResult<ProjectRow>> {
+    const timestamp = now()
+    const project: ProjectRow = { ...values, id: randomUUID(), created_at: timestamp, updated_at: timestamp }
+    this.tables.projects.push(project)
+    this.persist()
+    return ok({ ...project })
+  }
+
+  async updateProject(
+    id: string,
+    values: Partial<ProjectRow>,
+    options: UpdateOptions = {},
+  ): Promise<RepositoryResult<ProjectRow>> {
+    const project = this.tables.projects.find((p) => p.id === id)
+    if (!project) return fail(`Project ${id} not found`)
+    if (options.expectedUpdatedAt && project.updated_at !== options.expectedUpdatedAt) {
+      return conflict(`Project ${id} has been modified`)
+    }
+
+    Object.assign(project, definedValues(values), { id })
+    this.persist()
+    return ok({ ...project })
+  }
+
+  async deleteProject(id: string): Promise<RepositoryResult<null>> {
+    const tables = this.tables
+    const taskIds = new Set(tables.tasks.filter((task) => task.project_id === id).map((task) => task.id))
+    const fieldIds = new Set(tables.custom_fields.filter((field) => field.project_id === id).map((field) => field.id))
+
+    // 模拟数据库的级联删除
+    tables.projects = tables.projects.filter((p) => p.id !== id)
+    tables.project_statuses = tables.project_statuses.filter((status) => status.project_id !== id)
+    tables.tasks = tables.tasks.filter((task) => !taskIds.has(task.id))
+    tables.task_tags = tables.task_tags.filter((item) => !taskIds.has(item.task_id))
+    tables.custom_fields = tables.custom_fields.filter((field) => !fieldIds.has(field.id))
+    tables.task_custom_field_values = tables.task_custom_field_values.filter(
+      (item) => !taskIds.has(item.task_id) && !fieldIds.has(item.field_id),
+    )
+    tables.task_comments = tables.task_comments.filter((comment) => !taskIds.has(comment.task_id))
+    tables.task_activity = tables.task_activity.filter((activity) => activity.project_id !== id)
+    tables.task_dependencies = tables.task_dependencies.filter((dependency) => dependency.project_id !== id)
+    tables.project_members = tables.project_members.filter((member) => member.project_id !== id)
+    tables.project_invitations = tables.project_invitations.filter((invitation) => invitation.project_id !== id)
+    tables.saved_views = tables.saved_views.filter((view) => view.project_id !== id)
+
+    this.persist()
+    return ok(null)
+  }
+
+  async listStatuses(projectId: string): Promise<RepositoryResult<StatusRow[]>> {
+    const statuses = this.tables.project_statuses
+      .filter((status) => status.project_id === projectId)
+      .sort((a, b) => a.order - b.order)
+      .map((status) => ({ ...status }))
+    return ok(statuses)
+  }
+
+  async replaceStatuses(projectId: string, values: StatusInsert[]): Promise<RepositoryResult<StatusRow[]>> {
+    if (!this.tables.projects.some((p) => p.id === projectId)) {
+      return fail(`Project ${projectId} not found`)
+    }
+
+    const statuses = values.map((status) => ({ ...status, id: randomUUID(), project_id: projectId }))
+    this.tables.project_statuses = [
+      ...this.tables.project_statuses.filter((status) => status.project_id !== projectId),
+      ...statuses,
+    ]
+    this.persist()
+    return this.listStatuses(projectId)
+  }
+
+  async listTasks(projectId: string, from: number, to: number): Promise<RepositoryResult<TaskRow[]>> {
+    const tasks = this.tables.tasks
+      .filter((task) => task.project_id === projectId)
+      .sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER))
+      .slice(from, to + 1)
+      .map((task) => ({ ...task }))
+    return ok(tasks)
+  }
+
+  async queryTasks(projectId: string, query: TaskRowQuery): Promise<RepositoryResult<TaskRow[]>> {
+    const tables = this.tables
+    const { column, ascending } = query.sort
+    const contains = (text: string | null | undefined, part: string) =>
+      !!text && text.toLowerCase().includes(part.toLowerCase())
+
+    let tagged: Set<string> | null = null
+    if (query.tagNames) {
+      const tagIds = new Set(tables.tags.filter((tag) => query.tagNames!.includes(tag.name)).map((tag) => tag.id))
+      tagged = new Set(tables.task_tags.filter((item) => tagIds.has(item.tag_id)).map((item) => item.task_id))
+    }
+
+    const fieldValue = (taskId: string, fieldId: string) =>
+      tables.task_custom_field_values.find((item) => item.task_id === taskId && item.field_id === fieldId)?.value
+
+    // 与数据库一致：空值总是排在最后，其余先按排序列、再按 id 比较，降序时取反
+    const compare = (a: { value: unknown; id: string }, b: { value: unknown; id: string }) => {
+      const aEmpty = a.value === null || a.value === undefined
+      const bEmpty = b.value === null || b.value === undefined
+      if (aEmpty !== bEmpty) return aEmpty ? 1 : -1
+
+      const order = (aEmpty ? 0 : compareValues(a.value, b.value)) || compareValues(a.id, b.id)
+      return ascending ? order : -order
+    }
+    const sortKey = (task: TaskRow) => ({ value: task[column] ?? null, id: task.id })
+
+    const tasks = tables.tasks
+      .filter((task) => {
+        if (task.project_id !== projectId) return false
+        if (query.statuses && !query.statuses.includes(task.status)) return false
+        if (query.priorities && !query.priorities.includes(task.priority)) return false
+        if (query.assigneeIds || query.unassigned) {
+          const assigned = !!task.assignee_id && !!query.assigneeIds?.includes(task.assignee_id)
+          if (!assigned && !(query.unassigned && !task.assignee_name)) return false
+        }
+        if (tagged && !tagged.has(task.id)) return false
+        if (query.dueFrom && !(task.due_date && task.due_date.slice(0, 10) >= query.dueFrom)) return false
+        if (query.dueTo && !(task.due_date && task.due_date.slice(0, 10) <= query.dueTo)) return false
+        if (query.title && !contains(task.title, query.title)) return false
+        if (query.search && !contains(task.title, query.search) && !contains(task.description, query.search)) {
+          return false
+        }
+        if (
+          query.customFields &&
+          !query.customFields.every((predicate) =>
+            matchesCustomFieldPredicate(fieldValue(task.id, predicate.fieldId), predicate),
+          )
+        ) {
+          return false
+        }
+        return !query.after || compare(sortKey(task), query.after) > 0
+      })
+      .sort((a, b) => compare(sortKey(a), sortKey(b)))
+      .slice(0, query.limit)
+      .map((task) => ({ ...task }))
+
+    return ok(tasks)
+  }
+
+  async countTasks(projectId: string, status?: string): Promise<RepositoryResult<number>> {
+    return ok(
+      this.tables.tasks.filter(
+        (task) => task.project_id === projectId && (status === undefined || task.status === status),
+      ).length,
+    )
+  }
+
+  async getTask(id: string): Promise<RepositoryResult<TaskRow>> {
+    const task = this.tables.tasks.find((t) => t.id === id)
+    return task ? ok({ ...task }) : fail(`Task ${id} not found`)
+  }
+
+  async getTasks(ids: string[]): Promise<RepositoryResult<TaskRow[]>> {
+    const idSet = new Set(ids)
+    return ok(this.tables.tasks.filter((task) => idSet.has(task.id)).map((task) => ({ ...task })))
+  }
+
+  async getMaxTaskOrder(projectId: string): Promise<RepositoryResult<number | null>> {
+    const orders = this.tables.tasks
+      .filter((task) => task.project_id === projectId && task.order !== null)
+      .map((task) => task.order as number)
+    return ok(orders.length > 0 ? Math.max(...orders) : null)
+  }
+
+  async insertTask(values: TaskInsert): Promise<RepositoryResult<TaskRow>> {
+    if (!this.tables.projects.some((p) => p.id === values.project_id)) {
+      return fail(`Project ${values.project_id} not found`)
+    }
+
+    const sourceId = values.recurrence_source_id
+    if (sourceId && this.tables.tasks.some((task) => task.recurrence_source_id === sourceId)) {
+      return conflict(`Task ${sourceId} already has a next occurrence`)
+    }
+
+    const timestamp = now()
+    const task: TaskRow = { ...values, id: randomUUID(), created_at: timestamp, updated_at: timestamp }
+    this.tables.tasks.push(task)
+    this.persist()
+    return ok({ ...task })
+  }
+
+  async updateTask(
+    id: string,
+    values: Partial<TaskRow>,
+    options: UpdateOptions = {},
+  ): Promise<RepositoryResult<TaskRow>> {
+    const task = this.tables.tasks.find((t) => t.id === id)
+    if (!task) return fail(`Task ${id} not found`)
+    if (options.expectedUpdatedAt && task.updated_at !== options.expectedUpdatedAt) {
+      return conflict(`Task ${id} has been modified`)
+    }
+
+    Object.assign(task, definedValues(values), { id, updated_at: values.updated_at || now() })
+    this.persist()
+    return ok({ ...task })
+  }
+
+  async deleteTask(id: string): Promise<RepositoryResult<null>> {
+    return this.deleteTasks([id])
+  }
+
+  async deleteTasks(ids: string[]): Promise<RepositoryResult<null>> {
+    const tables = this.tables
+    const idSet = new Set(ids)
+    tables.tasks = tables.tasks.filter((task) => !idSet.has(task.id))
+    tables.task_tags = tables.task_tags.filter((item) => !idSet.has(item.task_id))
+    tables.task_custom_field_values = tables.task_custom_field_values.filter((item) => !idSet.has(item.task_id))
+    tables.task_comments = tables.task_comments.filter((comment) => !idSet.has(comment.task_id))
+    tables.task_activity = tables.task_activity.filter((activity) => !idSet.has(activity.task_id))
+    tables.task_dependencies = tables.task_dependencies.filter(
+      (dependency) => !idSet.has(dependency.blocker_id) && !idSet.has(dependency.blocked_id),
+    )
+    this.persist()
+    return ok(null)
+  }
+
+  async clearTaskAssignee(projectId: string, userId: string): Promise<RepositoryResult<null>> {
+    this.tables.tasks.forEach((task) => {
+      if (task.project_id === projectId && task.assignee_id === userId) {
+        Object.assign(task, { assignee_id: null, assignee_name: null, assignee_initials: null, updated_at: now() })
+      }
+    })
+    this.persist()
+    return ok(null)
+  }
+
+  async listSubtasks(parentId: string): Promise<RepositoryResult<TaskRow[]>> {
+    const subtasks = this.tables.tasks
+      .filter((task) => task.parent_id === parentId)
+      .sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER))
+      .map((task) => ({ ...task }))
+    return ok(subtasks)
+  }
+
+  async listChildTasks(parentIds: string[]): Promise<RepositoryResult<TaskRow[]>> {
+    const parentIdSet = new Set(parentIds)
+    return ok(
+      this.tables.tasks
+        .filter((task) => task.parent_id && parentIdSet.has(task.parent_id))
+        .map((task) => ({ ...task })),
+    )
+  }
+
+  async listDueRecurringTasks(date: string): Promise<RepositoryResult<TaskRow[]>> {
+    const tasks = this.tables.tasks
+      .filter(
+        (task) =>
+          !!task.recurrence && !task.recurrence_next_id && !!task.due_date && task.due_date.slice(0, 10) <= date,
+      )
+      .map((task) => ({ ...task }))
+    return ok(tasks)
+  }
+
+  async getTaskTags(taskIds: string[]): Promise<RepositoryResult<TaskTagRow[]>> {
+    const ids = new Set(taskIds)
+    const tagNames = new Map(this.tables.tags.map((tag) => [tag.id, tag.name]))
+
+    const rows = this.tables.task_tags
+      .filter((item) => ids.has(item.task_id) && tagNames.has(item.tag_id))
+      .map((item) => ({ task_id: item.task_id, name: tagNames.get(item.tag_id)! }))
+    return ok(rows)
+  }
+
+  async setTaskTags(taskId: string, tagNames: string[]): Promise<RepositoryResult<null>> {
+    const tables = this.tables
+    tables.task_tags = tables.task_tags.filter((item) => item.task_id !== taskId)
+
+    for (const name of new Set(tagNames)) {
+      let tag = tables.tags.find((t) => t.name === name)
+      if (!tag) {
+        tag = { id: randomUUID(), name }
+        tables.tags.push(tag)
+      }
+      tables.task_tags.push({ task_id: taskId, tag_id: tag.id })
+    }
+
+    this.persist()
+    return ok(null)
+  }
+
+  async getCustomFieldValues(taskIds: string[]): Promise<RepositoryResult<CustomFieldValueRow[]>> {
+    const ids = new Set(taskIds)
+    return ok(this.tables.task_custom_field_values.filter((item) => ids.has(item.task_id)).map((item) => ({ ...item })))
+  }
+
+  async setCustomFieldValues(taskId: string, values: Record<string, any>): Promise<RepositoryResult<null>> {
+    const tables = this.tables
+    tables.task_custom_field_values = [
+      ...tables.task_custom_field_values.filter((item) => item.task_id !== taskId),
+      ...Object.entries(values).map(([fieldId, value]) => ({ task_id: taskId, field_id: fieldId, value })),
+    ]
+    this.persist()
+    return ok(null)
+  }
+
+  async listCustomFields(projectId: string): Promise<RepositoryResult<CustomFieldRow[]>> {
+    return ok(
+      this.tables.custom_fields.filter((field) => field.project_id === projectId).map((field) => ({ ...field })),
+    )
+  }
+
+  async getCustomField(id: string): Promise<RepositoryResult<CustomFieldRow>> {
+    const field = this.tables.custom_fields.find((f) => f.id === id)
+    return field ? ok({ ...field }) : fail(`Custom field ${id} not found`)
+  }
+
+  async insertCustomField(values: CustomFieldInsert): Promise<RepositoryResult<CustomFieldRow>> {
+    const field: CustomFieldRow = { ...values, id: randomUUID(), created_at: now() }
+    this.tables.custom_fields.push(field)
+    this.persist()
+    return ok({ ...field })
+  }
+
+  async updateCustomField(id: string, values: Partial<CustomFieldRow>): Promise<RepositoryResult<CustomFieldRow>> {
+    const field = this.tables.custom_fields.find((f) => f.id === id)
+    if (!field) return fail(`Custom field ${id} not found`)
+
+    Object.assign(field, definedValues(values), { id })
+    this.persist()
+    return ok({ ...field })
+  }
+
+  async deleteCustomField(id: string): Promise<RepositoryResult<null>> {
+    const tables = this.tables
+    tables.custom_fields = tables.custom_fields.filter((field) => field.id !== id)
+    tables.task_custom_field_values = tables.task_custom_field_values.filter((item) => item.field_id !== id)
+    this.persist()
+    return ok(null)
+  }
+
+  async listComments(taskId: string): Promise<RepositoryResult<CommentRow[]>> {
+    const comments = this.tables.task_comments
+      .filter((comment) => comment.task_id === taskId)
+      .sort((a, b) => (a.created_at || "").localeCompare(b.created_at || ""))
+      .map((comment) => ({ ...comment }))
+    return ok(comments)
+  }
+
+  async countComments(taskIds: string[]): Promise<RepositoryResult<CommentCountRow[]>> {
+    const counts = new Map(taskIds.map((id) => [id, 0]))
+    this.tables.task_comments.forEach((comment) => {
+      if (counts.has(comment.task_id)) {
+        counts.set(comment.task_id, counts.get(comment.task_id)! + 1)
+      }
+    })
+    return ok(Array.from(counts, ([task_id, count]) => ({ task_id, count })))
+  }
+
+  async getComment(id: string): Promise<RepositoryResult<CommentRow>> {
+    const comment = this.tables.task_comments.find((c) => c.id === id)
+    return comment ? ok({ ...comment }) : fail(`Comment ${id} not found`)
+  }
+
+  async insertComment(values: CommentInsert): Promise<RepositoryResult<CommentRow>> {
+    if (!this.tables.tasks.some((task) => task.id === values.task_id)) {
+      return fail(`Task ${values.task_id} not found`)
+    }
+
+    const timestamp = now()
+    const comment: CommentRow = { ...values, id: randomUUID(), created_at: timestamp, updated_at: timestamp }
+    this.tables.task_comments.push(comment)
+    this.persist()
+    return ok({ ...comment })
+  }
+
+  async updateComment(id: string, values: Partial<CommentRow>): Promise<RepositoryResult<CommentRow>> {
+    const comment = this.tables.task_comments.find((c) => c.id === id)
+    if (!comment) return fail(`Comment ${id} not found`)
+
+    Object.assign(comment, definedValues(values), { id, updated_at: values.updated_at || now() })
+    this.persist()
+    return ok({ ...comment })
+  }
+
+  async deleteComment(id: string): Promise<RepositoryResult<null>> {
+    const tables = this.tables
+    tables.task_comments = tables.task_comments.filter((comment) => comment.id !== id && comment.parent_id !== id)
+    this.persist()
+    return ok(null)
+  }
+
+  async listDependencies(projectId: string): Promise<RepositoryResult<DependencyRow[]>> {
+    return ok(
+      this.tables.task_dependencies
+        .filter((dependency) => dependency.project_id === projectId)
+        .map((dependency) => ({ ...dependency })),
+    )
+  }
+
+  async insertDependency(values: DependencyInsert): Promise<RepositoryResult<DependencyRow>> {
+    // 模拟数据库的唯一约束
+    if (
+      this.tables.task_dependencies.some(
+        (d) => d.blocker_id === values.blocker_id && d.blocked_id === values.blocked_id,
+      )
+    ) {
+      return fail(`Dependency from ${values.blocker_id} to ${values.blocked_id} already exists`)
+    }
+
+    const dependency: DependencyRow = { ...values, id: randomUUID(), created_at: now() }
+    this.tables.task_dependencies.push(dependency)
+    this.persist()
+    return ok({ ...dependency })
+  }
+
+  async deleteDependency(id: string): Promise<RepositoryResult<null>> {
+    this.tables.task_dependencies = this.tables.task_dependencies.filter((dependency) => dependency.id !== id)
+    this.persist()
+    return ok(null)
+  }
+
+  async listActivity(taskId: string): Promise<RepositoryResult<ActivityRow[]>> {
+    const activity = this.tables.task_activity
+      .filter((item) => item.task_id === taskId)
+      .sort((a, b) => (b.created_at || "").localeCompare(a.created_at || ""))
+      .map((item) => ({ ...item, changes: item.changes.map((change) => ({ ...change })) }))
+    return ok(activity)
+  }
+
+  async insertActivity(values: ActivityInsert[]): Promise<RepositoryResult<null>> {
+    const createdAt = now()
+    this.tables.task_activity.push(...values.map((item) => ({ ...item, id: randomUUID(), created_at: createdAt })))
+    this.persist()
+    return ok(null)
+  }
+
+  async moveActivity(taskIds: string[], projectId: string): Promise<RepositoryResult<null>> {
+    const idSet = new Set(taskIds)
+    this.tables.task_activity.forEach((activity) => {
+      if (idSet.has(activity.task_id)) activity.project_id = projectId
+    })
+    this.persist()
+    return ok(null)
+  }
+
+  async listSavedViews(projectId: string): Promise<RepositoryResult<SavedViewRow[]>> {
+    const views = this.tables.saved_views
+      .filter((view) => view.project_id === projectId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((view) => ({ ...view }))
+    return ok(views)
+  }
+
+  async getSavedView(id: string): Promise<RepositoryResult<SavedViewRow>> {
+    const view = this.tables.saved_views.find((v) => v.id === id)
+    return view ? ok({ ...view }) : fail(`Saved view ${id} not found`)
+  }
+
+  async insertSavedView(values: SavedViewInsert): Promise<RepositoryResult<SavedViewRow>> {
+    if (!this.tables.projects.some((p) => p.id === values.project_id)) {
+      return fail(`Project ${values.project_id} not found`)
+    }
+
+    const timestamp = now()
+    const view: SavedViewRow = { ...values, id: randomUUID(), created_at: timestamp, updated_at: timestamp }
+    this.tables.saved_views.push(view)
+    this.persist()
+    return ok({ ...view })
+  }
+
+  async updateSavedView(id: string, values: Partial<SavedViewRow>): Promise<RepositoryResult<SavedViewRow>> {
+    const view = this.tables.saved_views.find((v) => v.id === id)
+    if (!view) return fail(`Saved view ${id} not found`)
+
+    Object.assign(view, definedValues(values), { id, updated_at: values.updated_at || now() })
+    this.persist()
+    return ok({ ...view })
+  }
+
+  async deleteSavedView(id: string): Promise<RepositoryResult<null>> {
+    this.tables.saved_views = this.tables.saved_views.filter((view) => view.id !== id)
+    this.persist()
+    return ok(null)
+  }
+
+  async listProjectTemplates(userId: string): Promise<RepositoryResult<ProjectTemplateRow[]>> {
+    const templates = this.tables.project_templates
+      .filter((template) => template.created_by === userId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((template) => ({ ...template }))
+    return ok(templates)
+  }
+
+  async getProjectTemplate(id: string): Promise<RepositoryResult<ProjectTemplateRow>> {
+    const template = this.tables.project_templates.find((t) => t.id === id)
+    return template ? ok({ ...template }) : fail(`Project template ${id} not found`)
+  }
+
+  async insertProjectTemplate(values: ProjectTemplateInsert): Promise<RepositoryResult<ProjectTemplateRow>> {
+    const timestamp = now()
+    const template: ProjectTemplateRow = { ...values, id: randomUUID(), created_at: timestamp, updated_at: timestamp }
+    this.tables.project_templates.push(template)
+    this.persist()
+    return ok({ ...template })
+  }
+
+  async deleteProjectTemplate(id: string): Promise<RepositoryResult<null>> {
+    this.tables.project_templates = this.tables.project_templates.filter((template) => template.id !== id)
+    this.persist()
+    return ok(null)
+  }
+
+  async searchProjects(query: SearchRowQuery): Promise<RepositoryResult<ProjectRow[]>> {
+    const matches = this.tables.projects
+      .filter((project) => query.projectIds.includes(project.id))
+      .map((project) => ({ row: project, score: scoreSearchRow(project.title, project.description, query.terms) }))
+    return ok(rankSearchRows(matches, query.limit))
+  }
+
+  async searchTasks(query: SearchRowQuery): Promise<RepositoryResult<TaskRow[]>> {
+    const matches = this.tables.tasks
+      .filter((task) => query.projectIds.includes(task.project_id))
+      .map((task) => ({ row: task, score: scoreSearchRow(task.title, task.description, query.terms) }))
+    return ok(rankSearchRows(matches, query.limit))
+  }
+
+  async searchComments(query: SearchRowQuery): Promise<RepositoryResult<CommentSearchRow[]>> {
+    const tasks = new Map(
+      this.tables.tasks.filter((task) => query.projectIds.includes(task.project_id)).map((task) => [task.id, task]),
+    )
+    // 评论只按内容匹配，得分相同，按更新时间排序
+    const matches = this.tables.task_comments
+      .filter((comment) => tasks.has(comment.task_id))
+      .map((comment) => {
+        const task = tasks.get(comment.task_id)!
+        return {
+          row: { ...comment, project_id: task.project_id, task_title: task.title },
+          score: scoreSearchRow("", comment.body, query.terms),
+        }
+      })
+    return ok(rankSearchRows(matches, query.limit))
+  }
+
+  async getUser(id: string): Promise<RepositoryResult<UserRow>> {
+    const user = this.tables.users.find((u) => u.id === id)
+    return user ? ok({ ...user }) : fail(`User ${id} not found`)
+  }
+
+  async getUserByEmail(email: string): Promise<RepositoryResult<UserRow | null>> {
+    const user = this.tables.users.find((u) => u.email === email)
+    return ok(user ? { ...user } : null)
+  }
+
+  async getUsers(ids: string[]): Promise<RepositoryResult<UserRow[]>> {
+    const userIds = new Set(ids)
+    return ok(this.tables.users.filter((user) => userIds.has(user.id)).map((user) => ({ ...user })))
+  }
+
+  async insertUser(values: UserInsert): Promise<RepositoryResult<UserRow>> {
+    // 模拟数据库的唯一约束
+    if (this.tables.users.some((user) => user.email === values.email)) {
+      return fail(`User with email ${values.email} already exists`)
+    }
+
+    const user: UserRow = { ...values, id: randomUUID(), created_at: now() }
+    this.tables.users.push(user)
+    this.persist()
+    return ok({ ...user })
+  }
+
+  async listMembers(projectId: string): Promise<RepositoryResult<MemberRow[]>> {
+    const members = this.tables.project_members
+      .filter((member) => member.project_id === projectId)
+      .sort((a, b) => (a.created_at || "").localeCompare(b.created_at || ""))
+      .map((member) => ({ ...member }))
+    return ok(members)
+  }
+
+  async getMember(projectId: string, userId: string): Promise<RepositoryResult<MemberRow | null>> {
+    const member = this.tables.project_members.find((m) => m.project_id === projectId && m.user_id === userId)
+    return ok(member ? { ...member } : null)
+  }
+
+  async listUserMemberships(userId: string): Promise<RepositoryResult<MemberRow[]>> {
+    return ok(
+      this.tables.project_members.filter((member) => member.user_id === userId).map((member) => ({ ...member })),
+    )
+  }
+
+  async insertMember(values: MemberInsert): Promise<RepositoryResult<MemberRow>> {
+    if (!this.tables.projects.some((p) => p.id === values.project_id)) {
+      return fail(`Project ${values.project_id} not found`)
+    }
+
+    if (this.tables.project_members.some((m) => m.project_id === values.project_id && m.user_id === values.user_id)) {
+      return fail(`User ${values.user_id} is already a member of project ${values.project_id}`)
+    }
+
+    const member: MemberRow = { ...values, id: randomUUID(), created_at: now() }
+    this.tables.project_members.push(member)
+    this.persist()
+    return ok({ ...member })
+  }
+
+  async updateMember(id: string, values: Partial<MemberRow>): Promise<RepositoryResult<MemberRow>> {
+    const member = this.tables.project_members.find((m) => m.id === id)
+    if (!member) return fail(`Member ${id} not found`)
+
+    Object.assign(member, definedValues(values), { id })
+    this.persist()
+    return ok({ ...member })
+  }
+
+  async deleteMember(id: string): Promise<RepositoryResult<null>> {
+    this.tables.project_members = this.tables.project_members.filter((member) => member.id !== id)
+    this.persist()
+    return ok(null)
+  }
+
+  async listInvitations(projectId: string): Promise<RepositoryResult<InvitationRow[]>> {
+    const invitations = this.tables.project_invitations
+      .filter((invitation) => invitation.project_id === projectId && !invitation.accepted_at)
+      .sort((a, b) => (a.created_at || "").localeCompare(b.created_at || ""))
+      .map((invitation) => ({ ...invitation }))
+    return ok(invitations)
+  }
+
+  async getInvitationByToken(token: string): Promise<RepositoryResult<InvitationRow>> {
+    const invitation = this.tables.project_invitations.find((i) => i.token === token)
+    return invitation ? ok({ ...invitation }) : fail("Invitation not found")
+  }
+
+  async insertInvitation(values: InvitationInsert): Promise<RepositoryResult<InvitationRow>> {
+    if (!this.tables.projects.some((p) => p.id === values.project_id)) {
+      return fail(`Project ${values.project_id} not found`)
+    }
+
+    const invitation: InvitationRow = { ...values, id: randomUUID(), created_at: now(), accepted_at: null }
+    this.tables.project_invitations.push(invitation)
+    this.persist()
+    return ok({ ...invitation })
+  }
+
+  async updateInvitation(id: string, values: Partial<InvitationRow>): Promise<RepositoryResult<InvitationRow>> {
+    const invitation = this.tables.project_invitations.find((i) => i.id === id)
+    if (!invitation) return fail(`Invitation ${id} not found`)
+
+    Object.assign(invitation, definedValues(values), { id })
+    this.persist()
+    return ok({ ...invitation })
+  }
+
+  async deleteInvitation(id: string): Promise<RepositoryResult<null>> {
+    this.tables.project_invitations = this.tables.project_invitations.filter((invitation) => invitation.id !== id)
+    this.persist()
+    return ok(null)
+  }
+
+  // 本地驱动的写入都发生在当前进程内，由 lib/realtime.ts 直接通知，无需额外监听
+  watchTasks(): () => void {
+    return () => {}
+  }
+}
@@ -0,0 +1,38 @@
+import type { ProjectMember, ProjectRole } from "./types"
+
+export const PROJECT_ROLES: { value: ProjectRole; label: string; description: string }[] = [
+  { value: "owner", label: "所有者", description: "管理项目设置和成员" },
+  { value: "editor", label: "编辑者", description: "创建和编辑任务" },
+  { value: "viewer", label: "查看者", description: "只能查看项目" },
+]
+
+// 角色由低到高，高级角色拥有低级角色的全部权限
+const ROLE_RANK: Record<ProjectRole, number> = { viewer: 0, editor: 1, owner: 2 }
+
+export function hasRole(role: ProjectRole | null | undefined, required: ProjectRole) {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required]
+}
+
+export function isProjectRole(value: unknown): value is ProjectRole {
+  return PROJECT_ROLES.some((role) => role.value === value)
+}
+
+export function getRoleLabel(role: ProjectRole) {
+  return PROJECT_ROLES.find((item) => item.value === role)?.label || role
+}
+
+// 根据姓名生成头像缩写，例如 "Jane Smith" -> "JS"
+export function getInitials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => part[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase()
+}
+
+// 把成员转换为任务的 assignee 引用，未选择成员时返回 null（取消分配）
+export function toAssignee(member?: ProjectMember | null) {
+  return member ? { id: member.user.id, name: member.user.name, initials: member.user.initials } : null
+}
@@ -0,0 +1,22 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto"
+import { promisify } from "util"
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>
+
+const KEY_LENGTH = 64
+
+// 保存格式为 salt:hash（均为 hex）
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex")
+  const hash = await scryptAsync(password, salt, KEY_LENGTH)
+  return `${salt}:${hash.toString("hex")}`
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [salt, hash] = stored.split(":")
+  if (!salt || !hash) return false
+
+  const expected = Buffer.from(hash, "hex")
+  const actual = await scryptAsync(password, salt, expected.length)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
@@ -0,0 +1,16 @@
+// HTTP 条件请求（ETag / If-Match）：任务和项目以 updated_at 作为版本号
+
+// 响应中携带版本号，客户端修改时通过 If-Match 原样带回
+export function versionHeaders(updatedAt?: string | null): Record<string, string> {
+  return updatedAt ? { ETag: `"${updatedAt}"` } : {}
+}
+
+// 读取 If-Match 中的版本号；未提供或为 * 时返回 undefined，表示不检查版本
+export function readIfMatch(request: Request) {
+  const header = request.headers.get("if-match")?.trim()
+  if (!header || header === "*") return undefined
+
+  // 只使用第一个实体标签，并去掉弱标签前缀 W/ 和引号
+  const tag = header.split(",")[0].trim().replace(/^W\//, "")
+  return tag.replace(/^"(.*)"$/, "$1") || undefined
+}
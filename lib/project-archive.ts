@@ -0,0 +1,241 @@
+import { z } from "zod"
+import { DEFAULT_WORKFLOW_STATUSES } from "./workflow"
+import { taskRecurrenceSchema } from "./task-recurrence"
+
+/**
+ * 项目归档（JSON）格式
+ *
+ * 归档包含重建一个项目所需的全部数据：项目信息、工作流状态（数组顺序即看板列顺序）、自定义字段定义，
+ * 以及任务的排序、标签、自定义字段值、父任务和前置任务。任务和自定义字段通过归档内的 ID 相互引用，
+ * 导入时会生成新的 ID。负责人只记录姓名和邮箱，导入时仅在该邮箱是新项目成员时恢复。
+ *
+ * 版本历史：
+ * - 1：StorageService.exportProjectData 早期输出的 { project, tasks, customFields, exportDate }，没有 version 字段
+ * - 2：增加 format / version、工作流状态、任务排序、父任务、前置任务和负责人邮箱
+ *
+ * 修改格式时递增 PROJECT_ARCHIVE_VERSION，并在 ARCHIVE_MIGRATIONS 中添加从上一版本升级的函数，
+ * 保证旧版本的归档仍然可以导入。
+ */
+export const PROJECT_ARCHIVE_FORMAT = "project-archive"
+export const PROJECT_ARCHIVE_VERSION = 2
+
+const customFieldValueSchema = z.union([z.string(), z.number(), z.boolean(), z.array(z.string()), z.null()])
+
+export const archiveStatusSchema = z.object({
+  key: z.string().min(1),
+  name: z.string().min(1),
+  color: z.string().default("#6b7280"),
+  category: z.enum(["not-started", "active", "done"]),
+  wipLimit: z.number().int().positive().nullable().default(null),
+  allowedTransitions: z.array(z.string()).nullable().default(null),
+})
+
+export const archiveCustomFieldSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: z.enum(["text", "number", "date", "select", "checkbox", "url"]),
+  options: z.array(z.string()).default([]),
+  isRequired: z.boolean().default(false),
+  isMulti: z.boolean().default(false),
+})
+
+const archiveTaskSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().default(""),
+  status: z.string().min(1),
+  priority: z.enum(["low", "medium", "high"]).default("medium"),
+  order: z.number().default(0),
+  parentId: z.string().nullable().default(null),
+  blockedBy: z.array(z.string()).default([]),
+  assignee: z
+    .object({ name: z.string(), email: z.string().nullable().default(null) })
+    .nullable()
+    .default(null),
+  startDate: z.string().nullable().default(null),
+  dueDate: z.string().nullable().default(null),
+  tags: z.array(z.string()).default([]),
+  customFields: z.record(customFieldValueSchema).default({}),
+  recurrence: taskRecurrenceSchema.nullable().default(null),
+  createdAt: z.string().nullable().default(null),
+})
+
+// 沿着 edges 能回到起点即存在循环
+function hasCycle(edges: Map<string, string[]>) {
+  const state = new Map<string, "visiting" | "done">()
+
+  const visit = (id: string): boolean => {
+    if (state.get(id) === "visiting") return true
+    if (state.get(id) === "done") return false
+
+    state.set(id, "visiting")
+    const cyclic = (edges.get(id) || []).some(visit)
+    state.set(id, "done")
+    return cyclic
+  }
+
+  return [...edges.keys()].some(visit)
+}
+
+export const projectArchiveSchema = z
+  .object({
+    format: z.literal(PROJECT_ARCHIVE_FORMAT),
+    version: z.literal(PROJECT_ARCHIVE_VERSION),
+    exportedAt: z.string(),
+    project: z.object({
+      title: z.string().min(1),
+      description: z.string().default(""),
+      status: z.enum(["planning", "active", "completed"]).default("planning"),
+    }),
+    statuses: z.array(archiveStatusSchema).min(1),
+    customFields: z.array(archiveCustomFieldSchema),
+    tasks: z.array(archiveTaskSchema),
+  })
+  .superRefine((archive, ctx) => {
+    // 校验归档内部的引用：状态、自定义字段、父任务和前置任务都必须存在于归档中
+    const statusKeys = new Set(archive.statuses.map((status) => status.key))
+    const fieldIds = new Set(archive.customFields.map((field) => field.id))
+    const taskIds = new Set<string>()
+
+    archive.tasks.forEach((task, index) => {
+      const path = ["tasks", index]
+
+      if (taskIds.has(task.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, "id"], message: `Duplicate task id "${task.id}"` })
+      }
+      taskIds.add(task.id)
+
+      if (!statusKeys.has(task.status)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [...path, "status"],
+          message: `Unknown status "${task.status}"`,
+        })
+      }
+
+      for (const fieldId of Object.keys(task.customFields)) {
+        if (!fieldIds.has(fieldId)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [...path, "customFields", fieldId],
+            message: `Unknown custom field "${fieldId}"`,
+          })
+        }
+      }
+    })
+
+    archive.tasks.forEach((task, index) => {
+      const references = [...(task.parentId ? [task.parentId] : []), ...task.blockedBy]
+      const missing = references.find((id) => !taskIds.has(id))
+      if (missing) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tasks", index], message: `Unknown task "${missing}"` })
+      }
+    })
+
+    const parents = new Map<string, string[]>(
+      archive.tasks.map((task) => [task.id, task.parentId ? [task.parentId] : []]),
+    )
+    if (hasCycle(parents)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tasks"], message: "Parent tasks form a cycle" })
+    }
+
+    const blockers = new Map<string, string[]>(archive.tasks.map((task) => [task.id, task.blockedBy]))
+    if (hasCycle(blockers)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tasks"], message: "Task dependencies form a cycle" })
+    }
+  })
+
+export type ProjectArchive = z.infer<typeof projectArchiveSchema>
+
+type ArchiveMigration = (archive: Record<string, any>) => Record<string, any>
+
+// 列表不合法时原样保留，交给 schema 报告错误
+const mapList = (value: unknown, fn: (item: any, index: number) => unknown) =>
+  Array.isArray(value) ? value.map((item, index) => fn(item ?? {}, index)) : value
+
+// ARCHIVE_MIGRATIONS[n] 将版本 n 的归档升级到版本 n + 1
+const ARCHIVE_MIGRATIONS: Record<number, ArchiveMigration> = {
+  1: (archive) => {
+    // 版本 1 没有保存工作流，使用默认状态，并补上任务中用到的其他状态
+    const statuses: Record<string, unknown>[] = DEFAULT_WORKFLOW_STATUSES.map((status) => ({ ...status }))
+    const knownKeys = new Set(statuses.map((status) => status.key))
+    for (const task of Array.isArray(archive.tasks) ? archive.tasks : []) {
+      if (typeof task?.status === "string" && task.status && !knownKeys.has(task.status)) {
+        knownKeys.add(task.status)
+        statuses.push({ key: task.status, name: task.status, category: "active" })
+      }
+    }
+
+    return {
+      format: PROJECT_ARCHIVE_FORMAT,
+      version: 2,
+      exportedAt: archive.exportDate || new Date().toISOString(),
+      project: archive.project && {
+        title: archive.project.title,
+        description: archive.project.description ?? "",
+        status: archive.project.status,
+      },
+      statuses,
+      customFields: mapList(archive.customFields, (field) => ({
+        id: field.id,
+        name: field.name,
+        type: field.type,
+        options: field.options ?? [],
+        isRequired: !!field.isRequired,
+        isMulti: !!field.isMulti,
+      })),
+      tasks: mapList(archive.tasks, (task, index) => ({
+        id: task.id,
+        title: task.title,
+        description: task.description ?? "",
+        status: task.status,
+        priority: task.priority,
+        order: task.order ?? index,
+        parentId: task.parentId ?? null,
+        blockedBy: task.blockedBy ?? [],
+        assignee: task.assignee?.name ? { name: task.assignee.name, email: null } : null,
+        startDate: task.startDate ?? null,
+        dueDate: task.dueDate ?? null,
+        tags: task.tags ?? [],
+        customFields: task.customFields ?? {},
+        createdAt: task.created_at ?? null,
+      })),
+    }
+  },
+}
+
+// 解析并校验归档，旧版本先逐级升级到当前版本
+export function parseProjectArchive(
+  input: unknown,
+): { archive: ProjectArchive; error?: undefined } | { archive?: undefined; error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "The archive must be a JSON object" }
+  }
+
+  let archive = input as Record<string, any>
+
+  if (archive.format !== undefined && archive.format !== PROJECT_ARCHIVE_FORMAT) {
+    return { error: "The file is not a project archive" }
+  }
+
+  let version = archive.version ?? 1
+  if (!Number.isInteger(version) || version < 1) {
+    return { error: `Unknown archive version "${version}"` }
+  }
+
+  if (version > PROJECT_ARCHIVE_VERSION) {
+    return { error: `Archive version ${version} is newer than the supported version ${PROJECT_ARCHIVE_VERSION}` }
+  }
+
+  for (; version < PROJECT_ARCHIVE_VERSION; version++) {
+    archive = ARCHIVE_MIGRATIONS[version](archive)
+  }
+
+  const result = projectArchiveSchema.safeParse(archive)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    return { error: `Invalid archive at ${issue.path.join(".") || "root"}: ${issue.message}` }
+  }
+
+  return { archive: result.data }
+}
@@ -0,0 +1,138 @@
+import { z } from "zod"
+import {
+  archiveCustomFieldSchema,
+  archiveStatusSchema,
+  PROJECT_ARCHIVE_FORMAT,
+  PROJECT_ARCHIVE_VERSION,
+  type ProjectArchive,
+} from "./project-archive"
+import { taskRecurrenceSchema } from "./task-recurrence"
+
+/**
+ * 项目模板（JSON，保存在 project_templates.content 中）
+ *
+ * 模板由项目归档（见 lib/project-archive.ts）生成，包含工作流状态、自定义字段定义和初始任务，
+ * 不包含负责人。任务的开始日期和截止日期保存为相对项目开始日期的天数：保存模板时以原项目的创建日期为基准，
+ * 用模板创建项目时以新项目的开始日期为基准换算回具体日期。
+ *
+ * 修改格式时递增 PROJECT_TEMPLATE_VERSION，并保证旧版本的模板仍然可以解析。
+ */
+export const PROJECT_TEMPLATE_VERSION = 1
+
+export const MAX_TEMPLATE_NAME_LENGTH = 100
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/
+
+const templateTaskSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().default(""),
+  status: z.string().min(1),
+  priority: z.enum(["low", "medium", "high"]).default("medium"),
+  order: z.number().default(0),
+  parentId: z.string().nullable().default(null),
+  blockedBy: z.array(z.string()).default([]),
+  startOffset: z.number().int().nullable().default(null), // 相对项目开始日期的天数
+  dueOffset: z.number().int().nullable().default(null),
+  tags: z.array(z.string()).default([]),
+  customFields: z.record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string()), z.null()])).default({}),
+  recurrence: taskRecurrenceSchema.nullable().default(null),
+})
+
+export const projectTemplateContentSchema = z.object({
+  version: z.literal(PROJECT_TEMPLATE_VERSION),
+  statuses: z.array(archiveStatusSchema).min(1),
+  customFields: z.array(archiveCustomFieldSchema),
+  tasks: z.array(templateTaskSchema),
+})
+
+export type ProjectTemplateContent = z.infer<typeof projectTemplateContentSchema>
+
+// YYYY-MM-DD（或带时间的 ISO 字符串）转为从 1970-01-01 起的天数，按日历日期计算，不受时区影响
+function toDayNumber(date: string) {
+  const match = DATE_PATTERN.exec(date)
+  if (!match) return null
+  return Math.round(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / DAY_MS)
+}
+
+function fromDayNumber(day: number) {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10)
+}
+
+export function parseProjectTemplateContent(
+  input: unknown,
+): { content: ProjectTemplateContent; error?: undefined } | { content?: undefined; error: string } {
+  const result = projectTemplateContentSchema.safeParse(input)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    return { error: `Invalid template at ${issue.path.join(".") || "root"}: ${issue.message}` }
+  }
+  return { content: result.data }
+}
+
+// 由项目归档生成模板，startDate 为原项目的开始日期（YYYY-MM-DD）
+export function archiveToTemplateContent(archive: ProjectArchive, startDate: string): ProjectTemplateContent {
+  const start = toDayNumber(startDate) ?? 0
+  const toOffset = (date: string | null) => {
+    const day = date ? toDayNumber(date) : null
+    return day === null ? null : day - start
+  }
+
+  return {
+    version: PROJECT_TEMPLATE_VERSION,
+    statuses: archive.statuses,
+    customFields: archive.customFields,
+    tasks: archive.tasks.map((task) => ({
+      id: task.id,
+      title: task.title,
+      description: task.description,
+      status: task.status,
+      priority: task.priority,
+      order: task.order,
+      parentId: task.parentId,
+      blockedBy: task.blockedBy,
+      startOffset: toOffset(task.startDate),
+      dueOffset: toOffset(task.dueDate),
+      tags: task.tags,
+      customFields: task.customFields,
+      recurrence: task.recurrence,
+    })),
+  }
+}
+
+// 把模板换算为新项目的归档，之后按导入归档的方式创建项目；startDate 为新项目的开始日期（YYYY-MM-DD）
+export function templateContentToArchive(
+  content: ProjectTemplateContent,
+  project: ProjectArchive["project"],
+  startDate: string,
+): ProjectArchive {
+  const start = toDayNumber(startDate) ?? toDayNumber(new Date().toISOString())!
+  const toDate = (offset: number | null) => (offset === null ? null : fromDayNumber(start + offset))
+
+  return {
+    format: PROJECT_ARCHIVE_FORMAT,
+    version: PROJECT_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project,
+    statuses: content.statuses,
+    customFields: content.customFields,
+    tasks: content.tasks.map((task) => ({
+      id: task.id,
+      title: task.title,
+      description: task.description,
+      status: task.status,
+      priority: task.priority,
+      order: task.order,
+      parentId: task.parentId,
+      blockedBy: task.blockedBy,
+      assignee: null,
+      startDate: toDate(task.startOffset),
+      dueDate: toDate(task.dueOffset),
+      tags: task.tags,
+      customFields: task.customFields,
+      recurrence: task.recurrence,
+      createdAt: null,
+    })),
+  }
+}
@@ -0,0 +1,46 @@
+// 项目内任务变化的进程内事件总线，SSE 接口通过它把变化推送给正在查看项目的客户端
+
+export type ProjectEventType = "task.created" | "task.updated" | "task.deleted" | "tasks.reordered"
+
+export type ProjectEvent = {
+  projectId: string
+  type: ProjectEventType
+  taskIds: string[]
+  at: string
+}
+
+type ProjectEventListener = (event: ProjectEvent) => void
+
+// 挂在 globalThis 上，开发环境热更新后订阅不会丢失
+const globalStore = globalThis as unknown as { __projectEventListeners?: Map<string, Set<ProjectEventListener>> }
+const listeners = (globalStore.__projectEventListeners ??= new Map())
+
+export function publishProjectEvent(event: Omit<ProjectEvent, "at">) {
+  const projectListeners = listeners.get(event.projectId)
+  if (!projectListeners) return
+
+  const payload: ProjectEvent = { ...event, at: new Date().toISOString() }
+  for (const listener of projectListeners) {
+    try {
+      listener(payload)
+    } catch (error) {
+      console.error(`Error delivering ${event.type} event for project ${event.projectId}:`, error)
+    }
+  }
+}
+
+// 返回取消订阅的函数
+export function subscribeProjectEvents(projectId: string, listener: ProjectEventListener) {
+  if (!listeners.has(projectId)) listeners.set(projectId, new Set())
+  listeners.get(projectId)!.add(listener)
+
+  return () => {
+    const projectListeners = listeners.get(projectId)
+    projectListeners?.delete(listener)
+    if (projectListeners?.size === 0) listeners.delete(projectId)
+  }
+}
+
+export function countProjectSubscribers(projectId: string) {
+  return listeners.get(projectId)?.size || 0
+}
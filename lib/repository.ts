@@ -0,0 +1,378 @@
+import { SupabaseRepository } from "./supabase-repository"
+import { LocalRepository } from "./local-repository"
+import type { CustomFieldOperator } from "./types"
+
+// 数据库行类型（与 Supabase 表结构保持一致，使用 snake_case）
+export type ProjectRow = {
+  id: string
+  title: string
+  description: string
+  status: string
+  task_count?: number
+  created_at?: string
+  updated_at?: string
+}
+
+export type TaskRow = {
+  id: string
+  project_id: string
+  title: string
+  description: string
+  status: string
+  priority: string
+  parent_id?: string | null // 父任务，只能指向同一项目中的任务
+  assignee_id?: string | null // 指向项目成员的 user_id，name/initials 为冗余的显示字段
+  assignee_name?: string | null
+  assignee_initials?: string | null
+  start_date?: string | null
+  due_date?: string | null
+  order: number | null
+  recurrence?: any | null // 重复规则，JSON（见 lib/task-recurrence.ts）
+  recurrence_index?: number | null // 这是重复任务的第几次，从 1 开始
+  recurrence_next_id?: string | null // 已经生成的下一次任务，不为空时不再生成
+  recurrence_source_id?: string | null // 生成这次任务的上一次任务，每个任务只能生成一次（唯一）
+  created_at?: string
+  updated_at?: string
+}
+
+export type TagRow = {
+  id: string
+  name: string
+}
+
+export type TaskTagRow = {
+  task_id: string
+  name: string
+}
+
+export type CustomFieldRow = {
+  id: string
+  project_id: string
+  name: string
+  type: string
+  options?: string[] | null
+  is_required?: boolean | null
+  is_multi?: boolean | null
+  created_at?: string
+}
+
+export type CustomFieldValueRow = {
+  task_id: string
+  field_id: string
+  value: any
+}
+
+export type StatusRow = {
+  id: string
+  project_id: string
+  key: string
+  name: string
+  color: string
+  category: string
+  order: number
+  wip_limit?: number | null
+  allowed_transitions?: string[] | null
+}
+
+// 评论只支持一层回复：parent_id 始终指向顶层评论
+export type CommentRow = {
+  id: string
+  task_id: string
+  parent_id: string | null
+  author_id: string | null // 评论作者的 user_id，作者账户删除后为空
+  author_name: string
+  author_initials: string
+  body: string
+  created_at?: string
+  updated_at?: string
+}
+
+export type UserRow = {
+  id: string
+  email: string
+  name: string
+  initials: string
+  password_hash: string
+  created_at?: string
+}
+
+export type MemberRow = {
+  id: string
+  project_id: string
+  user_id: string
+  role: string
+  created_at?: string
+}
+
+// 邀请按邮箱发出，接受后 accepted_at 被写入并创建成员
+export type InvitationRow = {
+  id: string
+  project_id: string
+  email: string
+  role: string
+  token: string
+  invited_by?: string | null
+  created_at?: string
+  accepted_at?: string | null
+}
+
+// 任务依赖：blocker 完成之前 blocked 不应完成，两个任务必须属于同一项目
+export type DependencyRow = {
+  id: string
+  project_id: string
+  blocker_id: string
+  blocked_id: string
+  created_at?: string
+}
+
+// 任务的变更记录：每次修改一行，changes 保存字段级的前后值
+export type ActivityRow = {
+  id: string
+  task_id: string
+  project_id: string
+  actor_id: string | null
+  actor_name: string | null
+  action: string
+  changes: { field: string; from: any; to: any }[]
+  created_at?: string
+}
+
+// 保存的视图，config 为 JSON（见 lib/saved-views.ts）；is_shared 为 false 时只有 created_by 能看到
+export type SavedViewRow = {
+  id: string
+  project_id: string
+  name: string
+  config: any
+  is_shared: boolean
+  created_by: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+// 项目模板，content 为 JSON（见 lib/project-templates.ts）；只有 created_by 能看到和使用
+export type ProjectTemplateRow = {
+  id: string
+  name: string
+  description: string
+  content: any
+  created_by: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export type CommentCountRow = {
+  task_id: string
+  count: number
+}
+
+export type ProjectInsert = Pick<ProjectRow, "title" | "description" | "status">
+export type TaskInsert = Omit<TaskRow, "id" | "created_at" | "updated_at">
+export type CustomFieldInsert = Omit<CustomFieldRow, "id" | "created_at">
+export type StatusInsert = Omit<StatusRow, "id" | "project_id">
+export type CommentInsert = Omit<CommentRow, "id" | "created_at" | "updated_at">
+export type UserInsert = Omit<UserRow, "id" | "created_at">
+export type MemberInsert = Omit<MemberRow, "id" | "created_at">
+export type InvitationInsert = Omit<InvitationRow, "id" | "created_at" | "accepted_at">
+export type ActivityInsert = Omit<ActivityRow, "id" | "created_at">
+export type DependencyInsert = Omit<DependencyRow, "id" | "created_at">
+export type SavedViewInsert = Omit<SavedViewRow, "id" | "created_at" | "updated_at">
+export type ProjectTemplateInsert = Omit<ProjectTemplateRow, "id" | "created_at" | "updated_at">
+
+export type TaskRowSortColumn = "order" | "title" | "due_date" | "created_at" | "updated_at"
+
+/**
+ * queryTasks 的条件，各条件之间是"且"的关系
+ * 排序时空值总是排在最后，相同值之间按 id 排序（方向与排序列相同）；after 是上一页最后一个任务的排序值和 id，
+ * 只返回排在它之后的任务（键集分页）
+ */
+export type TaskRowQuery = {
+  statuses?: string[]
+  priorities?: string[]
+  assigneeIds?: string[]
+  unassigned?: boolean // 与 assigneeIds 是"或"的关系
+  tagNames?: string[] // 包含任意一个标签
+  dueFrom?: string
+  dueTo?: string
+  title?: string
+  search?: string // 标题或描述包含
+  customFields?: { fieldId: string; operator: CustomFieldOperator; value: string | number | boolean }[]
+  sort: { column: TaskRowSortColumn; ascending: boolean }
+  after?: { value: string | number | null; id: string }
+  limit: number
+}
+
+/**
+ * 全局搜索的候选行：标题和去掉 HTML 的描述或评论内容中包含全部关键词（不区分大小写），
+ * 由存储层按相关性排序（标题中的关键词权重更高，同分时较新的在前）后每类最多返回 limit 行。
+ * 最终得分、片段和高亮由 data.ts 处理
+ */
+export type SearchRowQuery = {
+  projectIds: string[]
+  terms: string[]
+  limit: number
+}
+
+// 评论的搜索结果附带所属任务的项目和标题
+export type CommentSearchRow = CommentRow & { project_id: string; task_title: string }
+
+// code 为 "conflict" 表示带版本条件的更新因记录已被修改而未执行
+export type RepositoryError = { message: string; code?: "conflict" }
+
+// expectedUpdatedAt：仅当记录当前的 updated_at 与之相同时才更新（乐观并发控制）
+export type UpdateOptions = { expectedUpdatedAt?: string }
+
+// 与 Supabase 客户端相同的返回结构，方便 data.ts 统一处理错误
+export type RepositoryResult<T> = { data: T; error: null } | { data: null; error: RepositoryError }
+
+/**
+ * Storage Repository - 数据访问层的驱动接口
+ * data.ts 中的缓存和格式化逻辑只依赖这个接口，具体存储由驱动实现
+ */
+export interface StorageRepository {
+  // Projects（返回的行包含 task_count）
+  listProjects(): Promise<RepositoryResult<ProjectRow[]>>
+  getProject(id: string): Promise<RepositoryResult<ProjectRow>>
+  insertProject(values: ProjectInsert): Promise<RepositoryResult<ProjectRow>>
+  updateProject(id: string, values: Partial<ProjectRow>, options?: UpdateOptions): Promise<RepositoryResult<ProjectRow>>
+  deleteProject(id: string): Promise<RepositoryResult<null>>
+
+  // Workflow statuses（按 order 升序；replaceStatuses 替换项目的全部状态）
+  listStatuses(projectId: string): Promise<RepositoryResult<StatusRow[]>>
+  replaceStatuses(projectId: string, values: StatusInsert[]): Promise<RepositoryResult<StatusRow[]>>
+
+  // Tasks（按 order 升序，from/to 为包含边界的分页范围）
+  listTasks(projectId: string, from: number, to: number): Promise<RepositoryResult<TaskRow[]>>
+  queryTasks(projectId: string, query: TaskRowQuery): Promise<RepositoryResult<TaskRow[]>>
+  countTasks(projectId: string, status?: string): Promise<RepositoryResult<number>>
+  getTask(id: string): Promise<RepositoryResult<TaskRow>>
+  getTasks(ids: string[]): Promise<RepositoryResult<TaskRow[]>>
+  getMaxTaskOrder(projectId: string): Promise<RepositoryResult<number | null>>
+  // recurrence_source_id 已经被其他任务使用时返回 code 为 "conflict" 的错误
+  insertTask(values: TaskInsert): Promise<RepositoryResult<TaskRow>>
+  updateTask(id: string, values: Partial<TaskRow>, options?: UpdateOptions): Promise<RepositoryResult<TaskRow>>
+  deleteTask(id: string): Promise<RepositoryResult<null>>
+  // 在一次写入中删除多个任务，要么全部删除，要么都不删除
+  deleteTasks(ids: string[]): Promise<RepositoryResult<null>>
+  clearTaskAssignee(projectId: string, userId: string): Promise<RepositoryResult<null>>
+  listSubtasks(parentId: string): Promise<RepositoryResult<TaskRow[]>>
+  // 多个父任务的全部子任务（不保证顺序）
+  listChildTasks(parentIds: string[]): Promise<RepositoryResult<TaskRow[]>>
+  // 全部项目中有重复规则、还没有生成下一次并且截止日期不晚于 date（YYYY-MM-DD）的任务
+  listDueRecurringTasks(date: string): Promise<RepositoryResult<TaskRow[]>>
+
+  // Tags（setTaskTags 会创建缺失的标签并替换任务的全部标签关联）
+  getTaskTags(taskIds: string[]): Promise<RepositoryResult<TaskTagRow[]>>
+  setTaskTags(taskId: string, tagNames: string[]): Promise<RepositoryResult<null>>
+
+  // Custom field values（setCustomFieldValues 替换任务的全部自定义字段值）
+  getCustomFieldValues(taskIds: string[]): Promise<RepositoryResult<CustomFieldValueRow[]>>
+  setCustomFieldValues(taskId: string, values: Record<string, any>): Promise<RepositoryResult<null>>
+
+  // Custom fields
+  listCustomFields(projectId: string): Promise<RepositoryResult<CustomFieldRow[]>>
+  getCustomField(id: string): Promise<RepositoryResult<CustomFieldRow>>
+  insertCustomField(values: CustomFieldInsert): Promise<RepositoryResult<CustomFieldRow>>
+  updateCustomField(id: string, values: Partial<CustomFieldRow>): Promise<RepositoryResult<CustomFieldRow>>
+  deleteCustomField(id: string): Promise<RepositoryResult<null>>
+
+  // Comments（按 created_at 升序；删除顶层评论时同时删除其回复）
+  listComments(taskId: string): Promise<RepositoryResult<CommentRow[]>>
+  countComments(taskIds: string[]): Promise<RepositoryResult<CommentCountRow[]>>
+  getComment(id: string): Promise<RepositoryResult<CommentRow>>
+  insertComment(values: CommentInsert): Promise<RepositoryResult<CommentRow>>
+  updateComment(id: string, values: Partial<CommentRow>): Promise<RepositoryResult<CommentRow>>
+  deleteComment(id: string): Promise<RepositoryResult<null>>
+
+  // Task dependencies（删除任何一端的任务时一起删除）
+  listDependencies(projectId: string): Promise<RepositoryResult<DependencyRow[]>>
+  insertDependency(values: DependencyInsert): Promise<RepositoryResult<DependencyRow>>
+  deleteDependency(id: string): Promise<RepositoryResult<null>>
+
+  // Task activity（按 created_at 降序；删除任务时一起删除）
+  listActivity(taskId: string): Promise<RepositoryResult<ActivityRow[]>>
+  insertActivity(values: ActivityInsert[]): Promise<RepositoryResult<null>>
+  // 任务移动到其他项目时，它们的变更记录跟着改为新的项目
+  moveActivity(taskIds: string[], projectId: string): Promise<RepositoryResult<null>>
+
+  // Saved views（按 name 升序）
+  listSavedViews(projectId: string): Promise<RepositoryResult<SavedViewRow[]>>
+  getSavedView(id: string): Promise<RepositoryResult<SavedViewRow>>
+  insertSavedView(values: SavedViewInsert): Promise<RepositoryResult<SavedViewRow>>
+  updateSavedView(id: string, values: Partial<SavedViewRow>): Promise<RepositoryResult<SavedViewRow>>
+  deleteSavedView(id: string): Promise<RepositoryResult<null>>
+
+  // Project templates（按 name 升序）
+  listProjectTemplates(userId: string): Promise<RepositoryResult<ProjectTemplateRow[]>>
+  getProjectTemplate(id: string): Promise<RepositoryResult<ProjectTemplateRow>>
+  insertProjectTemplate(values: ProjectTemplateInsert): Promise<RepositoryResult<ProjectTemplateRow>>
+  deleteProjectTemplate(id: string): Promise<RepositoryResult<null>>
+
+  // Search
+  searchProjects(query: SearchRowQuery): Promise<RepositoryResult<ProjectRow[]>>
+  searchTasks(query: SearchRowQuery): Promise<RepositoryResult<TaskRow[]>>
+  searchComments(query: SearchRowQuery): Promise<RepositoryResult<CommentSearchRow[]>>
+
+  // Users（email 全部使用小写保存）
+  getUser(id: string): Promise<RepositoryResult<UserRow>>
+  getUserByEmail(email: string): Promise<RepositoryResult<UserRow | null>>
+  getUsers(ids: string[]): Promise<RepositoryResult<UserRow[]>>
+  insertUser(values: UserInsert): Promise<RepositoryResult<UserRow>>
+
+  // Project members（按 created_at 升序）
+  listMembers(projectId: string): Promise<RepositoryResult<MemberRow[]>>
+  getMember(projectId: string, userId: string): Promise<RepositoryResult<MemberRow | null>>
+  listUserMemberships(userId: string): Promise<RepositoryResult<MemberRow[]>>
+  insertMember(values: MemberInsert): Promise<RepositoryResult<MemberRow>>
+  updateMember(id: string, values: Partial<MemberRow>): Promise<RepositoryResult<MemberRow>>
+  deleteMember(id: string): Promise<RepositoryResult<null>>
+
+  // Invitations（listInvitations 只返回未接受的邀请）
+  listInvitations(projectId: string): Promise<RepositoryResult<InvitationRow[]>>
+  getInvitationByToken(token: string): Promise<RepositoryResult<InvitationRow>>
+  insertInvitation(values: InvitationInsert): Promise<RepositoryResult<InvitationRow>>
+  updateInvitation(id: string, values: Partial<InvitationRow>): Promise<RepositoryResult<InvitationRow>>
+  deleteInvitation(id: string): Promise<RepositoryResult<null>>
+
+  // Realtime（监听对项目任务和依赖关系的修改，返回取消监听的函数）
+  watchTasks(projectId: string, onChange: (change: TaskChange) => void): () => void
+}
+
+// watchTasks 收到的一次修改；依赖关系的修改报告为被阻塞任务的 task.updated
+export type TaskChange = { type: "task.created" | "task.updated" | "task.deleted"; taskIds: string[] }
+
+export type StorageDriver = "supabase" | "memory" | "file"
+
+let repository: StorageRepository | null = null
+
+/**
+ * 根据 STORAGE_DRIVER 环境变量选择存储驱动：
+ * - supabase（默认）：使用 Supabase 数据库
+ * - memory：进程内存储，适合测试和 CI
+ * - file：本地 JSON 文件存储，路径由 STORAGE_FILE_PATH 指定（默认 .data/storage.json）
+ */
+export function getRepository(): StorageRepository {
+  if (repository) return repository
+
+  const driver = (process.env.STORAGE_DRIVER || "supabase") as StorageDriver
+
+  switch (driver) {
+    case "memory":
+      repository = new LocalRepository()
+      break
+    case "file":
+      repository = new LocalRepository(process.env.STORAGE_FILE_PATH || ".data/storage.json")
+      break
+    case "supabase":
+      repository = new SupabaseRepository()
+      break
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`)
+  }
+
+  return repository
+}
+
+// 仅用于测试：替换或重置当前驱动
+export function setRepository(next: StorageRepository | null) {
+  repository = next
+}
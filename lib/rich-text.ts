@@ -0,0 +1,72 @@
+// 富文本白名单：SimpleRichTextEditor 产生的标签（加粗、斜体、下划线、对齐、列表、链接、换行）
+const ALLOWED_TAGS = new Set(["p", "div", "span", "br", "b", "strong", "i", "em", "u", "s", "ul", "ol", "li", "a"])
+const ALIGNED_TAGS = new Set(["p", "div", "li"])
+
+// 连同内容一起删除的标签
+const DROPPED_CONTENT = /<(script|style|iframe|object|embed|template|noscript|textarea|title|xmp)\b[\s\S]*?<\/\1\s*>/gi
+const TAG = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/g
+const ATTRIBUTE = /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g
+
+function escapeText(text: string) {
+  return text.replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+function escapeAttribute(value: string) {
+  return value.replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+// 只保留链接的 http(s)/mailto 地址和段落的 text-align，其余属性（包括 on* 事件和 style）全部去掉
+function sanitizeAttributes(tag: string, source: string) {
+  const attributes: string[] = []
+
+  for (const [, rawName, doubleQuoted, singleQuoted, unquoted] of source.matchAll(ATTRIBUTE)) {
+    const name = rawName.toLowerCase()
+    const value = (doubleQuoted ?? singleQuoted ?? unquoted ?? "").trim()
+
+    if (tag === "a" && name === "href" && /^(https?:\/\/|mailto:)/i.test(value)) {
+      attributes.push(`href="${escapeAttribute(value)}"`)
+    }
+
+    if (ALIGNED_TAGS.has(tag) && name === "style") {
+      const align = value.match(/^text-align\s*:\s*(left|center|right|justify)\s*;?$/i)
+      if (align) attributes.push(`style="text-align: ${align[1].toLowerCase()}"`)
+    }
+
+    if (ALIGNED_TAGS.has(tag) && name === "align" && /^(left|center|right|justify)$/i.test(value)) {
+      attributes.push(`align="${value.toLowerCase()}"`)
+    }
+  }
+
+  if (tag === "a" && attributes.length > 0) attributes.push('rel="noopener noreferrer"', 'target="_blank"')
+
+  return attributes.length > 0 ? ` ${attributes.join(" ")}` : ""
+}
+
+/**
+ * 按白名单清理富文本 HTML：不在白名单中的标签被去掉（保留其中的文字），script、style 等连同内容删除，
+ * 属性只保留安全的链接地址和对齐方式。保存评论时和渲染评论前都会调用
+ */
+export function sanitizeRichText(html?: string | null) {
+  if (!html) return ""
+
+  const source = html.replace(/<!--[\s\S]*?-->/g, "").replace(DROPPED_CONTENT, "")
+  let result = ""
+  let lastIndex = 0
+
+  for (const match of source.matchAll(TAG)) {
+    const [text, closing, rawTag, attributes] = match
+    const tag = rawTag.toLowerCase()
+    result += escapeText(source.slice(lastIndex, match.index))
+    lastIndex = (match.index ?? 0) + text.length
+
+    if (!ALLOWED_TAGS.has(tag)) continue
+    if (tag === "br") {
+      if (!closing) result += "<br>"
+      continue
+    }
+
+    result += closing ? `</${tag}>` : `<${tag}${sanitizeAttributes(tag, attributes)}>`
+  }
+
+  return result + escapeText(source.slice(lastIndex))
+}
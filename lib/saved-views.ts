@@ -0,0 +1,76 @@
+import { z } from "zod"
+import { TASK_SORT_KEYS } from "./task-query"
+import { EMPTY_FILTER_GROUP, filterGroupSchema } from "./filter-builder"
+import type { SavedViewConfig, SwimlaneGroupBy, TaskSortKey } from "./types"
+
+/**
+ * 保存的视图：筛选条件、搜索词、排序、表格列、看板泳道和视图模式（看板、表格、日历或时间线）
+ *
+ * 配置以 JSON 保存在 saved_views.config 中，读取和保存时都经过 savedViewConfigSchema 校验，
+ * 缺少的字段使用默认值，因此以后增加配置项时旧视图仍然可以打开。
+ */
+
+// 表格中可以隐藏的内置列，标题列始终显示
+export const TABLE_COLUMNS = [
+  { key: "description", label: "Description" },
+  { key: "status", label: "Status" },
+  { key: "priority", label: "Priority" },
+  { key: "assignee", label: "Assignee" },
+  { key: "dueDate", label: "Due Date" },
+  { key: "tags", label: "Tags" },
+]
+
+export const MAX_VIEW_NAME_LENGTH = 100
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const SWIMLANE_FIELDS = ["assignee", "priority", "tags"]
+
+export const savedViewConfigSchema = z.object({
+  viewMode: z.enum(["board", "table", "calendar", "timeline"]).default("board"),
+  filters: z
+    .object({
+      title: z.string().default(""),
+      assignee: z.string().default(""),
+      status: z.string().default(""),
+      priority: z.enum(["", "low", "medium", "high"]).default(""),
+      dueFrom: z.string().regex(DATE_PATTERN).nullable().default(null),
+      dueTo: z.string().regex(DATE_PATTERN).nullable().default(null),
+      tags: z.array(z.string()).default([]),
+      conditions: filterGroupSchema.default(EMPTY_FILTER_GROUP),
+    })
+    .default({}),
+  search: z.string().default(""),
+  sort: z
+    .object({
+      key: z.enum(TASK_SORT_KEYS as [TaskSortKey, ...TaskSortKey[]]),
+      direction: z.enum(["asc", "desc"]),
+    })
+    .nullable()
+    .default(null),
+  columns: z.array(z.string()).nullable().default(null),
+  swimlanes: z
+    .custom<SwimlaneGroupBy>(
+      (value) => typeof value === "string" && (SWIMLANE_FIELDS.includes(value) || value.startsWith("custom:")),
+      "Invalid swimlane grouping",
+    )
+    .nullable()
+    .default(null),
+})
+
+export const DEFAULT_VIEW_CONFIG: SavedViewConfig = savedViewConfigSchema.parse({})
+
+export function parseSavedViewConfig(
+  input: unknown,
+): { config: SavedViewConfig; error?: undefined } | { config?: undefined; error: string } {
+  const result = savedViewConfigSchema.safeParse(input ?? {})
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    return { error: `Invalid view configuration at ${issue.path.join(".") || "root"}: ${issue.message}` }
+  }
+  return { config: result.data }
+}
+
+// 比较两个配置是否相同，用于判断当前看板是否修改了打开的视图
+export function isSameViewConfig(a: SavedViewConfig, b: SavedViewConfig) {
+  return JSON.stringify(savedViewConfigSchema.parse(a)) === JSON.stringify(savedViewConfigSchema.parse(b))
+}
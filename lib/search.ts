@@ -0,0 +1,134 @@
+import { richTextToPlain } from "./task-csv"
+import type { HighlightedText } from "./types"
+
+/**
+ * 全局搜索的相关性排序和高亮
+ *
+ * 查询按空白拆分为关键词（不区分大小写），文档必须包含全部关键词才算匹配。
+ * 标题中的匹配权重是正文的三倍；关键词出现在词首、作为完整单词出现、整个查询作为短语出现都会加分。
+ * 富文本（任务描述、评论）先去掉 HTML 再匹配，高亮区间基于去掉 HTML 后的文本。
+ */
+
+export const MAX_SEARCH_TERMS = 8
+const TITLE_WEIGHT = 3
+const SNIPPET_LENGTH = 160
+const SNIPPET_CONTEXT = 40
+
+const WORD_CHAR = /[\p{L}\p{N}]/u
+
+export function tokenizeSearchQuery(query: string) {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+  return [...new Set(terms)].slice(0, MAX_SEARCH_TERMS)
+}
+
+// 富文本转换为用于搜索的纯文本，连续空白合并为一个空格
+export function toSearchText(html?: string | null) {
+  return richTextToPlain(html).replace(/\s+/g, " ").trim()
+}
+
+function findOccurrences(lowerText: string, term: string) {
+  const positions: number[] = []
+  for (let index = lowerText.indexOf(term); index !== -1; index = lowerText.indexOf(term, index + term.length)) {
+    positions.push(index)
+  }
+  return positions
+}
+
+// 所有关键词的匹配区间，按位置排序并合并重叠的区间
+function findHighlights(text: string, terms: string[]): [number, number][] {
+  const lowerText = text.toLowerCase()
+  const ranges = terms
+    .flatMap((term) => findOccurrences(lowerText, term).map((start): [number, number] => [start, start + term.length]))
+    .sort((a, b) => a[0] - b[0])
+
+  const merged: [number, number][] = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([...range])
+    }
+  }
+  return merged
+}
+
+export function highlightText(text: string, terms: string[]): HighlightedText {
+  return { text, highlights: findHighlights(text, terms) }
+}
+
+function isWordBoundary(text: string, index: number) {
+  return index <= 0 || index >= text.length || !WORD_CHAR.test(text[index - 1]) || !WORD_CHAR.test(text[index])
+}
+
+function scoreText(text: string, terms: string[]) {
+  const lowerText = text.toLowerCase()
+  let score = 0
+
+  for (const term of terms) {
+    const positions = findOccurrences(lowerText, term)
+    if (positions.length === 0) continue
+
+    // 重复出现只少量加分，避免长文本靠堆砌关键词排到前面
+    score += 1 + Math.min(positions.length - 1, 4) * 0.25
+    if (positions.some((start) => isWordBoundary(text, start))) score += 1
+    if (positions.some((start) => isWordBoundary(text, start) && isWordBoundary(text, start + term.length))) {
+      score += 1
+    }
+  }
+
+  const phrase = terms.join(" ")
+  if (lowerText === phrase) score += 5
+  else if (lowerText.startsWith(phrase)) score += 2
+  else if (terms.length > 1 && lowerText.includes(phrase)) score += 2
+
+  return score
+}
+
+// 截取第一个匹配位置附近的片段；没有匹配时取开头
+function buildSnippet(text: string, terms: string[]): HighlightedText | null {
+  if (!text) return null
+
+  const highlights = findHighlights(text, terms)
+  let start = highlights.length > 0 ? Math.max(0, highlights[0][0] - SNIPPET_CONTEXT) : 0
+  let end = Math.min(text.length, start + SNIPPET_LENGTH)
+
+  // 尽量不在单词中间截断
+  if (start > 0) {
+    const space = text.indexOf(" ", start)
+    if (space !== -1 && space < (highlights[0]?.[0] ?? end)) start = space + 1
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end)
+    if (space > start) end = space
+  }
+
+  const prefix = start > 0 ? "…" : ""
+  const suffix = end < text.length ? "…" : ""
+  const offset = prefix.length - start
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: highlights
+      .filter(([from, to]) => to > start && from < end)
+      .map(([from, to]): [number, number] => [Math.max(from, start) + offset, Math.min(to, end) + offset]),
+  }
+}
+
+/**
+ * 计算文档与关键词的相关性，不包含全部关键词时返回 null
+ * title 和 body 都应是纯文本（富文本先经过 toSearchText）
+ */
+export function rankSearchDocument(title: string, body: string, terms: string[]) {
+  if (terms.length === 0) return null
+
+  const lowerTitle = title.toLowerCase()
+  const lowerBody = body.toLowerCase()
+  if (!terms.every((term) => lowerTitle.includes(term) || lowerBody.includes(term))) return null
+
+  return {
+    score: TITLE_WEIGHT * scoreText(title, terms) + scoreText(body, terms),
+    title: highlightText(title, terms),
+    snippet: buildSnippet(body, terms),
+  }
+}
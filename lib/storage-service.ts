@@ -13,9 +13,14 @@ import {
   getProjectCustomFields,
   addCustomField,
   deleteCustomField,
+  getProjectTaskExport,
+  importProjectTasks,
+  exportProjectArchive,
+  importProjectArchive,
 } from "./data"
+import { rankSearchDocument, tokenizeSearchQuery, toSearchText } from "./search"
 
-import type { Project, Task, CustomField } from "./types"
+import type { Project, Task, CustomField, TaskImportTarget, User } from "./types"
 
 /**
  * Storage Service - A centralized service for all data operations
@@ -31,8 +36,8 @@ export class StorageService {
     return getProject(id)
   }
 
-  static async createProject(project: Omit<Project, "id" | "taskCount">) {
-    return addProject(project)
+  static async createProject(project: Omit<Project, "id" | "taskCount">, ownerId: string) {
+    return addProject(project, ownerId)
   }
 
   static async updateProject(id: string, projectData: Partial<Project>) {
@@ -84,83 +89,23 @@ export class StorageService {
   // Utility methods
   static async searchTasks(projectId: string, query: string) {
     const tasks = await getProjectTasks(projectId)
-    if (!query) return tasks
+    const terms = tokenizeSearchQuery(query || "")
+    if (terms.length === 0) return tasks
 
-    const lowerQuery = query.toLowerCase()
-    return tasks.filter(
-      (task) => task.title.toLowerCase().includes(lowerQuery) || task.description.toLowerCase().includes(lowerQuery),
-    )
+    // Same matching as the global search: HTML is stripped from descriptions and results are ranked by relevance
+    return tasks
+      .map((task) => ({ task, match: rankSearchDocument(task.title, toSearchText(task.description), terms) }))
+      .filter(({ match }) => match)
+      .sort((a, b) => b.match!.score - a.match!.score)
+      .map(({ task }) => task)
   }
 
-  // Data export/import
+  // Project archive export/import (versioned JSON, see lib/project-archive.ts)
   static async exportProjectData(projectId: string) {
-    // Get all project data including tasks and custom fields
-    const [project, tasks, customFields] = await Promise.all([
-      getProject(projectId),
-      getProjectTasks(projectId),
-      getProjectCustomFields(projectId),
-    ])
-
-    return {
-      project,
-      tasks,
-      customFields,
-      exportDate: new Date().toISOString(),
-    }
-  }
-
-  static async importProjectData(data: any) {
-    // Validate the import data
-    if (!data.project || !data.tasks || !data.customFields) {
-      throw new Error("Invalid import data format")
-    }
-
-    // Create the project first
-    const newProject = await addProject({
-      title: data.project.title,
-      description: data.project.description,
-      status: data.project.status,
-    })
-
-    // Create custom fields
-    const customFieldMap = new Map()
-    for (const field of data.customFields) {
-      const newField = await addCustomField({
-        projectId: newProject.id,
-        name: field.name,
-        type: field.type,
-        options: field.options,
-        isRequired: field.isRequired,
-      })
-      customFieldMap.set(field.id, newField.id)
-    }
-
-    // Create tasks with updated references
-    for (const task of data.tasks) {
-      // Map custom fields to new IDs
-      const customFields = task.customFields ? {} : undefined
-      if (task.customFields) {
-        for (const [oldId, value] of Object.entries(task.customFields)) {
-          const newId = customFieldMap.get(oldId)
-          if (newId) {
-            customFields[newId] = value
-          }
-        }
-      }
-
-      await addTask({
-        projectId: newProject.id,
-        title: task.title,
-        description: task.description,
-        status: task.status,
-        priority: task.priority,
-        assignee: task.assignee,
-        dueDate: task.dueDate,
-        tags: task.tags,
-        customFields,
-      })
-    }
-
-    return newProject
+    return exportProjectArchive(projectId)
+  }
+
+  static async importProjectData(data: unknown, owner: User) {
+    return importProjectArchive(data, owner)
   }
 }
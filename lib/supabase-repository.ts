@@ -0,0 +1,693 @@
+import { createServerSupabaseClient } from "./supabase"
+import type {
+  StorageRepository,
+  RepositoryResult,
+  ProjectRow,
+  ProjectInsert,
+  TaskRow,
+  TaskInsert,
+  TaskTagRow,
+  CustomFieldRow,
+  CustomFieldInsert,
+  CustomFieldValueRow,
+  CommentRow,
+  CommentCountRow,
+  CommentInsert,
+  StatusRow,
+  StatusInsert,
+  UserRow,
+  UserInsert,
+  MemberRow,
+  MemberInsert,
+  InvitationRow,
+  InvitationInsert,
+  ActivityRow,
+  ActivityInsert,
+  DependencyRow,
+  DependencyInsert,
+  UpdateOptions,
+  TaskRowQuery,
+  SearchRowQuery,
+  CommentSearchRow,
+  SavedViewRow,
+  SavedViewInsert,
+  ProjectTemplateRow,
+  ProjectTemplateInsert,
+  TaskChange,
+} from "./repository"
+
+// 将 Supabase 的返回值转换为统一的结果结构
+function toResult<T>(data: T | null, error: { message: string } | null): RepositoryResult<T> {
+  if (error) {
+    return { data: null, error: { message: error.message } }
+  }
+  return { data: data as T, error: null }
+}
+
+// PostgREST 过滤条件中的值：用双引号包裹，避免逗号和括号被当作语法
+function quoteFilterValue(value: string | number) {
+  return `"${String(value).replace(/["\\]/g, "\\$&")}"`
+}
+
+// ilike 的"包含"模式，转义其中的通配符
+function containsPattern(text: string) {
+  return `%${text.replace(/[\\%_]/g, "\\$&")}%`
+}
+
+// 搜索函数的参数（见 supabase/migrations 中的 search_projects 等函数）
+function searchArgs(query: SearchRowQuery) {
+  return {
+    project_ids: query.projectIds,
+    patterns: query.terms.map((term) => containsPattern(term.toLowerCase())),
+    max_results: query.limit,
+  }
+}
+
+// 带版本条件的更新没有匹配到记录
+const TASK_CHANGE_TYPES: Record<"INSERT" | "UPDATE" | "DELETE", TaskChange["type"]> = {
+  INSERT: "task.created",
+  UPDATE: "task.updated",
+  DELETE: "task.deleted",
+}
+
+function toConflict<T>(message: string): RepositoryResult<T> {
+  return { data: null, error: { message, code: "conflict" } }
+}
+
+/**
+ * Supabase 驱动 - 使用 Supabase 数据库中的 projects、project_statuses、tasks、tags、
+ * task_tags、custom_fields、task_custom_field_values、task_comments、task_activity、task_dependencies、saved_views、
+ * project_templates、users、project_members 和 project_invitations 表
+ *
+ * 使用只在服务端配置的 service role key 连接，绕过行级安全；这些表对 anon 和 authenticated
+ * 角色开启了行级安全且没有任何策略，访问控制完全由 API 路由（lib/auth.ts）负责
+ */
+export class SupabaseRepository implements StorageRepository {
+  private get client() {
+    return createServerSupabaseClient()
+  }
+
+  async listProjects(): Promise<RepositoryResult<ProjectRow[]>> {
+    const { data, error } = await this.client
+      .from("projects_with_task_counts")
+      .select("*")
+      .order("created_at", { ascending: false })
+    return toResult(data as ProjectRow[] | null, error)
+  }
+
+  async getProject(id: string): Promise<RepositoryResult<ProjectRow>> {
+    const { data, error } = await this.client.from("projects_with_task_counts").select("*").eq("id", id).single()
+    return toResult(data as ProjectRow | null, error)
+  }
+
+  async insertProject(values: ProjectInsert): Promise<RepositoryResult<ProjectRow>> {
+    const { data, error } = await this.client.from("projects").insert(values).select().single()
+    return toResult(data as ProjectRow | null, error)
+  }
+
+  async updateProject(
+    id: string,
+    values: Partial<ProjectRow>,
+    options: UpdateOptions = {},
+  ): Promise<RepositoryResult<ProjectRow>> {
+    let query = this.client.from("projects").update(values).eq("id", id)
+    if (options.expectedUpdatedAt) query = query.eq("updated_at", options.expectedUpdatedAt)
+
+    const { data, error } = await query.select().maybeSingle()
+    if (!data && !error) {
+      return options.expectedUpdatedAt
+        ? toConflict(`Project ${id} has been modified`)
+        : toResult<ProjectRow>(null, { message: `Project ${id} not found` })
+    }
+    return toResult(data as ProjectRow | null, error)
+  }
+
+  async deleteProject(id: string): Promise<RepositoryResult<null>> {
+    const { error } = await this.client.from("projects").delete().eq("id", id)
+    return toResult(null, error)
+  }
+
+  async listStatuses(projectId: string): Promise<RepositoryResult<StatusRow[]>> {
+    const { data, error } = await this.client
+      .from("project_statuses")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("order", { ascending: true })
+    return toResult(data as StatusRow[] | null, error)
+  }
+
+  async replaceStatuses(projectId: string, values: StatusInsert[]): Promise<RepositoryResult<StatusRow[]>> {
+    const supabase = this.client
+
+    // 首先删除项目现有的状态
+    const { error: deleteError } = await supabase.from("project_statuses").delete().eq("project_id", projectId)
+    if (deleteError) {
+      return toResult<StatusRow[]>(null, deleteError)
+    }
+
+    const { data, error } = await supabase
+      .from("project_statuses")
+      .insert(values.map((status) => ({ ...status, project_id: projectId })))
+      .select()
+      .order("order", { ascending: true })
+    return toResult(data as StatusRow[] | null, error)
+  }
+
+  async listTasks(projectId: string, from: number, to: number): Promise<RepositoryResult<TaskRow[]>> {
+    const { data, error } = await this.client
+      .from("tasks")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("order", { ascending: true })
+      .range(from, to)
+    return toResult(data as TaskRow[] | null, error)
+  }
+
+  async queryTasks(projectId: string, query: TaskRowQuery): Promise<RepositoryResult<TaskRow[]>> {
+    const supabase = this.client
+    const { column, ascending } = query.sort
+    const embeds: string[] = []
+
+    // 标签条件通过 task_tags 内连接筛选，先把标签名换成 ID
+    let tagIds: string[] = []
+    if (query.tagNames) {
+      const { data: tags, error: tagError } = await supabase.from("tags").select("id").in("name", query.tagNames)
+      if (tagError) return toResult<TaskRow[]>(null, tagError)
+      if (!tags || tags.length === 0) return toResult<TaskRow[]>([], null)
+      tagIds = tags.map((tag) => tag.id)
+      embeds.push("tag_filter:task_tags!inner(tag_id)")
+    }
+
+    // 每个自定义字段条件各自内连接一次 task_custom_field_values
+    query.customFields?.forEach((_, index) => {
+      embeds.push(`cf_filter_${index}:task_custom_field_values!inner(field_id, value)`)
+    })
+
+    let request = supabase
+      .from("tasks")
+      .select(["*", ...embeds].join(", "))
+      .eq("project_id", projectId)
+
+    if (query.statuses) request = request.in("status", query.statuses)
+    if (query.priorities) request = request.in("priority", query.priorities)
+    if (query.assigneeIds || query.unassigned) {
+      const conditions = [
+        ...(query.assigneeIds?.length ? [`assignee_id.in.(${query.assigneeIds.map(quoteFilterValue).join(",")})`] : []),
+        ...(query.unassigned ? ["assignee_name.is.null"] : []),
+      ]
+      request = request.or(conditions.join(","))
+    }
+    if (tagIds.length > 0) request = request.in("tag_filter.tag_id", tagIds)
+    if (query.dueFrom) request = request.gte("due_date", query.dueFrom)
+    if (query.dueTo) request = request.lte("due_date", query.dueTo)
+    if (query.title) request = request.ilike("title", containsPattern(query.title))
+    if (query.search) {
+      const pattern = quoteFilterValue(containsPattern(query.search))
+      request = request.or(`title.ilike.${pattern},description.ilike.${pattern}`)
+    }
+
+    // 字段值是 jsonb，比较值同样以 JSON 形式传入
+    query.customFields?.forEach((predicate, index) => {
+      const alias = `cf_filter_${index}`
+      request = request.eq(`${alias}.field_id`, predicate.fieldId)
+      request =
+        predicate.operator === "has"
+          ? request.filter(`${alias}.value`, "cs", JSON.stringify([predicate.value]))
+          : request.filter(`${alias}.value`, predicate.operator, JSON.stringify(predicate.value))
+    })
+
+    // 键集分页：空值排在最后，相同值之间按 id 排序
+    if (query.after) {
+      const id = quoteFilterValue(query.after.id)
+      const op = ascending ? "gt" : "lt"
+      if (query.after.value === null) {
+        request = request.is(column, null)[op]("id", query.after.id)
+      } else {
+        const value = quoteFilterValue(query.after.value)
+        request = request.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${id}),${column}.is.null`)
+      }
+    }
+
+    const { data, error } = await request
+      .order(column, { ascending, nullsFirst: false })
+      .order("id", { ascending })
+      .limit(query.limit)
+
+    // 去掉仅用于筛选的关联数据
+    const rows = (data as unknown as Record<string, unknown>[] | null)?.map((row) =>
+      Object.fromEntries(
+        Object.entries(row).filter(([key]) => !key.startsWith("tag_filter") && !key.startsWith("cf_filter_")),
+      ),
+    )
+    return toResult((rows as TaskRow[] | undefined) ?? null, error)
+  }
+
+  async countTasks(projectId: string, status?: string): Promise<RepositoryResult<number>> {
+    let query = this.client.from("tasks").select("*", { count: "exact", head: true }).eq("project_id", projectId)
+
+    if (status !== undefined) {
+      query = query.eq("status", status)
+    }
+
+    const { count, error } = await query
+    return toResult(count || 0, error)
+  }
+
+  async getTask(id: string): Promise<RepositoryResult<TaskRow>> {
+    const { data, error } = await this.client.from("tasks").select("*").eq("id", id).single()
+    return toResult(data as TaskRow | null, error)
+  }
+
+  async getTasks(ids: string[]): Promise<RepositoryResult<TaskRow[]>> {
+    const { data, error } = await this.client.from("tasks").select("*").in("id", ids)
+    return toResult(data as TaskRow[] | null, error)
+  }
+
+  async getMaxTaskOrder(projectId: string): Promise<RepositoryResult<number | null>> {
+    const { data, error } = await this.client
+      .from("tasks")
+      .select("order")
+      .eq("project_id", projectId)
+      .order("order", { ascending: false })
+      .limit(1)
+
+    const maxOrder = data && data.length > 0 && data[0].order !== null ? (data[0].order as number) : null
+    return toResult(maxOrder, error)
+  }
+
+  async insertTask(values: TaskInsert): Promise<RepositoryResult<TaskRow>> {
+    const { data, error } = await this.client.from("tasks").insert(values).select().single()
+    // 23505：违反唯一约束，即 recurrence_source_id 对应的下一次任务已经生成
+    if (error?.code === "23505") return toConflict(`Task ${values.recurrence_source_id} already has a next occurrence`)
+    return toResult(data as TaskRow | null, error)
+  }
+
+  async updateTask(
+    id: string,
+    values: Partial<TaskRow>,
+    options: UpdateOptions = {},
+  ): Promise<RepositoryResult<TaskRow>> {
+    let query = this.client.from("tasks").update(values).eq("id", id)
+    if (options.expectedUpdatedAt) query = query.eq("updated_at", options.expectedUpdatedAt)
+
+    const { data, error } = await query.select().maybeSingle()
+    if (!data && !error) {
+      return options.expectedUpdatedAt
+        ? toConflict(`Task ${id} has been modified`)
+        : toResult<TaskRow>(null, { message: `Task ${id} not found` })
+    }
+    return toResult(data as TaskRow | null, error)
+  }
+
+  async deleteTask(id: string): Promise<RepositoryResult<null>> {
+    const { error } = await this.client.from("tasks").delete().eq("id", id)
+    return toResult(null, error)
+  }
+
+  async deleteTasks(ids: string[]): Promise<RepositoryResult<null>> {
+    const { error } = await this.client.from("tasks").delete().in("id", ids)
+    return toResult(null, error)
+  }
+
+  async clearTaskAssignee(projectId: string, userId: string): Promise<RepositoryResult<null>> {
+    const { error } = await this.client
+      .from("tasks")
+      .update({ assignee_id: null, assignee_name: null, assignee_initials: null, updated_at: new Date().toISOString() })
+      .eq("project_id", projectId)
+      .eq("assignee_id", userId)
+    return toResult(null, error)
+  }
+
+  async listSubtasks(parentId: string): Promise<RepositoryResult<TaskRow[]>> {
+    const { data, error } = await this.client
+      .from("tasks")
+      .select("*")
+      .eq("parent_id", parentId)
+      .order("order", { ascending: true })
+    return toResult(data as TaskRow[] | null, error)
+  }
+
+  async listChildTasks(parentIds: string[]): Promise<RepositoryResult<TaskRow[]>> {
+    const { data, error } = await this.client.from("tasks").select("*").in("parent_id", parentIds)
+    return toResult(data as TaskRow[] | null, error)
+  }
+
+  async listDueRecurringTasks(date: string): Promise<RepositoryResult<TaskRow[]>> {
+    const { data, error } = await this.client
+      .from("tasks")
+      .select("*")
+      .not("recurrence", "is", null)
+      .is("recurrence_next_id", null)
+      .lte("due_date", date)
+    return toResult(data as TaskRow[] | null, error)
+  }
+
+  async getTaskTags(taskIds: string[]): Promise<RepositoryResult<TaskTagRow[]>> {
+    const { data, error } = await this.client.from("task_tags").select("task_id, tags(name)").in("task_id", taskIds)
+
+    const rows = (data || [])
+      .map((item: any) => ({ task_id: item.task_id, name: item.tags?.name }))
+      .filter((item) => Boolean(item.name))
+    return toResult(rows, error)
+  }
+
+  async setTaskTags(taskId: string, tagNames: string[]): Promise<RepositoryResult<null>> {
+    const supabase = this.client
+
+    // 先确保所有标签都存在并取得标签ID，失败时不改动现有关联
+    let tagData: { id: string; name: string }[] = []
+    if (tagNames.length > 0) {
+      const upserts = await Promise.all(
+        tagNames.map((name) => supabase.from("tags").upsert({ name }, { onConflict: "name" })),
+      )
+      const upsertError = upserts.find((result) => result.error)?.error
+      if (upsertError) {
+        return toResult(null, upsertError)
+      }
+
+      const { data, error: tagError } = await supabase.from("tags").select("id, name").in("name", tagNames)
+      if (tagError) {
+        return toResult(null, tagError)
+      }
+      tagData = data || []
+    }
+
+    // 删除现有标签关联
+    const { error: deleteError } = await supabase.from("task_tags").delete().eq("task_id", taskId)
+    if (deleteError || tagData.length === 0) {
+      return toResult(null, deleteError)
+    }
+
+    // 创建任务-标签关联
+    const { error } = await supabase
+      .from("task_tags")
+      .insert(tagData.map((tag) => ({ task_id: taskId, tag_id: tag.id })))
+    return toResult(null, error)
+  }
+
+  async getCustomFieldValues(taskIds: string[]): Promise<RepositoryResult<CustomFieldValueRow[]>> {
+    const { data, error } = await this.client
+      .from("task_custom_field_values")
+      .select("task_id, field_id, value")
+      .in("task_id", taskIds)
+    return toResult(data as CustomFieldValueRow[] | null, error)
+  }
+
+  async setCustomFieldValues(taskId: string, values: Record<string, any>): Promise<RepositoryResult<null>> {
+    const supabase = this.client
+
+    // 首先删除现有自定义字段值
+    const { error: deleteError } = await supabase.from("task_custom_field_values").delete().eq("task_id", taskId)
+    if (deleteError || Object.keys(values).length === 0) {
+      return toResult(null, deleteError)
+    }
+
+    const { error } = await supabase.from("task_custom_field_values").insert(
+      Object.entries(values).map(([fieldId, value]) => ({
+        task_id: taskId,
+        field_id: fieldId,
+        value,
+      })),
+    )
+    return toResult(null, error)
+  }
+
+  async listCustomFields(projectId: string): Promise<RepositoryResult<CustomFieldRow[]>> {
+    const { data, error } = await this.client.from("custom_fields").select("*").eq("project_id", projectId)
+    return toResult(data as CustomFieldRow[] | null, error)
+  }
+
+  async getCustomField(id: string): Promise<RepositoryResult<CustomFieldRow>> {
+    const { data, error } = await this.client.from("custom_fields").select("*").eq("id", id).single()
+    return toResult(data as CustomFieldRow | null, error)
+  }
+
+  async insertCustomField(values: CustomFieldInsert): Promise<RepositoryResult<CustomFieldRow>> {
+    const { data, error } = await this.client.from("custom_fields").insert(values).select().single()
+    return toResult(data as CustomFieldRow | null, error)
+  }
+
+  async updateCustomField(id: string, values: Partial<CustomFieldRow>): Promise<RepositoryResult<CustomFieldRow>> {
+    const { data, error } = await this.client.from("custom_fields").update(values).eq("id", id).select().single()
+    return toResult(data as CustomFieldRow | null, error)
+  }
+
+  async deleteCustomField(id: string): Promise<RepositoryResult<null>> {
+    const { error } = await this.client.from("custom_fields").delete().eq("id", id)
+    return toResult(null, error)
+  }
+
+  async listComments(taskId: string): Promise<RepositoryResult<CommentRow[]>> {
+    const { data, error } = await this.client
+      .from("task_comments")
+      .select("*")
+      .eq("task_id", taskId)
+      .order("created_at", { ascending: true })
+    return toResult(data as CommentRow[] | null, error)
+  }
+
+  async countComments(taskIds: string[]): Promise<RepositoryResult<CommentCountRow[]>> {
+    const { data, error } = await this.client.from("task_comments").select("task_id").in("task_id", taskIds)
+
+    const counts = new Map(taskIds.map((id) => [id, 0]))
+    ;(data || []).forEach((item: { task_id: string }) => {
+      counts.set(item.task_id, (counts.get(item.task_id) || 0) + 1)
+    })
+    return toResult(
+      Array.from(counts, ([task_id, count]) => ({ task_id, count })),
+      error,
+    )
+  }
+
+  async getComment(id: string): Promise<RepositoryResult<CommentRow>> {
+    const { data, error } = await this.client.from("task_comments").select("*").eq("id", id).single()
+    return toResult(data as CommentRow | null, error)
+  }
+
+  async insertComment(values: CommentInsert): Promise<RepositoryResult<CommentRow>> {
+    const { data, error } = await this.client.from("task_comments").insert(values).select().single()
+    return toResult(data as CommentRow | null, error)
+  }
+
+  async updateComment(id: string, values: Partial<CommentRow>): Promise<RepositoryResult<CommentRow>> {
+    const { data, error } = await this.client.from("task_comments").update(values).eq("id", id).select().single()
+    return toResult(data as CommentRow | null, error)
+  }
+
+  async deleteComment(id: string): Promise<RepositoryResult<null>> {
+    const { error } = await this.client.from("task_comments").delete().or(`id.eq.${id},parent_id.eq.${id}`)
+    return toResult(null, error)
+  }
+
+  async listDependencies(projectId: string): Promise<RepositoryResult<DependencyRow[]>> {
+    const { data, error } = await this.client.from("task_dependencies").select("*").eq("project_id", projectId)
+    return toResult(data as DependencyRow[] | null, error)
+  }
+
+  async insertDependency(values: DependencyInsert): Promise<RepositoryResult<DependencyRow>> {
+    const { data, error } = await this.client.from("task_dependencies").insert(values).select().single()
+    return toResult(data as DependencyRow | null, error)
+  }
+
+  async deleteDependency(id: string): Promise<RepositoryResult<null>> {
+    const { error } = await this.client.from("task_dependencies").delete().eq("id", id)
+    return toResult(null, error)
+  }
+
+  async listActivity(taskId: string): Promise<RepositoryResult<ActivityRow[]>> {
+    const { data, error } = await this.client
+      .from("task_activity")
+      .select("*")
+      .eq("task_id", taskId)
+      .order("created_at", { ascending: false })
+    return toResult(data as ActivityRow[] | null, error)
+  }
+
+  async insertActivity(values: ActivityInsert[]): Promise<RepositoryResult<null>> {
+    const { error } = await this.client.from("task_activity").insert(values)
+    return toResult(null, error)
+  }
+
+  async moveActivity(taskIds: string[], projectId: string): Promise<RepositoryResult<null>> {
+    const { error } = await this.client.from("task_activity").update({ project_id: projectId }).in("task_id", taskIds)
+    return toResult(null, error)
+  }
+
+  async listSavedViews(projectId: string): Promise<RepositoryResult<SavedViewRow[]>> {
+    const { data, error } = await this.client
+      .from("saved_views")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("name", { ascending: true })
+    return toResult(data as SavedViewRow[] | null, error)
+  }
+
+  async getSavedView(id: string): Promise<RepositoryResult<SavedViewRow>> {
+    const { data, error } = await this.client.from("saved_views").select("*").eq("id", id).single()
+    return toResult(data as SavedViewRow | null, error)
+  }
+
+  async insertSavedView(values: SavedViewInsert): Promise<RepositoryResult<SavedViewRow>> {
+    const { data, error } = await this.client.from("saved_views").insert(values).select().single()
+    return toResult(data as SavedViewRow | null, error)
+  }
+
+  async updateSavedView(id: string, values: Partial<SavedViewRow>): Promise<RepositoryResult<SavedViewRow>> {
+    const { data, error } = await this.client.from("saved_views").update(values).eq("id", id).select().single()
+    return toResult(data as SavedViewRow | null, error)
+  }
+
+  async deleteSavedView(id: string): Promise<RepositoryResult<null>> {
+    const { error } = await this.client.from("saved_views").delete().eq("id", id)
+    return toResult(null, error)
+  }
+
+  async listProjectTemplates(userId: string): Promise<RepositoryResult<ProjectTemplateRow[]>> {
+    const { data, error } = await this.client
+      .from("project_templates")
+      .select("*")
+      .eq("created_by", userId)
+      .order("name", { ascending: true })
+    return toResult(data as ProjectTemplateRow[] | null, error)
+  }
+
+  async getProjectTemplate(id: string): Promise<RepositoryResult<ProjectTemplateRow>> {
+    const { data, error } = await this.client.from("project_templates").select("*").eq("id", id).single()
+    return toResult(data as ProjectTemplateRow | null, error)
+  }
+
+  async insertProjectTemplate(values: ProjectTemplateInsert): Promise<RepositoryResult<ProjectTemplateRow>> {
+    const { data, error } = await this.client.from("project_templates").insert(values).select().single()
+    return toResult(data as ProjectTemplateRow | null, error)
+  }
+
+  async deleteProjectTemplate(id: string): Promise<RepositoryResult<null>> {
+    const { error } = await this.client.from("project_templates").delete().eq("id", id)
+    return toResult(null, error)
+  }
+
+  async searchProjects(query: SearchRowQuery): Promise<RepositoryResult<ProjectRow[]>> {
+    const { data, error } = await this.client.rpc("search_projects", searchArgs(query))
+    return toResult(data as ProjectRow[] | null, error)
+  }
+
+  async searchTasks(query: SearchRowQuery): Promise<RepositoryResult<TaskRow[]>> {
+    const { data, error } = await this.client.rpc("search_tasks", searchArgs(query))
+    return toResult(data as TaskRow[] | null, error)
+  }
+
+  async searchComments(query: SearchRowQuery): Promise<RepositoryResult<CommentSearchRow[]>> {
+    const { data, error } = await this.client.rpc("search_comments", searchArgs(query))
+    return toResult(data as CommentSearchRow[] | null, error)
+  }
+
+  async getUser(id: string): Promise<RepositoryResult<UserRow>> {
+    const { data, error } = await this.client.from("users").select("*").eq("id", id).single()
+    return toResult(data as UserRow | null, error)
+  }
+
+  async getUserByEmail(email: string): Promise<RepositoryResult<UserRow | null>> {
+    const { data, error } = await this.client.from("users").select("*").eq("email", email).maybeSingle()
+    return toResult(data as UserRow | null, error)
+  }
+
+  async getUsers(ids: string[]): Promise<RepositoryResult<UserRow[]>> {
+    const { data, error } = await this.client.from("users").select("*").in("id", ids)
+    return toResult(data as UserRow[] | null, error)
+  }
+
+  async insertUser(values: UserInsert): Promise<RepositoryResult<UserRow>> {
+    const { data, error } = await this.client.from("users").insert(values).select().single()
+    return toResult(data as UserRow | null, error)
+  }
+
+  async listMembers(projectId: string): Promise<RepositoryResult<MemberRow[]>> {
+    const { data, error } = await this.client
+      .from("project_members")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("created_at", { ascending: true })
+    return toResult(data as MemberRow[] | null, error)
+  }
+
+  async getMember(projectId: string, userId: string): Promise<RepositoryResult<MemberRow | null>> {
+    const { data, error } = await this.client
+      .from("project_members")
+      .select("*")
+      .eq("project_id", projectId)
+      .eq("user_id", userId)
+      .maybeSingle()
+    return toResult(data as MemberRow | null, error)
+  }
+
+  async listUserMemberships(userId: string): Promise<RepositoryResult<MemberRow[]>> {
+    const { data, error } = await this.client.from("project_members").select("*").eq("user_id", userId)
+    return toResult(data as MemberRow[] | null, error)
+  }
+
+  async insertMember(values: MemberInsert): Promise<RepositoryResult<MemberRow>> {
+    const { data, error } = await this.client.from("project_members").insert(values).select().single()
+    return toResult(data as MemberRow | null, error)
+  }
+
+  async updateMember(id: string, values: Partial<MemberRow>): Promise<RepositoryResult<MemberRow>> {
+    const { data, error } = await this.client.from("project_members").update(values).eq("id", id).select().single()
+    return toResult(data as MemberRow | null, error)
+  }
+
+  async deleteMember(id: string): Promise<RepositoryResult<null>> {
+    const { error } = await this.client.from("project_members").delete().eq("id", id)
+    return toResult(null, error)
+  }
+
+  async listInvitations(projectId: string): Promise<RepositoryResult<InvitationRow[]>> {
+    const { data, error } = await this.client
+      .from("project_invitations")
+      .select("*")
+      .eq("project_id", projectId)
+      .is("accepted_at", null)
+      .order("created_at", { ascending: true })
+    return toResult(data as InvitationRow[] | null, error)
+  }
+
+  async getInvitationByToken(token: string): Promise<RepositoryResult<InvitationRow>> {
+    const { data, error } = await this.client.from("project_invitations").select("*").eq("token", token).single()
+    return toResult(data as InvitationRow | null, error)
+  }
+
+  async insertInvitation(values: InvitationInsert): Promise<RepositoryResult<InvitationRow>> {
+    const { data, error } = await this.client.from("project_invitations").insert(values).select().single()
+    return toResult(data as InvitationRow | null, error)
+  }
+
+  async updateInvitation(id: string, values: Partial<InvitationRow>): Promise<RepositoryResult<InvitationRow>> {
+    const { data, error } = await this.client.from("project_invitations").update(values).eq("id", id).select().single()
+    return toResult(data as InvitationRow | null, error)
+  }
+
+  async deleteInvitation(id: string): Promise<RepositoryResult<null>> {
+    const { error } = await this.client.from("project_invitations").delete().eq("id", id)
+    return toResult(null, error)
+  }
+
+  // 需要把 tasks 和 task_dependencies 加入 supabase_realtime publication（见 supabase/migrations）
+  watchTasks(projectId: string, onChange: (change: TaskChange) => void): () => void {
+    const client = this.client
+    const filter = `project_id=eq.${projectId}`
+    const channel = client
+      .channel(`tasks:${projectId}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "tasks", filter }, (payload) => {
+        const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as Partial<TaskRow>
+        if (row.id) onChange({ type: TASK_CHANGE_TYPES[payload.eventType], taskIds: [row.id] })
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "task_dependencies", filter }, (payload) => {
+        const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as Partial<DependencyRow>
+        if (row.blocked_id) onChange({ type: "task.updated", taskIds: [row.blocked_id] })
+      })
+      .subscribe()
+
+    return () => {
+      client.removeChannel(channel)
+    }
+  }
+}
@@ -1,26 +0,0 @@
-import { createClient } from "@supabase/supabase-js"
-import { cookies } from "next/headers"
-
-export const createServerSupabaseClient = () => {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-  const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-
-  if (!supabaseUrl || !supabaseKey) {
-    console.error("Missing Supabase environment variables")
-    throw new Error("Missing required environment variables for Supabase")
-  }
-
-  return createClient(supabaseUrl, supabaseKey, {
-    cookies: {
-      get(name: string) {
-        return cookies().get(name)?.value
-      },
-      set(name: string, value: string, options: any) {
-        cookies().set({ name, value, ...options })
-      },
-      remove(name: string, options: any) {
-        cookies().delete({ name, ...options })
-      },
-    },
-  })
-}
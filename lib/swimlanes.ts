@@ -0,0 +1,136 @@
+import { toAssignee } from "./members"
+import type { CustomField, ProjectMember, SwimlaneGroupBy, Task } from "./types"
+
+/**
+ * 看板泳道：按负责人、优先级、标签或选择类型的自定义字段把看板分成横向的泳道
+ *
+ * 标签和多选字段可以有多个值，任务会出现在它的每个值对应的泳道中；
+ * 在泳道之间拖动时只把来源泳道的值换成目标泳道的值，其他值保持不变。
+ */
+
+// 没有值的任务所在的泳道（未分配、没有标签等）
+export const NO_LANE = "__none__"
+
+export type Swimlane = { key: string; label: string }
+
+type SwimlaneContext = { members: ProjectMember[]; customFields: CustomField[] }
+
+const PRIORITY_LANES: Swimlane[] = [
+  { key: "high", label: "High" },
+  { key: "medium", label: "Medium" },
+  { key: "low", label: "Low" },
+]
+
+const getLaneField = (groupBy: SwimlaneGroupBy, customFields: CustomField[]) =>
+  groupBy.startsWith("custom:") ? customFields.find((field) => field.id === groupBy.slice("custom:".length)) : undefined
+
+// 可以用来分泳道的字段，自定义字段只支持选择类型
+export function getSwimlaneOptions(customFields: CustomField[]): { key: SwimlaneGroupBy; label: string }[] {
+  return [
+    { key: "assignee", label: "Assignee" },
+    { key: "priority", label: "Priority" },
+    { key: "tags", label: "Tags" },
+    ...customFields
+      .filter((field) => field.type === "select")
+      .map((field) => ({ key: `custom:${field.id}` as const, label: field.name })),
+  ]
+}
+
+// 任务所在的泳道，没有值时为 NO_LANE
+export function getTaskLaneKeys(task: Task, groupBy: SwimlaneGroupBy): string[] {
+  let values: unknown
+  switch (groupBy) {
+    case "assignee":
+      // 旧数据的负责人可能没有用户 ID
+      values = task.assignee ? task.assignee.id || task.assignee.name : null
+      break
+    case "priority":
+      values = task.priority
+      break
+    case "tags":
+      values = task.tags
+      break
+    default:
+      values = task.customFields?.[groupBy.slice("custom:".length)]
+  }
+
+  const keys = (Array.isArray(values) ? values : [values]).filter(
+    (value) => value !== null && value !== undefined && value !== "",
+  )
+  return keys.length > 0 ? keys.map(String) : [NO_LANE]
+}
+
+// 看板上的泳道：成员和字段选项即使没有任务也显示，方便把任务拖进去；任务中出现的其他值（例如已删除的选项）排在后面
+export function getSwimlanes(tasks: Task[], groupBy: SwimlaneGroupBy, { members, customFields }: SwimlaneContext) {
+  if (groupBy === "priority") return PRIORITY_LANES
+
+  const lanes: Swimlane[] = []
+  let emptyLabel = "None"
+
+  if (groupBy === "assignee") {
+    members.forEach((member) => lanes.push({ key: member.user.id, label: member.user.name }))
+    emptyLabel = "Unassigned"
+  } else if (groupBy === "tags") {
+    emptyLabel = "No tags"
+  } else {
+    const field = getLaneField(groupBy, customFields)
+    field?.options?.forEach((option) => lanes.push({ key: option, label: option }))
+    emptyLabel = field ? `No ${field.name}` : emptyLabel
+  }
+
+  const extra = new Map<string, string>()
+  tasks.forEach((task) => {
+    getTaskLaneKeys(task, groupBy).forEach((key) => {
+      if (key === NO_LANE || lanes.some((lane) => lane.key === key)) return
+      extra.set(key, groupBy === "assignee" ? task.assignee?.name || key : key)
+    })
+  })
+
+  const extraLanes = [...extra.entries()]
+    .map(([key, label]) => ({ key, label }))
+    .sort((a, b) => a.label.localeCompare(b.label))
+
+  return [...lanes, ...extraLanes, { key: NO_LANE, label: emptyLabel }]
+}
+
+// 把任务从一个泳道拖到另一个泳道时要修改的字段（PATCH /api/tasks/[id] 的请求体）；
+// 无法移动到目标泳道时（例如目标负责人已不是项目成员）返回 null
+export function getLaneChanges(
+  task: Task,
+  groupBy: SwimlaneGroupBy,
+  fromLane: string,
+  toLane: string,
+  { members, customFields }: SwimlaneContext,
+): Partial<Task> | null {
+  if (fromLane === toLane) return {}
+
+  // 多值字段：去掉来源泳道的值，加上目标泳道的值
+  const replaceValue = (values: string[]) => {
+    const next = values.filter((value) => value !== fromLane)
+    return toLane === NO_LANE || next.includes(toLane) ? next : [...next, toLane]
+  }
+
+  switch (groupBy) {
+    case "assignee": {
+      if (toLane === NO_LANE) return { assignee: null }
+      const member = members.find((item) => item.user.id === toLane)
+      return member ? { assignee: toAssignee(member) } : null
+    }
+    case "priority":
+      return toLane === NO_LANE ? null : { priority: toLane as Task["priority"] }
+    case "tags":
+      return { tags: replaceValue(task.tags || []) }
+    default: {
+      const field = getLaneField(groupBy, customFields)
+      if (!field) return null
+
+      const current = task.customFields?.[field.id]
+      const value = field.isMulti
+        ? replaceValue(Array.isArray(current) ? current.map(String) : [])
+        : toLane === NO_LANE
+          ? null
+          : toLane
+      return { customFields: { ...task.customFields, [field.id]: value } }
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { z } from "zod"
+import type { CustomField, CustomFieldValue, TaskBatchRequest } from "./types"
+
+/**
+ * 批量操作：POST /api/tasks/batch 请求体的校验，表格和看板中多选任务（包括按住 Shift 连续选择），
+ * 以及在项目之间移动或复制任务时自定义字段值的映射
+ */
+
+export const MAX_BATCH_TASKS = 500
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const taskIdsSchema = z
+  .array(z.string().min(1))
+  .min(1, "Select at least one task")
+  .max(MAX_BATCH_TASKS, `At most ${MAX_BATCH_TASKS} tasks can be changed at once`)
+
+const taskBatchUpdateSchema = z
+  .object({
+    status: z.string().min(1).optional(),
+    priority: z.enum(["low", "medium", "high"]).optional(),
+    assignee: z
+      .object({ id: z.string().min(1), name: z.string(), initials: z.string() })
+      .nullable()
+      .optional(),
+    dueDate: z.string().regex(DATE_PATTERN, "Due date must be in YYYY-MM-DD format").nullable().optional(),
+    addTags: z.array(z.string().trim().min(1)).optional(),
+    removeTags: z.array(z.string()).optional(),
+    customFields: z.record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string()), z.null()])).optional(),
+  })
+  .refine((changes) => Object.values(changes).some((value) => value !== undefined), "No changes were given")
+
+export const taskBatchSchema: z.ZodType<TaskBatchRequest, z.ZodTypeDef, unknown> = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("update"), taskIds: taskIdsSchema, changes: taskBatchUpdateSchema }),
+  z.object({ action: z.literal("delete"), taskIds: taskIdsSchema }),
+  z.object({ action: z.literal("move"), taskIds: taskIdsSchema, projectId: z.string().min(1) }),
+  z.object({ action: z.literal("copy"), taskIds: taskIdsSchema, projectId: z.string().min(1) }),
+])
+
+export function parseTaskBatchRequest(
+  input: unknown,
+): { request: TaskBatchRequest; error?: undefined } | { request?: undefined; error: string } {
+  const result = taskBatchSchema.safeParse(input)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    return { error: `Invalid batch request at ${issue.path.join(".") || "root"}: ${issue.message}` }
+  }
+  return { request: { ...result.data, taskIds: [...new Set(result.data.taskIds)] } }
+}
+
+// 点击任务的复选框后的选择：按住 Shift 时选中上次点击的任务（anchorId）到当前任务之间的全部任务，否则切换当前任务
+export function toggleTaskSelection(
+  selectedIds: string[],
+  orderedIds: string[],
+  taskId: string,
+  anchorId: string | null,
+  extend: boolean,
+): string[] {
+  const anchorIndex = anchorId ? orderedIds.indexOf(anchorId) : -1
+  const index = orderedIds.indexOf(taskId)
+
+  if (extend && anchorIndex !== -1 && index !== -1) {
+    const range = orderedIds.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+    return [...new Set([...selectedIds, ...range])]
+  }
+
+  return selectedIds.includes(taskId) ? selectedIds.filter((id) => id !== taskId) : [...selectedIds, taskId]
+}
+
+const isEmptyValue = (value: CustomFieldValue | undefined) =>
+  value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0)
+
+// 把任务的自定义字段值（原项目的字段 ID -> 值）映射到目标项目中名称（不区分大小写）和类型都相同的字段；
+// 选择字段只保留目标字段中也有的选项。无法映射的值放在 unmapped 中，空值直接忽略
+export function mapCustomFieldValues(
+  values: Record<string, CustomFieldValue>,
+  sourceFields: CustomField[],
+  targetFields: CustomField[],
+): {
+  values: Record<string, CustomFieldValue>
+  unmapped: { field: string; value: CustomFieldValue; reason: string }[]
+} {
+  const mapped: Record<string, CustomFieldValue> = {}
+  const unmapped: { field: string; value: CustomFieldValue; reason: string }[] = []
+
+  for (const [fieldId, value] of Object.entries(values)) {
+    if (isEmptyValue(value)) continue
+
+    const source = sourceFields.find((field) => field.id === fieldId)
+    if (!source) continue // 原项目中已删除的字段
+
+    const name = source.name.trim().toLowerCase()
+    const target = targetFields.find((field) => field.name.trim().toLowerCase() === name)
+
+    if (!target) {
+      unmapped.push({ field: source.name, value, reason: "No field with this name in the target project" })
+      continue
+    }
+
+    if (target.type !== source.type) {
+      unmapped.push({ field: source.name, value, reason: `The target field is of type ${target.type}` })
+      continue
+    }
+
+    if (target.type !== "select") {
+      mapped[target.id] = value
+      continue
+    }
+
+    const options = target.options || []
+    const selected = (Array.isArray(value) ? value : [value]).map(String)
+    const kept = selected.filter((option) => options.includes(option))
+    const missing = selected.filter((option) => !options.includes(option))
+
+    if (!target.isMulti && kept.length > 1) {
+      unmapped.push({ field: source.name, value, reason: "The target field allows only one option" })
+      continue
+    }
+
+    if (missing.length > 0) {
+      unmapped.push({
+        field: source.name,
+        value: Array.isArray(value) ? missing : value,
+        reason: "The target field has no such option",
+      })
+    }
+
+    if (kept.length > 0) {
+      mapped[target.id] = target.isMulti ? kept : kept[0]
+    }
+  }
+
+  return { values: mapped, unmapped }
+}
@@ -0,0 +1,219 @@
+import type { CustomField, CustomFieldValue, TaskImportTarget } from "./types"
+
+export type CsvCell = string | number | boolean | null | undefined
+
+// 解析 CSV 文本：支持引号包裹、转义的双引号以及字段内换行，并忽略空行和 UTF-8 BOM
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""))
+}
+
+// 以 = + - @ 开头的文本会被表格软件当作公式执行，导出时加上单引号前缀
+const FORMULA_PREFIX = /^[=+\-@]/
+
+function escapeCsvCell(value: CsvCell) {
+  if (value === null || value === undefined) return ""
+
+  let text = String(value)
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: CsvCell[][]) {
+  return rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n")
+}
+
+// 读取单元格时去掉导出时加的公式保护前缀
+export function readCsvCell(value: string | undefined) {
+  const text = (value ?? "").trim()
+  return text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text
+}
+
+// 列表类的单元格（标签、多选）同时接受中英文分隔符
+export function splitCsvList(text: string) {
+  return text
+    .split(/[,;，；、]/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+const HTML_ENTITIES: Record<string, string> = { "&nbsp;": " ", "&lt;": "<", "&gt;": ">", "&quot;": '"', "&#39;": "'" }
+
+// 描述是富文本，导出为纯文本以便在表格中阅读
+export function richTextToPlain(html?: string | null) {
+  if (!html) return ""
+
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6])>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;|&lt;|&gt;|&quot;|&#39;/g, (entity) => HTML_ENTITIES[entity])
+    .replace(/&amp;/g, "&")
+    .trim()
+}
+
+export function plainToRichText(text: string) {
+  if (!text) return ""
+
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;"))
+    .map((line) => `<p>${line}</p>`)
+    .join("")
+}
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+// 将日期统一为 YYYY-MM-DD，无法识别时返回 null
+export function normalizeCsvDate(text: string) {
+  const parts = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/)
+  const date = parts ? new Date(Number(parts[1]), Number(parts[2]) - 1, Number(parts[3])) : new Date(text)
+
+  if (Number.isNaN(date.getTime())) return null
+  // 排除 2024-02-31 这类会被自动进位的日期
+  if (parts && date.getMonth() !== Number(parts[2]) - 1) return null
+
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+export function formatCustomFieldCell(field: CustomField, value: CustomFieldValue | undefined): CsvCell {
+  if (value === null || value === undefined || value === "") return ""
+  if (Array.isArray(value)) return value.join(", ")
+  if (field.type === "checkbox") return !!value
+  if (field.type === "number") return Number(value)
+  return String(value)
+}
+
+const TRUE_VALUES = ["true", "yes", "y", "1", "x", "✓", "是"]
+const FALSE_VALUES = ["false", "no", "n", "0", "✗", "否"]
+
+// 按自定义字段类型转换单元格内容，失败时返回错误信息
+export function coerceCustomFieldValue(
+  field: CustomField,
+  raw: string,
+): { value: CustomFieldValue; error?: undefined } | { value?: undefined; error: string } {
+  const text = raw.trim()
+
+  if (!text) {
+    return field.isRequired ? { error: `${field.name} is required` } : { value: null }
+  }
+
+  switch (field.type) {
+    case "number": {
+      const value = Number(text)
+      return Number.isFinite(value) ? { value } : { error: `"${text}" is not a number` }
+    }
+    case "checkbox": {
+      const lower = text.toLowerCase()
+      if (TRUE_VALUES.includes(lower)) return { value: true }
+      if (FALSE_VALUES.includes(lower)) return { value: false }
+      return { error: `"${text}" is not a yes/no value` }
+    }
+    case "date": {
+      const value = normalizeCsvDate(text)
+      return value ? { value } : { error: `"${text}" is not a valid date` }
+    }
+    case "url": {
+      try {
+        const url = new URL(text)
+        if (url.protocol === "http:" || url.protocol === "https:") return { value: text }
+      } catch {
+        // 无法解析的地址按格式错误处理
+      }
+      return { error: `"${text}" is not a valid URL` }
+    }
+    case "select": {
+      const options = field.options || []
+      const findOption = (item: string) => options.find((option) => option.toLowerCase() === item.toLowerCase())
+
+      if (field.isMulti) {
+        const items = splitCsvList(text)
+        const invalid = items.filter((item) => !findOption(item))
+        if (invalid.length > 0) return { error: `"${invalid.join(", ")}" is not an option of ${field.name}` }
+        return { value: items.map((item) => findOption(item) as string) }
+      }
+
+      const option = findOption(text)
+      return option ? { value: option } : { error: `"${text}" is not an option of ${field.name}` }
+    }
+    default:
+      return { value: text }
+  }
+}
+
+// 系统字段的导入目标，aliases 用于根据表头自动匹配（包含导出文件的表头）
+export const TASK_IMPORT_FIELDS: { target: TaskImportTarget; label: string; aliases: string[] }[] = [
+  { target: "title", label: "Title", aliases: ["title", "name", "task", "标题", "任务"] },
+  { target: "description", label: "Description", aliases: ["description", "details", "描述"] },
+  { target: "status", label: "Status", aliases: ["status", "state", "状态"] },
+  { target: "priority", label: "Priority", aliases: ["priority", "优先级"] },
+  { target: "assignee", label: "Assignee", aliases: ["assignee", "owner", "负责人"] },
+  { target: "dueDate", label: "Due Date", aliases: ["due date", "due", "deadline", "截止日期"] },
+  { target: "tags", label: "Tags", aliases: ["tags", "labels", "标签"] },
+]
+
+export function getImportTargetLabel(target: TaskImportTarget, customFields: CustomField[]) {
+  if (target.startsWith("custom:")) {
+    const fieldId = target.slice("custom:".length)
+    return customFields.find((field) => field.id === fieldId)?.name || "Unknown field"
+  }
+  return TASK_IMPORT_FIELDS.find((field) => field.target === target)?.label || target
+}
+
+// 根据表头猜测列映射，每个目标字段最多匹配一列
+export function suggestColumnMapping(headers: string[], customFields: CustomField[]) {
+  const used = new Set<TaskImportTarget>()
+
+  return headers.map((header): TaskImportTarget | null => {
+    const key = header.trim().toLowerCase()
+    const systemField = TASK_IMPORT_FIELDS.find((field) => field.aliases.includes(key))
+    const customField = customFields.find((field) => field.name.trim().toLowerCase() === key)
+    const target = systemField?.target || (customField ? (`custom:${customField.id}` as const) : null)
+
+    if (!target || used.has(target)) return null
+    used.add(target)
+    return target
+  })
+}
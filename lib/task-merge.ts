@@ -0,0 +1,145 @@
+import type { Task } from "./types"
+
+// 编辑任务时的三方合并：base 是开始编辑时的版本，mine 是本地修改后的版本，theirs 是服务器上的最新版本
+
+export type TaskMergeField =
+  | "title"
+  | "description"
+  | "status"
+  | "priority"
+  | "assignee"
+  | "parentId"
+  | "startDate"
+  | "dueDate"
+  | "tags"
+  | "recurrence"
+  | `customFields.${string}`
+
+export interface TaskConflict {
+  field: TaskMergeField
+  mine: unknown
+  theirs: unknown
+}
+
+export type TaskConflictChoice = "mine" | "theirs"
+
+const MERGED_FIELDS: TaskMergeField[] = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "assignee",
+  "parentId",
+  "startDate",
+  "dueDate",
+  "tags",
+  "recurrence",
+]
+
+const CUSTOM_FIELD_PREFIX = "customFields."
+
+// 比较前统一空值并忽略列表顺序，避免把 undefined、null、"" 和 [] 之间的差别当成修改
+function normalize(field: TaskMergeField, value: unknown) {
+  if (value === undefined || value === null || value === "") return null
+  if (Array.isArray(value)) return value.length > 0 ? [...value].sort() : null
+  if (field === "assignee") {
+    const assignee = value as NonNullable<Task["assignee"]>
+    return assignee.id || assignee.name || null
+  }
+  return value
+}
+
+function isSame(field: TaskMergeField, a: unknown, b: unknown) {
+  return JSON.stringify(normalize(field, a)) === JSON.stringify(normalize(field, b))
+}
+
+function readField(task: Task, field: TaskMergeField) {
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+    return task.customFields?.[field.slice(CUSTOM_FIELD_PREFIX.length)]
+  }
+  return task[field as keyof Task]
+}
+
+function writeField(task: Task, field: TaskMergeField, value: unknown) {
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+    task.customFields = { ...task.customFields, [field.slice(CUSTOM_FIELD_PREFIX.length)]: value }
+  } else {
+    Object.assign(task, { [field]: value })
+  }
+}
+
+/**
+ * 以 theirs 为基础合并本地修改：只有一方修改的字段直接采用修改后的值，双方改成不同值的字段作为冲突返回，
+ * 合并结果中冲突字段暂时保留 theirs 的值，由 resolveTaskConflicts 按用户的选择处理
+ */
+export function mergeTaskVersions(base: Task, mine: Task, theirs: Task) {
+  const merged: Task = { ...theirs, customFields: { ...theirs.customFields } }
+  const conflicts: TaskConflict[] = []
+
+  const customFieldIds = new Set([
+    ...Object.keys(base.customFields || {}),
+    ...Object.keys(mine.customFields || {}),
+    ...Object.keys(theirs.customFields || {}),
+  ])
+  const fields = [...MERGED_FIELDS, ...[...customFieldIds].map((id): TaskMergeField => `${CUSTOM_FIELD_PREFIX}${id}`)]
+
+  for (const field of fields) {
+    const baseValue = readField(base, field)
+    const mineValue = readField(mine, field)
+    const theirsValue = readField(theirs, field)
+
+    // 本地没有修改，保留服务器上的值
+    if (isSame(field, mineValue, baseValue)) continue
+
+    if (isSame(field, theirsValue, baseValue) || isSame(field, theirsValue, mineValue)) {
+      writeField(merged, field, mineValue)
+    } else {
+      conflicts.push({ field, mine: mineValue, theirs: theirsValue })
+    }
+  }
+
+  return { merged, conflicts }
+}
+
+/**
+ * 相对 base 修改过的字段，用于只提交改动的部分（PATCH）；
+ * 自定义字段值会整体替换，只要有一个自定义字段修改过就返回全部的值
+ */
+export function getTaskChanges(base: Task, mine: Task) {
+  const changes: Partial<Task> = {}
+
+  // 清空的字段以 null 提交
+  MERGED_FIELDS.forEach((field) => {
+    const value = readField(mine, field)
+    if (!isSame(field, value, readField(base, field))) {
+      Object.assign(changes, { [field]: value === undefined || value === "" ? null : value })
+    }
+  })
+
+  const customFieldIds = new Set([...Object.keys(base.customFields || {}), ...Object.keys(mine.customFields || {})])
+  const customFieldsChanged = [...customFieldIds].some(
+    (id) => !isSame(`${CUSTOM_FIELD_PREFIX}${id}`, mine.customFields?.[id], base.customFields?.[id]),
+  )
+  if (customFieldsChanged) {
+    changes.customFields = { ...mine.customFields }
+  }
+
+  return changes
+}
+
+// 按用户的选择处理冲突字段，未选择的字段保留服务器上的值
+export function resolveTaskConflicts(
+  merged: Task,
+  conflicts: TaskConflict[],
+  choices: Partial<Record<TaskMergeField, TaskConflictChoice>>,
+) {
+  const resolved: Task = { ...merged, customFields: { ...merged.customFields } }
+  conflicts.forEach((conflict) => {
+    if (choices[conflict.field] === "mine") writeField(resolved, conflict.field, conflict.mine)
+  })
+  return resolved
+}
+
+export function getCustomFieldIdFromMergeField(field: TaskMergeField) {
+  return field.startsWith(CUSTOM_FIELD_PREFIX) ? field.slice(CUSTOM_FIELD_PREFIX.length) : null
+}
@@ -0,0 +1,188 @@
+import { filterGroupSchema } from "./filter-builder"
+import type { CustomField, CustomFieldOperator, CustomFieldPredicate, Task, TaskQuery, TaskSortKey } from "./types"
+
+/**
+ * TaskQuery 与 GET /api/tasks 查询参数之间的转换，服务端和浏览器共用
+ *
+ * - status / priority / assignee / tag：可重复，值之间是"或"的关系
+ * - dueFrom / dueTo：截止日期范围（YYYY-MM-DD，包含边界）
+ * - title：标题包含；q：标题或描述包含
+ * - cf：自定义字段条件 <字段 ID>:<运算符>:<值>，可重复，例如 cf=<id>:gte:3
+ * - filter：条件构建器的条件组（JSON，见 lib/filter-builder.ts），支持"且/或"嵌套
+ * - sort：排序字段，前面加 "-" 表示降序，例如 sort=-dueDate
+ * - limit / cursor：分页，cursor 为上一页返回的 nextCursor
+ */
+
+export const TASK_SORT_KEYS: TaskSortKey[] = ["order", "title", "dueDate", "createdAt", "updatedAt"]
+export const CUSTOM_FIELD_OPERATORS: CustomFieldOperator[] = ["eq", "neq", "gt", "gte", "lt", "lte", "has"]
+export const MAX_TASK_PAGE_SIZE = 200
+// 看板和表格每次加载的任务数
+export const TASK_PAGE_SIZE = 100
+
+const PRIORITIES: Task["priority"][] = ["low", "medium", "high"]
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const QUERY_PARAM_NAMES = [
+  "status",
+  "priority",
+  "assignee",
+  "tag",
+  "dueFrom",
+  "dueTo",
+  "title",
+  "q",
+  "cf",
+  "filter",
+  "sort",
+]
+
+// 是否包含任何筛选、排序或分页参数；不包含时接口按原方式返回全部任务
+export function hasTaskQueryParams(params: URLSearchParams) {
+  return [...QUERY_PARAM_NAMES, "limit", "cursor"].some((name) => params.has(name))
+}
+
+export function parseTaskQuery(
+  params: URLSearchParams,
+): { query: TaskQuery; error?: undefined } | { query?: undefined; error: string } {
+  const query: TaskQuery = {}
+  const list = (name: string) =>
+    params
+      .getAll(name)
+      .map((value) => value.trim())
+      .filter(Boolean)
+
+  const statuses = list("status")
+  if (statuses.length > 0) query.statuses = statuses
+
+  const priorities = list("priority")
+  const invalidPriority = priorities.find((priority) => !PRIORITIES.includes(priority as Task["priority"]))
+  if (invalidPriority) return { error: `Unknown priority "${invalidPriority}"` }
+  if (priorities.length > 0) query.priorities = priorities as Task["priority"][]
+
+  const assignees = list("assignee")
+  if (assignees.length > 0) query.assignees = assignees
+
+  const tags = list("tag")
+  if (tags.length > 0) query.tags = tags
+
+  for (const name of ["dueFrom", "dueTo"] as const) {
+    const value = params.get(name)?.trim()
+    if (!value) continue
+    if (!DATE_PATTERN.test(value)) return { error: `${name} must be a date in YYYY-MM-DD format` }
+    query[name] = value
+  }
+
+  const title = params.get("title")?.trim()
+  if (title) query.title = title
+
+  const search = params.get("q")?.trim()
+  if (search) query.search = search
+
+  const predicates: CustomFieldPredicate[] = []
+  for (const condition of list("cf")) {
+    const [fieldId, operator, ...rest] = condition.split(":")
+    if (!fieldId || !CUSTOM_FIELD_OPERATORS.includes(operator as CustomFieldOperator) || rest.length === 0) {
+      return { error: `Invalid custom field condition "${condition}"` }
+    }
+    predicates.push({ fieldId, operator: operator as CustomFieldOperator, value: rest.join(":") })
+  }
+  if (predicates.length > 0) query.customFields = predicates
+
+  const filter = params.get("filter")?.trim()
+  if (filter) {
+    let json: unknown
+    try {
+      json = JSON.parse(filter)
+    } catch {
+      return { error: "filter must be valid JSON" }
+    }
+    const result = filterGroupSchema.safeParse(json)
+    if (!result.success) {
+      const issue = result.error.issues[0]
+      return { error: `Invalid filter at ${issue.path.join(".") || "root"}: ${issue.message}` }
+    }
+    if (result.data.conditions.length > 0) query.filter = result.data
+  }
+
+  const sort = params.get("sort")?.trim()
+  if (sort) {
+    const key = sort.replace(/^-/, "") as TaskSortKey
+    if (!TASK_SORT_KEYS.includes(key)) return { error: `Unknown sort key "${key}"` }
+    query.sort = { key, direction: sort.startsWith("-") ? "desc" : "asc" }
+  }
+
+  const limit = params.get("limit")
+  if (limit) {
+    const value = Number(limit)
+    if (!Number.isInteger(value) || value < 1 || value > MAX_TASK_PAGE_SIZE) {
+      return { error: `limit must be an integer between 1 and ${MAX_TASK_PAGE_SIZE}` }
+    }
+    query.limit = value
+  }
+
+  const cursor = params.get("cursor")
+  if (cursor) query.cursor = cursor
+
+  return { query }
+}
+
+export function toTaskQueryParams(query: TaskQuery) {
+  const params = new URLSearchParams()
+
+  query.statuses?.forEach((status) => params.append("status", status))
+  query.priorities?.forEach((priority) => params.append("priority", priority))
+  query.assignees?.forEach((assignee) => params.append("assignee", assignee))
+  query.tags?.forEach((tag) => params.append("tag", tag))
+  if (query.dueFrom) params.set("dueFrom", query.dueFrom)
+  if (query.dueTo) params.set("dueTo", query.dueTo)
+  if (query.title) params.set("title", query.title)
+  if (query.search) params.set("q", query.search)
+  query.customFields?.forEach((predicate) =>
+    params.append("cf", `${predicate.fieldId}:${predicate.operator}:${predicate.value}`),
+  )
+  if (query.filter) params.set("filter", JSON.stringify(query.filter))
+  if (query.sort) params.set("sort", `${query.sort.direction === "desc" ? "-" : ""}${query.sort.key}`)
+  if (query.limit) params.set("limit", String(query.limit))
+  if (query.cursor) params.set("cursor", query.cursor)
+
+  return params
+}
+
+// 自定义字段条件中的值按字段类型转换：数字字段转为数字，复选框转为布尔值，其余为字符串；无法转换时返回 null
+export function coerceCustomFieldPredicateValue(
+  field: Pick<CustomField, "type">,
+  value: CustomFieldPredicate["value"],
+) {
+  if (field.type === "number") {
+    const number = Number(value)
+    return value !== "" && Number.isFinite(number) ? number : null
+  }
+  if (field.type === "checkbox") return value === true || value === "true"
+  return String(value)
+}
+
+// 判断字段值是否满足条件，条件中的值应已经过 coerceCustomFieldPredicateValue 转换；没有值的字段不满足任何条件
+export function matchesCustomFieldPredicate(
+  value: unknown,
+  predicate: Pick<CustomFieldPredicate, "operator" | "value">,
+) {
+  if (value === null || value === undefined) return false
+
+  switch (predicate.operator) {
+    case "has":
+      return Array.isArray(value) && value.includes(predicate.value)
+    case "eq":
+      return value === predicate.value
+    case "neq":
+      return value !== predicate.value
+    default: {
+      if (typeof value !== typeof predicate.value) return false
+      const [a, b] = [value as string | number, predicate.value as string | number]
+      const order = a < b ? -1 : a > b ? 1 : 0
+      if (predicate.operator === "gt") return order > 0
+      if (predicate.operator === "gte") return order >= 0
+      if (predicate.operator === "lt") return order < 0
+      return order <= 0
+    }
+  }
+}
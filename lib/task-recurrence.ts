@@ -0,0 +1,227 @@
+import { z } from "zod"
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  format,
+  getDaysInMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+import type { RecurrenceFrequency, TaskRecurrence } from "./types"
+
+/**
+ * 重复任务：规则的校验、与 RRULE 文本的互相转换，以及下一次任务日期的计算
+ *
+ * 规则对应 RRULE 的 FREQ、INTERVAL、BYDAY、BYMONTHDAY、UNTIL 和 COUNT，每周从周一开始（WKST=MO）。
+ * 下一次的日期以当前这次的截止日期为基准（没有截止日期时依次使用开始日期、今天），取基准之后第一个符合规则
+ * 并且不早于今天的日期；因为逾期而跳过的日期同样计入 COUNT。
+ */
+
+export const RECURRENCE_FREQUENCIES: { value: RecurrenceFrequency; label: string; unit: string }[] = [
+  { value: "daily", label: "Daily", unit: "day" },
+  { value: "weekly", label: "Weekly", unit: "week" },
+  { value: "monthly", label: "Monthly", unit: "month" },
+  { value: "yearly", label: "Yearly", unit: "year" },
+]
+
+// 下标与 Date.getDay() 一致（0 为周日），code 为 RRULE 中 BYDAY 的写法
+export const WEEKDAYS = [
+  { code: "SU", label: "Sun" },
+  { code: "MO", label: "Mon" },
+  { code: "TU", label: "Tue" },
+  { code: "WE", label: "Wed" },
+  { code: "TH", label: "Thu" },
+  { code: "FR", label: "Fri" },
+  { code: "SA", label: "Sat" },
+]
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const RRULE_PARTS = ["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "UNTIL", "COUNT"]
+
+// 逾期很久的任务最多向后找这么多次
+const MAX_SKIPPED_OCCURRENCES = 10000
+
+export const taskRecurrenceSchema = z
+  .object({
+    frequency: z.enum(["daily", "weekly", "monthly", "yearly"]),
+    interval: z.number().int().min(1).max(999).default(1),
+    weekdays: z.array(z.number().int().min(0).max(6)).nullable().default(null),
+    monthDay: z.number().int().min(1).max(31).nullable().default(null),
+    until: z.string().regex(DATE_PATTERN, "End date must be in YYYY-MM-DD format").nullable().default(null),
+    count: z.number().int().min(1).max(1000).nullable().default(null),
+  })
+  .refine((rule) => !(rule.until && rule.count), "Set either an end date or a number of occurrences, not both")
+
+// 星期一为一周的第一天
+const weekdayOrder = (day: number) => (day + 6) % 7
+
+// RRULE 文本（例如 FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;COUNT=10）转为规则对象，交给 taskRecurrenceSchema 校验
+function fromRRule(text: string): { rule: unknown; error?: undefined } | { rule?: undefined; error: string } {
+  const parts = new Map<string, string>()
+  const body = text.trim().replace(/^RRULE:/i, "")
+  for (const part of body.split(";")) {
+    if (!part.trim()) continue
+    const [key, value = ""] = part.split("=").map((item) => item.trim().toUpperCase())
+    if (!RRULE_PARTS.includes(key)) {
+      return { error: `Unsupported RRULE part "${key}"` }
+    }
+    parts.set(key, value)
+  }
+
+  const until = parts.has("UNTIL") ? /^(\d{4})(\d{2})(\d{2})/.exec(parts.get("UNTIL") as string) : null
+  if (parts.has("UNTIL") && !until) {
+    return { error: "UNTIL must be a date such as 20261231" }
+  }
+
+  const byDay = parts.get("BYDAY")?.split(",") ?? null
+  const weekday = byDay?.find((code) => !WEEKDAYS.some((day) => day.code === code))
+  if (weekday !== undefined) {
+    return { error: `Unknown weekday "${weekday}" in BYDAY` }
+  }
+
+  const toNumber = (key: string) => (parts.has(key) ? Number(parts.get(key)) : null)
+
+  return {
+    rule: {
+      frequency: parts.get("FREQ")?.toLowerCase(),
+      interval: toNumber("INTERVAL") ?? 1,
+      weekdays: byDay?.map((code) => WEEKDAYS.findIndex((day) => day.code === code)) ?? null,
+      monthDay: toNumber("BYMONTHDAY"),
+      until: until ? `${until[1]}-${until[2]}-${until[3]}` : null,
+      count: toNumber("COUNT"),
+    },
+  }
+}
+
+// 校验重复规则，接受规则对象或 RRULE 文本；null、undefined 和空字符串表示不重复
+export function parseTaskRecurrence(
+  input: unknown,
+): { recurrence: TaskRecurrence | null; error?: undefined } | { recurrence?: undefined; error: string } {
+  if (input === null || input === undefined || input === "") {
+    return { recurrence: null }
+  }
+
+  let rule: unknown = input
+  if (typeof input === "string") {
+    const parsed = fromRRule(input)
+    if (parsed.error !== undefined) return { error: `Invalid recurrence: ${parsed.error}` }
+    rule = parsed.rule
+  }
+
+  const result = taskRecurrenceSchema.safeParse(rule)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    return { error: `Invalid recurrence at ${issue.path.join(".") || "root"}: ${issue.message}` }
+  }
+
+  // 星期只对每周重复有意义，日期只对每月重复有意义
+  const { weekdays, monthDay, ...rest } = result.data
+  return {
+    recurrence: {
+      ...rest,
+      weekdays:
+        rest.frequency === "weekly" && weekdays?.length
+          ? [...new Set(weekdays)].sort((a, b) => weekdayOrder(a) - weekdayOrder(b))
+          : null,
+      monthDay: rest.frequency === "monthly" ? monthDay : null,
+    },
+  }
+}
+
+export function formatRRule(rule: TaskRecurrence) {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.weekdays?.length) parts.push(`BYDAY=${rule.weekdays.map((day) => WEEKDAYS[day].code).join(",")}`)
+  if (rule.monthDay) parts.push(`BYMONTHDAY=${rule.monthDay}`)
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`)
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  return parts.join(";")
+}
+
+// 例如 "Every 2 weeks on Mon, Fri, 10 times"
+export function describeRecurrence(rule: TaskRecurrence) {
+  const frequency = RECURRENCE_FREQUENCIES.find((item) => item.value === rule.frequency)
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${frequency?.unit}s` : frequency?.label || rule.frequency
+
+  if (rule.weekdays?.length) text += ` on ${rule.weekdays.map((day) => WEEKDAYS[day].label).join(", ")}`
+  if (rule.monthDay) text += ` on day ${rule.monthDay}`
+  if (rule.until) text += `, until ${format(parseISO(rule.until), "MMM d, yyyy")}`
+  if (rule.count) text += `, ${rule.count} times`
+  return text
+}
+
+// 某月的第 day 天，超过当月天数时取最后一天
+function clampToMonth(month: Date, day: number) {
+  return addDays(startOfMonth(month), Math.min(day, getDaysInMonth(month)) - 1)
+}
+
+// date 之后第一个符合规则的日期；date 本身是基准日期或上一个符合规则的日期
+function nextDate(rule: TaskRecurrence, date: Date, anchor: Date) {
+  switch (rule.frequency) {
+    case "daily":
+      return addDays(date, rule.interval)
+    case "weekly": {
+      const weekdays = rule.weekdays?.length ? rule.weekdays : [anchor.getDay()]
+      const weekStart = startOfWeek(date, { weekStartsOn: 1 })
+      const later = weekdays.find((day) => weekdayOrder(day) > weekdayOrder(date.getDay()))
+      return later !== undefined
+        ? addDays(weekStart, weekdayOrder(later))
+        : addDays(addWeeks(weekStart, rule.interval), weekdayOrder(weekdays[0]))
+    }
+    case "monthly": {
+      const day = rule.monthDay ?? anchor.getDate()
+      const sameMonth = clampToMonth(date, day)
+      return sameMonth > date ? sameMonth : clampToMonth(addMonths(startOfMonth(date), rule.interval), day)
+    }
+    case "yearly": {
+      const month = new Date(date.getFullYear() + rule.interval, anchor.getMonth(), 1)
+      return clampToMonth(month, anchor.getDate())
+    }
+  }
+}
+
+/**
+ * 计算下一次任务：anchor 为当前这次的基准日期，index 为当前这次是第几次，today 之前的日期会被跳过（日期都是 YYYY-MM-DD）。
+ * 返回下一次的日期和次数，以及下一次使用的规则：规则没有指定星期或日期时固定为基准日期的星期或日期，
+ * 避免每月 31 日这类日期在小月之后逐渐提前。规则已经结束时返回 null
+ */
+export function getNextOccurrence(rule: TaskRecurrence, anchor: string, index: number, today: string) {
+  const anchorDate = parseISO(anchor)
+  let date = anchorDate
+  let nextIndex = index
+
+  for (let step = 0; step < MAX_SKIPPED_OCCURRENCES; step++) {
+    date = nextDate(rule, date, anchorDate)
+    nextIndex++
+
+    const text = format(date, "yyyy-MM-dd")
+    if ((rule.count && nextIndex > rule.count) || (rule.until && text > rule.until)) return null
+
+    if (text >= today) {
+      return {
+        date: text,
+        index: nextIndex,
+        recurrence: {
+          ...rule,
+          weekdays: rule.frequency === "weekly" && !rule.weekdays?.length ? [anchorDate.getDay()] : rule.weekdays,
+          monthDay: rule.frequency === "monthly" && !rule.monthDay ? anchorDate.getDate() : rule.monthDay,
+        },
+      }
+    }
+  }
+
+  return null
+}
+
+// 把日期（YYYY-MM-DD）移动若干天
+export function shiftDate(date: string, days: number) {
+  return format(addDays(parseISO(date.slice(0, 10)), days), "yyyy-MM-dd")
+}
+
+// 两个日期（YYYY-MM-DD）之间相差的天数
+export function daysBetween(from: string, to: string) {
+  return differenceInCalendarDays(parseISO(to.slice(0, 10)), parseISO(from.slice(0, 10)))
+}
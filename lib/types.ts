@@ -13,21 +13,127 @@ export type Task = {
   projectId: string
   title: string
   description: string
-  status: "todo" | "in-progress" | "review" | "done"
+  status: string // 对应项目工作流中某个状态的 key
   priority: "low" | "medium" | "high"
+  parentId?: string | null // 父任务 ID，为空表示顶层任务
   assignee?: {
+    id?: string // 项目成员的用户 ID，旧数据可能没有
     name: string
     initials: string
-  }
+  } | null // null 表示取消分配
+  startDate?: string // 开始日期（YYYY-MM-DD），与 dueDate 一起表示任务的计划时间段
   dueDate?: string
   comments: number
   tags?: string[]
   customFields?: Record<string, any>
+  blockedBy?: string[] // 阻塞该任务的前置任务 ID
+  openBlockers?: string[] // 尚未完成的前置任务标题
+  subtaskProgress?: { done: number; total: number } | null // 子任务完成进度，没有子任务时为空
+  recurrence?: TaskRecurrence | null // 重复规则，为空表示不重复
+  nextOccurrenceId?: string | null // 已经生成的下一次任务
   created_at?: string
   updated_at?: string
   order?: number
 }
 
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly"
+
+// 任务的重复规则，对应 RRULE 的 FREQ/INTERVAL/BYDAY/BYMONTHDAY/UNTIL/COUNT（见 lib/task-recurrence.ts）
+// 完成任务或到达任务的截止日期时生成下一次任务
+export type TaskRecurrence = {
+  frequency: RecurrenceFrequency
+  interval: number // 每隔几个周期重复一次
+  weekdays: number[] | null // weekly：在星期几重复（0 为周日），为空表示与截止日期相同
+  monthDay: number | null // monthly：每月第几天，超过当月天数时取最后一天，为空表示与截止日期相同
+  until: string | null // 最后一次不晚于这一天（YYYY-MM-DD）
+  count: number | null // 总共几次（包括第一次）
+}
+
+// blocker 完成之前 blocked 不应完成
+export type TaskDependency = {
+  id: string
+  projectId: string
+  blockerId: string
+  blockedId: string
+  created_at?: string
+}
+
+export type TaskComment = {
+  id: string
+  taskId: string
+  parentId: string | null
+  author: {
+    id: string | null
+    name: string
+    initials: string
+  }
+  body: string
+  created_at?: string
+  updated_at?: string
+  replies?: TaskComment[]
+}
+
+// 字段级变更，自定义字段使用 customFields.<fieldId> 作为字段名
+export type TaskActivityChange = {
+  field: string
+  from: any
+  to: any
+}
+
+export type TaskActivity = {
+  id: string
+  taskId: string
+  action: "created" | "updated" | "reordered"
+  actor: {
+    id: string
+    name: string
+  } | null // 为空表示由系统操作
+  changes: TaskActivityChange[]
+  created_at?: string
+}
+
+export type User = {
+  id: string
+  email: string
+  name: string
+  initials: string
+  created_at?: string
+}
+
+export type ProjectRole = "owner" | "editor" | "viewer"
+
+export type ProjectMember = {
+  id: string
+  projectId: string
+  role: ProjectRole
+  user: User
+  created_at?: string
+}
+
+export type ProjectInvitation = {
+  id: string
+  projectId: string
+  email: string
+  role: ProjectRole
+  token: string
+  invitedBy?: string | null
+  created_at?: string
+}
+
+export type WorkflowStatusCategory = "not-started" | "active" | "done"
+
+export type WorkflowStatus = {
+  id: string
+  projectId: string
+  key: string
+  name: string
+  color: string
+  category: WorkflowStatusCategory
+  order: number
+  wipLimit?: number | null // 该列最多允许的任务数，为空表示不限制
+  allowedTransitions?: string[] | null // 允许流转到的状态 key，为空表示不限制
+}
+
 export type CustomField = {
   id: string
   projectId: string
@@ -43,3 +149,207 @@ export type CustomFieldValue = string | number | boolean | string[] | null
 
 // 保持与数据库兼容的类型
 export type CustomFieldType = "text" | "number" | "date" | "select" | "checkbox" | "url"
+
+// CSV 导入时每一列可映射到的任务字段，自定义字段使用 "custom:<字段 ID>"
+export type TaskImportTarget =
+  "title" | "description" | "status" | "priority" | "assignee" | "dueDate" | "tags" | `custom:${string}`
+
+export type TaskImportError = {
+  row: number // CSV 中的行号（表头为第 1 行）
+  column?: string
+  message: string
+}
+
+export type TaskImportResult = {
+  dryRun: boolean
+  total: number
+  valid: number
+  created: number
+  errors: TaskImportError[]
+  preview: { row: number; task: Omit<Task, "id" | "comments"> }[]
+}
+
+// 批量修改任务的内容，只包含要修改的字段；自定义字段只修改列出的字段，其余值保持不变
+export type TaskBatchUpdate = {
+  status?: string
+  priority?: Task["priority"]
+  assignee?: Task["assignee"] | null // null 表示取消分配
+  dueDate?: string | null // YYYY-MM-DD，null 表示清除截止日期
+  addTags?: string[]
+  removeTags?: string[]
+  customFields?: Record<string, CustomFieldValue>
+}
+
+// POST /api/tasks/batch 的请求体，taskIds 中的任务必须属于同一个项目
+export type TaskBatchRequest =
+  | { action: "update"; taskIds: string[]; changes: TaskBatchUpdate }
+  | { action: "delete"; taskIds: string[] }
+  | { action: "move"; taskIds: string[]; projectId: string } // 移到另一个项目
+  | { action: "copy"; taskIds: string[]; projectId: string } // 复制到指定项目，可以是任务所在的项目
+
+// 移动或复制到其他项目时没有对应字段而丢弃的自定义字段值
+export type UnmappedFieldValue = {
+  taskId: string // 原任务的 ID
+  taskTitle: string
+  field: string // 原项目中的字段名称
+  value: CustomFieldValue
+  reason: string
+}
+
+export type TaskBatchResult = {
+  tasks: Task[] // 修改后的任务；移动或复制时为目标项目中的任务
+  removedIds: string[] // 离开原项目的任务：删除的任务（包括一起删除的子任务）或移走的任务
+  unmapped?: UnmappedFieldValue[] // 移动或复制时无法映射的自定义字段值
+}
+
+// 任务列表的排序字段，相同值之间按任务 ID 排序
+export type TaskSortKey = "order" | "title" | "dueDate" | "createdAt" | "updatedAt"
+
+export type TaskSort = {
+  key: TaskSortKey
+  direction: "asc" | "desc"
+}
+
+// 自定义字段条件：has 用于多选字段包含某个选项，其余运算符比较字段值
+export type CustomFieldOperator = "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "has"
+
+export type CustomFieldPredicate = {
+  fieldId: string
+  operator: CustomFieldOperator
+  value: string | number | boolean
+}
+
+// 条件构建器中可用的任务字段，自定义字段使用 "custom:<字段 ID>"
+export type FilterField =
+  | "title"
+  | "description"
+  | "status"
+  | "priority"
+  | "assignee"
+  | "tags"
+  | "startDate"
+  | "dueDate"
+  | "createdAt"
+  | "updatedAt"
+  | `custom:${string}`
+
+export type FilterOperator =
+  | "is"
+  | "is_not"
+  | "contains"
+  | "not_contains"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "between"
+  | "is_empty"
+  | "is_not_empty"
+  | "any_of"
+  | "all_of"
+  | "none_of"
+
+// between 的值为 [起, 止]（任一端可为空），any_of / all_of / none_of 的值为选项列表，is_empty / is_not_empty 没有值
+export type FilterValue = string | number | boolean | string[] | null
+
+export type FilterCondition = {
+  field: FilterField
+  operator: FilterOperator
+  value: FilterValue
+}
+
+// 条件组：combinator 为 and 时需满足全部条件，为 or 时满足任意一个；组内可以嵌套组
+export type FilterGroup = {
+  combinator: "and" | "or"
+  conditions: (FilterCondition | FilterGroup)[]
+}
+
+// GET /api/tasks 的筛选、排序和分页条件，各条件之间是"且"的关系，列表内的值之间是"或"的关系
+export type TaskQuery = {
+  statuses?: string[]
+  priorities?: Task["priority"][]
+  assignees?: string[] // 成员的用户 ID，"unassigned" 表示未分配
+  tags?: string[] // 包含任意一个标签
+  dueFrom?: string // YYYY-MM-DD，包含边界
+  dueTo?: string
+  title?: string // 标题包含
+  search?: string // 标题或描述包含
+  customFields?: CustomFieldPredicate[]
+  filter?: FilterGroup // 条件构建器中的条件组，与上面的条件是"且"的关系
+  sort?: TaskSort
+  limit?: number
+  cursor?: string // 上一页返回的 nextCursor
+}
+
+export type TaskPage = {
+  tasks: Task[]
+  nextCursor: string | null // 为空表示没有更多任务
+  statusCounts: Record<string, number> // 项目中每个状态的任务总数，不受筛选条件影响（用于 WIP 上限）
+}
+
+// 搜索结果中的文本，highlights 是匹配关键词的 [start, end) 区间
+export type HighlightedText = {
+  text: string
+  highlights: [number, number][]
+}
+
+// 全局搜索（GET /api/search）的一条结果，按 score 从高到低排列
+export type SearchResult = {
+  type: "project" | "task" | "comment"
+  id: string
+  projectId: string
+  projectTitle: string
+  taskId: string | null // 任务和评论所属的任务
+  title: HighlightedText // 项目或任务标题，评论使用所属任务的标题
+  snippet: HighlightedText | null // 描述或评论内容中匹配位置附近的片段
+  score: number
+  updatedAt: string | null
+}
+
+export type TaskViewMode = "board" | "table" | "calendar" | "timeline"
+
+// 看板泳道的分组方式，自定义字段（选择类型）使用 "custom:<字段 ID>"
+export type SwimlaneGroupBy = "assignee" | "priority" | "tags" | `custom:${string}`
+
+// 保存的视图中的看板状态，日期为 YYYY-MM-DD
+export type SavedViewConfig = {
+  viewMode: TaskViewMode
+  filters: {
+    title: string
+    assignee: string // 成员的用户 ID 或 "unassigned"
+    status: string
+    priority: string
+    dueFrom: string | null
+    dueTo: string | null
+    tags: string[]
+    conditions: FilterGroup
+  }
+  search: string
+  sort: TaskSort | null // 为空表示按手动排序
+  columns: string[] | null // 表格中显示的列（内置列名或自定义字段 ID），为空表示全部显示
+  swimlanes: SwimlaneGroupBy | null // 看板按什么分泳道，为空表示不分泳道
+}
+
+// 共享的视图项目成员都能看到，否则只有创建者能看到
+export type SavedView = {
+  id: string
+  projectId: string
+  name: string
+  config: SavedViewConfig
+  shared: boolean
+  createdBy: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+// 项目模板：工作流状态、自定义字段和初始任务，只有创建者能看到和使用（内容格式见 lib/project-templates.ts）
+export type ProjectTemplate = {
+  id: string
+  name: string
+  description: string
+  statusCount: number
+  customFieldCount: number
+  taskCount: number
+  createdBy: string | null
+  created_at?: string
+}
@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// 富文本去掉标签后没有文字视为空内容
+export function isEmptyRichText(html?: string | null) {
+  return !html || !html.replace(/<[^>]*>|&nbsp;/g, "").trim()
+}
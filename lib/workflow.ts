@@ -0,0 +1,88 @@
+import type { WorkflowStatus, WorkflowStatusCategory } from "./types"
+
+// 项目未配置工作流时使用的默认状态，与原来固定的四列保持一致
+export const DEFAULT_WORKFLOW_STATUSES: Omit<WorkflowStatus, "id" | "projectId">[] = [
+  { key: "todo", name: "To Do", color: "#6b7280", category: "not-started", order: 0 },
+  { key: "in-progress", name: "In Progress", color: "#ef4444", category: "active", order: 1 },
+  { key: "review", name: "Review", color: "#a855f7", category: "active", order: 2 },
+  { key: "done", name: "Done", color: "#000000", category: "done", order: 3 },
+]
+
+export const STATUS_CATEGORIES: { value: WorkflowStatusCategory; label: string }[] = [
+  { value: "not-started", label: "未开始" },
+  { value: "active", label: "进行中" },
+  { value: "done", label: "已完成" },
+]
+
+// 状态颜色的可选项
+export const STATUS_COLORS = [
+  "#6b7280",
+  "#3b82f6",
+  "#06b6d4",
+  "#22c55e",
+  "#eab308",
+  "#f97316",
+  "#ef4444",
+  "#ec4899",
+  "#a855f7",
+  "#000000",
+]
+
+export function getDefaultStatuses(projectId: string): WorkflowStatus[] {
+  return DEFAULT_WORKFLOW_STATUSES.map((status) => ({ ...status, id: status.key, projectId }))
+}
+
+// 找不到对应状态时（例如状态已被删除）退回到显示 key 本身
+export function findStatus(statuses: WorkflowStatus[], key: string) {
+  return statuses.find((status) => status.key === key)
+}
+
+export function getStatusName(statuses: WorkflowStatus[], key: string) {
+  return findStatus(statuses, key)?.name || key
+}
+
+export function getStatusColor(statuses: WorkflowStatus[], key: string) {
+  return findStatus(statuses, key)?.color || "#6b7280"
+}
+
+export function isDoneStatus(statuses: WorkflowStatus[], key: string) {
+  return findStatus(statuses, key)?.category === "done"
+}
+
+// 返回阻塞该任务且尚未完成的前置任务
+export function getOpenBlockers<T extends { id: string; status: string }>(
+  task: { blockedBy?: string[] },
+  tasks: T[],
+  statuses: WorkflowStatus[],
+) {
+  const blockerIds = task.blockedBy || []
+  if (blockerIds.length === 0) return []
+  return tasks.filter((item) => blockerIds.includes(item.id) && !isDoneStatus(statuses, item.status))
+}
+
+// 检查任务能否从 from 状态移动到 to 状态，targetCount 为目标列中其他任务的数量
+// 返回不允许的原因，允许时返回 null
+export function checkStatusChange(statuses: WorkflowStatus[], from: string | null, to: string, targetCount: number) {
+  const target = findStatus(statuses, to)
+  if (!target) {
+    return `Invalid status "${to}" for this project`
+  }
+
+  if (from === to) return null
+
+  const source = from ? findStatus(statuses, from) : undefined
+  if (source?.allowedTransitions && !source.allowedTransitions.includes(to)) {
+    return `Tasks in "${source.name}" cannot be moved to "${target.name}"`
+  }
+
+  if (target.wipLimit && targetCount >= target.wipLimit) {
+    return `"${target.name}" has reached its WIP limit of ${target.wipLimit}`
+  }
+
+  return null
+}
+
+// 新任务默认进入第一个"未开始"状态
+export function getInitialStatus(statuses: WorkflowStatus[]) {
+  return (statuses.find((status) => status.category === "not-started") || statuses[0])?.key || "todo"
+}
@@ -0,0 +1,167 @@
+import type { CsvCell } from "./task-csv"
+
+// 生成只包含一个工作表的最小 .xlsx 文件（zip 条目不压缩），导出时无需引入额外依赖
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array) {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// 1980-01-01 00:00，zip 格式能表示的最早时间
+const DOS_DATE = 0x21
+
+function zip(files: { name: string; content: string }[]) {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const directory: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const data = encoder.encode(file.content)
+    const crc = crc32(data)
+
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(4, 20, true)
+    localView.setUint16(6, 0x0800, true) // 文件名使用 UTF-8
+    localView.setUint16(12, DOS_DATE, true)
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, data.length, true)
+    localView.setUint32(22, data.length, true)
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+
+    const entry = new Uint8Array(46 + name.length)
+    const entryView = new DataView(entry.buffer)
+    entryView.setUint32(0, 0x02014b50, true)
+    entryView.setUint16(4, 20, true)
+    entryView.setUint16(6, 20, true)
+    entryView.setUint16(8, 0x0800, true)
+    entryView.setUint16(14, DOS_DATE, true)
+    entryView.setUint32(16, crc, true)
+    entryView.setUint32(20, data.length, true)
+    entryView.setUint32(24, data.length, true)
+    entryView.setUint16(28, name.length, true)
+    entryView.setUint32(42, offset, true)
+    entry.set(name, 46)
+
+    parts.push(local, data)
+    directory.push(entry)
+    offset += local.length + data.length
+  }
+
+  const directorySize = directory.reduce((size, entry) => size + entry.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, files.length, true)
+  endView.setUint16(10, files.length, true)
+  endView.setUint32(12, directorySize, true)
+  endView.setUint32(16, offset, true)
+
+  const output = new Uint8Array(offset + directorySize + end.length)
+  let position = 0
+  for (const part of [...parts, ...directory, end]) {
+    output.set(part, position)
+    position += part.length
+  }
+  return output
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+}
+
+// 0 -> A，25 -> Z，26 -> AA
+function columnName(index: number) {
+  let name = ""
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+function cellXml(value: CsvCell, ref: string) {
+  if (value === null || value === undefined || value === "") return ""
+  if (typeof value === "number") return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : ""
+  if (typeof value === "boolean") return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+const SPREADSHEET_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main"
+const RELATIONSHIP_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships"
+
+export function buildXlsx(rows: CsvCell[][], sheetName = "Sheet1") {
+  // 工作表名最长 31 个字符，且不能包含 []:*?/\
+  const safeName = sheetName
+    .replace(/[[\]:*?/\\]/g, " ")
+    .slice(0, 31)
+    .trim()
+  const name = escapeXml(safeName || "Sheet1")
+  const sheetData = rows
+    .map(
+      (row, rowIndex) =>
+        `<row r="${rowIndex + 1}">${row.map((value, column) => cellXml(value, `${columnName(column)}${rowIndex + 1}`)).join("")}</row>`,
+    )
+    .join("")
+
+  return zip([
+    {
+      name: "[Content_Types].xml",
+      content:
+        `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        "</Types>",
+    },
+    {
+      name: "_rels/.rels",
+      content:
+        `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+        "</Relationships>",
+    },
+    {
+      name: "xl/workbook.xml",
+      content:
+        `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">` +
+        `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content:
+        `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        "</Relationships>",
+    },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      content: `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${sheetData}</sheetData></worksheet>`,
+    },
+  ])
+}
@@ -0,0 +1,15 @@
+-- 任务评论：只支持一层回复，parent_id 始终指向顶层评论
+-- 评论数由这张表统计得出，tasks.comments 列不再读写
+create table if not exists task_comments (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references tasks (id) on delete cascade,
+  parent_id uuid references task_comments (id) on delete cascade,
+  author_name text not null,
+  author_initials text not null,
+  body text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists task_comments_task_id_idx on task_comments (task_id, created_at);
+create index if not exists task_comments_parent_id_idx on task_comments (parent_id);
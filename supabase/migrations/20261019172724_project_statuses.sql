@@ -0,0 +1,13 @@
+-- 项目工作流状态，order 即看板列的顺序；项目没有状态时使用默认的四列（见 lib/workflow.ts）
+create table if not exists project_statuses (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects (id) on delete cascade,
+  key text not null,
+  name text not null,
+  color text not null default '#6b7280',
+  category text not null check (category in ('not-started', 'active', 'done')),
+  "order" integer not null default 0,
+  unique (project_id, key)
+);
+
+create index if not exists project_statuses_project_id_idx on project_statuses (project_id, "order");
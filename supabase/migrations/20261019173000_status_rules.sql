@@ -0,0 +1,4 @@
+-- 状态的 WIP 上限和允许流转到的状态 key，为空表示不限制
+alter table project_statuses
+  add column if not exists wip_limit integer check (wip_limit > 0),
+  add column if not exists allowed_transitions text[];
@@ -0,0 +1,76 @@
+-- 账户与项目成员：邮箱不区分大小写，由应用层统一转成小写后写入
+create table if not exists users (
+  id uuid primary key default gen_random_uuid(),
+  email text not null unique,
+  name text not null,
+  initials text not null,
+  password_hash text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists project_members (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects (id) on delete cascade,
+  user_id uuid not null references users (id) on delete cascade,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamptz not null default now(),
+  unique (project_id, user_id)
+);
+
+create index if not exists project_members_user_id_idx on project_members (user_id);
+
+-- 邀请按邮箱发出，接受后写入 accepted_at 并创建成员
+create table if not exists project_invitations (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  token text not null unique,
+  invited_by uuid references users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  accepted_at timestamptz
+);
+
+create index if not exists project_invitations_project_id_idx on project_invitations (project_id);
+
+-- 负责人指向项目成员的 user_id；assignee_name/assignee_initials 保留为显示字段
+alter table tasks add column if not exists assignee_id uuid references users (id) on delete set null;
+
+create index if not exists tasks_assignee_id_idx on tasks (assignee_id);
+
+-- 评论作者：只有作者和项目所有者可以修改或删除评论，之前的评论没有作者
+alter table task_comments add column if not exists author_id uuid references users (id) on delete set null;
+
+-- 账户功能之前创建的项目没有成员，任何人都无法访问。管理员注册账户后执行一次
+--   select assign_unowned_projects('admin@example.com');
+-- 把这些项目交给指定账户作为所有者，返回分配的项目数；注册和登录不会认领任何项目
+create or replace function assign_unowned_projects(owner_email text) returns integer
+language plpgsql
+as $$
+declare
+  owner_id uuid;
+  assigned integer;
+begin
+  select id into owner_id from users where email = lower(owner_email);
+  if owner_id is null then
+    raise exception 'No user with email %', owner_email;
+  end if;
+
+  insert into project_members (project_id, user_id, role)
+  select projects.id, owner_id, 'owner'
+  from projects
+  where not exists (select 1 from project_members where project_members.project_id = projects.id);
+
+  get diagnostics assigned = row_count;
+  return assigned;
+end
+$$;
+
+-- 只允许服务端（service role）和数据库管理员调用
+revoke execute on function assign_unowned_projects(text) from public, anon, authenticated;
+
+-- 服务端使用 service role key 访问这些表；开启行级安全且不添加策略，
+-- anon 和 authenticated 角色（公开的 anon key）无法读写密码哈希、成员和邀请
+alter table users enable row level security;
+alter table project_members enable row level security;
+alter table project_invitations enable row level security;
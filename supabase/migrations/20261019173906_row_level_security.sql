@@ -0,0 +1,14 @@
+-- 权限检查在 API 路由中进行（lib/auth.ts），服务端使用 service role key 访问数据库。
+-- 为了不让公开的 anon key 绕过这些检查，所有表开启行级安全且不添加任何策略：
+-- anon 和 authenticated 角色无法读写，service role 不受影响
+alter table projects enable row level security;
+alter table tasks enable row level security;
+alter table tags enable row level security;
+alter table task_tags enable row level security;
+alter table custom_fields enable row level security;
+alter table task_custom_field_values enable row level security;
+alter table task_comments enable row level security;
+alter table project_statuses enable row level security;
+
+-- 视图以创建者的权限执行，不受行级安全限制，需要单独收回访问权限
+revoke all on projects_with_task_counts from anon, authenticated;
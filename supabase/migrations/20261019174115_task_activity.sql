@@ -0,0 +1,17 @@
+-- 任务的变更记录：每次修改一行，changes 保存字段级的前后值
+-- actor_id 为空表示由系统操作；actor_name 为冗余的显示字段，用户被删除后仍然保留
+create table if not exists task_activity (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references tasks (id) on delete cascade,
+  project_id uuid not null references projects (id) on delete cascade,
+  actor_id uuid references users (id) on delete set null,
+  actor_name text,
+  action text not null check (action in ('created', 'updated', 'reordered')),
+  changes jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_activity_task_id_idx on task_activity (task_id, created_at desc);
+create index if not exists task_activity_project_id_idx on task_activity (project_id);
+
+alter table task_activity enable row level security;
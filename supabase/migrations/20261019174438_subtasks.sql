@@ -0,0 +1,4 @@
+-- 子任务：parent_id 只能指向同一项目中的任务（由应用层校验），删除父任务时一起删除子任务
+alter table tasks add column if not exists parent_id uuid references tasks (id) on delete cascade;
+
+create index if not exists tasks_parent_id_idx on tasks (parent_id);
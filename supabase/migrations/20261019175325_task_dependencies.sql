@@ -0,0 +1,15 @@
+-- 任务依赖：blocker 完成之前 blocked 不应完成，两个任务必须属于同一项目；环由应用层检测
+create table if not exists task_dependencies (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects (id) on delete cascade,
+  blocker_id uuid not null references tasks (id) on delete cascade,
+  blocked_id uuid not null references tasks (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (blocker_id, blocked_id),
+  check (blocker_id <> blocked_id)
+);
+
+create index if not exists task_dependencies_project_id_idx on task_dependencies (project_id);
+create index if not exists task_dependencies_blocked_id_idx on task_dependencies (blocked_id);
+
+alter table task_dependencies enable row level security;
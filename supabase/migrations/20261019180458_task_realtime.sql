@@ -0,0 +1,20 @@
+-- 实时推送：服务端通过 Supabase Realtime 监听其他实例对任务和依赖关系的修改（见 SupabaseRepository.watchTasks）。
+-- 标签、自定义字段值的修改都会同时更新任务行的 updated_at，因此只需要发布这两张表
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array['tasks', 'task_dependencies'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = table_name
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', table_name);
+    end if;
+  end loop;
+end
+$$;
+
+-- 删除事件需要带上整行（project_id、blocked_id），否则无法按项目过滤和找到被阻塞的任务
+alter table tasks replica identity full;
+alter table task_dependencies replica identity full;
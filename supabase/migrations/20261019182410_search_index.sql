@@ -0,0 +1,84 @@
+-- 全局搜索：在去掉 HTML 的小写纯文本上按"包含"匹配（支持中文等不分词的文本），
+-- 用 pg_trgm 的 GIN 索引加速 like '%关键词%'，相关性排序和数量限制在数据库中完成
+create extension if not exists pg_trgm;
+
+-- 富文本转换为纯文本，与 lib/task-csv.ts 的 richTextToPlain 和 lib/search.ts 的 toSearchText 一致：
+-- 换行和块级元素结束处换成空白，去掉其余标签，还原常见实体，合并连续空白
+create or replace function strip_html(html text) returns text
+language sql immutable
+as $$
+  select trim(regexp_replace(
+    replace(
+      replace(replace(replace(replace(replace(
+        regexp_replace(
+          regexp_replace(coalesce(html, ''), '<br\s*/?>|</(p|div|li|h[1-6])>', ' ', 'gi'),
+          '<[^>]*>', '', 'g'),
+        '&nbsp;', ' '), '&lt;', '<'), '&gt;', '>'), '&quot;', '"'), '&#39;', ''''),
+      '&amp;', '&'),
+    '\s+', ' ', 'g'))
+$$;
+
+alter table projects add column if not exists search_text text
+  generated always as (lower(title || ' ' || strip_html(description))) stored;
+alter table tasks add column if not exists search_text text
+  generated always as (lower(title || ' ' || strip_html(description))) stored;
+alter table task_comments add column if not exists search_text text
+  generated always as (lower(strip_html(body))) stored;
+
+create index if not exists projects_search_text_idx on projects using gin (search_text gin_trgm_ops);
+create index if not exists tasks_search_text_idx on tasks using gin (search_text gin_trgm_ops);
+create index if not exists task_comments_search_text_idx on task_comments using gin (search_text gin_trgm_ops);
+
+-- patterns 是已经转义的小写 like 模式（'%关键词%'），必须全部匹配。
+-- 出现在标题中的关键词计 3 分，只出现在正文中的计 1 分；同分时较新的在前
+create or replace function search_projects(project_ids uuid[], patterns text[], max_results integer)
+returns setof projects
+language sql stable
+as $$
+  select p.*
+  from projects p
+  where p.id = any (project_ids) and p.search_text like all (patterns)
+  order by
+    (select sum(case when lower(p.title) like pattern then 3 else 1 end) from unnest(patterns) as pattern) desc,
+    coalesce(p.updated_at, p.created_at) desc
+  limit max_results
+$$;
+
+create or replace function search_tasks(project_ids uuid[], patterns text[], max_results integer)
+returns setof tasks
+language sql stable
+as $$
+  select t.*
+  from tasks t
+  where t.project_id = any (project_ids) and t.search_text like all (patterns)
+  order by
+    (select sum(case when lower(t.title) like pattern then 3 else 1 end) from unnest(patterns) as pattern) desc,
+    coalesce(t.updated_at, t.created_at) desc
+  limit max_results
+$$;
+
+-- 评论只按内容匹配，附带所属任务的项目和标题
+create or replace function search_comments(project_ids uuid[], patterns text[], max_results integer)
+returns table (
+  id uuid,
+  task_id uuid,
+  parent_id uuid,
+  author_id uuid,
+  author_name text,
+  author_initials text,
+  body text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  project_id uuid,
+  task_title text
+)
+language sql stable
+as $$
+  select c.id, c.task_id, c.parent_id, c.author_id, c.author_name, c.author_initials, c.body,
+    c.created_at, c.updated_at, t.project_id, t.title
+  from task_comments c
+  join tasks t on t.id = c.task_id
+  where t.project_id = any (project_ids) and c.search_text like all (patterns)
+  order by coalesce(c.updated_at, c.created_at) desc
+  limit max_results
+$$;
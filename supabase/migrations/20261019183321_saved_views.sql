@@ -0,0 +1,15 @@
+-- 保存的视图，config 为 JSON（见 lib/saved-views.ts）；is_shared 为 false 时只有 created_by 能看到
+create table if not exists saved_views (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects (id) on delete cascade,
+  name text not null,
+  config jsonb not null default '{}'::jsonb,
+  is_shared boolean not null default false,
+  created_by uuid references users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists saved_views_project_id_idx on saved_views (project_id, name);
+
+alter table saved_views enable row level security;
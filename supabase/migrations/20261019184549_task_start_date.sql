@@ -0,0 +1,2 @@
+-- 任务的开始日期，与 due_date 一起表示任务的计划时间段（时间线视图）；不晚于截止日期由应用层校验
+alter table tasks add column if not exists start_date date;
@@ -0,0 +1,14 @@
+-- 项目模板，content 为 JSON（见 lib/project-templates.ts）；模板只属于创建者，列表按 created_by 和 name 查询
+create table if not exists project_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text not null default '',
+  content jsonb not null default '{}'::jsonb,
+  created_by uuid references users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists project_templates_created_by_idx on project_templates (created_by, name);
+
+alter table project_templates enable row level security;
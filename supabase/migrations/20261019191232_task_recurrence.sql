@@ -0,0 +1,13 @@
+-- 重复任务：recurrence 为重复规则 JSON（见 lib/task-recurrence.ts），recurrence_index 是第几次（从 1 开始）。
+-- 生成下一次任务后写入 recurrence_next_id；新任务的 recurrence_source_id 指向上一次任务并且唯一，
+-- 同一任务在完成和到期时（或在多个实例中）同时生成时只有一个能写入
+alter table tasks add column if not exists recurrence jsonb;
+alter table tasks add column if not exists recurrence_index integer;
+alter table tasks add column if not exists recurrence_next_id uuid references tasks (id) on delete set null;
+alter table tasks add column if not exists recurrence_source_id uuid references tasks (id) on delete set null;
+
+create unique index if not exists tasks_recurrence_source_id_idx on tasks (recurrence_source_id);
+
+-- 定时任务查询到期、还没有生成下一次的重复任务
+create index if not exists tasks_due_recurring_idx on tasks (due_date)
+  where recurrence is not null and recurrence_next_id is null;
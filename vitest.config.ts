@@ -0,0 +1,15 @@
+import path from "path"
+import { defineConfig } from "vitest/config"
+
+// 测试使用进程内存储（STORAGE_DRIVER=memory），不依赖 Supabase
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    environment: "node",
+    include: ["**/__tests__/**/*.test.ts"],
+    exclude: ["node_modules", ".next"],
+    env: { STORAGE_DRIVER: "memory", TZ: "UTC" },
+  },
+})